@@ -0,0 +1,6 @@
+-- Migration number: 0005 	 2026-10-18T00:00:00.000Z
+-- Add structured start/end timestamps to schedule_dates
+-- datetime は表示用の候補文字列としてそのまま残し、解釈できた場合のみ UNIX 秒を保存する
+
+ALTER TABLE schedule_dates ADD COLUMN start_at INTEGER;
+ALTER TABLE schedule_dates ADD COLUMN end_at INTEGER;
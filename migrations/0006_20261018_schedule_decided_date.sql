@@ -0,0 +1,5 @@
+-- Migration number: 0006 	 2026-10-18T00:00:00.000Z
+-- Add decided_date_id to schedules
+-- 主催者が決定した開催日程（schedule_dates.date_id）を保存する
+
+ALTER TABLE schedules ADD COLUMN decided_date_id TEXT;
@@ -0,0 +1,5 @@
+-- Migration number: 0007 	 2026-10-18T00:00:00.000Z
+-- Add guild_event_id to schedules
+-- 決定日程から作成したDiscordサーバーイベントのIDを保存し、スケジュール編集時に同期する
+
+ALTER TABLE schedules ADD COLUMN guild_event_id TEXT;
@@ -0,0 +1,19 @@
+-- Migration number: 0008 	 2026-10-18T00:00:00.000Z
+-- Add guild_settings and user_settings tables
+-- サーバー単位のタイムゾーン設定と、ユーザー単位の上書き設定を保存する
+
+CREATE TABLE IF NOT EXISTS guild_settings (
+  guild_id TEXT PRIMARY KEY,
+  timezone TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  guild_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  timezone TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (guild_id, user_id)
+);
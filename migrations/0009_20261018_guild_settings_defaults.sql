@@ -0,0 +1,10 @@
+-- Migration number: 0009 	 2026-10-18T00:00:00.000Z
+-- Add default reminder / result visibility settings to guild_settings
+-- サーバー管理者が設定したリマインダー・メンションの既定値と、締切前の結果公開設定を保存する
+-- 結果公開設定は作成時にスケジュールへ保存し、設定変更が既存の日程調整に影響しないようにする
+
+ALTER TABLE guild_settings ADD COLUMN default_reminder_timings TEXT;
+ALTER TABLE guild_settings ADD COLUMN default_reminder_mentions TEXT;
+ALTER TABLE guild_settings ADD COLUMN hide_results_before_close INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE schedules ADD COLUMN hide_results_before_close INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- Migration number: 0010 	 2026-10-18T00:00:00.000Z
+-- Add invited members (expected participants) to schedules
+-- 回答を期待する参加予定者をユーザーIDまたはロールIDのJSON配列で保存し、未回答者の算出に使う
+
+ALTER TABLE schedules ADD COLUMN invited_user_ids TEXT;
+ALTER TABLE schedules ADD COLUMN invited_role_ids TEXT;
@@ -0,0 +1,5 @@
+-- Migration number: 0011 	 2026-10-18T00:00:00.000Z
+-- Add reminder mention mode to schedules
+-- リマインダーのメンション先（NULLまたは'mentions': 設定した通知先 / 'non_respondents': 参加予定者のうち未回答者のみ）
+
+ALTER TABLE schedules ADD COLUMN reminder_mode TEXT;
@@ -0,0 +1,5 @@
+-- Migration number: 0012 	 2026-10-18T00:00:00.000Z
+-- Add opt-in DM reminders to schedules
+-- 締切リマインダーを未回答の参加予定者へDMでも送るか（0: 送らない / 1: 送る）
+
+ALTER TABLE schedules ADD COLUMN dm_reminders INTEGER DEFAULT 0;
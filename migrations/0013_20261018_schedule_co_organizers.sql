@@ -0,0 +1,5 @@
+-- Migration number: 0013 	 2026-10-18T00:00:00.000Z
+-- Add co-organizers to schedules
+-- 作成者と同様に編集・締切・日程決定ができる共同主催者のユーザーID（JSON配列）
+
+ALTER TABLE schedules ADD COLUMN co_organizer_ids TEXT;
@@ -0,0 +1,22 @@
+-- Migration number: 0014 	 2026-10-18T00:00:00.000Z
+-- Add schedule_templates table
+-- サーバー内で再利用できる日程調整のテンプレート（タイトル・説明・候補・リマインダー・参加予定者）を名前付きで保存する
+
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id TEXT PRIMARY KEY,
+  guild_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  dates TEXT NOT NULL,
+  reminder_timings TEXT,
+  reminder_mentions TEXT,
+  invited_user_ids TEXT,
+  invited_role_ids TEXT,
+  created_by_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  UNIQUE (guild_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_templates_guild ON schedule_templates(guild_id);
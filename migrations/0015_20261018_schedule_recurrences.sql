@@ -0,0 +1,32 @@
+-- Migration number: 0015 	 2026-10-18T00:00:00.000Z
+-- Add schedule_recurrences table
+-- 毎週決まったタイミングで日程調整を自動作成する定期作成の設定（作成内容・候補ルール・次回作成日時）を保存する
+
+CREATE TABLE IF NOT EXISTS schedule_recurrences (
+  id TEXT PRIMARY KEY,
+  guild_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_username TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  reminder_timings TEXT,
+  reminder_mentions TEXT,
+  reminder_mode TEXT,
+  dm_reminders INTEGER NOT NULL DEFAULT 0,
+  invited_user_ids TEXT,
+  invited_role_ids TEXT,
+  run_weekday INTEGER NOT NULL,
+  run_time TEXT NOT NULL,
+  timezone TEXT NOT NULL,
+  candidate_rule TEXT NOT NULL,
+  deadline_offset TEXT,
+  paused INTEGER NOT NULL DEFAULT 0,
+  next_run_at INTEGER NOT NULL,
+  last_run_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_recurrences_guild ON schedule_recurrences(guild_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_recurrences_due ON schedule_recurrences(paused, next_run_at);
@@ -3,15 +3,134 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Discord Application Command Option Types
+const SUB_COMMAND = 1;
+const STRING = 3;
+const INTEGER = 4;
+
+interface CommandOptionChoice {
+  name: string;
+  value: string;
+}
+
+interface CommandOption {
+  type: number;
+  name: string;
+  description: string;
+  required?: boolean;
+  choices?: CommandOptionChoice[];
+  options?: CommandOption[];
+  min_value?: number;
+  max_value?: number;
+  autocomplete?: boolean;
+}
+
 interface Command {
   name: string;
   description: string;
+  options?: CommandOption[];
 }
 
 const commands: Command[] = [
   {
     name: 'chouseichan',
-    description: '新しい日程調整を作成',
+    description: '日程調整ボット',
+    options: [
+      {
+        type: SUB_COMMAND,
+        name: 'create',
+        description: '新しい日程調整を作成',
+        options: [
+          {
+            type: STRING,
+            name: 'template',
+            description: '内容を入力済みにするテンプレート',
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'clone',
+        description: '既存の日程調整を複製して新しく作成',
+        options: [
+          {
+            type: STRING,
+            name: 'title',
+            description: '複製する日程調整のタイトル（部分一致・省略時はこのチャンネルの最新）',
+          },
+          {
+            type: INTEGER,
+            name: 'days',
+            description: '日時の候補と締切を何日後にずらすか',
+            min_value: 0,
+            max_value: 365,
+          },
+          {
+            type: INTEGER,
+            name: 'weeks',
+            description: '日時の候補と締切を何週間後にずらすか',
+            min_value: 0,
+            max_value: 52,
+          },
+        ],
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'templates',
+        description: 'このサーバーのテンプレート一覧を表示・削除',
+        options: [
+          {
+            type: STRING,
+            name: 'delete',
+            description: '削除するテンプレート（保存したメンバーとモデレーターのみ）',
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'recurring',
+        description: 'このサーバーの定期作成一覧を表示・一時停止・削除',
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'list',
+        description: 'このチャンネルの日程調整一覧を表示',
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'help',
+        description: '使い方を表示',
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'timezone',
+        description: '日時の入力・表示に使うタイムゾーンを設定（省略時は現在の設定を表示）',
+        options: [
+          {
+            type: STRING,
+            name: 'timezone',
+            description:
+              'IANA形式のタイムゾーン（例: Asia/Tokyo, America/New_York）。個人設定は reset で解除',
+          },
+          {
+            type: STRING,
+            name: 'scope',
+            description: '設定の対象（既定は自分のみ）',
+            choices: [
+              { name: '自分のみ', value: 'user' },
+              { name: 'サーバー全体（サーバー管理権限が必要）', value: 'guild' },
+            ],
+          },
+        ],
+      },
+      {
+        type: SUB_COMMAND,
+        name: 'settings',
+        description: 'サーバーの既定設定を変更（サーバー管理権限が必要）',
+      },
+    ],
   },
 ];
 
@@ -59,12 +59,60 @@ export const ERROR_MESSAGES = {
   INTERNAL_ERROR: '処理中にエラーが発生しました。',
   PERMISSION_DENIED: '権限がありません。',
   SCHEDULE_CLOSED: 'この日程調整は既に締め切られています。',
+  SCHEDULE_NOT_CLOSED: 'この日程調整は締め切られていません。',
+  INVALID_CLONE_SHIFT: '候補日をずらす日数は0〜365日の範囲で指定してください。',
+  REOPEN_DEADLINE_PASSED:
+    '締切日時が過ぎているため再開できません。新しい締切日時を指定するか、空白にして無期限にしてください。',
+  TEMPLATE_NOT_FOUND: 'テンプレートが見つかりません。',
+  INVALID_TEMPLATE_NAME: 'テンプレート名は1〜50文字で入力してください。',
+  TEMPLATE_QUOTA_EXCEEDED:
+    'このサーバーに保存できるテンプレートは25件までです。不要なテンプレートを削除してください。',
+  TEMPLATE_PERMISSION_DENIED:
+    'このテンプレートを上書き・削除できるのは、保存したメンバーとサーバーのモデレーターのみです。',
+  RECURRENCE_NOT_FOUND: '定期作成が見つかりません。',
+  INVALID_RECURRENCE_RUN_TIMING:
+    '作成タイミングは「月 09:00」のように曜日と時刻で入力してください。',
+  INVALID_CANDIDATE_RULE:
+    '候補日のルールは「来週 火-木 20:00」のように週・曜日・時刻で入力してください。',
+  INVALID_DEADLINE_OFFSET:
+    '締切は「1d」「12h」「30m」のように、最初の候補の何日・何時間・何分前かで入力してください。',
+  RECURRENCE_NO_CANDIDATES:
+    '候補日のルールから候補日が作成されません。週や曜日の指定を見直してください。',
+  RECURRENCE_TOO_MANY_CANDIDATES: '候補日のルールから作成される候補日が50件を超えています。',
+  RECURRENCE_DEADLINE_TOO_EARLY:
+    '締切が作成タイミングより前になります。締切をもっと短く指定してください。',
+  RECURRENCE_QUOTA_EXCEEDED:
+    'このサーバーに登録できる定期作成は10件までです。不要な定期作成を削除してください。',
+  RECURRENCE_PERMISSION_DENIED:
+    'この定期作成を変更・削除できるのは、登録したメンバーとサーバーのモデレーターのみです。',
   UNKNOWN_BUTTON: '不明なボタンです。',
   UNKNOWN_MODAL: '不明なモーダルです。',
   UNKNOWN_COMMAND: '不明なコマンドです。',
   DATES_REQUIRED: '日程候補を入力してください。',
+  NO_GENERATED_CANDIDATES:
+    'ルールに当てはまる今後の日程候補がありません。期間・曜日・時刻の指定を見直してください。',
+  DATE_LIMIT_REACHED: '日程候補は50個までのため、これ以上追加できません。',
+  CANDIDATE_PREVIEW_UNAVAILABLE:
+    '確認画面の内容を読み取れませんでした。もう一度フォームから入力してください。',
   TITLE_REQUIRED: 'タイトルを入力してください。',
   INVALID_DEADLINE_FORMAT: '締切日時の形式が正しくありません。',
+  DATE_NOT_FOUND: '指定された日程が見つかりません。',
+  SCHEDULE_NOT_DECIDED: '開催日程がまだ決定されていません。',
+  EVENT_TIME_UNRESOLVED:
+    '決定した日程の日時を解釈できないため、イベントを作成できません。「12/25 19:00」のような形式で日程を入力してください。',
+  EVENT_START_IN_PAST: '開催日時が過去のため、イベントを作成できません。',
+  GUILD_EVENT_FAILED:
+    'Discordイベントの作成に失敗しました。ボットに「イベントの管理」権限があるか確認してください。',
+  INVALID_TIMEZONE:
+    'タイムゾーンの形式が正しくありません。「Asia/Tokyo」「America/New_York」のようなIANA形式で入力してください。',
+  INVALID_REMINDER_TIMINGS:
+    'リマインダーのタイミングの形式が正しくありません。「3d, 1d, 8h, 30m」のように入力してください（最大5個）。',
+  INVALID_REMINDER_MENTIONS:
+    'メンションの形式が正しくありません。「@here, @everyone, <@&ロールID>」のように入力してください。',
+  MANAGE_GUILD_REQUIRED: 'この操作には「サーバー管理」権限が必要です。',
+  SCHEDULE_QUOTA_EXCEEDED:
+    'このサーバーで受付中の日程調整が上限に達しています。不要になった日程調整を締め切るか削除してください。',
+  RESPONSE_QUOTA_EXCEEDED: 'この日程調整の回答者数が上限に達しています。',
 } as const;
 
 // 通知関連定数
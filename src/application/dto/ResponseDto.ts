@@ -4,6 +4,8 @@
  * 回答関連のデータ転送用オブジェクト
  */
 
+import type { QuotaExceededError } from '../../domain/errors/DomainErrors';
+
 export interface SubmitResponseRequestDto {
   scheduleId: string;
   guildId: string;
@@ -14,6 +16,7 @@ export interface SubmitResponseRequestDto {
     dateId: string;
     status: 'ok' | 'maybe' | 'ng';
   }>;
+  comment?: string; // 指定しない場合は既存のコメントを保持
 }
 
 export interface UpdateResponseRequestDto {
@@ -24,6 +27,7 @@ export interface UpdateResponseRequestDto {
     dateId: string;
     status: 'ok' | 'maybe' | 'ng';
   }>;
+  comment?: string; // 空文字でコメントを削除
 }
 
 export interface GetResponseRequestDto {
@@ -37,6 +41,8 @@ export interface ResponseSubmissionResultDto {
   response: ResponseDto;
   isNewResponse: boolean;
   errors?: string[];
+  // 回答者数が上限に達していて新規回答を受け付けられない場合のみ設定される
+  quotaExceeded?: QuotaExceededError;
 }
 
 export interface ResponseDto {
@@ -45,6 +51,7 @@ export interface ResponseDto {
   username: string;
   displayName?: string;
   dateStatuses: Record<string, 'ok' | 'maybe' | 'ng'>;
+  comment?: string;
   updatedAt: string; // ISO string
 }
 
@@ -6,6 +6,13 @@
 
 import type { ResponseDto } from './ResponseDto';
 
+export interface ScheduleDateDto {
+  id: string;
+  datetime: string; // 候補の表示文字列
+  startAt?: string; // ISO文字列（候補文字列から解釈できた場合のみ）
+  endAt?: string; // ISO文字列
+}
+
 export interface CreateScheduleRequestDto {
   guildId: string;
   channelId: string;
@@ -14,13 +21,40 @@ export interface CreateScheduleRequestDto {
   authorDisplayName?: string;
   title: string;
   description?: string;
-  dates: Array<{
-    id: string;
-    datetime: string;
-  }>;
+  dates: ScheduleDateDto[];
   deadline?: string; // ISO文字列
   reminderTimings?: string[];
   reminderMentions?: string[];
+  reminderMode?: 'mentions' | 'non_respondents';
+  dmReminders?: boolean;
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
+}
+
+export interface CloneScheduleRequestDto {
+  scheduleId: string;
+  guildId: string;
+  shiftDays?: number; // 日時として解釈できた候補と締切をずらす日数
+  timeZone?: string; // 日数をずらす暦と候補の表示に使うタイムゾーン
+}
+
+/**
+ * 作成モーダルの初期値と、作成時に引き継ぐ設定
+ * 複製元の日程調整かテンプレートのどちらかのIDを持つ
+ */
+export interface ScheduleDraftDto {
+  sourceScheduleId?: string;
+  templateId?: string;
+  title: string;
+  description?: string;
+  dates: ScheduleDateDto[];
+  deadline?: string; // ISO文字列（過去になる場合は含めない）
+  reminderTimings?: string[];
+  reminderMentions?: string[];
+  reminderMode?: 'mentions' | 'non_respondents';
+  dmReminders?: boolean;
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
 }
 
 export interface UpdateScheduleRequestDto {
@@ -31,29 +65,55 @@ export interface UpdateScheduleRequestDto {
   description?: string;
   deadline?: string | null; // ISO文字列またはnullで削除
   messageId?: string;
-  dates?: Array<{
-    id: string;
-    datetime: string;
-  }>;
+  dates?: ScheduleDateDto[];
   reminderTimings?: string[];
   reminderMentions?: string[];
   reminderStates?: Record<string, never>; // 締切変更時にリマインダー状態をリセットするための空オブジェクト
+  invitedUserIds?: string[]; // 指定した場合のみ参加予定者（ユーザー）を置き換える
+  invitedRoleIds?: string[]; // 指定した場合のみ参加予定者（ロール）を置き換える
+  reminderMode?: 'mentions' | 'non_respondents';
+  dmReminders?: boolean;
+  coOrganizerIds?: string[]; // 指定した場合のみ共同主催者を置き換える
+  newOwner?: { id: string; username: string; displayName?: string }; // 指定した場合は作成者を譲渡する
+  editorPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
 }
 
 export interface AddDatesRequestDto {
   scheduleId: string;
   guildId: string;
   editorUserId: string;
-  dates: Array<{
-    id: string;
-    datetime: string;
-  }>;
+  dates: ScheduleDateDto[];
 }
 
 export interface CloseScheduleRequestDto {
   scheduleId: string;
   guildId: string;
   editorUserId: string;
+  editorPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
+}
+
+export interface DecideScheduleRequestDto {
+  scheduleId: string;
+  guildId: string;
+  editorUserId: string;
+  editorPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
+  dateId: string;
+}
+
+export interface ReopenScheduleRequestDto {
+  scheduleId: string;
+  guildId: string;
+  editorUserId: string;
+  editorPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
+  deadline?: string | null; // 省略時は現在の締切を維持、nullで締切なし
+}
+
+export interface CreateGuildEventRequestDto {
+  scheduleId: string;
+  guildId: string;
+  editorUserId: string;
+  editorPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
+  voiceChannelId?: string; // 指定時はボイスチャンネルイベントとして作成
 }
 
 export interface ScheduleResponseDto {
@@ -63,10 +123,7 @@ export interface ScheduleResponseDto {
   messageId?: string;
   title: string;
   description?: string;
-  dates: Array<{
-    id: string;
-    datetime: string;
-  }>;
+  dates: ScheduleDateDto[];
   createdBy: {
     id: string;
     username: string;
@@ -80,6 +137,14 @@ export interface ScheduleResponseDto {
   status: 'open' | 'closed';
   notificationSent: boolean;
   totalResponses: number;
+  decidedDateId?: string; // 決定した日程のID
+  guildEventId?: string; // 作成したDiscordサーバーイベントのID
+  hideResultsBeforeClose?: boolean; // 締切まで集計結果を作成者以外に非公開にするか
+  invitedUserIds?: string[]; // 回答を期待する参加予定者（ユーザー）
+  invitedRoleIds?: string[]; // 回答を期待する参加予定者（ロール）
+  reminderMode?: 'mentions' | 'non_respondents'; // リマインダーで未回答者のみにメンションするか
+  dmReminders?: boolean; // 未回答者にDMでもリマインドするか
+  coOrganizerIds?: string[]; // 作成者と同様に編集・締切・日程決定ができる共同主催者
   createdAt: string; // ISO文字列
   updatedAt: string; // ISO文字列
 }
@@ -102,6 +167,7 @@ export interface ScheduleSummaryResponseDto {
       scores: Record<string, number>;
     };
   };
+  timeZone?: string; // 候補の祝日の判定に使うサーバーのタイムゾーン（未設定なら省略）
 }
 
 // ResponseDto is defined in ResponseDto.ts - import from there if needed
@@ -0,0 +1,41 @@
+/**
+ * Schedule Recurrence DTOs
+ *
+ * 日程調整の定期作成関連のデータ転送オブジェクト
+ */
+
+export interface ScheduleRecurrenceDto {
+  id: string;
+  guildId: string;
+  channelId: string;
+  authorId: string;
+  title: string;
+  runTiming: string; // 表示用 例: "毎週月曜 09:00"
+  timezone: string;
+  candidateRule: string;
+  deadlineOffset?: string;
+  paused: boolean;
+  nextRunAt: string; // ISO文字列
+  lastRunAt?: string; // ISO文字列
+  createdAt: string; // ISO文字列
+  updatedAt: string; // ISO文字列
+}
+
+export interface CreateScheduleRecurrenceRequestDto {
+  scheduleId: string; // 作成内容（タイトル・説明・リマインダー・参加予定者）の元になる日程調整
+  guildId: string;
+  editorUserId: string;
+  editorUsername: string;
+  editorPermissions?: string;
+  runTiming: string; // 例: "月 09:00"
+  candidateRule: string; // 例: "来週 火-木 20:00"
+  deadlineOffset?: string; // 例: "1d"
+  timeZone: string; // 作成タイミングと候補日を解釈するタイムゾーン
+}
+
+export interface ManageScheduleRecurrenceRequestDto {
+  recurrenceId: string;
+  guildId: string;
+  editorUserId: string;
+  editorPermissions?: string;
+}
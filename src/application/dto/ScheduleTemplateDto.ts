@@ -0,0 +1,36 @@
+/**
+ * Schedule Template DTOs
+ *
+ * 日程調整テンプレート関連のデータ転送オブジェクト
+ */
+
+export interface ScheduleTemplateDto {
+  id: string;
+  guildId: string;
+  name: string;
+  title: string;
+  description?: string;
+  dates: string[];
+  reminderTimings?: string[];
+  reminderMentions?: string[];
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
+  createdById: string;
+  createdAt: string; // ISO文字列
+  updatedAt: string; // ISO文字列
+}
+
+export interface SaveScheduleTemplateRequestDto {
+  scheduleId: string;
+  guildId: string;
+  name: string;
+  editorUserId: string;
+  editorPermissions?: string; // 同名テンプレートの上書き権限の判定に使う
+}
+
+export interface DeleteScheduleTemplateRequestDto {
+  guildId: string;
+  name: string;
+  editorUserId: string;
+  editorPermissions?: string;
+}
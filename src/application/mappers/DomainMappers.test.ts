@@ -59,6 +59,12 @@ describe('DomainMappers', () => {
         status: 'open',
         notificationSent: false,
         totalResponses: 5,
+        hideResultsBeforeClose: false,
+        invitedUserIds: [],
+        invitedRoleIds: [],
+        reminderMode: 'mentions',
+        dmReminders: false,
+        coOrganizerIds: [],
         createdAt: '2024-01-01T10:00:00.000Z',
         updatedAt: '2024-01-02T15:30:00.000Z',
       });
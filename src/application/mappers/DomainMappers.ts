@@ -9,16 +9,20 @@ import { ResponseStatus } from '../../domain/entities/ResponseStatus';
 import { Schedule, ScheduleStatus } from '../../domain/entities/Schedule';
 import { ScheduleDate } from '../../domain/entities/ScheduleDate';
 import { User } from '../../domain/entities/User';
-import type { DomainResponse, DomainSchedule } from '../../domain/types/DomainTypes';
+import type {
+  DomainResponse,
+  DomainSchedule,
+  DomainScheduleDate,
+} from '../../domain/types/DomainTypes';
 import type { ResponseDto } from '../dto/ResponseDto';
-import type { ScheduleResponseDto } from '../dto/ScheduleDto';
+import type { ScheduleDateDto, ScheduleResponseDto } from '../dto/ScheduleDto';
 
 /**
  * DomainScheduleをScheduleエンティティに変換
  */
 export function mapDomainScheduleToEntity(data: DomainSchedule): Schedule {
   const user = User.create(data.createdBy.id, data.createdBy.username);
-  const dates = data.dates.map((d) => ScheduleDate.create(d.id, d.datetime));
+  const dates = data.dates.map((d) => ScheduleDate.fromPrimitives(d));
 
   return Schedule.create({
     id: data.id,
@@ -37,6 +41,14 @@ export function mapDomainScheduleToEntity(data: DomainSchedule): Schedule {
     status: data.status === 'open' ? ScheduleStatus.OPEN : ScheduleStatus.CLOSED,
     notificationSent: data.notificationSent,
     totalResponses: data.totalResponses,
+    decidedDateId: data.decidedDateId,
+    guildEventId: data.guildEventId,
+    hideResultsBeforeClose: data.hideResultsBeforeClose,
+    invitedUserIds: data.invitedUserIds,
+    invitedRoleIds: data.invitedRoleIds,
+    reminderMode: data.reminderMode,
+    dmReminders: data.dmReminders,
+    coOrganizerIds: data.coOrganizerIds,
     createdAt: data.createdAt,
     updatedAt: data.updatedAt,
   });
@@ -59,6 +71,7 @@ export function mapDomainResponseToEntity(data: DomainResponse): Response {
     scheduleId: data.scheduleId,
     user,
     dateStatuses,
+    comment: data.comment,
     updatedAt: data.updatedAt,
   });
 }
@@ -78,10 +91,7 @@ export function mapScheduleToResponseDto(schedule: Schedule): ScheduleResponseDt
     messageId: primitives.messageId,
     title: primitives.title,
     description: primitives.description,
-    dates: primitives.dates.map((date) => ({
-      id: date.id,
-      datetime: date.datetime,
-    })),
+    dates: primitives.dates.map(mapScheduleDateToDto),
     createdBy: {
       id: primitives.createdBy.id,
       username: primitives.createdBy.username,
@@ -95,11 +105,43 @@ export function mapScheduleToResponseDto(schedule: Schedule): ScheduleResponseDt
     status: primitives.status,
     notificationSent: primitives.notificationSent,
     totalResponses: primitives.totalResponses,
+    decidedDateId: primitives.decidedDateId,
+    guildEventId: primitives.guildEventId,
+    hideResultsBeforeClose: primitives.hideResultsBeforeClose,
+    invitedUserIds: primitives.invitedUserIds,
+    invitedRoleIds: primitives.invitedRoleIds,
+    reminderMode: primitives.reminderMode,
+    dmReminders: primitives.dmReminders,
+    coOrganizerIds: primitives.coOrganizerIds,
     createdAt: primitives.createdAt.toISOString(),
     updatedAt: primitives.updatedAt.toISOString(),
   };
 }
 
+/**
+ * 日程候補をDTOに変換（開始・終了日時はISO文字列）
+ */
+export function mapScheduleDateToDto(date: DomainScheduleDate): ScheduleDateDto {
+  return {
+    id: date.id,
+    datetime: date.datetime,
+    startAt: date.startAt?.toISOString(),
+    endAt: date.endAt?.toISOString(),
+  };
+}
+
+/**
+ * 日程候補のDTOをScheduleDateエンティティに変換
+ */
+export function mapScheduleDateDtoToEntity(dto: ScheduleDateDto): ScheduleDate {
+  return ScheduleDate.create(
+    dto.id,
+    dto.datetime,
+    dto.startAt ? new Date(dto.startAt) : undefined,
+    dto.endAt ? new Date(dto.endAt) : undefined
+  );
+}
+
 /**
  * ResponseエンティティをResponseDtoに変換
  */
@@ -114,6 +156,7 @@ export function mapResponseToDto(response: Response): ResponseDto {
     dateStatuses: Object.fromEntries(
       Object.entries(primitives.dateStatuses).map(([key, value]) => [key, value as string])
     ) as Record<string, 'ok' | 'maybe' | 'ng'>,
+    comment: primitives.comment,
     updatedAt: primitives.updatedAt.toISOString(),
   };
 }
@@ -130,6 +173,14 @@ export class ScheduleMapper {
   static toDomain(data: DomainSchedule): Schedule {
     return mapDomainScheduleToEntity(data);
   }
+
+  static dateToDto(date: DomainScheduleDate): ScheduleDateDto {
+    return mapScheduleDateToDto(date);
+  }
+
+  static dateFromDto(dto: ScheduleDateDto): ScheduleDate {
+    return mapScheduleDateDtoToEntity(dto);
+  }
 }
 
 /**
@@ -5,10 +5,17 @@
  */
 
 export interface DeadlineReminderTask {
-  type: 'send_reminder' | 'close_schedule' | 'send_summary';
+  type: 'send_reminder' | 'send_dm_reminder' | 'close_schedule' | 'send_summary';
   scheduleId: string;
   guildId: string;
   customMessage?: string;
+  /** send_dm_reminder のDM送信先 */
+  userId?: string;
+}
+
+export interface DeadlineReminderSendOptions {
+  /** キューから配信されるまでの遅延秒数（DM送信の間隔を空けるために使用） */
+  readonly delaySeconds?: number;
 }
 
 export interface DeadlineReminderQueuePort {
@@ -20,5 +27,5 @@ export interface DeadlineReminderQueuePort {
   /**
    * バッチのタスクをキューに送信
    */
-  sendBatch(tasks: DeadlineReminderTask[]): Promise<void>;
+  sendBatch(tasks: DeadlineReminderTask[], options?: DeadlineReminderSendOptions): Promise<void>;
 }
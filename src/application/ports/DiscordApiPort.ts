@@ -19,6 +19,12 @@ export interface SendMessageOptions {
   readonly botToken: string;
 }
 
+export interface SendDirectMessageOptions {
+  readonly userId: string;
+  readonly message: object;
+  readonly botToken: string;
+}
+
 export interface SendNotificationOptions {
   readonly channelId: string;
   readonly content: string;
@@ -32,6 +38,40 @@ export interface SearchGuildMembersOptions {
   readonly limit?: number;
 }
 
+export interface ListGuildMembersOptions {
+  readonly guildId: string;
+  readonly botToken: string;
+}
+
+export interface GuildMemberSummary {
+  readonly user: { id: string; username: string; bot?: boolean };
+  readonly roles: string[];
+}
+
+export interface GuildScheduledEventDetails {
+  readonly name: string;
+  readonly description?: string;
+  readonly scheduledStartTime: Date;
+  readonly scheduledEndTime: Date;
+  /** 指定時はボイスチャンネルイベント、未指定時は外部イベント */
+  readonly voiceChannelId?: string;
+  /** 外部イベントの場所 */
+  readonly location?: string;
+}
+
+export interface CreateGuildScheduledEventOptions {
+  readonly guildId: string;
+  readonly event: GuildScheduledEventDetails;
+  readonly botToken: string;
+}
+
+export interface UpdateGuildScheduledEventOptions {
+  readonly guildId: string;
+  readonly eventId: string;
+  readonly event: Partial<GuildScheduledEventDetails>;
+  readonly botToken: string;
+}
+
 export interface IDiscordApiPort {
   /**
    * メッセージを更新
@@ -43,6 +83,11 @@ export interface IDiscordApiPort {
    */
   sendMessage(options: SendMessageOptions): Promise<{ id: string }>;
 
+  /**
+   * ユーザーにDMを送信（DMチャンネルの作成を含む）
+   */
+  sendDirectMessage(options: SendDirectMessageOptions): Promise<{ id: string }>;
+
   /**
    * 通知を送信
    */
@@ -56,4 +101,19 @@ export interface IDiscordApiPort {
       user: { id: string; username: string; discriminator: string };
     }>
   >;
+
+  /**
+   * ギルドメンバー一覧を取得（ロールに所属するメンバーの解決に使用）
+   */
+  listGuildMembers(options: ListGuildMembersOptions): Promise<GuildMemberSummary[]>;
+
+  /**
+   * サーバーイベントを作成
+   */
+  createGuildScheduledEvent(options: CreateGuildScheduledEventOptions): Promise<{ id: string }>;
+
+  /**
+   * サーバーイベントを更新
+   */
+  updateGuildScheduledEvent(options: UpdateGuildScheduledEventOptions): Promise<void>;
 }
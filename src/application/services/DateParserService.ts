@@ -5,15 +5,85 @@
  * Domain層のユーティリティをApplication層でラップ
  */
 
-import { parseUserInputDate } from '../../domain/utils/date';
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+import {
+  type CandidateLineExpansion,
+  expandCandidateLines,
+} from '../../domain/utils/candidate-rule';
+import {
+  annotateCandidateHoliday,
+  type CandidateDateRange,
+  DEFAULT_TIMEZONE,
+  findWeekdayMismatch,
+  parseCandidateDateRange,
+  parseUserInputDate,
+  type WeekdayMismatch,
+} from '../../domain/utils/date';
 import { generateId } from '../../domain/utils/id';
+import type { ScheduleDateDto } from '../dto/ScheduleDto';
 
 export class DateParserService {
   /**
    * ユーザー入力の日付文字列をDateオブジェクトに変換
+   * 入力は指定タイムゾーン（既定はJST）の時刻として解釈する
    */
-  parseUserDate(input: string): Date | null {
-    return parseUserInputDate(input);
+  parseUserDate(input: string, timeZone: string = DEFAULT_TIMEZONE): Date | null {
+    return parseUserInputDate(input, timeZone);
+  }
+
+  /**
+   * 日程候補の文字列を開始・終了日時に変換（解釈できない場合はnull）
+   */
+  parseCandidateDate(
+    input: string,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): CandidateDateRange | null {
+    return parseCandidateDateRange(input, timeZone);
+  }
+
+  /**
+   * 日程候補のうち、括弧内の曜日が日付と一致しないものを列挙
+   */
+  findWeekdayMismatches(labels: string[], timeZone: string = DEFAULT_TIMEZONE): WeekdayMismatch[] {
+    return labels
+      .map((label) => findWeekdayMismatch(label.trim(), timeZone))
+      .filter((mismatch): mismatch is WeekdayMismatch => mismatch !== null);
+  }
+
+  /**
+   * 日程候補の入力行から日程DTOを作成
+   * 日時として解釈できた場合のみ開始・終了日時を付与し（祝日なら候補に祝日名も添える）、それ以外は自由記述のまま扱う
+   */
+  createScheduleDate(
+    input: string,
+    id: string = this.generateUniqueId(),
+    timeZone: string = DEFAULT_TIMEZONE
+  ): ScheduleDateDto {
+    const label = input.trim();
+    const range = this.parseCandidateDate(label, timeZone);
+    return {
+      id,
+      datetime: range ? annotateCandidateHoliday(label, range, timeZone) : label,
+      startAt: range?.startAt.toISOString(),
+      endAt: range?.endAt?.toISOString(),
+    };
+  }
+
+  /**
+   * 日程候補の入力行のうち、ルール行（例: "12/1-12/14 平日 19:00" / "来週 土日 13:00,18:00"）を候補の行に展開
+   * 現在より後の候補のみを生成し、limit 件（既定は1つの日程調整の候補数の上限）を超える分は省く
+   */
+  expandCandidateLines(
+    lines: string[],
+    timeZone: string = DEFAULT_TIMEZONE,
+    limit: number = BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE
+  ): CandidateLineExpansion {
+    return expandCandidateLines(
+      lines.map((line) => line.trim()),
+      new Date(),
+      timeZone,
+      limit
+    );
   }
 
   /**
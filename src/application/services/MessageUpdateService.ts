@@ -18,8 +18,12 @@ export class MessageUpdateService implements IMessageUpdateService {
   constructor(private readonly queuePort: MessageUpdateQueuePort) {}
 
   async scheduleUpdate(request: MessageUpdateRequest): Promise<void> {
-    // ビジネスルール: 締切更新は即座に、投票更新は2秒遅延
-    const delaySeconds = request.updateType === MessageUpdateType.CLOSE_UPDATE ? 0 : 2;
+    // ビジネスルール: 締切・再開の更新は即座に、投票更新は2秒遅延
+    const delaySeconds =
+      request.updateType === MessageUpdateType.CLOSE_UPDATE ||
+      request.updateType === MessageUpdateType.REOPEN_UPDATE
+        ? 0
+        : 2;
 
     await this.queuePort.enqueue(
       {
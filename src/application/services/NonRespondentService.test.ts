@@ -0,0 +1,106 @@
+/**
+ * NonRespondentService テスト
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IDiscordApiPort } from '../ports/DiscordApiPort';
+import type { ILogger } from '../ports/LoggerPort';
+import { NonRespondentService } from './NonRespondentService';
+
+describe('NonRespondentService', () => {
+  let mockDiscordApi: IDiscordApiPort;
+  let mockLogger: ILogger;
+  let service: NonRespondentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockDiscordApi = {
+      updateMessage: vi.fn(),
+      sendMessage: vi.fn(),
+      sendDirectMessage: vi.fn(),
+      sendNotification: vi.fn(),
+      searchGuildMembers: vi.fn(),
+      listGuildMembers: vi.fn().mockResolvedValue([
+        { user: { id: 'member-1', username: 'Member1' }, roles: ['role-a'] },
+        { user: { id: 'member-2', username: 'Member2' }, roles: ['role-b'] },
+        { user: { id: 'member-3', username: 'Member3' }, roles: ['role-a', 'role-b'] },
+        { user: { id: 'bot-1', username: 'Bot', bot: true }, roles: ['role-a'] },
+        { user: { id: 'member-4', username: 'Member4' }, roles: [] },
+      ]),
+      createGuildScheduledEvent: vi.fn(),
+      updateGuildScheduledEvent: vi.fn(),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    service = new NonRespondentService(mockDiscordApi, mockLogger, 'test-token');
+  });
+
+  it('should not track when no invitees are set', async () => {
+    const result = await service.findNonRespondents({ guildId: 'guild-123' }, ['member-1']);
+
+    expect(result).toEqual({ tracked: false, nonRespondentIds: [], partial: false });
+    expect(mockDiscordApi.listGuildMembers).not.toHaveBeenCalled();
+  });
+
+  it('should exclude respondents from invited users without calling the API', async () => {
+    const result = await service.findNonRespondents(
+      { guildId: 'guild-123', invitedUserIds: ['user-1', 'user-2', 'user-3'] },
+      ['user-2']
+    );
+
+    expect(result).toEqual({
+      tracked: true,
+      nonRespondentIds: ['user-1', 'user-3'],
+      partial: false,
+    });
+    expect(mockDiscordApi.listGuildMembers).not.toHaveBeenCalled();
+  });
+
+  it('should expand roles to their non-bot members', async () => {
+    const result = await service.findNonRespondents(
+      { guildId: 'guild-123', invitedUserIds: ['user-1', 'member-3'], invitedRoleIds: ['role-a'] },
+      ['member-1']
+    );
+
+    expect(mockDiscordApi.listGuildMembers).toHaveBeenCalledWith({
+      guildId: 'guild-123',
+      botToken: 'test-token',
+    });
+    expect(result).toEqual({
+      tracked: true,
+      nonRespondentIds: ['user-1', 'member-3'],
+      partial: false,
+    });
+  });
+
+  it('should fall back to invited users when role members cannot be fetched', async () => {
+    vi.mocked(mockDiscordApi.listGuildMembers).mockRejectedValueOnce(new Error('Missing Access'));
+
+    const result = await service.findNonRespondents(
+      { guildId: 'guild-123', invitedUserIds: ['user-1'], invitedRoleIds: ['role-a'] },
+      []
+    );
+
+    expect(result).toEqual({ tracked: true, nonRespondentIds: ['user-1'], partial: true });
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should mark the result partial when no bot token is configured', async () => {
+    service = new NonRespondentService(mockDiscordApi, mockLogger);
+
+    const result = await service.findNonRespondents(
+      { guildId: 'guild-123', invitedRoleIds: ['role-b'] },
+      []
+    );
+
+    expect(result).toEqual({ tracked: true, nonRespondentIds: [], partial: true });
+    expect(mockDiscordApi.listGuildMembers).not.toHaveBeenCalled();
+  });
+});
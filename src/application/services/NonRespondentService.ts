@@ -0,0 +1,88 @@
+/**
+ * Non Respondent Service
+ *
+ * 参加予定者（ユーザー・ロール）のうち、まだ回答していないメンバーを算出するサービス
+ * ロールはDiscord APIでメンバー一覧を取得して展開する
+ */
+
+import type { IDiscordApiPort } from '../ports/DiscordApiPort';
+import type { ILogger } from '../ports/LoggerPort';
+
+export interface NonRespondentTarget {
+  readonly guildId: string;
+  readonly invitedUserIds?: string[];
+  readonly invitedRoleIds?: string[];
+}
+
+export interface NonRespondentResult {
+  // 参加予定者が設定されているか（未設定の場合は未回答者を算出しない）
+  tracked: boolean;
+  nonRespondentIds: string[];
+  // ロールのメンバーを取得できず、ユーザー指定分のみで算出した場合はtrue
+  partial: boolean;
+}
+
+export class NonRespondentService {
+  constructor(
+    private readonly discordApi: IDiscordApiPort,
+    private readonly logger: ILogger,
+    private readonly discordToken?: string
+  ) {}
+
+  /**
+   * 参加予定者から回答済みのユーザーを除いた未回答者を取得する
+   */
+  async findNonRespondents(
+    target: NonRespondentTarget,
+    respondentIds: string[]
+  ): Promise<NonRespondentResult> {
+    const invitedUserIds = target.invitedUserIds ?? [];
+    const invitedRoleIds = target.invitedRoleIds ?? [];
+
+    if (invitedUserIds.length === 0 && invitedRoleIds.length === 0) {
+      return { tracked: false, nonRespondentIds: [], partial: false };
+    }
+
+    const roleMembers = await this.resolveRoleMembers(target.guildId, invitedRoleIds);
+    const respondents = new Set(respondentIds);
+    // 個別指定のユーザーを先に、続けてロールのメンバーを並べる（重複は除く）
+    const expectedIds = [...new Set([...invitedUserIds, ...(roleMembers ?? [])])];
+
+    return {
+      tracked: true,
+      nonRespondentIds: expectedIds.filter((userId) => !respondents.has(userId)),
+      partial: roleMembers === null,
+    };
+  }
+
+  /**
+   * ロールに所属するメンバー（Botを除く）のIDを取得する
+   * 取得できなかった場合はnullを返す
+   */
+  private async resolveRoleMembers(guildId: string, roleIds: string[]): Promise<string[] | null> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+    if (!this.discordToken) {
+      return null;
+    }
+
+    try {
+      const members = await this.discordApi.listGuildMembers({
+        guildId,
+        botToken: this.discordToken,
+      });
+
+      return members
+        .filter((member) => !member.user.bot)
+        .filter((member) => member.roles.some((roleId) => roleIds.includes(roleId)))
+        .map((member) => member.user.id);
+    } catch (error) {
+      this.logger.warn('Failed to resolve role members for non-respondents', {
+        guildId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
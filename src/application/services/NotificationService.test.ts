@@ -8,10 +8,12 @@ import type {
 } from '../../domain/repositories/interfaces';
 import type { DiscordMessageService } from '../../presentation/services/DiscordMessageService';
 import type { ScheduleSummaryResponseDto } from '../dto/ScheduleDto';
+import { ScheduleMapper } from '../mappers/DomainMappers';
 import type { BackgroundExecutorPort } from '../ports/BackgroundExecutorPort';
 import type { IDiscordApiPort } from '../ports/DiscordApiPort';
 import type { ILogger } from '../ports/LoggerPort';
 import { GetScheduleSummaryUseCase } from '../usecases/schedule/GetScheduleSummaryUseCase';
+import { NonRespondentService } from './NonRespondentService';
 import { NotificationService } from './NotificationService';
 
 // Mock fetch globally
@@ -66,8 +68,12 @@ describe('NotificationService', () => {
     mockDiscordApi = {
       updateMessage: vi.fn(),
       sendMessage: vi.fn(),
+      sendDirectMessage: vi.fn(),
       sendNotification: vi.fn(),
       searchGuildMembers: vi.fn(),
+      listGuildMembers: vi.fn(),
+      createGuildScheduledEvent: vi.fn(),
+      updateGuildScheduledEvent: vi.fn(),
     };
 
     mockScheduleRepository = {
@@ -202,6 +208,272 @@ describe('NotificationService', () => {
 
       expect(mockDiscordApi.sendMessage).not.toHaveBeenCalled();
     });
+
+    describe('non-respondents', () => {
+      const scheduleWithInvitees = mockSchedule.updateInvitees(['user-a', 'user-b', 'user-c'], []);
+
+      beforeEach(() => {
+        notificationService = new NotificationService(
+          mockLogger,
+          mockDiscordApi,
+          mockScheduleRepository,
+          mockResponseRepository,
+          mockGetScheduleSummaryUseCase,
+          mockToken,
+          mockAppId,
+          mockBackgroundExecutor,
+          mockDiscordMessageService,
+          new NonRespondentService(mockDiscordApi, mockLogger, mockToken)
+        );
+      });
+
+      const getFields = () => {
+        const call = vi.mocked(mockDiscordApi.sendMessage).mock.calls[0][0];
+        const message = call.message as { embeds: Array<{ fields: Array<{ name: string }> }> };
+        return message.embeds[0].fields as Array<{ name: string; value: string }>;
+      };
+
+      it('should list invited users who have not responded', async () => {
+        vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValueOnce([
+          {
+            scheduleId: 'test-schedule',
+            userId: 'user-b',
+            username: 'UserB',
+            dateStatuses: { date1: 'ok' },
+            updatedAt: new Date(),
+          },
+        ]);
+
+        await notificationService.sendDeadlineReminder(scheduleWithInvitees);
+
+        expect(mockResponseRepository.findByScheduleId).toHaveBeenCalledWith(
+          'test-schedule',
+          'guild123'
+        );
+        expect(getFields()).toContainEqual({
+          name: '⏳ 未回答者 (2人)',
+          value: '<@user-a> <@user-c>',
+          inline: false,
+        });
+      });
+
+      it('should show that everyone has responded', async () => {
+        vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValueOnce(
+          ['user-a', 'user-b', 'user-c'].map((userId) => ({
+            scheduleId: 'test-schedule',
+            userId,
+            username: userId,
+            dateStatuses: {},
+            updatedAt: new Date(),
+          }))
+        );
+
+        await notificationService.sendDeadlineReminder(scheduleWithInvitees);
+
+        expect(getFields()).toContainEqual(
+          expect.objectContaining({ name: '⏳ 未回答者 (0人)', value: 'なし（全員回答済み）' })
+        );
+      });
+
+      it('should omit the field when no invitees are set', async () => {
+        await notificationService.sendDeadlineReminder(mockSchedule);
+
+        expect(mockResponseRepository.findByScheduleId).not.toHaveBeenCalled();
+        expect(getFields().map((field) => field.name)).toEqual(['回答締切', '現在の回答者数']);
+      });
+
+      it('should still send the reminder when loading responses fails', async () => {
+        vi.mocked(mockResponseRepository.findByScheduleId).mockRejectedValueOnce(
+          new Error('Database error')
+        );
+
+        await notificationService.sendDeadlineReminder(scheduleWithInvitees);
+
+        expect(mockLogger.error).toHaveBeenCalled();
+        expect(getFields()).toHaveLength(2);
+      });
+
+      describe('non-respondents reminder mode', () => {
+        const targetedSchedule = scheduleWithInvitees.updateReminderSettings(
+          ['1d'],
+          ['@here'],
+          'non_respondents'
+        );
+
+        const getMessage = () =>
+          vi.mocked(mockDiscordApi.sendMessage).mock.calls[0][0].message as {
+            content: string;
+            allowed_mentions?: { users: string[] };
+          };
+
+        it('should mention only invited users who have not responded', async () => {
+          vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValueOnce([
+            {
+              scheduleId: 'test-schedule',
+              userId: 'user-b',
+              username: 'UserB',
+              dateStatuses: { date1: 'ok' },
+              updatedAt: new Date(),
+            },
+          ]);
+
+          await notificationService.sendDeadlineReminder(targetedSchedule);
+
+          expect(getMessage().content).toBe(
+            '<@user-a> <@user-c> ⏰ 「Test Event」の締切が1時間以内です！'
+          );
+          expect(getMessage().allowed_mentions).toEqual({ users: ['user-a', 'user-c'] });
+        });
+
+        it('should skip the reminder when everyone has responded', async () => {
+          vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValueOnce(
+            ['user-a', 'user-b', 'user-c'].map((userId) => ({
+              scheduleId: 'test-schedule',
+              userId,
+              username: userId,
+              dateStatuses: {},
+              updatedAt: new Date(),
+            }))
+          );
+
+          await notificationService.sendDeadlineReminder(targetedSchedule);
+
+          expect(mockDiscordApi.sendMessage).not.toHaveBeenCalled();
+        });
+
+        it('should fall back to reminder mentions when no invitees are set', async () => {
+          const schedule = mockSchedule.updateReminderSettings(
+            ['1d'],
+            ['@here'],
+            'non_respondents'
+          );
+
+          await notificationService.sendDeadlineReminder(schedule);
+
+          expect(getMessage().content).toBe('@here ⏰ 「Test Event」の締切が1時間以内です！');
+          expect(getMessage().allowed_mentions).toBeUndefined();
+        });
+      });
+    });
+  });
+
+  describe('DM reminders', () => {
+    const scheduleWithDm = mockSchedule
+      .updateInvitees(['user-a', 'user-b'], [])
+      .updateReminderSettings(['1d'], ['@here'], 'mentions', true);
+
+    beforeEach(() => {
+      notificationService = new NotificationService(
+        mockLogger,
+        mockDiscordApi,
+        mockScheduleRepository,
+        mockResponseRepository,
+        mockGetScheduleSummaryUseCase,
+        mockToken,
+        mockAppId,
+        mockBackgroundExecutor,
+        mockDiscordMessageService,
+        new NonRespondentService(mockDiscordApi, mockLogger, mockToken)
+      );
+    });
+
+    it('should return non-respondents as DM recipients when enabled', async () => {
+      vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValueOnce([
+        {
+          scheduleId: 'test-schedule',
+          userId: 'user-a',
+          username: 'UserA',
+          dateStatuses: {},
+          updatedAt: new Date(),
+        },
+      ]);
+
+      const recipients = await notificationService.findDirectReminderRecipients(scheduleWithDm);
+
+      expect(recipients).toEqual(['user-b']);
+    });
+
+    it('should return no recipients when DM reminders are disabled', async () => {
+      const recipients = await notificationService.findDirectReminderRecipients(
+        mockSchedule.updateInvitees(['user-a'], [])
+      );
+
+      expect(recipients).toEqual([]);
+      expect(mockResponseRepository.findByScheduleId).not.toHaveBeenCalled();
+    });
+
+    it('should send a DM with a link to the schedule message and the deadline', async () => {
+      vi.mocked(mockDiscordApi.sendDirectMessage).mockResolvedValueOnce({ id: 'dm-message' });
+
+      const sent = await notificationService.sendDirectReminder(
+        scheduleWithDm,
+        'user-b',
+        '回答締切まで残り1日'
+      );
+
+      expect(sent).toBe(true);
+      const call = vi.mocked(mockDiscordApi.sendDirectMessage).mock.calls[0][0];
+      expect(call.userId).toBe('user-b');
+      expect(call.botToken).toBe(mockToken);
+      const message = call.message as {
+        content: string;
+        embeds: Array<{ url: string; fields: Array<{ name: string; value: string }> }>;
+      };
+      expect(message.content).toContain('「Test Event」の回答締切まで残り1日です！');
+      expect(message.embeds[0].url).toBe(
+        'https://discord.com/channels/guild123/channel123/message123'
+      );
+      expect(message.embeds[0].fields[0].name).toBe('回答締切');
+    });
+
+    it('should log and return false when the DM cannot be sent', async () => {
+      vi.mocked(mockDiscordApi.sendDirectMessage).mockRejectedValueOnce(
+        new Error('Failed to send message: 403')
+      );
+
+      const sent = await notificationService.sendDirectReminder(scheduleWithDm, 'user-b');
+
+      expect(sent).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to send DM reminder for schedule test-schedule',
+        expect.objectContaining({ userId: 'user-b', error: 'Failed to send message: 403' })
+      );
+    });
+  });
+
+  describe('sendOwnershipTransferNotice', () => {
+    const transferred = ScheduleMapper.scheduleToResponseDto(
+      mockSchedule.transferOwnership(User.create('user456', 'NewOwner'))
+    );
+
+    it('should DM the new owner with a link to the schedule message', async () => {
+      vi.mocked(mockDiscordApi.sendDirectMessage).mockResolvedValueOnce({ id: 'dm-message' });
+
+      const sent = await notificationService.sendOwnershipTransferNotice(transferred, 'user123');
+
+      expect(sent).toBe(true);
+      const call = vi.mocked(mockDiscordApi.sendDirectMessage).mock.calls[0][0];
+      expect(call.userId).toBe('user456');
+      const message = call.message as { content: string; embeds: Array<{ url: string }> };
+      expect(message.content).toContain('<@user123> さんから日程調整「Test Event」の主催者');
+      expect(message.embeds[0].url).toBe(
+        'https://discord.com/channels/guild123/channel123/message123'
+      );
+    });
+
+    it('should log and return false when the DM cannot be sent', async () => {
+      vi.mocked(mockDiscordApi.sendDirectMessage).mockRejectedValueOnce(
+        new Error('Failed to create DM channel: 403')
+      );
+
+      const sent = await notificationService.sendOwnershipTransferNotice(transferred, 'user123');
+
+      expect(sent).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to send ownership transfer notice for schedule test-schedule',
+        expect.objectContaining({ userId: 'user456' })
+      );
+    });
   });
 
   describe('sendSummaryMessage', () => {
@@ -274,6 +546,98 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('sendDecisionMessage', () => {
+    const baseSummary: ScheduleSummaryResponseDto = {
+      schedule: {
+        id: 'test-schedule',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        messageId: 'message123',
+        title: 'Test Event',
+        dates: [
+          { id: 'date1', datetime: '2024-12-25 19:00' },
+          { id: 'date2', datetime: '2024-12-26 19:00' },
+        ],
+        createdBy: { id: 'user123', username: 'TestUser' },
+        authorId: 'user123',
+        status: 'closed',
+        notificationSent: false,
+        totalResponses: 3,
+        decidedDateId: 'date2',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+      responses: [
+        {
+          scheduleId: 'test-schedule',
+          userId: 'u1',
+          username: 'alice',
+          dateStatuses: { date1: 'ng', date2: 'ok' },
+          updatedAt: '2024-01-01T00:00:00Z',
+        },
+        {
+          scheduleId: 'test-schedule',
+          userId: 'u2',
+          username: 'bob',
+          dateStatuses: { date1: 'ok', date2: 'maybe' },
+          updatedAt: '2024-01-01T00:00:00Z',
+        },
+        {
+          scheduleId: 'test-schedule',
+          userId: 'u3',
+          username: 'carol',
+          dateStatuses: { date1: 'ok', date2: 'ng' },
+          updatedAt: '2024-01-01T00:00:00Z',
+        },
+      ],
+      responseCounts: {
+        date1: { yes: 2, maybe: 0, no: 1 },
+        date2: { yes: 1, maybe: 1, no: 1 },
+      },
+      totalResponseUsers: 3,
+      statistics: {
+        overallParticipation: { fullyAvailable: 0, partiallyAvailable: 3, unavailable: 0 },
+        optimalDates: { alternativeDateIds: [], scores: {} },
+      },
+    };
+
+    it('should mention users who answered ok or maybe for the decided date', async () => {
+      vi.spyOn(mockGetScheduleSummaryUseCase, 'execute').mockResolvedValueOnce({
+        success: true,
+        summary: baseSummary,
+      });
+
+      await notificationService.sendDecisionMessage('test-schedule', 'guild123');
+
+      const { message } = vi.mocked(mockDiscordApi.sendMessage).mock.calls[0][0] as {
+        message: {
+          content: string;
+          embeds: Array<{ title: string }>;
+          allowed_mentions: { users: string[] };
+        };
+      };
+      expect(message.content).toContain('<@u1> <@u2>');
+      expect(message.content).not.toContain('<@u3>');
+      expect(message.content).toContain('開催日程が決定しました');
+      expect(message.embeds[0].title).toBe('🎉 2024-12-26 19:00');
+      expect(message.allowed_mentions.users).toEqual(['u1', 'u2']);
+    });
+
+    it('should skip when no date is decided', async () => {
+      vi.spyOn(mockGetScheduleSummaryUseCase, 'execute').mockResolvedValueOnce({
+        success: true,
+        summary: {
+          ...baseSummary,
+          schedule: { ...baseSummary.schedule, decidedDateId: undefined },
+        },
+      });
+
+      await notificationService.sendDecisionMessage('test-schedule', 'guild123');
+
+      expect(mockDiscordApi.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe.skip('sendPRMessage', () => {
     it('should schedule PR message as background task', async () => {
       notificationService.sendPRMessage(mockSchedule);
@@ -376,19 +740,19 @@ describe('NotificationService', () => {
         guildId: 'guild123',
         query: 'TestUser1',
         botToken: mockToken,
-        limit: 1,
+        limit: 5,
       });
       expect(mockDiscordApi.searchGuildMembers).toHaveBeenCalledWith({
         guildId: 'guild123',
         query: 'TestUser2',
         botToken: mockToken,
-        limit: 1,
+        limit: 5,
       });
       expect(mockDiscordApi.searchGuildMembers).toHaveBeenCalledWith({
         guildId: 'guild123',
         query: 'nonexistent',
         botToken: mockToken,
-        limit: 1,
+        limit: 5,
       });
 
       // Check that message was sent with resolved mentions
@@ -551,5 +915,20 @@ describe('NotificationService', () => {
         botToken: mockToken,
       });
     });
+
+    it('should not mention a partially matching member and keep role mentions', async () => {
+      vi.mocked(mockDiscordApi.searchGuildMembers).mockResolvedValueOnce([
+        { user: { id: '444444444', username: 'Alicia', discriminator: '0001' } },
+      ]);
+
+      const schedule = mockSchedule.updateReminderSettings(['1d'], ['<@&555555555>', '@Ali']);
+
+      await notificationService.sendDeadlineReminder(schedule, '回答締切まで残り1日');
+
+      const call = vi.mocked(mockDiscordApi.sendMessage).mock.calls[0][0];
+      const content = (call.message as { content: string }).content;
+      expect(content).toContain('<@&555555555> @Ali');
+      expect(content).not.toContain('<@444444444>');
+    });
   });
 });
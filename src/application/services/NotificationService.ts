@@ -12,12 +12,17 @@ import type {
 } from '../../domain/repositories/interfaces';
 import type { DiscordMessage } from '../../infrastructure/types/discord-api';
 import type { DiscordMessageService } from '../../presentation/services/DiscordMessageService';
-import { formatDate } from '../../presentation/utils/date-formatter';
-import type { ScheduleResponseDto, ScheduleSummaryResponseDto } from '../dto/ScheduleDto';
+import { formatDiscordTimestamp } from '../../presentation/utils/date-formatter';
+import { formatUserMentionList } from '../../presentation/utils/embeds';
+import type { ScheduleResponseDto } from '../dto/ScheduleDto';
 import type { BackgroundExecutorPort } from '../ports/BackgroundExecutorPort';
 import type { IDiscordApiPort } from '../ports/DiscordApiPort';
 import type { ILogger } from '../ports/LoggerPort';
 import type { GetScheduleSummaryUseCase } from '../usecases/schedule/GetScheduleSummaryUseCase';
+import type { NonRespondentResult, NonRespondentService } from './NonRespondentService';
+
+// 本文に含めるユーザーメンションの上限（メッセージ本文の2000文字制限に収めるため）
+const MAX_REMINDER_USER_MENTIONS = 50;
 
 const _STATUS_EMOJI = {
   open: '🟢',
@@ -34,7 +39,8 @@ export class NotificationService {
     private discordToken: string,
     private applicationId: string,
     private backgroundExecutor: BackgroundExecutorPort,
-    private discordMessageService: DiscordMessageService
+    private discordMessageService: DiscordMessageService,
+    private nonRespondentService?: NonRespondentService
   ) {}
 
   async checkAndSendNotifications(): Promise<void> {
@@ -64,9 +70,32 @@ export class NotificationService {
     const deadlineDate =
       schedule.deadline instanceof Date ? schedule.deadline : new Date(schedule.deadline);
 
+    // 参加予定者が設定されている場合は未回答者を表示（embed内のメンションは通知されない）
+    const nonRespondentResult = await this.getNonRespondents(schedule);
+    const nonRespondents = nonRespondentResult?.nonRespondentIds ?? null;
+    // 未回答者のみにメンションするモード
+    // 参加予定者が未設定、またはロールのメンバーを取得できなかった場合は通知先へのメンションに戻す
+    const targetNonRespondents =
+      schedule.reminderMode === 'non_respondents' &&
+      !!nonRespondentResult &&
+      !nonRespondentResult.partial;
+
+    if (targetNonRespondents && nonRespondents?.length === 0) {
+      this.logger.info(`Skipped reminder for schedule ${schedule.id}: everyone has responded`);
+      return;
+    }
+
     // メンション文字列を構築
     let mentions = '';
-    if (schedule.reminderMentions && schedule.reminderMentions.length > 0 && schedule.guildId) {
+    let mentionedUserIds: string[] | undefined;
+    if (targetNonRespondents) {
+      mentionedUserIds = (nonRespondents ?? []).slice(0, MAX_REMINDER_USER_MENTIONS);
+      mentions = `${mentionedUserIds.map((userId) => `<@${userId}>`).join(' ')} `;
+    } else if (
+      schedule.reminderMentions &&
+      schedule.reminderMentions.length > 0 &&
+      schedule.guildId
+    ) {
       // ユーザーメンションを適切なDiscord形式に解決
       const resolvedMentions = await this.resolveUserMentions(
         schedule.reminderMentions,
@@ -84,7 +113,8 @@ export class NotificationService {
           fields: [
             {
               name: '回答締切',
-              value: deadlineDate.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' }),
+              // 閲覧者それぞれのタイムゾーンで表示されるようDiscordのタイムスタンプ記法を使う
+              value: `${formatDiscordTimestamp(deadlineDate, 'F')}\n${formatDiscordTimestamp(deadlineDate, 'R')}`,
               inline: true,
             },
             {
@@ -92,6 +122,18 @@ export class NotificationService {
               value: `${schedule.totalResponses || 0}人`,
               inline: true,
             },
+            ...(nonRespondents
+              ? [
+                  {
+                    name: `⏳ 未回答者 (${nonRespondents.length}人)`,
+                    value:
+                      nonRespondents.length > 0
+                        ? formatUserMentionList(nonRespondents)
+                        : 'なし（全員回答済み）',
+                    inline: false,
+                  },
+                ]
+              : []),
           ],
           footer: {
             text: 'まだ回答していない方は早めに回答をお願いします🙏',
@@ -101,87 +143,157 @@ export class NotificationService {
       message_reference: {
         message_id: schedule.messageId,
       },
+      // 未回答者のみモードでは回答済みの人や@here等で通知が飛ばないようにする
+      allowed_mentions: mentionedUserIds ? { users: mentionedUserIds } : undefined,
     };
 
     await this.sendChannelMessage(schedule.channelId, message);
   }
 
-  private async getNonRespondents(_summary: ScheduleSummaryResponseDto): Promise<string[]> {
-    // 実際の実装では、チャンネルメンバーを取得し
-    // 回答者と比較します
-    return [];
+  /**
+   * DMでリマインドする未回答者を取得
+   * DMリマインダーが無効、または参加予定者が未設定の場合は空配列を返す
+   */
+  async findDirectReminderRecipients(schedule: Schedule | ScheduleResponseDto): Promise<string[]> {
+    if (!schedule.dmReminders || schedule.status === 'closed') return [];
+
+    const result = await this.getNonRespondents(schedule);
+    return result ? result.nonRespondentIds : [];
   }
 
-  private createReminderMessage(
+  /**
+   * 未回答者にDMでリマインダーを送信
+   * DMを受け付けていないユーザーなどへの送信失敗はログに残してfalseを返す
+   */
+  async sendDirectReminder(
     schedule: Schedule | ScheduleResponseDto,
-    nonRespondents: string[]
-  ): object {
-    // 締切が設定されていない場合は早期リターン
-    if (!schedule.deadline) {
-      return {
-        content: `⏰ **リマインダー**: 日程調整「${schedule.title}」の締切が近づいています！`,
-        embeds: [
-          {
-            title: '📅 未回答の方はご回答をお願いします',
-            color: 0xf39c12,
-            fields: [
-              {
-                name: '日程調整',
-                value: schedule.title,
-                inline: true,
-              },
-              {
-                name: '締切',
-                value: '未設定',
-                inline: true,
-              },
-              {
-                name: '未回答者',
-                value: nonRespondents.join(', ') || 'なし',
-                inline: false,
-              },
-            ],
-            footer: {
-              text: `作成者: ${schedule.createdBy.displayName || schedule.createdBy.username}`,
-            },
-            timestamp: new Date().toISOString(),
-          },
-        ],
-      };
-    }
+    userId: string,
+    customMessage: string = '締切が1時間以内'
+  ): Promise<boolean> {
+    if (!schedule.deadline) return false;
 
-    const deadline =
+    const deadlineDate =
       schedule.deadline instanceof Date ? schedule.deadline : new Date(schedule.deadline);
-    return {
-      content: `⏰ **リマインダー**: 日程調整「${schedule.title}」の締切が近づいています！`,
+    const messageUrl = schedule.messageId
+      ? `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}/${schedule.messageId}`
+      : `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}`;
+
+    const message = {
+      content: `⏰ 「${schedule.title}」の${customMessage}です！まだ回答していないようなので、回答をお願いします🙏`,
       embeds: [
         {
-          title: '📅 未回答の方はご回答をお願いします',
-          color: 0xf39c12, // 警告色
+          title: schedule.title,
+          url: messageUrl,
+          color: 0xffcc00,
           fields: [
             {
-              name: '日程調整',
-              value: schedule.title,
+              name: '回答締切',
+              value: `${formatDiscordTimestamp(deadlineDate, 'F')}\n${formatDiscordTimestamp(deadlineDate, 'R')}`,
               inline: true,
             },
             {
-              name: '回答締切',
-              value: schedule.deadline ? formatDate(deadline.toISOString()) : '未設定',
+              name: '日程調整',
+              value: `[回答ページを開く](${messageUrl})`,
               inline: true,
             },
+          ],
+        },
+      ],
+    };
+
+    try {
+      await this.discordApi.sendDirectMessage({
+        userId,
+        message,
+        botToken: this.discordToken,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn(`Failed to send DM reminder for schedule ${schedule.id}`, {
+        scheduleId: schedule.id,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 主催者を譲渡されたユーザーにDMで通知
+   * DMを受け付けていないユーザーなどへの送信失敗はログに残してfalseを返す
+   */
+  async sendOwnershipTransferNotice(
+    schedule: ScheduleResponseDto,
+    transferredByUserId: string
+  ): Promise<boolean> {
+    const messageUrl = schedule.messageId
+      ? `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}/${schedule.messageId}`
+      : `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}`;
+
+    const message = {
+      content: `👑 <@${transferredByUserId}> さんから日程調整「${schedule.title}」の主催者を引き継ぎました。`,
+      embeds: [
+        {
+          title: schedule.title,
+          url: messageUrl,
+          color: 0x5865f2,
+          description:
+            'メッセージの「編集」ボタンから、日程の編集・締切・日程の決定・削除ができます。',
+          fields: [
             {
-              name: '未回答者',
-              value: nonRespondents.join(', ') || 'なし',
-              inline: false,
+              name: '日程調整',
+              value: `[メッセージを開く](${messageUrl})`,
+              inline: true,
             },
           ],
-          footer: {
-            text: `作成者: ${schedule.createdBy.displayName || schedule.createdBy.username}`,
-          },
-          timestamp: new Date().toISOString(),
         },
       ],
     };
+
+    try {
+      await this.discordApi.sendDirectMessage({
+        userId: schedule.authorId,
+        message,
+        botToken: this.discordToken,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn(`Failed to send ownership transfer notice for schedule ${schedule.id}`, {
+        scheduleId: schedule.id,
+        userId: schedule.authorId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 参加予定者のうち未回答のユーザーを取得
+   * 参加予定者が未設定の場合はnullを返す
+   */
+  private async getNonRespondents(
+    schedule: Schedule | ScheduleResponseDto
+  ): Promise<NonRespondentResult | null> {
+    if (!this.nonRespondentService) return null;
+    if (!schedule.invitedUserIds?.length && !schedule.invitedRoleIds?.length) return null;
+
+    try {
+      const responses = await this.responseRepository.findByScheduleId(
+        schedule.id,
+        schedule.guildId
+      );
+      const result = await this.nonRespondentService.findNonRespondents(
+        schedule,
+        responses.map((response) => response.userId)
+      );
+      return result.tracked ? result : null;
+    } catch (error) {
+      this.logger.error(
+        'Failed to get non-respondents',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return null;
+    }
   }
 
   private async sendChannelMessage(channelId: string, message: object): Promise<void> {
@@ -197,7 +309,8 @@ export class NotificationService {
       } else if (mention.startsWith('<@') && mention.endsWith('>')) {
         resolved.push(mention); // すでに正しい形式
       } else {
-        // ユーザー名で検索
+        // 旧バージョンで名前指定された通知先はユーザー名が完全一致する場合のみ解決する
+        // （部分一致の候補を使うと別の人にメンションしてしまうため）
         const searchQuery = mention.startsWith('@') ? mention.substring(1) : mention;
 
         try {
@@ -205,24 +318,19 @@ export class NotificationService {
             guildId,
             query: searchQuery,
             botToken: this.discordToken,
-            limit: 1, // 最初の1件のみ取得
+            limit: 5,
           });
 
-          if (searchResults.length > 0) {
-            // 大文字小文字を無視して完全一致を確認
-            const exactMatch = searchResults.find(
-              (member) => member.user.username.toLowerCase() === searchQuery.toLowerCase()
-            );
-
-            if (exactMatch) {
-              resolved.push(`<@${exactMatch.user.id}>`);
-            } else {
-              // 完全一致がない場合は最初の結果を使用
-              resolved.push(`<@${searchResults[0].user.id}>`);
-            }
+          // 大文字小文字を無視して完全一致を確認
+          const exactMatch = searchResults.find(
+            (member) => member.user.username.toLowerCase() === searchQuery.toLowerCase()
+          );
+
+          if (exactMatch) {
+            resolved.push(`<@${exactMatch.user.id}>`);
           } else {
             this.logger.warn(`Could not resolve user mention: ${mention}`);
-            // フォールバックとして元のメンションを保持
+            // フォールバックとして元のメンションを保持（テキストのままなので通知はされない）
             resolved.push(mention);
           }
         } catch (error) {
@@ -295,6 +403,7 @@ export class NotificationService {
                 inline: false,
               };
             }),
+            ...this.createCommentFields(responses),
           ],
           footer: {
             text: bestDateId ? '⭐ は最有力候補です' : `回答者: ${responses.length}人`,
@@ -307,6 +416,93 @@ export class NotificationService {
     await this.sendChannelMessage(schedule.channelId, message);
   }
 
+  /**
+   * 開催日程の決定を告知（決定日程に ✅ / ❓ と回答した人へメンション）
+   */
+  async sendDecisionMessage(scheduleId: string, guildId: string = 'default'): Promise<void> {
+    const summaryResult = await this.getScheduleSummaryUseCase.execute(scheduleId, guildId);
+    if (!summaryResult.success || !summaryResult.summary) return;
+
+    const { schedule, responses, responseCounts } = summaryResult.summary;
+    const decidedDate = schedule.dates.find((date) => date.id === schedule.decidedDateId);
+    if (!decidedDate) return;
+
+    const attendees = responses.filter(
+      (response) => response.dateStatuses[decidedDate.id] === 'ok'
+    );
+    const tentative = responses.filter(
+      (response) => response.dateStatuses[decidedDate.id] === 'maybe'
+    );
+    const mentionUserIds = [...attendees, ...tentative].map((response) => response.userId);
+    const mentionText = mentionUserIds.map((userId) => `<@${userId}>`).join(' ');
+    const count = responseCounts[decidedDate.id] || { yes: 0, maybe: 0, no: 0 };
+    const formatNames = (list: typeof responses) => {
+      const names = list.map((response) => response.displayName || response.username).join(', ');
+      return names.length > 1024 ? `${names.slice(0, 1021)}...` : names || 'なし';
+    };
+
+    const message: DiscordMessage = {
+      content: `${mentionText ? `${mentionText} ` : ''}🎉 日程調整「${schedule.title}」の開催日程が決定しました！`,
+      embeds: [
+        {
+          title: `🎉 ${decidedDate.datetime}`,
+          color: 0x2ecc71,
+          description: schedule.description || undefined,
+          fields: [
+            ...(decidedDate.startAt
+              ? [
+                  {
+                    name: '📅 日時',
+                    value: formatDiscordTimestamp(decidedDate.startAt, 'F'),
+                    inline: false,
+                  },
+                ]
+              : []),
+            {
+              name: `✅ 参加 (${count.yes}人)`,
+              value: formatNames(attendees),
+              inline: false,
+            },
+            {
+              name: `❓ 未定 (${count.maybe}人)`,
+              value: formatNames(tentative),
+              inline: false,
+            },
+          ],
+          footer: {
+            text: `主催: ${schedule.createdBy.displayName || schedule.createdBy.username}`,
+          },
+        },
+      ],
+      message_reference: schedule.messageId ? { message_id: schedule.messageId } : undefined,
+      allowed_mentions: { users: mentionUserIds },
+    };
+
+    await this.sendChannelMessage(schedule.channelId, message);
+  }
+
+  /**
+   * 回答者コメントのフィールドを作成（コメントがない場合は空配列）
+   */
+  private createCommentFields(
+    responses: Array<{ username: string; displayName?: string; comment?: string }>
+  ): Array<{ name: string; value: string; inline: boolean }> {
+    const lines = responses
+      .filter((response) => response.comment)
+      .map((response) => `**${response.displayName || response.username}**: ${response.comment}`);
+
+    if (lines.length === 0) return [];
+
+    const value = lines.join('\n');
+    return [
+      {
+        name: '💬 コメント',
+        value: value.length > 1024 ? `${value.slice(0, 1021)}...` : value,
+        inline: false,
+      },
+    ];
+  }
+
   async updateMainMessage(scheduleId: string, guildId: string = 'default'): Promise<void> {
     try {
       const summaryResult = await this.getScheduleSummaryUseCase.execute(scheduleId, guildId);
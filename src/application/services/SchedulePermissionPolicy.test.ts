@@ -0,0 +1,86 @@
+/**
+ * SchedulePermissionPolicy テスト
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SchedulePermissionPolicy } from './SchedulePermissionPolicy';
+
+describe('SchedulePermissionPolicy', () => {
+  const schedule = { authorId: 'author-1', coOrganizerIds: ['co-1'] };
+
+  const MANAGE_GUILD = String(1n << 5n);
+  const MANAGE_MESSAGES = String(1n << 13n);
+  const ADMINISTRATOR = String(1n << 3n);
+  const SEND_MESSAGES = String(1n << 11n);
+
+  it('should allow the author to do everything', () => {
+    for (const action of ['edit', 'close', 'decide', 'delete', 'manage_organizers'] as const) {
+      expect(SchedulePermissionPolicy.can(schedule, { userId: 'author-1' }, action)).toBe(true);
+    }
+  });
+
+  it('should allow co-organizers to edit, close, reopen and decide only', () => {
+    const actor = { userId: 'co-1' };
+
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'edit')).toBe(true);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'close')).toBe(true);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'reopen')).toBe(true);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'decide')).toBe(true);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'view_results')).toBe(true);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'delete')).toBe(false);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'manage_organizers')).toBe(false);
+  });
+
+  it('should deny other members without moderator permissions', () => {
+    const actor = { userId: 'member-1', permissions: SEND_MESSAGES };
+
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'edit')).toBe(false);
+    expect(SchedulePermissionPolicy.can(schedule, actor, 'view_results')).toBe(false);
+    expect(SchedulePermissionPolicy.can({ authorId: 'author-1' }, actor, 'close')).toBe(false);
+  });
+
+  it('should let moderators manage any schedule', () => {
+    for (const permissions of [MANAGE_GUILD, MANAGE_MESSAGES, ADMINISTRATOR]) {
+      const actor = { userId: 'moderator-1', permissions };
+      expect(SchedulePermissionPolicy.can(schedule, actor, 'delete')).toBe(true);
+      expect(SchedulePermissionPolicy.can(schedule, actor, 'manage_organizers')).toBe(true);
+    }
+  });
+
+  it('should allow ownership transfer only to the author and server managers', () => {
+    for (const permissions of [MANAGE_GUILD, ADMINISTRATOR]) {
+      const actor = { userId: 'moderator-1', permissions };
+      expect(SchedulePermissionPolicy.can(schedule, actor, 'transfer_ownership')).toBe(true);
+    }
+
+    expect(
+      SchedulePermissionPolicy.can(
+        schedule,
+        { userId: 'moderator-1', permissions: MANAGE_MESSAGES },
+        'transfer_ownership'
+      )
+    ).toBe(false);
+    expect(SchedulePermissionPolicy.can(schedule, { userId: 'co-1' }, 'transfer_ownership')).toBe(
+      false
+    );
+    expect(
+      SchedulePermissionPolicy.can(schedule, { userId: 'author-1' }, 'transfer_ownership')
+    ).toBe(true);
+  });
+
+  it('should treat missing or malformed permissions as non-moderator', () => {
+    expect(SchedulePermissionPolicy.isModerator(undefined)).toBe(false);
+    expect(SchedulePermissionPolicy.isModerator('not-a-number')).toBe(false);
+    expect(SchedulePermissionPolicy.isModerator(MANAGE_MESSAGES)).toBe(true);
+  });
+
+  it('should detect server managers, including permissions beyond 53 bits', () => {
+    expect(SchedulePermissionPolicy.isServerManager(MANAGE_GUILD)).toBe(true);
+    expect(SchedulePermissionPolicy.isServerManager(ADMINISTRATOR)).toBe(true);
+    expect(SchedulePermissionPolicy.isServerManager('2251799813685280')).toBe(true);
+    expect(SchedulePermissionPolicy.isServerManager('2251799813685248')).toBe(false);
+    expect(SchedulePermissionPolicy.isServerManager(MANAGE_MESSAGES)).toBe(false);
+    expect(SchedulePermissionPolicy.isServerManager(undefined)).toBe(false);
+    expect(SchedulePermissionPolicy.isServerManager('invalid')).toBe(false);
+  });
+});
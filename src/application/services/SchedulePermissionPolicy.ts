@@ -0,0 +1,104 @@
+/**
+ * Schedule Permission Policy
+ *
+ * 日程調整に対する操作権限の判定ポリシー
+ * 作成者・共同主催者・モデレーター（サーバー管理またはメッセージの管理権限を持つメンバー）を区別する
+ * 主催者の譲渡だけは、作成者以外は管理者またはサーバー管理権限を持つメンバーに限る
+ */
+
+export type ScheduleAction =
+  | 'edit'
+  | 'close'
+  | 'reopen'
+  | 'decide'
+  | 'delete'
+  | 'manage_organizers'
+  | 'transfer_ownership'
+  | 'view_results';
+
+export interface ScheduleActor {
+  readonly userId: string;
+  readonly permissions?: string; // インタラクションの member.permissions（10進数文字列のビットフィールド）
+}
+
+export interface ScheduleOwnership {
+  readonly authorId: string;
+  readonly coOrganizerIds?: readonly string[];
+}
+
+// Discordの権限ビット
+const MODERATOR_PERMISSION_BITS = {
+  ADMINISTRATOR: 1n << 3n,
+  MANAGE_GUILD: 1n << 5n,
+  MANAGE_MESSAGES: 1n << 13n,
+} as const;
+
+// 共同主催者に許可する操作（削除・主催者の変更は作成者とモデレーターのみ）
+const CO_ORGANIZER_ACTIONS: readonly ScheduleAction[] = [
+  'edit',
+  'close',
+  'reopen',
+  'decide',
+  'view_results',
+];
+
+export class SchedulePermissionPolicy {
+  /**
+   * 権限ビットフィールドがモデレーター権限を含むかチェック
+   */
+  static isModerator(permissions?: string): boolean {
+    if (!permissions) {
+      return false;
+    }
+
+    try {
+      const bits = BigInt(permissions);
+      const { ADMINISTRATOR, MANAGE_GUILD, MANAGE_MESSAGES } = MODERATOR_PERMISSION_BITS;
+      return (bits & (ADMINISTRATOR | MANAGE_GUILD | MANAGE_MESSAGES)) !== 0n;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 権限ビットフィールドが管理者またはサーバー管理権限を含むかチェック
+   */
+  static isServerManager(permissions?: string): boolean {
+    if (!permissions) {
+      return false;
+    }
+
+    try {
+      const bits = BigInt(permissions);
+      const { ADMINISTRATOR, MANAGE_GUILD } = MODERATOR_PERMISSION_BITS;
+      return (bits & (ADMINISTRATOR | MANAGE_GUILD)) !== 0n;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 指定された操作を行えるかチェック
+   */
+  static can(schedule: ScheduleOwnership, actor: ScheduleActor, action: ScheduleAction): boolean {
+    // 作成者を変える操作はメッセージの管理権限だけでは許可しない
+    if (action === 'transfer_ownership') {
+      return (
+        schedule.authorId === actor.userId ||
+        SchedulePermissionPolicy.isServerManager(actor.permissions)
+      );
+    }
+
+    if (
+      schedule.authorId === actor.userId ||
+      SchedulePermissionPolicy.isModerator(actor.permissions)
+    ) {
+      return true;
+    }
+
+    return (
+      CO_ORGANIZER_ACTIONS.includes(action) &&
+      (schedule.coOrganizerIds ?? []).includes(actor.userId)
+    );
+  }
+}
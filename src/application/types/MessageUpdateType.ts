@@ -9,6 +9,7 @@
 export enum MessageUpdateType {
   VOTE_UPDATE = 'vote_update',
   CLOSE_UPDATE = 'close_update',
+  REOPEN_UPDATE = 'reopen_update',
   SUMMARY_UPDATE = 'summary_update',
 }
 
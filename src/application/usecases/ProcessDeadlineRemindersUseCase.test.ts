@@ -107,6 +107,8 @@ describe('ProcessDeadlineRemindersUseCase', () => {
 
     mockNotificationService = {
       sendDeadlineReminder: vi.fn(),
+      findDirectReminderRecipients: vi.fn().mockResolvedValue([]),
+      sendDirectReminder: vi.fn().mockResolvedValue(true),
       sendSummaryMessage: vi.fn(),
       sendPRMessage: vi.fn(),
       updateMainMessage: vi.fn(),
@@ -316,6 +318,46 @@ describe('ProcessDeadlineRemindersUseCase', () => {
       );
     });
 
+    it('should send DM reminders to each recipient and continue after failures', async () => {
+      vi.mocked(mockDeadlineReminderUseCase.checkDeadlines).mockResolvedValueOnce({
+        success: true,
+        result: {
+          upcomingReminders: [
+            {
+              scheduleId: 'schedule-123',
+              guildId: 'guild-123',
+              reminderType: '1d',
+              message: '回答締切まで残り1日',
+            },
+          ],
+          justClosed: [],
+        },
+      });
+      vi.mocked(mockGetScheduleUseCase.execute).mockResolvedValue({
+        success: true,
+        schedule: mockSchedule,
+      });
+      mockNotificationService.findDirectReminderRecipients.mockResolvedValueOnce([
+        'user-1',
+        'user-2',
+      ]);
+      mockNotificationService.sendDirectReminder.mockResolvedValueOnce(false);
+
+      await useCase.execute();
+
+      expect(mockNotificationService.sendDirectReminder).toHaveBeenCalledTimes(2);
+      expect(mockNotificationService.sendDirectReminder).toHaveBeenLastCalledWith(
+        mockSchedule,
+        'user-2',
+        '回答締切まで残り1日'
+      );
+      expect(mockReminderStateService.markReminderSent).toHaveBeenCalledWith({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        reminderType: '1d',
+      });
+    });
+
     it('should continue processing when summary fetch fails', async () => {
       vi.mocked(mockDeadlineReminderUseCase.checkDeadlines).mockResolvedValueOnce({
         success: true,
@@ -141,6 +141,18 @@ export class ProcessDeadlineRemindersUseCase {
 
           await this.notificationService.sendDeadlineReminder(scheduleResult.schedule, message);
 
+          // DMリマインダー（失敗はユーザーごとにログに残し、処理は継続する）
+          const recipients = await this.notificationService.findDirectReminderRecipients(
+            scheduleResult.schedule
+          );
+          for (const userId of recipients) {
+            await this.notificationService.sendDirectReminder(
+              scheduleResult.schedule,
+              userId,
+              message
+            );
+          }
+
           await this.reminderStateService.markReminderSent({
             scheduleId,
             guildId,
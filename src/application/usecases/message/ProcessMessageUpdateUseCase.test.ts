@@ -87,6 +87,9 @@ describe('ProcessMessageUpdateUseCase', () => {
       getGuildMember: vi.fn(),
       createInteractionResponse: vi.fn(),
       searchGuildMembers: vi.fn(),
+      listGuildMembers: vi.fn(),
+      createGuildScheduledEvent: vi.fn(),
+      updateGuildScheduledEvent: vi.fn(),
     } as any;
 
     mockDiscordMessageService = {
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IScheduleRecurrenceRepository } from '../../../domain/repositories/interfaces';
+import type { DomainScheduleRecurrence } from '../../../domain/types/DomainTypes';
+import type { DiscordMessageService } from '../../../presentation/services/DiscordMessageService';
+import type { IDiscordApiPort } from '../../ports/DiscordApiPort';
+import type { ILogger } from '../../ports/LoggerPort';
+import type { CreateScheduleUseCase } from '../schedule/CreateScheduleUseCase';
+import type { GetScheduleSummaryUseCase } from '../schedule/GetScheduleSummaryUseCase';
+import type { UpdateScheduleUseCase } from '../schedule/UpdateScheduleUseCase';
+import { ProcessScheduleRecurrencesUseCase } from './ProcessScheduleRecurrencesUseCase';
+
+describe('ProcessScheduleRecurrencesUseCase', () => {
+  let useCase: ProcessScheduleRecurrencesUseCase;
+  let mockRecurrenceRepository: IScheduleRecurrenceRepository;
+  let mockCreateScheduleUseCase: Pick<CreateScheduleUseCase, 'execute'>;
+  let mockGetScheduleSummaryUseCase: Pick<GetScheduleSummaryUseCase, 'execute'>;
+  let mockUpdateScheduleUseCase: Pick<UpdateScheduleUseCase, 'execute'>;
+  let mockDiscordApiService: Pick<IDiscordApiPort, 'sendMessage'>;
+  let mockDiscordMessageService: Pick<DiscordMessageService, 'formatRecurringScheduleMessage'>;
+  let mockLogger: ILogger;
+
+  // 2030/12/02(月) 09:00 JST
+  const now = new Date('2030-12-02T00:00:00.000Z');
+
+  const recurrence: DomainScheduleRecurrence = {
+    id: 'recurrence-1',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    authorId: 'user-123',
+    authorUsername: 'TestUser',
+    title: '定例会',
+    reminderTimings: ['1d'],
+    invitedRoleIds: ['role-1'],
+    runWeekday: 1,
+    runTime: '09:00',
+    timezone: 'Asia/Tokyo',
+    candidateRule: '来週 火-木 20:00',
+    deadlineOffset: '1d',
+    paused: false,
+    nextRunAt: now,
+    createdAt: new Date('2030-11-01T00:00:00.000Z'),
+    updatedAt: new Date('2030-11-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    mockRecurrenceRepository = {
+      findByGuild: vi.fn(),
+      findById: vi.fn(),
+      findDue: vi.fn().mockResolvedValue([recurrence]),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+    mockCreateScheduleUseCase = {
+      execute: vi.fn().mockResolvedValue({
+        success: true,
+        schedule: { id: 'schedule-new', title: '定例会' },
+      }),
+    };
+    mockGetScheduleSummaryUseCase = {
+      execute: vi.fn().mockResolvedValue({ success: true, summary: { schedule: {} } }),
+    };
+    mockUpdateScheduleUseCase = {
+      execute: vi.fn().mockResolvedValue({ success: true }),
+    };
+    mockDiscordApiService = {
+      sendMessage: vi.fn().mockResolvedValue({ id: 'message-123' }),
+    };
+    mockDiscordMessageService = {
+      formatRecurringScheduleMessage: vi.fn().mockReturnValue({
+        content: 'created',
+        embed: { title: '定例会' },
+        components: [],
+      }),
+    };
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new ProcessScheduleRecurrencesUseCase(
+      mockRecurrenceRepository,
+      mockCreateScheduleUseCase as CreateScheduleUseCase,
+      mockGetScheduleSummaryUseCase as GetScheduleSummaryUseCase,
+      mockUpdateScheduleUseCase as UpdateScheduleUseCase,
+      mockDiscordApiService as IDiscordApiPort,
+      mockDiscordMessageService as DiscordMessageService,
+      mockLogger,
+      'bot-token'
+    );
+  });
+
+  it('should create and post a schedule for each due recurrence', async () => {
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ processed: 1, created: 1, failed: 0 });
+    expect(mockCreateScheduleUseCase.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        guildId: 'guild-123',
+        channelId: 'channel-123',
+        authorId: 'user-123',
+        title: '定例会',
+        deadline: '2030-12-09T11:00:00.000Z',
+        reminderTimings: ['1d'],
+        invitedRoleIds: ['role-1'],
+      })
+    );
+    const request = vi.mocked(mockCreateScheduleUseCase.execute).mock.calls[0][0];
+    expect(request.dates.map((date) => date.datetime)).toEqual([
+      '2030/12/10(火) 20:00',
+      '2030/12/11(水) 20:00',
+      '2030/12/12(木) 20:00',
+    ]);
+    expect(request.dates[0].startAt).toBe('2030-12-10T11:00:00.000Z');
+
+    expect(mockDiscordApiService.sendMessage).toHaveBeenCalledWith({
+      channelId: 'channel-123',
+      message: { content: 'created', embeds: [{ title: '定例会' }], components: [] },
+      botToken: 'bot-token',
+    });
+    expect(mockUpdateScheduleUseCase.execute).toHaveBeenCalledWith({
+      scheduleId: 'schedule-new',
+      guildId: 'guild-123',
+      editorUserId: 'user-123',
+      messageId: 'message-123',
+    });
+  });
+
+  it('should advance the next run before creating the schedule', async () => {
+    await useCase.execute(now);
+
+    expect(mockRecurrenceRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'recurrence-1',
+        nextRunAt: new Date('2030-12-09T00:00:00.000Z'),
+        lastRunAt: now,
+      })
+    );
+    expect(vi.mocked(mockRecurrenceRepository.save).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(mockCreateScheduleUseCase.execute).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should count failures and continue with the next recurrence', async () => {
+    vi.mocked(mockRecurrenceRepository.findDue).mockResolvedValueOnce([
+      recurrence,
+      { ...recurrence, id: 'recurrence-2' },
+    ]);
+    vi.mocked(mockDiscordApiService.sendMessage).mockRejectedValueOnce(new Error('Missing Access'));
+
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ processed: 2, created: 1, failed: 1 });
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to process schedule recurrence',
+      expect.any(Error),
+      expect.objectContaining({ recurrenceId: 'recurrence-1' })
+    );
+  });
+
+  it('should skip creation when the schedule quota is exceeded', async () => {
+    vi.mocked(mockCreateScheduleUseCase.execute).mockResolvedValueOnce({
+      success: false,
+      errors: ['上限に達しています'],
+    });
+
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ processed: 1, created: 0, failed: 1 });
+    expect(mockDiscordApiService.sendMessage).not.toHaveBeenCalled();
+    expect(mockRecurrenceRepository.save).toHaveBeenCalled();
+  });
+});
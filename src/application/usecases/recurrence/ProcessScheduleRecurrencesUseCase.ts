@@ -0,0 +1,185 @@
+/**
+ * Process Schedule Recurrences Use Case
+ *
+ * 定期実行（cron）で、作成日時を迎えた定期作成から日程調整を作成して投稿するユースケース
+ * 日程調整の作成とメッセージの投稿は作成モーダルと同じ経路（作成 → サマリー取得 → 投稿 → メッセージID保存）を使う
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type { IScheduleRecurrenceRepository } from '../../../domain/repositories/interfaces';
+import type { DomainScheduleRecurrence } from '../../../domain/types/DomainTypes';
+import { formatCandidateDateRange } from '../../../domain/utils/date';
+import { generateId } from '../../../domain/utils/id';
+import {
+  getNextRecurrenceRun,
+  planRecurrenceRun,
+  restoreRecurrenceRunTiming,
+} from '../../../domain/utils/recurrence';
+import type { DiscordMessageService } from '../../../presentation/services/DiscordMessageService';
+import type { IDiscordApiPort } from '../../ports/DiscordApiPort';
+import type { ILogger } from '../../ports/LoggerPort';
+import type { CreateScheduleUseCase } from '../schedule/CreateScheduleUseCase';
+import type { GetScheduleSummaryUseCase } from '../schedule/GetScheduleSummaryUseCase';
+import type { UpdateScheduleUseCase } from '../schedule/UpdateScheduleUseCase';
+
+export interface ProcessScheduleRecurrencesResult {
+  processed: number;
+  created: number;
+  failed: number;
+}
+
+export class ProcessScheduleRecurrencesUseCase {
+  constructor(
+    private readonly recurrenceRepository: IScheduleRecurrenceRepository,
+    private readonly createScheduleUseCase: CreateScheduleUseCase,
+    private readonly getScheduleSummaryUseCase: GetScheduleSummaryUseCase,
+    private readonly updateScheduleUseCase: UpdateScheduleUseCase,
+    private readonly discordApiService: IDiscordApiPort,
+    private readonly discordMessageService: DiscordMessageService,
+    private readonly logger: ILogger,
+    private readonly discordToken: string
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<ProcessScheduleRecurrencesResult> {
+    const recurrences = await this.recurrenceRepository.findDue(
+      now,
+      BUSINESS_CONSTANTS.MAX_RECURRENCES_PER_RUN
+    );
+    const result: ProcessScheduleRecurrencesResult = {
+      processed: recurrences.length,
+      created: 0,
+      failed: 0,
+    };
+
+    for (const recurrence of recurrences) {
+      try {
+        // 投稿に失敗しても同じ回を重複して作成しないよう、先に次回作成日時へ進める
+        // 停止中などで複数回分が過ぎていた場合は、まとめて1回だけ作成する
+        await this.recurrenceRepository.save({
+          ...recurrence,
+          nextRunAt: getNextRecurrenceRun(
+            restoreRecurrenceRunTiming(recurrence.runWeekday, recurrence.runTime),
+            now,
+            recurrence.timezone
+          ),
+          lastRunAt: now,
+          updatedAt: now,
+        });
+
+        if (await this.createScheduleFromRecurrence(recurrence, now)) {
+          result.created++;
+        } else {
+          result.failed++;
+        }
+      } catch (error) {
+        result.failed++;
+        this.logger.error(
+          'Failed to process schedule recurrence',
+          error instanceof Error ? error : new Error(String(error)),
+          {
+            operation: 'process-schedule-recurrence',
+            recurrenceId: recurrence.id,
+            guildId: recurrence.guildId,
+          }
+        );
+      }
+    }
+
+    if (result.processed > 0) {
+      this.logger.info('Schedule recurrences processed', {
+        operation: 'process-schedule-recurrences',
+        ...result,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 定期作成の内容で日程調整を作成し、チャンネルに投稿する
+   */
+  private async createScheduleFromRecurrence(
+    recurrence: DomainScheduleRecurrence,
+    now: Date
+  ): Promise<boolean> {
+    const logContext = {
+      operation: 'process-schedule-recurrence',
+      recurrenceId: recurrence.id,
+      guildId: recurrence.guildId,
+    };
+
+    const plan = planRecurrenceRun(
+      recurrence.candidateRule,
+      recurrence.deadlineOffset,
+      now,
+      recurrence.timezone
+    );
+    const candidates = plan?.candidates.slice(0, BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE) ?? [];
+    if (candidates.length === 0) {
+      this.logger.warn('Recurrence produced no candidates', logContext);
+      return false;
+    }
+
+    const createResult = await this.createScheduleUseCase.execute({
+      guildId: recurrence.guildId,
+      channelId: recurrence.channelId,
+      authorId: recurrence.authorId,
+      authorUsername: recurrence.authorUsername,
+      title: recurrence.title,
+      description: recurrence.description,
+      dates: candidates.map((range) => ({
+        id: generateId(),
+        datetime: formatCandidateDateRange(range, recurrence.timezone),
+        startAt: range.startAt.toISOString(),
+        endAt: range.endAt?.toISOString(),
+      })),
+      // 作成が遅れて締切が過ぎてしまう場合は締切なしで作成する
+      deadline: plan?.deadline && plan.deadline > now ? plan.deadline.toISOString() : undefined,
+      reminderTimings: recurrence.reminderTimings,
+      reminderMentions: recurrence.reminderMentions,
+      reminderMode: recurrence.reminderMode,
+      dmReminders: recurrence.dmReminders,
+      invitedUserIds: recurrence.invitedUserIds,
+      invitedRoleIds: recurrence.invitedRoleIds,
+    });
+    if (!createResult.success || !createResult.schedule) {
+      this.logger.warn('Failed to create schedule from recurrence', {
+        ...logContext,
+        errors: createResult.errors,
+        quotaExceeded: !!createResult.quotaExceeded,
+      });
+      return false;
+    }
+
+    const schedule = createResult.schedule;
+    const summaryResult = await this.getScheduleSummaryUseCase.execute(
+      schedule.id,
+      recurrence.guildId
+    );
+    if (!summaryResult.success || !summaryResult.summary) {
+      throw new Error(`Failed to get schedule summary: ${schedule.id}`);
+    }
+
+    const { content, embed, components } =
+      this.discordMessageService.formatRecurringScheduleMessage(summaryResult.summary);
+    const message = await this.discordApiService.sendMessage({
+      channelId: recurrence.channelId,
+      message: { content, embeds: [embed], components },
+      botToken: this.discordToken,
+    });
+
+    await this.updateScheduleUseCase.execute({
+      scheduleId: schedule.id,
+      guildId: recurrence.guildId,
+      editorUserId: recurrence.authorId,
+      messageId: message.id,
+    });
+
+    this.logger.info('Schedule created from recurrence', {
+      ...logContext,
+      scheduleId: schedule.id,
+      messageId: message.id,
+    });
+    return true;
+  }
+}
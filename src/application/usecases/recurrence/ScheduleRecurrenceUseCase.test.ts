@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  IScheduleRecurrenceRepository,
+  IScheduleRepository,
+} from '../../../domain/repositories/interfaces';
+import type { DomainSchedule, DomainScheduleRecurrence } from '../../../domain/types/DomainTypes';
+import type { ILogger } from '../../ports/LoggerPort';
+import { ScheduleRecurrenceUseCase } from './ScheduleRecurrenceUseCase';
+
+describe('ScheduleRecurrenceUseCase', () => {
+  let useCase: ScheduleRecurrenceUseCase;
+  let mockRecurrenceRepository: IScheduleRecurrenceRepository;
+  let mockScheduleRepository: Pick<IScheduleRepository, 'findById'>;
+  let mockLogger: ILogger;
+
+  const schedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    title: '定例会',
+    description: '毎週の定例会です',
+    dates: [{ id: 'date-1', datetime: '12/3(水) 19:00' }],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    coOrganizerIds: ['user-456'],
+    status: 'open',
+    reminderTimings: ['1d'],
+    reminderMentions: ['<@&role-1>'],
+    reminderMode: 'non_respondents',
+    invitedRoleIds: ['role-1'],
+    notificationSent: false,
+    totalResponses: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const existingRecurrence: DomainScheduleRecurrence = {
+    id: 'recurrence-1',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    authorId: 'user-123',
+    authorUsername: 'TestUser',
+    title: '定例会',
+    runWeekday: 1,
+    runTime: '09:00',
+    timezone: 'Asia/Tokyo',
+    candidateRule: '来週 火-木 20:00',
+    paused: true,
+    nextRunAt: new Date('2024-01-01T00:00:00.000Z'),
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  const createRequest = {
+    scheduleId: 'schedule-123',
+    guildId: 'guild-123',
+    editorUserId: 'user-456',
+    editorUsername: 'CoOrganizer',
+    runTiming: '月 09:00',
+    candidateRule: '来週 火-木 20:00',
+    deadlineOffset: '1d',
+    timeZone: 'Asia/Tokyo',
+  };
+
+  beforeEach(() => {
+    mockRecurrenceRepository = {
+      findByGuild: vi.fn().mockResolvedValue([]),
+      findById: vi.fn().mockResolvedValue(null),
+      findDue: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    mockScheduleRepository = {
+      findById: vi.fn().mockResolvedValue(schedule),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new ScheduleRecurrenceUseCase(
+      mockRecurrenceRepository,
+      mockScheduleRepository as IScheduleRepository,
+      mockLogger
+    );
+  });
+
+  describe('createFromSchedule', () => {
+    it('should register a recurrence with the schedule content', async () => {
+      const result = await useCase.createFromSchedule(createRequest);
+
+      expect(result.success).toBe(true);
+      expect(result.recurrence).toMatchObject({
+        title: '定例会',
+        runTiming: '毎週月曜 09:00',
+        candidateRule: '来週 火-木 20:00',
+        deadlineOffset: '1d',
+        paused: false,
+      });
+      expect(result.previewDates).toHaveLength(3);
+      expect(result.previewDates?.[0]).toMatch(/\(火\) 20:00$/);
+      expect(mockRecurrenceRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channelId: 'channel-123',
+          authorId: 'user-456',
+          authorUsername: 'CoOrganizer',
+          description: '毎週の定例会です',
+          reminderTimings: ['1d'],
+          reminderMode: 'non_respondents',
+          invitedRoleIds: ['role-1'],
+          runWeekday: 1,
+          runTime: '09:00',
+          timezone: 'Asia/Tokyo',
+        })
+      );
+
+      const saved = vi.mocked(mockRecurrenceRepository.save).mock.calls[0][0];
+      expect(saved.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should validate the run timing, candidate rule and deadline', async () => {
+      const invalidTiming = await useCase.createFromSchedule({
+        ...createRequest,
+        runTiming: '毎朝',
+      });
+      const invalidRule = await useCase.createFromSchedule({
+        ...createRequest,
+        candidateRule: '来週のどこか',
+      });
+      const invalidOffset = await useCase.createFromSchedule({
+        ...createRequest,
+        deadlineOffset: '1週間',
+      });
+      const tooEarly = await useCase.createFromSchedule({
+        ...createRequest,
+        deadlineOffset: '10d',
+      });
+
+      expect(invalidTiming.errors?.[0]).toContain('「月 09:00」');
+      expect(invalidRule.errors?.[0]).toContain('「来週 火-木 20:00」');
+      expect(invalidOffset.errors?.[0]).toContain('「1d」');
+      expect(tooEarly.errors?.[0]).toContain('締切が作成タイミングより前');
+      expect(mockRecurrenceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should require edit permission on the schedule', async () => {
+      const result = await useCase.createFromSchedule({
+        ...createRequest,
+        editorUserId: 'user-789',
+      });
+
+      expect(result.errors).toEqual(['権限がありません。']);
+      expect(mockRecurrenceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-guild recurrence limit', async () => {
+      vi.mocked(mockRecurrenceRepository.findByGuild).mockResolvedValueOnce(
+        Array.from({ length: 10 }, (_, i) => ({ ...existingRecurrence, id: `r-${i}` }))
+      );
+
+      const result = await useCase.createFromSchedule(createRequest);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('10件まで');
+    });
+  });
+
+  describe('setPaused', () => {
+    it('should resume from the next upcoming run', async () => {
+      vi.mocked(mockRecurrenceRepository.findById).mockResolvedValueOnce(existingRecurrence);
+
+      const result = await useCase.setPaused(
+        { recurrenceId: 'recurrence-1', guildId: 'guild-123', editorUserId: 'user-123' },
+        false
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.recurrence?.paused).toBe(false);
+      expect(new Date(result.recurrence?.nextRunAt ?? 0).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not let other members pause a recurrence', async () => {
+      vi.mocked(mockRecurrenceRepository.findById).mockResolvedValueOnce(existingRecurrence);
+
+      const result = await useCase.setPaused(
+        {
+          recurrenceId: 'recurrence-1',
+          guildId: 'guild-123',
+          editorUserId: 'user-789',
+          editorPermissions: '0',
+        },
+        true
+      );
+
+      expect(result.errors?.[0]).toContain('登録したメンバーとサーバーのモデレーターのみ');
+      expect(mockRecurrenceRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteRecurrence', () => {
+    it('should let moderators delete recurrences registered by others', async () => {
+      vi.mocked(mockRecurrenceRepository.findById).mockResolvedValueOnce(existingRecurrence);
+
+      const result = await useCase.deleteRecurrence({
+        recurrenceId: 'recurrence-1',
+        guildId: 'guild-123',
+        editorUserId: 'moderator',
+        editorPermissions: String(1 << 13),
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockRecurrenceRepository.delete).toHaveBeenCalledWith('recurrence-1', 'guild-123');
+    });
+
+    it('should return error when the recurrence does not exist', async () => {
+      const result = await useCase.deleteRecurrence({
+        recurrenceId: 'missing',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.errors).toEqual(['定期作成が見つかりません。']);
+    });
+
+    it('should handle repository errors', async () => {
+      vi.mocked(mockRecurrenceRepository.findById).mockRejectedValueOnce(new Error('DB error'));
+
+      const result = await useCase.deleteRecurrence({
+        recurrenceId: 'recurrence-1',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.errors).toEqual(['処理中にエラーが発生しました。']);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+});
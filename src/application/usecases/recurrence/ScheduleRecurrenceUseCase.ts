@@ -0,0 +1,287 @@
+/**
+ * Schedule Recurrence Use Case
+ *
+ * 日程調整の定期作成を管理するユースケース
+ * 既存の日程調整の内容と、作成タイミング・候補日のルールを組み合わせて登録する
+ * 一時停止・再開・削除は登録したメンバーとモデレーターのみ行える
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type {
+  IScheduleRecurrenceRepository,
+  IScheduleRepository,
+} from '../../../domain/repositories/interfaces';
+import type { DomainScheduleRecurrence } from '../../../domain/types/DomainTypes';
+import { formatCandidateDateRange } from '../../../domain/utils/date';
+import { generateId } from '../../../domain/utils/id';
+import {
+  formatRecurrenceRunTime,
+  formatRecurrenceRunTiming,
+  getNextRecurrenceRun,
+  parseDeadlineOffset,
+  parseRecurrenceRunTiming,
+  planRecurrenceRun,
+  restoreRecurrenceRunTiming,
+} from '../../../domain/utils/recurrence';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type {
+  CreateScheduleRecurrenceRequestDto,
+  ManageScheduleRecurrenceRequestDto,
+  ScheduleRecurrenceDto,
+} from '../../dto/ScheduleRecurrenceDto';
+import type { ILogger } from '../../ports/LoggerPort';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
+
+export interface ScheduleRecurrenceUseCaseResult {
+  success: boolean;
+  recurrence?: ScheduleRecurrenceDto;
+  // 次回作成される日程候補（登録時の確認表示用）
+  previewDates?: string[];
+  errors?: string[];
+}
+
+export interface ScheduleRecurrenceListResult {
+  success: boolean;
+  recurrences?: ScheduleRecurrenceDto[];
+  errors?: string[];
+}
+
+export class ScheduleRecurrenceUseCase {
+  constructor(
+    private readonly recurrenceRepository: IScheduleRecurrenceRepository,
+    private readonly scheduleRepository: IScheduleRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * 日程調整の内容で定期作成を登録する
+   */
+  async createFromSchedule(
+    request: CreateScheduleRecurrenceRequestDto
+  ): Promise<ScheduleRecurrenceUseCaseResult> {
+    const timing = parseRecurrenceRunTiming(request.runTiming);
+    if (!timing) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_RECURRENCE_RUN_TIMING] };
+    }
+
+    const deadlineOffset = request.deadlineOffset?.trim() || undefined;
+    if (deadlineOffset && parseDeadlineOffset(deadlineOffset) === null) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_DEADLINE_OFFSET] };
+    }
+
+    const now = new Date();
+    const nextRunAt = getNextRecurrenceRun(timing, now, request.timeZone);
+    const candidateRule = request.candidateRule.trim();
+    const plan = planRecurrenceRun(candidateRule, deadlineOffset, nextRunAt, request.timeZone);
+    if (!plan) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_CANDIDATE_RULE] };
+    }
+    if (plan.candidates.length === 0) {
+      return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_NO_CANDIDATES] };
+    }
+    if (plan.candidates.length > BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE) {
+      return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_TOO_MANY_CANDIDATES] };
+    }
+    if (plan.deadline && plan.deadline <= nextRunAt) {
+      return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_DEADLINE_TOO_EARLY] };
+    }
+
+    try {
+      const schedule = await this.scheduleRepository.findById(request.scheduleId, request.guildId);
+      if (!schedule) {
+        return { success: false, errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND] };
+      }
+
+      if (
+        !SchedulePermissionPolicy.can(
+          schedule,
+          { userId: request.editorUserId, permissions: request.editorPermissions },
+          'edit'
+        )
+      ) {
+        return { success: false, errors: [ERROR_MESSAGES.PERMISSION_DENIED] };
+      }
+
+      const recurrences = await this.recurrenceRepository.findByGuild(request.guildId);
+      if (recurrences.length >= BUSINESS_CONSTANTS.MAX_RECURRENCES_PER_GUILD) {
+        return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_QUOTA_EXCEEDED] };
+      }
+
+      const recurrence: DomainScheduleRecurrence = {
+        id: generateId(),
+        guildId: request.guildId,
+        channelId: schedule.channelId,
+        authorId: request.editorUserId,
+        authorUsername: request.editorUsername,
+        title: schedule.title,
+        description: schedule.description,
+        reminderTimings: schedule.reminderTimings,
+        reminderMentions: schedule.reminderMentions,
+        reminderMode: schedule.reminderMode,
+        dmReminders: schedule.dmReminders,
+        invitedUserIds: schedule.invitedUserIds,
+        invitedRoleIds: schedule.invitedRoleIds,
+        runWeekday: timing.weekday,
+        runTime: formatRecurrenceRunTime(timing),
+        timezone: request.timeZone,
+        candidateRule,
+        deadlineOffset,
+        paused: false,
+        nextRunAt,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.recurrenceRepository.save(recurrence);
+
+      return {
+        success: true,
+        recurrence: this.toDto(recurrence),
+        previewDates: plan.candidates.map((range) =>
+          formatCandidateDateRange(range, request.timeZone)
+        ),
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to create schedule recurrence',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId: request.guildId, scheduleId: request.scheduleId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * サーバーの定期作成を登録順で取得する
+   */
+  async listRecurrences(guildId: string): Promise<ScheduleRecurrenceListResult> {
+    try {
+      const recurrences = await this.recurrenceRepository.findByGuild(guildId);
+      return {
+        success: true,
+        recurrences: recurrences.map((recurrence) => this.toDto(recurrence)),
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to list schedule recurrences',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * 定期作成を取得する
+   */
+  async getRecurrence(
+    recurrenceId: string,
+    guildId: string
+  ): Promise<ScheduleRecurrenceUseCaseResult> {
+    try {
+      const recurrence = await this.recurrenceRepository.findById(recurrenceId, guildId);
+      if (!recurrence) {
+        return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_NOT_FOUND] };
+      }
+      return { success: true, recurrence: this.toDto(recurrence) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to get schedule recurrence',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId, recurrenceId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * 定期作成を一時停止・再開する
+   * 再開時は停止中に過ぎた作成日時をとばし、次に訪れる作成日時から再開する
+   */
+  async setPaused(
+    request: ManageScheduleRecurrenceRequestDto,
+    paused: boolean
+  ): Promise<ScheduleRecurrenceUseCaseResult> {
+    return this.manage(request, 'update', async (recurrence) => {
+      const now = new Date();
+      const updated: DomainScheduleRecurrence = {
+        ...recurrence,
+        paused,
+        nextRunAt: paused
+          ? recurrence.nextRunAt
+          : getNextRecurrenceRun(
+              restoreRecurrenceRunTiming(recurrence.runWeekday, recurrence.runTime),
+              now,
+              recurrence.timezone
+            ),
+        updatedAt: now,
+      };
+      await this.recurrenceRepository.save(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * 定期作成を削除する（作成済みの日程調整はそのまま残る）
+   */
+  async deleteRecurrence(
+    request: ManageScheduleRecurrenceRequestDto
+  ): Promise<ScheduleRecurrenceUseCaseResult> {
+    return this.manage(request, 'delete', async (recurrence) => {
+      await this.recurrenceRepository.delete(recurrence.id, request.guildId);
+      return recurrence;
+    });
+  }
+
+  private async manage(
+    request: ManageScheduleRecurrenceRequestDto,
+    operation: 'update' | 'delete',
+    apply: (recurrence: DomainScheduleRecurrence) => Promise<DomainScheduleRecurrence>
+  ): Promise<ScheduleRecurrenceUseCaseResult> {
+    try {
+      const recurrence = await this.recurrenceRepository.findById(
+        request.recurrenceId,
+        request.guildId
+      );
+      if (!recurrence) {
+        return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_NOT_FOUND] };
+      }
+
+      if (
+        recurrence.authorId !== request.editorUserId &&
+        !SchedulePermissionPolicy.isModerator(request.editorPermissions)
+      ) {
+        return { success: false, errors: [ERROR_MESSAGES.RECURRENCE_PERMISSION_DENIED] };
+      }
+
+      return { success: true, recurrence: this.toDto(await apply(recurrence)) };
+    } catch (error) {
+      this.logger.error(
+        `Failed to ${operation} schedule recurrence`,
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId: request.guildId, recurrenceId: request.recurrenceId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  private toDto(recurrence: DomainScheduleRecurrence): ScheduleRecurrenceDto {
+    return {
+      id: recurrence.id,
+      guildId: recurrence.guildId,
+      channelId: recurrence.channelId,
+      authorId: recurrence.authorId,
+      title: recurrence.title,
+      runTiming: formatRecurrenceRunTiming(
+        restoreRecurrenceRunTiming(recurrence.runWeekday, recurrence.runTime)
+      ),
+      timezone: recurrence.timezone,
+      candidateRule: recurrence.candidateRule,
+      deadlineOffset: recurrence.deadlineOffset,
+      paused: recurrence.paused,
+      nextRunAt: recurrence.nextRunAt.toISOString(),
+      lastRunAt: recurrence.lastRunAt?.toISOString(),
+      createdAt: recurrence.createdAt.toISOString(),
+      updatedAt: recurrence.updatedAt.toISOString(),
+    };
+  }
+}
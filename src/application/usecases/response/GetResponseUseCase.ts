@@ -230,6 +230,7 @@ export class GetResponseUseCase {
       username: primitives.user.username,
       displayName: primitives.user.displayName,
       dateStatuses,
+      comment: primitives.comment,
       updatedAt: primitives.updatedAt.toISOString(),
     };
   }
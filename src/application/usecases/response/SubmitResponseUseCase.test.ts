@@ -11,6 +11,8 @@ import {
   createTestResponseData,
   createTestScheduleData,
 } from '../../../../tests/test-utils/MockRepositoryFactory';
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type { SubmitResponseRequestDto } from '../../dto/ResponseDto';
 import { SubmitResponseUseCase } from './SubmitResponseUseCase';
 
@@ -108,6 +110,44 @@ describe('SubmitResponseUseCase', () => {
       const result = await useCase.execute(request);
 
       expect(result.success).toBe(true);
+      expect(result.response?.comment).toBeUndefined();
+    });
+
+    it('should save comment with response', async () => {
+      const schedule = createTestScheduleData();
+      await mockScheduleRepository.save(schedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'test-schedule-1',
+        guildId: 'guild123',
+        userId: 'user456',
+        username: 'responder',
+        responses: [{ dateId: 'date1', status: 'ok' }],
+        comment: '30分遅れます',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.response?.comment).toBe('30分遅れます');
+    });
+
+    it('should keep existing comment when comment is not specified', async () => {
+      const schedule = createTestScheduleData();
+      await mockScheduleRepository.save(schedule);
+      await mockResponseRepository.save(
+        createTestResponseData({ userId: 'user456', comment: '30分遅れます' }),
+        'guild123'
+      );
+
+      const result = await useCase.execute({
+        scheduleId: 'test-schedule-1',
+        guildId: 'guild123',
+        userId: 'user456',
+        username: 'responder',
+        responses: [{ dateId: 'date1', status: 'ng' }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.response?.comment).toBe('30分遅れます');
     });
 
     it('should save response to repository', async () => {
@@ -300,6 +340,47 @@ describe('SubmitResponseUseCase', () => {
     });
   });
 
+  describe('Response Limit', () => {
+    const request: SubmitResponseRequestDto = {
+      scheduleId: 'test-schedule-1',
+      guildId: 'guild123',
+      userId: 'user456',
+      username: 'responder',
+      responses: [{ dateId: 'date1', status: 'ok' }],
+    };
+
+    it('should reject new respondents when the schedule is full', async () => {
+      await mockScheduleRepository.save(
+        createTestScheduleData({ totalResponses: BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE })
+      );
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([ERROR_MESSAGES.RESPONSE_QUOTA_EXCEEDED]);
+      expect(result.quotaExceeded).toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+        resource: 'responses_per_schedule',
+        limit: BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE,
+      });
+      expect(await mockResponseRepository.findByScheduleId('test-schedule-1', 'guild123')).toEqual(
+        []
+      );
+    });
+
+    it('should still accept updates from existing respondents when the schedule is full', async () => {
+      await mockScheduleRepository.save(
+        createTestScheduleData({ totalResponses: BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE })
+      );
+      await mockResponseRepository.save(createTestResponseData({ userId: 'user456' }), 'guild123');
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(result.quotaExceeded).toBeUndefined();
+    });
+  });
+
   describe('Repository Errors', () => {
     it('should handle schedule repository errors', async () => {
       const findByIdSpy = vi
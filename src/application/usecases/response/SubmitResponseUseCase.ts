@@ -5,9 +5,11 @@
  * ビジネスルールの検証とレスポンス作成処理を実行
  */
 
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
 import type { Response } from '../../../domain/entities/Response';
 import { ResponseStatus } from '../../../domain/entities/ResponseStatus';
 import { User } from '../../../domain/entities/User';
+import { QuotaExceededError } from '../../../domain/errors/DomainErrors';
 import type {
   IResponseRepository,
   IScheduleRepository,
@@ -17,6 +19,7 @@ import {
   type UserResponseData,
 } from '../../../domain/services/ResponseDomainService';
 import type { DomainResponse, DomainResponseStatus } from '../../../domain/types/DomainTypes';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type {
   ResponseDto,
   ResponseSubmissionResultDto,
@@ -69,6 +72,24 @@ export class SubmitResponseUseCase {
         ? ResponseMapper.toDomain(existingResponseData)
         : undefined;
 
+      // 回答者数の上限チェック（既存回答の更新は上限に関係なく受け付ける）
+      if (
+        !existingResponse &&
+        schedule.totalResponses >= BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE
+      ) {
+        return {
+          success: false,
+          response: {} as ResponseDto,
+          isNewResponse: false,
+          errors: [ERROR_MESSAGES.RESPONSE_QUOTA_EXCEEDED],
+          quotaExceeded: new QuotaExceededError(
+            'responses_per_schedule',
+            BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE,
+            schedule.totalResponses
+          ),
+        };
+      }
+
       // 5. ユーザーオブジェクトの作成
       const user = User.create(request.userId, request.username, request.displayName);
 
@@ -91,13 +112,18 @@ export class SubmitResponseUseCase {
       }
 
       // 8. レスポンスの作成・更新
-      const response = ResponseDomainService.createOrUpdateResponse({
+      let response = ResponseDomainService.createOrUpdateResponse({
         scheduleId: request.scheduleId,
         user,
         responseData,
         existingResponse,
       });
 
+      // コメントが指定された場合のみ更新（未指定なら既存のコメントを保持）
+      if (request.comment !== undefined) {
+        response = response.updateComment(request.comment);
+      }
+
       // 9. リポジトリへの保存
       const primitives = response.toPrimitives();
       const domainResponse: DomainResponse = {
@@ -106,6 +132,7 @@ export class SubmitResponseUseCase {
         username: primitives.user.username,
         displayName: primitives.user.displayName,
         dateStatuses: primitives.dateStatuses as Record<string, DomainResponseStatus>,
+        comment: primitives.comment,
         updatedAt: primitives.updatedAt,
       };
       await this.responseRepository.save(domainResponse, request.guildId);
@@ -166,6 +193,10 @@ export class SubmitResponseUseCase {
       });
     }
 
+    if (request.comment && request.comment.length > BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH) {
+      errors.push(`コメントは${BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH}文字以内で入力してください`);
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -194,6 +225,7 @@ export class SubmitResponseUseCase {
       username: primitives.user.username,
       displayName: primitives.user.displayName,
       dateStatuses,
+      comment: primitives.comment,
       updatedAt: primitives.updatedAt.toISOString(),
     };
   }
@@ -96,6 +96,39 @@ describe('UpdateResponseUseCase', () => {
       });
     });
 
+    it('should update only the comment and keep statuses', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockResponseRepository.findByUser).mockResolvedValueOnce(mockResponse);
+      vi.mocked(mockResponseRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        userId: 'user-456',
+        comment: '30分遅れます',
+        guildId: 'guild-123',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.response?.comment).toBe('30分遅れます');
+
+      const savedResponse = vi.mocked(mockResponseRepository.save).mock.calls[0][0];
+      expect(savedResponse.comment).toBe('30分遅れます');
+      expect(savedResponse.dateStatuses).toEqual(mockResponse.dateStatuses);
+    });
+
+    it('should reject comments longer than the limit', async () => {
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        userId: 'user-456',
+        comment: 'a'.repeat(1001),
+        guildId: 'guild-123',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('コメントは1000文字以内で入力してください');
+      expect(mockResponseRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should return error when schedule not found', async () => {
       vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(null);
 
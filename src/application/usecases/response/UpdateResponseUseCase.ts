@@ -5,6 +5,7 @@
  * ビジネスルールの検証とレスポンス更新処理を実行
  */
 
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
 import type { Response } from '../../../domain/entities/Response';
 import { ResponseStatus } from '../../../domain/entities/ResponseStatus';
 import type {
@@ -113,6 +114,11 @@ export class UpdateResponseUseCase {
         updatedResponse = updatedResponse.updateStatuses(newStatuses);
       }
 
+      // コメントの更新
+      if (request.comment !== undefined) {
+        updatedResponse = updatedResponse.updateComment(request.comment);
+      }
+
       // 9. リポジトリへの保存
       const primitives = updatedResponse.toPrimitives();
       const domainResponse: DomainResponse = {
@@ -121,6 +127,7 @@ export class UpdateResponseUseCase {
         username: primitives.user.username,
         displayName: primitives.user.displayName,
         dateStatuses: primitives.dateStatuses as Record<string, DomainResponseStatus>,
+        comment: primitives.comment,
         updatedAt: primitives.updatedAt,
       };
       await this.responseRepository.save(domainResponse, request.guildId);
@@ -180,8 +187,12 @@ export class UpdateResponseUseCase {
       }
     }
 
-    // レスポンスが指定されていない場合
-    if (!request.responses) {
+    if (request.comment && request.comment.length > BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH) {
+      errors.push(`コメントは${BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH}文字以内で入力してください`);
+    }
+
+    // レスポンスもコメントも指定されていない場合
+    if (!request.responses && request.comment === undefined) {
       errors.push('更新内容が指定されていません');
     }
 
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import type { DomainSchedule } from '../../../domain/types/DomainTypes';
+import { RepositoryError } from '../../../infrastructure/repositories/errors';
+import { CloneScheduleUseCase } from './CloneScheduleUseCase';
+
+describe('CloneScheduleUseCase', () => {
+  let useCase: CloneScheduleUseCase;
+  let mockScheduleRepository: IScheduleRepository;
+
+  const sourceSchedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    title: '定例会',
+    description: '毎週の定例会です',
+    dates: [
+      {
+        id: 'date-1',
+        datetime: '12/26(土) 18:00〜20:00',
+        startAt: new Date('2030-12-26T09:00:00.000Z'),
+        endAt: new Date('2030-12-26T11:00:00.000Z'),
+      },
+      { id: 'date-2', datetime: '年末のどこか' },
+    ],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    status: 'closed',
+    deadline: new Date('2030-12-20T14:59:00.000Z'),
+    reminderTimings: ['1d'],
+    reminderMentions: ['<@&role-1>'],
+    reminderMode: 'non_respondents',
+    dmReminders: true,
+    invitedUserIds: ['user-456'],
+    invitedRoleIds: ['role-1'],
+    notificationSent: true,
+    totalResponses: 5,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(() => {
+    mockScheduleRepository = {
+      save: vi.fn(),
+      findById: vi.fn(),
+      findByChannel: vi.fn(),
+      findByAuthor: vi.fn(),
+      findByDeadlineRange: vi.fn(),
+      delete: vi.fn(),
+      findByMessageId: vi.fn(),
+      countByGuild: vi.fn(),
+      updateReminders: vi.fn(),
+    } as any;
+
+    useCase = new CloneScheduleUseCase(mockScheduleRepository);
+  });
+
+  describe('execute', () => {
+    it('should build a draft with the source content and settings', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(sourceSchedule);
+
+      const result = await useCase.execute({ scheduleId: 'schedule-123', guildId: 'guild-123' });
+
+      expect(result.success).toBe(true);
+      expect(result.draft).toMatchObject({
+        sourceScheduleId: 'schedule-123',
+        title: '定例会',
+        description: '毎週の定例会です',
+        deadline: '2030-12-20T14:59:00.000Z',
+        reminderTimings: ['1d'],
+        reminderMentions: ['<@&role-1>'],
+        reminderMode: 'non_respondents',
+        dmReminders: true,
+        invitedUserIds: ['user-456'],
+        invitedRoleIds: ['role-1'],
+      });
+      expect(result.draft?.dates.map((date) => date.datetime)).toEqual([
+        '12/26(土) 18:00〜20:00',
+        '年末のどこか',
+      ]);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should shift structured candidates and the deadline', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(sourceSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        shiftDays: 7,
+        timeZone: 'Asia/Tokyo',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.draft?.dates[0]).toEqual({
+        id: 'date-1',
+        datetime: '2031/01/02(木) 18:00〜20:00',
+        startAt: '2031-01-02T09:00:00.000Z',
+        endAt: '2031-01-02T11:00:00.000Z',
+      });
+      expect(result.draft?.dates[1].datetime).toBe('年末のどこか');
+      expect(result.draft?.deadline).toBe('2030-12-27T14:59:00.000Z');
+    });
+
+    it('should drop a deadline that is already past', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...sourceSchedule,
+        deadline: new Date('2020-01-01T00:00:00.000Z'),
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        shiftDays: 7,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.draft?.deadline).toBeUndefined();
+    });
+
+    it('should return error for an out-of-range shift', async () => {
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        shiftDays: 400,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['候補日をずらす日数は0〜365日の範囲で指定してください。']);
+      expect(mockScheduleRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should return error when schedule not found', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(null);
+
+      const result = await useCase.execute({ scheduleId: 'schedule-123', guildId: 'guild-123' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['日程調整が見つかりません。']);
+    });
+
+    it('should handle repository errors', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockRejectedValueOnce(
+        new RepositoryError('Find failed', 'FIND_ERROR')
+      );
+
+      const result = await useCase.execute({ scheduleId: 'schedule-123', guildId: 'guild-123' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('処理中にエラーが発生しました。');
+    });
+  });
+});
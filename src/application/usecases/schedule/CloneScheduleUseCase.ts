@@ -0,0 +1,120 @@
+/**
+ * Clone Schedule Use Case
+ *
+ * 日程調整複製のユースケース
+ * 既存の日程調整から作成モーダルの初期値と引き継ぐ設定を組み立てる（保存は CreateScheduleUseCase が行う）
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import {
+  addZonedDays,
+  DEFAULT_TIMEZONE,
+  formatCandidateDateRange,
+} from '../../../domain/utils/date';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type {
+  CloneScheduleRequestDto,
+  ScheduleDateDto,
+  ScheduleDraftDto,
+} from '../../dto/ScheduleDto';
+import { ScheduleMapper } from '../../mappers/DomainMappers';
+
+export interface CloneScheduleUseCaseResult {
+  success: boolean;
+  draft?: ScheduleDraftDto;
+  errors?: string[];
+}
+
+export class CloneScheduleUseCase {
+  constructor(private readonly scheduleRepository: IScheduleRepository) {}
+
+  async execute(request: CloneScheduleRequestDto): Promise<CloneScheduleUseCaseResult> {
+    try {
+      // 1. データの基本検証
+      if (!request.scheduleId?.trim() || !request.guildId?.trim()) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.INVALID_INPUT],
+        };
+      }
+
+      const shiftDays = request.shiftDays ?? 0;
+      if (
+        !Number.isInteger(shiftDays) ||
+        shiftDays < 0 ||
+        shiftDays > BUSINESS_CONSTANTS.MAX_CLONE_SHIFT_DAYS
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.INVALID_CLONE_SHIFT],
+        };
+      }
+
+      // 2. 複製元スケジュールの取得
+      const existingSchedule = await this.scheduleRepository.findById(
+        request.scheduleId,
+        request.guildId
+      );
+
+      if (!existingSchedule) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND],
+        };
+      }
+
+      const source = ScheduleMapper.scheduleToResponseDto(
+        ScheduleMapper.toDomain(existingSchedule)
+      );
+      const timeZone = request.timeZone || DEFAULT_TIMEZONE;
+
+      // 3. 候補日をずらす（日時として解釈できた候補のみ。自由記述の候補はそのまま）
+      const dates = source.dates.map((date) => this.shiftDate(date, shiftDays, timeZone));
+
+      // 4. 締切をずらし、過去になる場合は初期値に含めない
+      const deadline = source.deadline
+        ? addZonedDays(new Date(source.deadline), shiftDays, timeZone)
+        : undefined;
+
+      return {
+        success: true,
+        draft: {
+          sourceScheduleId: source.id,
+          title: source.title,
+          description: source.description,
+          dates,
+          deadline:
+            deadline && deadline.getTime() > Date.now() ? deadline.toISOString() : undefined,
+          reminderTimings: source.reminderTimings,
+          reminderMentions: source.reminderMentions,
+          reminderMode: source.reminderMode,
+          dmReminders: source.dmReminders,
+          invitedUserIds: source.invitedUserIds,
+          invitedRoleIds: source.invitedRoleIds,
+        },
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        errors: [ERROR_MESSAGES.INTERNAL_ERROR],
+      };
+    }
+  }
+
+  private shiftDate(date: ScheduleDateDto, shiftDays: number, timeZone: string): ScheduleDateDto {
+    if (shiftDays === 0 || !date.startAt) {
+      return { ...date };
+    }
+
+    const startAt = addZonedDays(new Date(date.startAt), shiftDays, timeZone);
+    const endAt = date.endAt ? addZonedDays(new Date(date.endAt), shiftDays, timeZone) : undefined;
+
+    return {
+      id: date.id,
+      datetime: formatCandidateDateRange({ startAt, endAt }, timeZone),
+      startAt: startAt.toISOString(),
+      endAt: endAt?.toISOString(),
+    };
+  }
+}
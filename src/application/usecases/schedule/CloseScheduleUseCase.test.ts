@@ -91,6 +91,35 @@ describe('CloseScheduleUseCase', () => {
       expect(mockScheduleRepository.save).not.toHaveBeenCalled();
     });
 
+    it('should allow co-organizers to close the schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        coOrganizerIds: ['co-organizer-789'],
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'co-organizer-789',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.status).toBe('closed');
+    });
+
+    it('should allow members with Manage Messages permission to close any schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'moderator-999',
+        editorPermissions: String(1n << 13n),
+      });
+
+      expect(result.success).toBe(true);
+    });
+
     it('should return error when schedule is already closed', async () => {
       const closedSchedule = { ...mockSchedule, status: 'closed' as const };
       vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
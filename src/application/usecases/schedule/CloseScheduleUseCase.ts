@@ -7,10 +7,10 @@
 
 import type { Schedule } from '../../../domain/entities/Schedule';
 import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
-import { ScheduleDomainService } from '../../../domain/services/ScheduleDomainService';
 import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type { CloseScheduleRequestDto, ScheduleResponseDto } from '../../dto/ScheduleDto';
 import { ScheduleMapper } from '../../mappers/DomainMappers';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
 
 export interface CloseScheduleUseCaseResult {
   success: boolean;
@@ -49,18 +49,18 @@ export class CloseScheduleUseCase {
       const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
 
       // 4. 編集権限の確認 (システム操作は編集権限をバイパス)
-      if (request.editorUserId !== 'system') {
-        const editPermission = ScheduleDomainService.canEditSchedule(
+      if (
+        request.editorUserId !== 'system' &&
+        !SchedulePermissionPolicy.can(
           scheduleEntity,
-          request.editorUserId
-        );
-
-        if (!editPermission.canEdit) {
-          return {
-            success: false,
-            errors: [ERROR_MESSAGES.PERMISSION_DENIED],
-          };
-        }
+          { userId: request.editorUserId, permissions: request.editorPermissions },
+          'close'
+        )
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.PERMISSION_DENIED],
+        };
       }
 
       // 5. 既に締め切られているかチェック
@@ -126,7 +126,7 @@ export class CloseScheduleUseCase {
       messageId: primitives.messageId,
       title: primitives.title,
       description: primitives.description,
-      dates: primitives.dates,
+      dates: primitives.dates.map(ScheduleMapper.dateToDto),
       createdBy: primitives.createdBy,
       authorId: primitives.authorId,
       deadline: primitives.deadline?.toISOString(),
@@ -136,6 +136,14 @@ export class CloseScheduleUseCase {
       status: primitives.status,
       notificationSent: primitives.notificationSent,
       totalResponses: primitives.totalResponses,
+      decidedDateId: primitives.decidedDateId,
+      guildEventId: primitives.guildEventId,
+      hideResultsBeforeClose: primitives.hideResultsBeforeClose,
+      invitedUserIds: primitives.invitedUserIds,
+      invitedRoleIds: primitives.invitedRoleIds,
+      reminderMode: primitives.reminderMode,
+      dmReminders: primitives.dmReminders,
+      coOrganizerIds: primitives.coOrganizerIds,
       createdAt: primitives.createdAt.toISOString(),
       updatedAt: primitives.updatedAt.toISOString(),
     };
@@ -6,12 +6,15 @@
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
 import type {
   FindByChannelOptions,
   FindByDeadlineRangeOptions,
+  IGuildSettingsRepository,
   IScheduleRepository,
 } from '../../../domain/repositories/interfaces';
 import type { DomainSchedule } from '../../../domain/types/DomainTypes';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type { CreateScheduleRequestDto } from '../../dto/ScheduleDto';
 import type { ILogger } from '../../ports/LoggerPort';
 import { CreateScheduleUseCase } from './CreateScheduleUseCase';
@@ -54,8 +57,10 @@ class MockScheduleRepository implements IScheduleRepository {
     );
   }
 
-  async countByGuild(guildId: string): Promise<number> {
-    return Array.from(this.schedules.values()).filter((s) => s.guildId === guildId).length;
+  async countByGuild(guildId: string, status?: DomainSchedule['status']): Promise<number> {
+    return Array.from(this.schedules.values()).filter(
+      (s) => s.guildId === guildId && (!status || s.status === status)
+    ).length;
   }
 
   async updateReminders(params: {
@@ -456,4 +461,127 @@ describe('スケジュール作成ユースケース', () => {
       expect(result.schedule?.deadline).toBeDefined();
     });
   });
+
+  describe('サーバー設定の既定値', () => {
+    let mockGuildSettingsRepository: IGuildSettingsRepository;
+
+    const request: CreateScheduleRequestDto = {
+      guildId: 'guild123',
+      channelId: 'channel123',
+      authorId: 'user123',
+      authorUsername: 'testuser',
+      title: 'Test Schedule',
+      dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+      deadline: new Date(Date.now() + 86400000).toISOString(),
+    };
+
+    beforeEach(() => {
+      mockGuildSettingsRepository = {
+        findByGuildId: vi.fn().mockResolvedValue({
+          guildId: 'guild123',
+          defaultReminderTimings: ['2d', '1h'],
+          defaultReminderMentions: ['<@&role123>'],
+          hideResultsBeforeClose: true,
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-01-01'),
+        }),
+        save: vi.fn(),
+        findUserSettings: vi.fn(),
+        saveUserSettings: vi.fn(),
+      };
+      useCase = new CreateScheduleUseCase(mockRepository, mockLogger, mockGuildSettingsRepository);
+    });
+
+    it('リクエストで指定がない場合はサーバー設定の既定値を使う', async () => {
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(mockGuildSettingsRepository.findByGuildId).toHaveBeenCalledWith('guild123');
+      expect(result.schedule?.reminderTimings).toEqual(['2d', '1h']);
+      expect(result.schedule?.reminderMentions).toEqual(['<@&role123>']);
+      expect(result.schedule?.hideResultsBeforeClose).toBe(true);
+      expect(mockRepository.getAll()[0].hideResultsBeforeClose).toBe(true);
+    });
+
+    it('リクエストの指定をサーバー設定より優先する', async () => {
+      const result = await useCase.execute({
+        ...request,
+        reminderTimings: ['1d'],
+        reminderMentions: ['@everyone'],
+      });
+
+      expect(result.schedule?.reminderTimings).toEqual(['1d']);
+      expect(result.schedule?.reminderMentions).toEqual(['@everyone']);
+    });
+
+    it('サーバー設定がない場合は組み込みの既定値を使う', async () => {
+      vi.mocked(mockGuildSettingsRepository.findByGuildId).mockResolvedValueOnce(null);
+
+      const result = await useCase.execute(request);
+
+      expect(result.schedule?.reminderTimings).toEqual(['3d', '1d', '8h']);
+      expect(result.schedule?.reminderMentions).toEqual(['@here']);
+      expect(result.schedule?.hideResultsBeforeClose).toBe(false);
+    });
+
+    it('サーバー設定の取得に失敗しても作成を続行する', async () => {
+      vi.mocked(mockGuildSettingsRepository.findByGuildId).mockRejectedValueOnce(
+        new Error('Database error')
+      );
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.reminderTimings).toEqual(['3d', '1d', '8h']);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('サーバーの日程調整数の上限', () => {
+    const request: CreateScheduleRequestDto = {
+      guildId: 'guild123',
+      channelId: 'channel123',
+      authorId: 'user123',
+      authorUsername: 'testuser',
+      title: 'Test Schedule',
+      dates: [{ id: 'date1', datetime: '12/25 19:00' }],
+    };
+
+    it('受付中の日程調整のみを数える', async () => {
+      const countSpy = vi.spyOn(mockRepository, 'countByGuild');
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(countSpy).toHaveBeenCalledWith('guild123', 'open');
+    });
+
+    it('上限に達している場合は作成を拒否する', async () => {
+      vi.spyOn(mockRepository, 'countByGuild').mockResolvedValueOnce(
+        BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD
+      );
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([ERROR_MESSAGES.SCHEDULE_QUOTA_EXCEEDED]);
+      expect(result.quotaExceeded).toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+        resource: 'schedules_per_guild',
+        limit: BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD,
+      });
+      expect(mockRepository.getAll()).toHaveLength(0);
+    });
+
+    it('上限未満であれば作成できる', async () => {
+      vi.spyOn(mockRepository, 'countByGuild').mockResolvedValueOnce(
+        BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD - 1
+      );
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(result.quotaExceeded).toBeUndefined();
+    });
+  });
 });
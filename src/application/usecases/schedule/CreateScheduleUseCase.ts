@@ -5,26 +5,40 @@
  * ビジネスルールの検証とスケジュール作成処理を実行
  */
 
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
 import { Schedule } from '../../../domain/entities/Schedule';
-import { ScheduleDate } from '../../../domain/entities/ScheduleDate';
 import { User } from '../../../domain/entities/User';
-import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
-import { ScheduleDomainService } from '../../../domain/services/ScheduleDomainService';
+import { QuotaExceededError } from '../../../domain/errors/DomainErrors';
+import type {
+  IGuildSettingsRepository,
+  IScheduleRepository,
+} from '../../../domain/repositories/interfaces';
+import {
+  type ScheduleDateWarning,
+  ScheduleDomainService,
+} from '../../../domain/services/ScheduleDomainService';
+import type { DomainGuildSettings } from '../../../domain/types/DomainTypes';
 import { generateId } from '../../../domain/utils/id';
 import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type { CreateScheduleRequestDto, ScheduleResponseDto } from '../../dto/ScheduleDto';
+import { ScheduleMapper } from '../../mappers/DomainMappers';
 import type { ILogger } from '../../ports/LoggerPort';
 
 export interface CreateScheduleUseCaseResult {
   success: boolean;
   schedule?: ScheduleResponseDto;
   errors?: string[];
+  // 作成は妨げない日程候補の注意点（過去の日時・同じ日時の候補）
+  warnings?: ScheduleDateWarning[];
+  // サーバーの日程調整数が上限に達した場合のみ設定される
+  quotaExceeded?: QuotaExceededError;
 }
 
 export class CreateScheduleUseCase {
   constructor(
     private readonly scheduleRepository: IScheduleRepository,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    private readonly guildSettingsRepository?: IGuildSettingsRepository
   ) {}
 
   async execute(request: CreateScheduleRequestDto): Promise<CreateScheduleUseCaseResult> {
@@ -41,9 +55,7 @@ export class CreateScheduleUseCase {
       // 2. ドメインオブジェクトの構築
       const user = User.create(request.authorId, request.authorUsername, request.authorDisplayName);
 
-      const dates = request.dates.map((dateData) =>
-        ScheduleDate.create(dateData.id, dateData.datetime)
-      );
+      const dates = request.dates.map((dateData) => ScheduleMapper.dateFromDto(dateData));
 
       const deadline = request.deadline ? new Date(request.deadline) : undefined;
 
@@ -61,7 +73,24 @@ export class CreateScheduleUseCase {
         };
       }
 
-      // 4. スケジュールエンティティの作成
+      // 4. サーバーの受付中の日程調整数の上限チェック（締切済みは数えない）
+      const openScheduleCount = await this.scheduleRepository.countByGuild(request.guildId, 'open');
+      if (openScheduleCount >= BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_QUOTA_EXCEEDED],
+          quotaExceeded: new QuotaExceededError(
+            'schedules_per_guild',
+            BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD,
+            openScheduleCount
+          ),
+        };
+      }
+
+      // 5. サーバー設定の既定値を取得（リクエストで指定がない項目に適用）
+      const guildSettings = await this.loadGuildSettings(request.guildId);
+
+      // 6. スケジュールエンティティの作成
       const schedule = Schedule.create({
         id: generateId(),
         guildId: request.guildId,
@@ -72,19 +101,26 @@ export class CreateScheduleUseCase {
         createdBy: user,
         authorId: request.authorId,
         deadline,
-        reminderTimings: request.reminderTimings,
-        reminderMentions: request.reminderMentions,
+        reminderTimings: request.reminderTimings ?? guildSettings?.defaultReminderTimings,
+        reminderMentions: request.reminderMentions ?? guildSettings?.defaultReminderMentions,
+        reminderMode: request.reminderMode,
+        dmReminders: request.dmReminders,
+        invitedUserIds: request.invitedUserIds,
+        invitedRoleIds: request.invitedRoleIds,
+        // 作成時点の設定を保存し、後からサーバー設定を変えても既存の日程調整には影響させない
+        hideResultsBeforeClose: guildSettings?.hideResultsBeforeClose,
       });
 
-      // 5. リポジトリへの保存
+      // 7. リポジトリへの保存
       await this.scheduleRepository.save(schedule.toPrimitives());
 
-      // 6. レスポンスの構築
+      // 8. レスポンスの構築
       const response = this.buildResponse(schedule);
 
       return {
         success: true,
         schedule: response,
+        warnings: domainValidation.warnings,
       };
     } catch (error) {
       this.logger.error(
@@ -102,6 +138,26 @@ export class CreateScheduleUseCase {
     }
   }
 
+  /**
+   * サーバー設定を取得する
+   * 取得に失敗しても作成処理は止めず、ビジネスルール上の既定値を使う
+   */
+  private async loadGuildSettings(guildId: string): Promise<DomainGuildSettings | null> {
+    if (!this.guildSettingsRepository) {
+      return null;
+    }
+
+    try {
+      return await this.guildSettingsRepository.findByGuildId(guildId);
+    } catch (error) {
+      this.logger.warn('Failed to load guild settings, using defaults', {
+        guildId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
   private validateBasicData(request: CreateScheduleRequestDto): {
     isValid: boolean;
     errors: string[];
@@ -167,7 +223,7 @@ export class CreateScheduleUseCase {
       messageId: primitives.messageId,
       title: primitives.title,
       description: primitives.description,
-      dates: primitives.dates,
+      dates: primitives.dates.map(ScheduleMapper.dateToDto),
       createdBy: primitives.createdBy,
       authorId: primitives.authorId,
       deadline: primitives.deadline?.toISOString(),
@@ -177,6 +233,14 @@ export class CreateScheduleUseCase {
       status: primitives.status,
       notificationSent: primitives.notificationSent,
       totalResponses: primitives.totalResponses,
+      decidedDateId: primitives.decidedDateId,
+      guildEventId: primitives.guildEventId,
+      hideResultsBeforeClose: primitives.hideResultsBeforeClose,
+      invitedUserIds: primitives.invitedUserIds,
+      invitedRoleIds: primitives.invitedRoleIds,
+      reminderMode: primitives.reminderMode,
+      dmReminders: primitives.dmReminders,
+      coOrganizerIds: primitives.coOrganizerIds,
       createdAt: primitives.createdAt.toISOString(),
       updatedAt: primitives.updatedAt.toISOString(),
     };
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import type { DomainSchedule } from '../../../domain/types/DomainTypes';
+import { RepositoryError } from '../../../infrastructure/repositories/errors';
+import { DecideScheduleUseCase } from './DecideScheduleUseCase';
+
+describe('DecideScheduleUseCase', () => {
+  let useCase: DecideScheduleUseCase;
+  let mockScheduleRepository: IScheduleRepository;
+
+  const mockSchedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    title: 'Test Schedule',
+    dates: [
+      { id: 'date-1', datetime: '2024/01/20 19:00' },
+      { id: 'date-2', datetime: '2024/01/21 19:00' },
+    ],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    status: 'open',
+    notificationSent: false,
+    totalResponses: 5,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(() => {
+    mockScheduleRepository = {
+      save: vi.fn(),
+      findById: vi.fn(),
+      findByChannel: vi.fn(),
+      findByAuthor: vi.fn(),
+      findByDeadlineRange: vi.fn(),
+      delete: vi.fn(),
+      findByMessageId: vi.fn(),
+      countByGuild: vi.fn(),
+      updateReminders: vi.fn(),
+    } as any;
+
+    useCase = new DecideScheduleUseCase(mockScheduleRepository);
+  });
+
+  describe('execute', () => {
+    it('should decide date and close schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: 'date-2',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.decidedDateId).toBe('date-2');
+      expect(result.schedule?.status).toBe('closed');
+      expect(mockScheduleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          decidedDateId: 'date-2',
+          status: 'closed',
+        })
+      );
+    });
+
+    it('should allow changing the decided date of a closed schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        status: 'closed',
+        decidedDateId: 'date-1',
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: 'date-2',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.decidedDateId).toBe('date-2');
+    });
+
+    it('should return error when user is not the organizer', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'other-user-456',
+        dateId: 'date-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['権限がありません。']);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error when date is not a candidate', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: 'unknown-date',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['指定された日程が見つかりません。']);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error when schedule not found', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(null);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: 'date-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['日程調整が見つかりません。']);
+    });
+
+    it('should return error for missing date id', async () => {
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: '',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['入力内容に問題があります。']);
+      expect(mockScheduleRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should handle repository save errors', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockScheduleRepository.save).mockRejectedValueOnce(
+        new RepositoryError('Save failed', 'SAVE_ERROR')
+      );
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        dateId: 'date-1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('処理中にエラーが発生しました。');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Decide Schedule Use Case
+ *
+ * 開催日程決定のユースケース
+ * 主催者が候補から開催日程を1つ選び、スケジュールを締め切る
+ */
+
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type { DecideScheduleRequestDto, ScheduleResponseDto } from '../../dto/ScheduleDto';
+import { ScheduleMapper } from '../../mappers/DomainMappers';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
+
+export interface DecideScheduleUseCaseResult {
+  success: boolean;
+  schedule?: ScheduleResponseDto;
+  errors?: string[];
+}
+
+export class DecideScheduleUseCase {
+  constructor(private readonly scheduleRepository: IScheduleRepository) {}
+
+  async execute(request: DecideScheduleRequestDto): Promise<DecideScheduleUseCaseResult> {
+    try {
+      // 1. データの基本検証
+      if (
+        !request.scheduleId?.trim() ||
+        !request.guildId?.trim() ||
+        !request.editorUserId?.trim() ||
+        !request.dateId?.trim()
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.INVALID_INPUT],
+        };
+      }
+
+      // 2. 既存スケジュールの取得
+      const existingSchedule = await this.scheduleRepository.findById(
+        request.scheduleId,
+        request.guildId
+      );
+
+      if (!existingSchedule) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND],
+        };
+      }
+
+      const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
+
+      // 3. 編集権限の確認（決定できるのは主催者とモデレーターのみ）
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleEntity,
+          { userId: request.editorUserId, permissions: request.editorPermissions },
+          'decide'
+        )
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.PERMISSION_DENIED],
+        };
+      }
+
+      // 4. 日程が候補に含まれているかチェック
+      if (!scheduleEntity.dates.some((date) => date.id === request.dateId)) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.DATE_NOT_FOUND],
+        };
+      }
+
+      // 5. 日程の決定（同時に締め切る）
+      const decidedSchedule = scheduleEntity.decide(request.dateId);
+
+      // 6. リポジトリへの保存
+      await this.scheduleRepository.save(decidedSchedule.toPrimitives());
+
+      return {
+        success: true,
+        schedule: ScheduleMapper.scheduleToResponseDto(decidedSchedule),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        errors: [ERROR_MESSAGES.INTERNAL_ERROR],
+      };
+    }
+  }
+}
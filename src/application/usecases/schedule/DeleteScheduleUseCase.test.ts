@@ -104,6 +104,37 @@ describe('DeleteScheduleUseCase', () => {
       expect(mockScheduleRepository.delete).not.toHaveBeenCalled();
     });
 
+    it('should not allow co-organizers to delete the schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        coOrganizerIds: ['co-organizer-789'],
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        deletedByUserId: 'co-organizer-789',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['このスケジュールを削除する権限がありません']);
+      expect(mockScheduleRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should allow members with Manage Guild permission to delete any schedule', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        deletedByUserId: 'moderator-999',
+        deletedByPermissions: String(1n << 5n),
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockScheduleRepository.delete).toHaveBeenCalledWith('schedule-123', 'guild-123');
+    });
+
     it('should validate required fields', async () => {
       const testCases = [
         {
@@ -9,11 +9,13 @@ import type {
   IScheduleRepository,
 } from '../../../domain/repositories/interfaces';
 import { ScheduleMapper } from '../../mappers/DomainMappers';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
 
 export interface DeleteScheduleRequest {
   scheduleId: string;
   guildId: string;
   deletedByUserId: string;
+  deletedByPermissions?: string; // 操作者のサーバー権限（member.permissions のビットフィールド）
 }
 
 export interface DeleteScheduleUseCaseResult {
@@ -61,7 +63,13 @@ export class DeleteScheduleUseCase {
       const schedule = ScheduleMapper.toDomain(scheduleData);
 
       // 4. 権限チェック
-      if (!schedule.canBeEditedBy(request.deletedByUserId)) {
+      if (
+        !SchedulePermissionPolicy.can(
+          schedule,
+          { userId: request.deletedByUserId, permissions: request.deletedByPermissions },
+          'delete'
+        )
+      ) {
         return {
           success: false,
           errors: ['このスケジュールを削除する権限がありません'],
@@ -149,7 +149,7 @@ export class FindSchedulesUseCase {
       messageId: schedule.messageId,
       title: schedule.title,
       description: schedule.description,
-      dates: schedule.dates,
+      dates: schedule.dates.map(ScheduleMapper.dateToDto),
       createdBy: schedule.createdBy,
       authorId: schedule.authorId,
       deadline: schedule.deadline?.toISOString(),
@@ -159,6 +159,14 @@ export class FindSchedulesUseCase {
       status: schedule.status,
       notificationSent: schedule.notificationSent,
       totalResponses: schedule.totalResponses,
+      decidedDateId: schedule.decidedDateId,
+      guildEventId: schedule.guildEventId,
+      hideResultsBeforeClose: schedule.hideResultsBeforeClose,
+      invitedUserIds: schedule.invitedUserIds,
+      invitedRoleIds: schedule.invitedRoleIds,
+      reminderMode: schedule.reminderMode,
+      dmReminders: schedule.dmReminders,
+      coOrganizerIds: schedule.coOrganizerIds,
       createdAt: schedule.createdAt.toISOString(),
       updatedAt: schedule.updatedAt.toISOString(),
     };
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type {
+  IGuildSettingsRepository,
   IResponseRepository,
   IScheduleRepository,
 } from '../../../domain/repositories/interfaces';
@@ -147,6 +148,29 @@ describe('GetScheduleSummaryUseCase', () => {
       );
     });
 
+    it('should include the guild timezone when it is configured', async () => {
+      const guildSettingsRepository = {
+        findByGuildId: vi
+          .fn()
+          .mockResolvedValue({ guildId: 'guild-123', timezone: 'Europe/Berlin' }),
+      } as unknown as IGuildSettingsRepository;
+      const useCaseWithSettings = new GetScheduleSummaryUseCase(
+        mockScheduleRepository,
+        mockResponseRepository,
+        guildSettingsRepository
+      );
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValue(mockSchedule);
+      vi.mocked(mockResponseRepository.findByScheduleId).mockResolvedValue(mockResponses);
+
+      const result = await useCaseWithSettings.execute('schedule-123', 'guild-123');
+      expect(result.summary?.timeZone).toBe('Europe/Berlin');
+
+      vi.mocked(guildSettingsRepository.findByGuildId).mockRejectedValueOnce(new Error('D1 error'));
+      const fallback = await useCaseWithSettings.execute('schedule-123', 'guild-123');
+      expect(fallback.success).toBe(true);
+      expect(fallback.summary?.timeZone).toBeUndefined();
+    });
+
     it('should return error when schedule not found', async () => {
       vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(null);
 
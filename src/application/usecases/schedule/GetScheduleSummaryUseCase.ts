@@ -5,12 +5,14 @@
  */
 
 import type {
+  IGuildSettingsRepository,
   IResponseRepository,
   IScheduleRepository,
 } from '../../../domain/repositories/interfaces';
+import { isValidTimeZone } from '../../../domain/utils/date';
 import type { ResponseDto } from '../../dto/ResponseDto';
 import type { ScheduleSummaryResponseDto } from '../../dto/ScheduleDto';
-import { ResponseMapper } from '../../mappers/DomainMappers';
+import { ResponseMapper, ScheduleMapper } from '../../mappers/DomainMappers';
 
 export interface GetScheduleSummaryUseCaseResult {
   success: boolean;
@@ -21,7 +23,8 @@ export interface GetScheduleSummaryUseCaseResult {
 export class GetScheduleSummaryUseCase {
   constructor(
     private readonly scheduleRepository: IScheduleRepository,
-    private readonly responseRepository: IResponseRepository
+    private readonly responseRepository: IResponseRepository,
+    private readonly guildSettingsRepository?: IGuildSettingsRepository
   ) {}
 
   async execute(scheduleId: string, guildId: string): Promise<GetScheduleSummaryUseCaseResult> {
@@ -60,7 +63,7 @@ export class GetScheduleSummaryUseCase {
           messageId: schedule.messageId,
           title: schedule.title,
           description: schedule.description,
-          dates: schedule.dates,
+          dates: schedule.dates.map(ScheduleMapper.dateToDto),
           createdBy: schedule.createdBy,
           authorId: schedule.authorId,
           deadline: schedule.deadline?.toISOString(),
@@ -70,6 +73,14 @@ export class GetScheduleSummaryUseCase {
           status: schedule.status,
           notificationSent: schedule.notificationSent,
           totalResponses: responses.length,
+          decidedDateId: schedule.decidedDateId,
+          guildEventId: schedule.guildEventId,
+          hideResultsBeforeClose: schedule.hideResultsBeforeClose,
+          invitedUserIds: schedule.invitedUserIds,
+          invitedRoleIds: schedule.invitedRoleIds,
+          reminderMode: schedule.reminderMode,
+          dmReminders: schedule.dmReminders,
+          coOrganizerIds: schedule.coOrganizerIds,
           createdAt: schedule.createdAt.toISOString(),
           updatedAt: schedule.updatedAt.toISOString(),
         },
@@ -84,6 +95,7 @@ export class GetScheduleSummaryUseCase {
           overallParticipation: statistics.overallParticipation,
           optimalDates: statistics.optimalDates,
         },
+        timeZone: await this.loadGuildTimeZone(guildId),
       };
 
       return {
@@ -100,6 +112,22 @@ export class GetScheduleSummaryUseCase {
     }
   }
 
+  /**
+   * サーバーに設定されたタイムゾーンを取得（未設定・取得失敗時は undefined）
+   */
+  private async loadGuildTimeZone(guildId: string): Promise<string | undefined> {
+    if (!this.guildSettingsRepository) {
+      return undefined;
+    }
+
+    try {
+      const timezone = (await this.guildSettingsRepository.findByGuildId(guildId))?.timezone;
+      return timezone && isValidTimeZone(timezone) ? timezone : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private convertResponseFormat(
     dateStatuses: Record<string, string>
   ): Record<string, 'ok' | 'maybe' | 'ng'> {
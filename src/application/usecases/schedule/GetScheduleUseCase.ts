@@ -18,6 +18,7 @@ import {
   mapDomainResponseToEntity,
   mapDomainScheduleToEntity,
   ResponseMapper,
+  ScheduleMapper,
 } from '../../mappers/DomainMappers';
 
 export interface GetScheduleUseCaseResult {
@@ -185,7 +186,7 @@ export class GetScheduleUseCase {
       messageId: schedule.messageId,
       title: schedule.title,
       description: schedule.description,
-      dates: schedule.dates,
+      dates: schedule.dates.map(ScheduleMapper.dateToDto),
       createdBy: schedule.createdBy,
       authorId: schedule.authorId,
       deadline: schedule.deadline?.toISOString(),
@@ -195,6 +196,14 @@ export class GetScheduleUseCase {
       status: schedule.status,
       notificationSent: schedule.notificationSent,
       totalResponses: schedule.totalResponses,
+      decidedDateId: schedule.decidedDateId,
+      guildEventId: schedule.guildEventId,
+      hideResultsBeforeClose: schedule.hideResultsBeforeClose,
+      invitedUserIds: schedule.invitedUserIds,
+      invitedRoleIds: schedule.invitedRoleIds,
+      reminderMode: schedule.reminderMode,
+      dmReminders: schedule.dmReminders,
+      coOrganizerIds: schedule.coOrganizerIds,
       createdAt: schedule.createdAt.toISOString(),
       updatedAt: schedule.updatedAt.toISOString(),
     };
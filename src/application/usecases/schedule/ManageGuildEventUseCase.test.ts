@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import type { DomainSchedule } from '../../../domain/types/DomainTypes';
+import type { IDiscordApiPort } from '../../ports/DiscordApiPort';
+import type { ILogger } from '../../ports/LoggerPort';
+import { ManageGuildEventUseCase } from './ManageGuildEventUseCase';
+
+describe('ManageGuildEventUseCase', () => {
+  let useCase: ManageGuildEventUseCase;
+  let mockScheduleRepository: IScheduleRepository;
+  let mockDiscordApi: IDiscordApiPort;
+  let mockLogger: ILogger;
+
+  const startAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  const endAt = new Date(startAt.getTime() + 2 * 60 * 60 * 1000);
+
+  const mockSchedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    messageId: 'message-123',
+    title: 'Test Schedule',
+    description: 'Test Description',
+    dates: [
+      { id: 'date-1', datetime: '来週 19:00〜21:00', startAt, endAt },
+      { id: 'date-2', datetime: '未定' },
+    ],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    status: 'closed',
+    notificationSent: false,
+    totalResponses: 5,
+    decidedDateId: 'date-1',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const request = {
+    scheduleId: 'schedule-123',
+    guildId: 'guild-123',
+    editorUserId: 'user-123',
+  };
+
+  beforeEach(() => {
+    mockScheduleRepository = {
+      save: vi.fn(),
+      findById: vi.fn(),
+      findByChannel: vi.fn(),
+      findByAuthor: vi.fn(),
+      findByDeadlineRange: vi.fn(),
+      delete: vi.fn(),
+      findByMessageId: vi.fn(),
+      countByGuild: vi.fn(),
+      updateReminders: vi.fn(),
+    } as any;
+
+    mockDiscordApi = {
+      updateMessage: vi.fn(),
+      sendMessage: vi.fn(),
+      sendDirectMessage: vi.fn(),
+      sendNotification: vi.fn(),
+      searchGuildMembers: vi.fn(),
+      listGuildMembers: vi.fn(),
+      createGuildScheduledEvent: vi.fn().mockResolvedValue({ id: 'event-123' }),
+      updateGuildScheduledEvent: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new ManageGuildEventUseCase(
+      mockScheduleRepository,
+      mockDiscordApi,
+      mockLogger,
+      'bot-token'
+    );
+  });
+
+  describe('createEvent', () => {
+    it('should create an external event and store the event id', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(true);
+      expect(result.created).toBe(true);
+      expect(result.eventId).toBe('event-123');
+      expect(mockDiscordApi.createGuildScheduledEvent).toHaveBeenCalledWith({
+        guildId: 'guild-123',
+        event: {
+          name: 'Test Schedule',
+          description: 'Test Description',
+          scheduledStartTime: startAt,
+          scheduledEndTime: endAt,
+          location: 'https://discord.com/channels/guild-123/channel-123/message-123',
+        },
+        botToken: 'bot-token',
+      });
+      expect(mockScheduleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ guildEventId: 'event-123' })
+      );
+    });
+
+    it('should create a voice channel event when channel is specified', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      await useCase.createEvent({ ...request, voiceChannelId: 'voice-123' });
+
+      expect(mockDiscordApi.createGuildScheduledEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: expect.objectContaining({ voiceChannelId: 'voice-123' }),
+        })
+      );
+    });
+
+    it('should update the existing event instead of creating a new one', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        guildEventId: 'event-existing',
+      });
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(true);
+      expect(result.created).toBe(false);
+      expect(result.eventId).toBe('event-existing');
+      expect(mockDiscordApi.updateGuildScheduledEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ eventId: 'event-existing' })
+      );
+      expect(mockDiscordApi.createGuildScheduledEvent).not.toHaveBeenCalled();
+    });
+
+    it('should recreate the event when the existing one cannot be updated', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        guildEventId: 'event-deleted',
+      });
+      vi.mocked(mockDiscordApi.updateGuildScheduledEvent).mockRejectedValueOnce(
+        new Error('Failed to update guild scheduled event: 404')
+      );
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(true);
+      expect(result.created).toBe(true);
+      expect(result.eventId).toBe('event-123');
+    });
+
+    it('should return error when user is not the organizer', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.createEvent({ ...request, editorUserId: 'other-user' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['権限がありません。']);
+      expect(mockDiscordApi.createGuildScheduledEvent).not.toHaveBeenCalled();
+    });
+
+    it('should return error when no date is decided', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        decidedDateId: undefined,
+      });
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['開催日程がまだ決定されていません。']);
+    });
+
+    it('should return error when decided date has no structured time', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        decidedDateId: 'date-2',
+      });
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('日時を解釈できない');
+    });
+
+    it('should return error when decided date is in the past', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        dates: [
+          {
+            id: 'date-1',
+            datetime: '2024/01/20 19:00',
+            startAt: new Date('2024-01-20T10:00:00.000Z'),
+          },
+        ],
+      });
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['開催日時が過去のため、イベントを作成できません。']);
+    });
+
+    it('should return error when Discord API fails', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockDiscordApi.createGuildScheduledEvent).mockRejectedValueOnce(
+        new Error('Failed to create guild scheduled event: 403')
+      );
+
+      const result = await useCase.createEvent(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('Discordイベントの作成に失敗しました');
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncEvent', () => {
+    it('should update the event with the latest schedule details', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        title: 'Renamed Schedule',
+        guildEventId: 'event-123',
+      });
+
+      const result = await useCase.syncEvent('schedule-123', 'guild-123');
+
+      expect(result.success).toBe(true);
+      expect(mockDiscordApi.updateGuildScheduledEvent).toHaveBeenCalledWith({
+        guildId: 'guild-123',
+        eventId: 'event-123',
+        event: {
+          name: 'Renamed Schedule',
+          description: 'Test Description',
+          scheduledStartTime: startAt,
+          scheduledEndTime: endAt,
+        },
+        botToken: 'bot-token',
+      });
+    });
+
+    it('should do nothing when no event has been created', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.syncEvent('schedule-123', 'guild-123');
+
+      expect(result.success).toBe(true);
+      expect(mockDiscordApi.updateGuildScheduledEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Manage Guild Event Use Case
+ *
+ * 決定日程からDiscordサーバーイベントを作成・同期するユースケース
+ * 作成したイベントIDをスケジュールに保存し、以降の編集内容をイベントへ反映する
+ */
+
+import type { Schedule } from '../../../domain/entities/Schedule';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type { CreateGuildEventRequestDto, ScheduleResponseDto } from '../../dto/ScheduleDto';
+import { ScheduleMapper } from '../../mappers/DomainMappers';
+import type { GuildScheduledEventDetails, IDiscordApiPort } from '../../ports/DiscordApiPort';
+import type { ILogger } from '../../ports/LoggerPort';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
+
+// Discord APIの文字数制限
+const MAX_EVENT_NAME_LENGTH = 100;
+const MAX_EVENT_DESCRIPTION_LENGTH = 1000;
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+export interface ManageGuildEventUseCaseResult {
+  success: boolean;
+  schedule?: ScheduleResponseDto;
+  eventId?: string;
+  created?: boolean;
+  errors?: string[];
+}
+
+export class ManageGuildEventUseCase {
+  constructor(
+    private readonly scheduleRepository: IScheduleRepository,
+    private readonly discordApi: IDiscordApiPort,
+    private readonly logger: ILogger,
+    private readonly discordToken: string
+  ) {}
+
+  /**
+   * 決定日程からサーバーイベントを作成する
+   * 作成済みの場合は既存イベントを更新し、更新できなければ作り直す
+   */
+  async createEvent(request: CreateGuildEventRequestDto): Promise<ManageGuildEventUseCaseResult> {
+    try {
+      // 1. データの基本検証
+      if (
+        !request.scheduleId?.trim() ||
+        !request.guildId?.trim() ||
+        !request.editorUserId?.trim()
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.INVALID_INPUT],
+        };
+      }
+
+      // 2. 既存スケジュールの取得
+      const existingSchedule = await this.scheduleRepository.findById(
+        request.scheduleId,
+        request.guildId
+      );
+
+      if (!existingSchedule) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND],
+        };
+      }
+
+      const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
+
+      // 3. 編集権限の確認
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleEntity,
+          { userId: request.editorUserId, permissions: request.editorPermissions },
+          'edit'
+        )
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.PERMISSION_DENIED],
+        };
+      }
+
+      // 4. 決定日程からイベント内容を作成
+      if (!scheduleEntity.isDecided()) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_DECIDED],
+        };
+      }
+
+      const details = this.createEventDetails(scheduleEntity);
+      if (!details) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.EVENT_TIME_UNRESOLVED],
+        };
+      }
+
+      if (details.scheduledStartTime <= new Date()) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.EVENT_START_IN_PAST],
+        };
+      }
+
+      const event: GuildScheduledEventDetails = request.voiceChannelId
+        ? { ...details, voiceChannelId: request.voiceChannelId }
+        : { ...details, location: this.createEventLocation(scheduleEntity) };
+
+      // 5. サーバーイベントの作成（作成済みなら更新）
+      let eventId = scheduleEntity.guildEventId;
+      let created = false;
+
+      if (eventId && !(await this.tryUpdateEvent(scheduleEntity.guildId, eventId, event))) {
+        eventId = undefined;
+      }
+
+      if (!eventId) {
+        const result = await this.discordApi.createGuildScheduledEvent({
+          guildId: scheduleEntity.guildId,
+          event,
+          botToken: this.discordToken,
+        });
+        eventId = result.id;
+        created = true;
+      }
+
+      // 6. イベントIDの保存
+      const updatedSchedule = scheduleEntity.updateGuildEventId(eventId);
+      await this.scheduleRepository.save(updatedSchedule.toPrimitives());
+
+      return {
+        success: true,
+        schedule: ScheduleMapper.scheduleToResponseDto(updatedSchedule),
+        eventId,
+        created,
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to create guild scheduled event',
+        error instanceof Error ? error : new Error(String(error)),
+        { scheduleId: request.scheduleId, guildId: request.guildId }
+      );
+      return {
+        success: false,
+        errors: [ERROR_MESSAGES.GUILD_EVENT_FAILED],
+      };
+    }
+  }
+
+  /**
+   * スケジュールの編集内容を作成済みのサーバーイベントへ反映する
+   * イベント未作成・日時未確定の場合は何もしない
+   */
+  async syncEvent(scheduleId: string, guildId: string): Promise<ManageGuildEventUseCaseResult> {
+    try {
+      const existingSchedule = await this.scheduleRepository.findById(scheduleId, guildId);
+      if (!existingSchedule) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND],
+        };
+      }
+
+      const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
+      const eventId = scheduleEntity.guildEventId;
+      const details = this.createEventDetails(scheduleEntity);
+
+      if (!eventId || !details || details.scheduledStartTime <= new Date()) {
+        return { success: true };
+      }
+
+      await this.discordApi.updateGuildScheduledEvent({
+        guildId: scheduleEntity.guildId,
+        eventId,
+        event: details,
+        botToken: this.discordToken,
+      });
+
+      return { success: true, eventId, created: false };
+    } catch (error) {
+      this.logger.error(
+        'Failed to sync guild scheduled event',
+        error instanceof Error ? error : new Error(String(error)),
+        { scheduleId, guildId }
+      );
+      return {
+        success: false,
+        errors: [ERROR_MESSAGES.INTERNAL_ERROR],
+      };
+    }
+  }
+
+  private async tryUpdateEvent(
+    guildId: string,
+    eventId: string,
+    event: GuildScheduledEventDetails
+  ): Promise<boolean> {
+    try {
+      await this.discordApi.updateGuildScheduledEvent({
+        guildId,
+        eventId,
+        event,
+        botToken: this.discordToken,
+      });
+      return true;
+    } catch (error) {
+      // 手動で削除された場合などは作り直す
+      this.logger.warn('Failed to update guild scheduled event, recreating', {
+        guildId,
+        eventId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private createEventDetails(schedule: Schedule): GuildScheduledEventDetails | null {
+    const decidedDate = schedule.dates.find((date) => date.id === schedule.decidedDateId);
+    if (!decidedDate?.startAt) {
+      return null;
+    }
+
+    const scheduledStartTime = decidedDate.startAt;
+    const scheduledEndTime =
+      decidedDate.endAt ?? new Date(scheduledStartTime.getTime() + DEFAULT_EVENT_DURATION_MS);
+
+    return {
+      name: schedule.title.slice(0, MAX_EVENT_NAME_LENGTH),
+      description: schedule.description?.slice(0, MAX_EVENT_DESCRIPTION_LENGTH) ?? '',
+      scheduledStartTime,
+      scheduledEndTime,
+    };
+  }
+
+  /**
+   * 外部イベントの場所として日程調整メッセージへのリンクを使用する
+   */
+  private createEventLocation(schedule: Schedule): string {
+    const base = `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}`;
+    return schedule.messageId ? `${base}/${schedule.messageId}` : base;
+  }
+}
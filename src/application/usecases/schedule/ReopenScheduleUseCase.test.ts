@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import type { DomainSchedule } from '../../../domain/types/DomainTypes';
+import { RepositoryError } from '../../../infrastructure/repositories/errors';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import { ReopenScheduleUseCase } from './ReopenScheduleUseCase';
+
+describe('ReopenScheduleUseCase', () => {
+  let useCase: ReopenScheduleUseCase;
+  let mockScheduleRepository: IScheduleRepository;
+
+  const closedSchedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    title: 'Test Schedule',
+    dates: [
+      { id: 'date-1', datetime: '2024/01/20 19:00' },
+      { id: 'date-2', datetime: '2024/01/21 19:00' },
+    ],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    status: 'closed',
+    deadline: new Date('2024-01-10T00:00:00Z'),
+    remindersSent: ['3d', '1d'],
+    notificationSent: true,
+    totalResponses: 5,
+    decidedDateId: 'date-1',
+    coOrganizerIds: ['co-organizer-1'],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const futureDeadline = () => new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    mockScheduleRepository = {
+      save: vi.fn(),
+      findById: vi.fn(),
+      findByChannel: vi.fn(),
+      findByAuthor: vi.fn(),
+      findByDeadlineRange: vi.fn(),
+      delete: vi.fn(),
+      findByMessageId: vi.fn(),
+      countByGuild: vi.fn(),
+      updateReminders: vi.fn(),
+    } as any;
+
+    useCase = new ReopenScheduleUseCase(mockScheduleRepository);
+  });
+
+  describe('execute', () => {
+    it('should reopen a closed schedule with a new deadline', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+      const deadline = futureDeadline();
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: deadline.toISOString(),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.status).toBe('open');
+      expect(result.schedule?.deadline).toBe(deadline.toISOString());
+      expect(mockScheduleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'open',
+          remindersSent: [],
+          notificationSent: false,
+          decidedDateId: undefined,
+        })
+      );
+    });
+
+    it('should reopen without a deadline when null is given', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.deadline).toBeUndefined();
+    });
+
+    it('should allow co-organizers to reopen', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'co-organizer-1',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should return error when keeping a deadline that has already passed', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('締切日時が過ぎているため再開できません。');
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error when schedule is still open', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...closedSchedule,
+        status: 'open',
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['この日程調整は締め切られていません。']);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error when user is not an organizer', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'other-user-456',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['権限がありません。']);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error when the guild has reached the open schedule limit', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+      vi.mocked(mockScheduleRepository.countByGuild).mockResolvedValueOnce(
+        BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD
+      );
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([ERROR_MESSAGES.SCHEDULE_QUOTA_EXCEEDED]);
+      expect(mockScheduleRepository.countByGuild).toHaveBeenCalledWith('guild-123', 'open');
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return error for an invalid deadline', async () => {
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: 'not-a-date',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['締切日時の形式が正しくありません。']);
+      expect(mockScheduleRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should handle repository save errors', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
+      vi.mocked(mockScheduleRepository.save).mockRejectedValueOnce(
+        new RepositoryError('Save failed', 'SAVE_ERROR')
+      );
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        deadline: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('処理中にエラーが発生しました。');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Reopen Schedule Use Case
+ *
+ * 日程調整再開のユースケース
+ * 締め切られた日程調整を主催者が再び回答受付中に戻す（必要に応じて締切を差し替える）
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type { ReopenScheduleRequestDto, ScheduleResponseDto } from '../../dto/ScheduleDto';
+import { ScheduleMapper } from '../../mappers/DomainMappers';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
+
+export interface ReopenScheduleUseCaseResult {
+  success: boolean;
+  schedule?: ScheduleResponseDto;
+  errors?: string[];
+}
+
+export class ReopenScheduleUseCase {
+  constructor(private readonly scheduleRepository: IScheduleRepository) {}
+
+  async execute(request: ReopenScheduleRequestDto): Promise<ReopenScheduleUseCaseResult> {
+    try {
+      // 1. データの基本検証
+      if (
+        !request.scheduleId?.trim() ||
+        !request.guildId?.trim() ||
+        !request.editorUserId?.trim()
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.INVALID_INPUT],
+        };
+      }
+
+      let newDeadline: Date | null | undefined;
+      if (request.deadline === null) {
+        newDeadline = null;
+      } else if (request.deadline !== undefined) {
+        newDeadline = new Date(request.deadline);
+        if (Number.isNaN(newDeadline.getTime())) {
+          return {
+            success: false,
+            errors: [ERROR_MESSAGES.INVALID_DEADLINE_FORMAT],
+          };
+        }
+      }
+
+      // 2. 既存スケジュールの取得
+      const existingSchedule = await this.scheduleRepository.findById(
+        request.scheduleId,
+        request.guildId
+      );
+
+      if (!existingSchedule) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND],
+        };
+      }
+
+      const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
+
+      // 3. 権限の確認（再開できるのは主催者とモデレーターのみ）
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleEntity,
+          { userId: request.editorUserId, permissions: request.editorPermissions },
+          'reopen'
+        )
+      ) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.PERMISSION_DENIED],
+        };
+      }
+
+      // 4. 締め切られているかチェック
+      if (scheduleEntity.isOpen()) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_NOT_CLOSED],
+        };
+      }
+
+      // 5. 再開後の締切が未来であるかチェック（締切を維持する場合も含む）
+      const effectiveDeadline =
+        newDeadline === undefined ? scheduleEntity.deadline : (newDeadline ?? undefined);
+      if (effectiveDeadline && effectiveDeadline.getTime() <= Date.now()) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.REOPEN_DEADLINE_PASSED],
+        };
+      }
+
+      // 6. サーバーの受付中の日程調整数の上限チェック（再開すると受付中に数えられるため）
+      const openScheduleCount = await this.scheduleRepository.countByGuild(request.guildId, 'open');
+      if (openScheduleCount >= BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.SCHEDULE_QUOTA_EXCEEDED],
+        };
+      }
+
+      // 7. 日程調整の再開
+      const reopenedSchedule = scheduleEntity.reopen(newDeadline);
+
+      // 8. リポジトリへの保存
+      await this.scheduleRepository.save(reopenedSchedule.toPrimitives());
+
+      return {
+        success: true,
+        schedule: ScheduleMapper.scheduleToResponseDto(reopenedSchedule),
+      };
+    } catch (_error) {
+      return {
+        success: false,
+        errors: [ERROR_MESSAGES.INTERNAL_ERROR],
+      };
+    }
+  }
+}
@@ -182,6 +182,64 @@ describe('UpdateScheduleUseCase', () => {
       expect(result.schedule?.reminderMentions).toEqual(['@everyone']);
     });
 
+    it('should update invitees and keep the other kind unchanged', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        invitedUserIds: ['user-1'],
+        invitedRoleIds: ['role-1'],
+      });
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        invitedUserIds: ['user-2', 'user-3'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.invitedUserIds).toEqual(['user-2', 'user-3']);
+      expect(result.schedule?.invitedRoleIds).toEqual(['role-1']);
+      expect(mockScheduleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ invitedUserIds: ['user-2', 'user-3'] })
+      );
+    });
+
+    it('should update only the reminder mode', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        reminderTimings: ['1d'],
+        reminderMentions: ['@here'],
+      });
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        reminderMode: 'non_respondents',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.reminderMode).toBe('non_respondents');
+      expect(result.schedule?.reminderTimings).toEqual(['1d']);
+      expect(result.schedule?.reminderMentions).toEqual(['@here']);
+    });
+
+    it('should reject too many invited roles', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        invitedRoleIds: ['r1', 'r2', 'r3', 'r4', 'r5', 'r6'],
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should reset reminder states when specified', async () => {
       const scheduleWithReminders = {
         ...mockSchedule,
@@ -278,7 +336,7 @@ describe('UpdateScheduleUseCase', () => {
       const result = await useCase.execute(request);
 
       expect(result.success).toBe(false);
-      expect(result.errors?.[0]).toContain('処理中にエラーが発生しました。');
+      expect(result.errors?.[0]).toBe('日程候補を1つ以上入力してください');
     });
 
     it('should return error when schedule not found', async () => {
@@ -315,6 +373,92 @@ describe('UpdateScheduleUseCase', () => {
       expect(result.errors).toContain('権限がありません。');
     });
 
+    it('should set co-organizers without the author and let them edit', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        coOrganizerIds: ['co-organizer-789', 'user-123', 'co-organizer-789'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.coOrganizerIds).toEqual(['co-organizer-789']);
+
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        coOrganizerIds: ['co-organizer-789'],
+      });
+
+      const editResult = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'co-organizer-789',
+        title: 'Updated by Co-organizer',
+      });
+
+      expect(editResult.success).toBe(true);
+      expect(editResult.schedule?.title).toBe('Updated by Co-organizer');
+    });
+
+    it('should not allow co-organizers to change co-organizers', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        coOrganizerIds: ['co-organizer-789'],
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'co-organizer-789',
+        coOrganizerIds: ['co-organizer-789', 'friend-000'],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('権限がありません。');
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should transfer ownership when requested by the author', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(mockSchedule);
+      vi.mocked(mockScheduleRepository.save).mockResolvedValueOnce(undefined);
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'user-123',
+        newOwner: { id: 'user-456', username: 'NewOwner', displayName: 'New Owner' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule?.authorId).toBe('user-456');
+      expect(result.schedule?.createdBy).toEqual({
+        id: 'user-456',
+        username: 'NewOwner',
+        displayName: 'New Owner',
+      });
+    });
+
+    it('should not allow co-organizers to transfer ownership', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce({
+        ...mockSchedule,
+        coOrganizerIds: ['co-organizer-789'],
+      });
+
+      const result = await useCase.execute({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        editorUserId: 'co-organizer-789',
+        newOwner: { id: 'co-organizer-789', username: 'CoOrganizer' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('権限がありません。');
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should allow editing closed schedules (to match old behavior)', async () => {
       const closedSchedule = { ...mockSchedule, status: 'closed' as const };
       vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(closedSchedule);
@@ -6,18 +6,24 @@
  */
 
 import type { Schedule } from '../../../domain/entities/Schedule';
-import { ScheduleDate } from '../../../domain/entities/ScheduleDate';
+import { User } from '../../../domain/entities/User';
 import type { IScheduleRepository } from '../../../domain/repositories/interfaces';
-import { ScheduleDomainService } from '../../../domain/services/ScheduleDomainService';
+import {
+  type ScheduleDateWarning,
+  ScheduleDomainService,
+} from '../../../domain/services/ScheduleDomainService';
 import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
 import type { ScheduleResponseDto, UpdateScheduleRequestDto } from '../../dto/ScheduleDto';
 import { ScheduleMapper } from '../../mappers/DomainMappers';
 import type { ILogger } from '../../ports/LoggerPort';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
 
 export interface UpdateScheduleUseCaseResult {
   success: boolean;
   schedule?: ScheduleResponseDto;
   errors?: string[];
+  // 更新は妨げない日程候補の注意点（追加・変更した候補の過去の日時・同じ日時の候補）
+  warnings?: ScheduleDateWarning[];
 }
 
 export class UpdateScheduleUseCase {
@@ -53,8 +59,15 @@ export class UpdateScheduleUseCase {
       // 3. スケジュールエンティティの構築
       const scheduleEntity = ScheduleMapper.toDomain(existingSchedule);
 
-      // 4. 編集権限の確認
-      if (!scheduleEntity.canBeEditedBy(request.editorUserId)) {
+      // 4. 編集権限の確認（共同主催者の変更は作成者とモデレーター、作成者の譲渡は作成者とサーバー管理者のみ）
+      const editor = { userId: request.editorUserId, permissions: request.editorPermissions };
+      if (
+        !SchedulePermissionPolicy.can(scheduleEntity, editor, 'edit') ||
+        (request.coOrganizerIds !== undefined &&
+          !SchedulePermissionPolicy.can(scheduleEntity, editor, 'manage_organizers')) ||
+        (request.newOwner !== undefined &&
+          !SchedulePermissionPolicy.can(scheduleEntity, editor, 'transfer_ownership'))
+      ) {
         return {
           success: false,
           errors: [ERROR_MESSAGES.PERMISSION_DENIED],
@@ -62,11 +75,16 @@ export class UpdateScheduleUseCase {
       }
 
       // 6. ドメインサービスによる業務ルール検証
+      const scheduleDates = request.dates?.map((d) => ScheduleMapper.dateFromDto(d));
       const domainValidation = ScheduleDomainService.validateScheduleForUpdate({
         schedule: scheduleEntity,
         title: request.title,
         description: request.description,
+        dates: scheduleDates,
         deadline: request.deadline ? new Date(request.deadline) : undefined,
+        invitedUserIds: request.invitedUserIds,
+        invitedRoleIds: request.invitedRoleIds,
+        coOrganizerIds: request.coOrganizerIds,
       });
 
       if (!domainValidation.isValid) {
@@ -96,15 +114,22 @@ export class UpdateScheduleUseCase {
         updatedSchedule = updatedSchedule.updateMessageId(request.messageId);
       }
 
-      if (request.dates !== undefined) {
-        const scheduleDates = request.dates.map((d) => ScheduleDate.create(d.id, d.datetime));
+      if (scheduleDates !== undefined) {
         updatedSchedule = updatedSchedule.updateDates(scheduleDates);
       }
 
-      if (request.reminderTimings !== undefined || request.reminderMentions !== undefined) {
+      if (
+        request.reminderTimings !== undefined ||
+        request.reminderMentions !== undefined ||
+        request.reminderMode !== undefined ||
+        request.dmReminders !== undefined
+      ) {
+        // 指定されなかった項目は現在の設定を維持する
         updatedSchedule = updatedSchedule.updateReminderSettings(
-          request.reminderTimings,
-          request.reminderMentions
+          request.reminderTimings ?? updatedSchedule.reminderTimings,
+          request.reminderMentions ?? updatedSchedule.reminderMentions,
+          request.reminderMode,
+          request.dmReminders
         );
       }
 
@@ -112,6 +137,23 @@ export class UpdateScheduleUseCase {
         updatedSchedule = updatedSchedule.resetReminders();
       }
 
+      if (request.invitedUserIds !== undefined || request.invitedRoleIds !== undefined) {
+        updatedSchedule = updatedSchedule.updateInvitees(
+          request.invitedUserIds ?? updatedSchedule.invitedUserIds,
+          request.invitedRoleIds ?? updatedSchedule.invitedRoleIds
+        );
+      }
+
+      if (request.coOrganizerIds !== undefined) {
+        updatedSchedule = updatedSchedule.updateCoOrganizers(request.coOrganizerIds);
+      }
+
+      if (request.newOwner !== undefined) {
+        updatedSchedule = updatedSchedule.transferOwnership(
+          User.create(request.newOwner.id, request.newOwner.username, request.newOwner.displayName)
+        );
+      }
+
       // 7. リポジトリへの保存
       await this.scheduleRepository.save(updatedSchedule.toPrimitives());
 
@@ -121,6 +163,7 @@ export class UpdateScheduleUseCase {
       return {
         success: true,
         schedule: response,
+        warnings: domainValidation.warnings,
       };
     } catch (error) {
       this.logger.error(
@@ -185,7 +228,7 @@ export class UpdateScheduleUseCase {
       messageId: primitives.messageId,
       title: primitives.title,
       description: primitives.description,
-      dates: primitives.dates,
+      dates: primitives.dates.map(ScheduleMapper.dateToDto),
       createdBy: primitives.createdBy,
       authorId: primitives.authorId,
       deadline: primitives.deadline?.toISOString(),
@@ -195,6 +238,14 @@ export class UpdateScheduleUseCase {
       status: primitives.status,
       notificationSent: primitives.notificationSent,
       totalResponses: primitives.totalResponses,
+      decidedDateId: primitives.decidedDateId,
+      guildEventId: primitives.guildEventId,
+      hideResultsBeforeClose: primitives.hideResultsBeforeClose,
+      invitedUserIds: primitives.invitedUserIds,
+      invitedRoleIds: primitives.invitedRoleIds,
+      reminderMode: primitives.reminderMode,
+      dmReminders: primitives.dmReminders,
+      coOrganizerIds: primitives.coOrganizerIds,
       createdAt: primitives.createdAt.toISOString(),
       updatedAt: primitives.updatedAt.toISOString(),
     };
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  IGuildSettingsRepository,
+  IScheduleRepository,
+} from '../../../domain/repositories/interfaces';
+import type { ILogger } from '../../ports/LoggerPort';
+import { GuildSettingsUseCase } from './GuildSettingsUseCase';
+
+describe('GuildSettingsUseCase', () => {
+  let useCase: GuildSettingsUseCase;
+  let mockRepository: IGuildSettingsRepository;
+  let mockScheduleRepository: Pick<IScheduleRepository, 'countByGuild'>;
+  let mockLogger: ILogger;
+
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    mockRepository = {
+      findByGuildId: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+      findUserSettings: vi.fn().mockResolvedValue(null),
+      saveUserSettings: vi.fn(),
+    };
+
+    mockScheduleRepository = {
+      countByGuild: vi.fn().mockResolvedValue(3),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new GuildSettingsUseCase(
+      mockRepository,
+      mockScheduleRepository as IScheduleRepository,
+      mockLogger
+    );
+  });
+
+  describe('getSettings', () => {
+    it('should return built-in defaults when nothing is configured', async () => {
+      const result = await useCase.getSettings('guild-123');
+
+      expect(result.success).toBe(true);
+      expect(result.settings).toEqual({
+        guildId: 'guild-123',
+        timezone: 'Asia/Tokyo',
+        defaultReminderTimings: ['3d', '1d', '8h'],
+        defaultReminderMentions: ['@here'],
+        hideResultsBeforeClose: false,
+        hasCustomTimezone: false,
+        hasCustomReminderTimings: false,
+        hasCustomReminderMentions: false,
+        usage: {
+          openSchedules: 3,
+          maxOpenSchedules: 100,
+          maxResponsesPerSchedule: 200,
+        },
+      });
+      expect(mockScheduleRepository.countByGuild).toHaveBeenCalledWith('guild-123', 'open');
+    });
+
+    it('should return configured values', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        timezone: 'Europe/London',
+        defaultReminderTimings: ['1d'],
+        defaultReminderMentions: ['<@&role-1>'],
+        hideResultsBeforeClose: true,
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      const result = await useCase.getSettings('guild-123');
+
+      expect(result.settings).toMatchObject({
+        timezone: 'Europe/London',
+        defaultReminderTimings: ['1d'],
+        defaultReminderMentions: ['<@&role-1>'],
+        hideResultsBeforeClose: true,
+        hasCustomTimezone: true,
+        hasCustomReminderTimings: true,
+        hasCustomReminderMentions: true,
+      });
+    });
+
+    it('should return error when the repository fails', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await useCase.getSettings('guild-123');
+
+      expect(result.success).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateReminderDefaults', () => {
+    it('should save normalized reminder defaults and keep other settings', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        timezone: 'Europe/London',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      const result = await useCase.updateReminderDefaults(
+        'guild-123',
+        [' 1d', '2h ', ''],
+        ['@everyone', '<@&123456789>']
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          guildId: 'guild-123',
+          timezone: 'Europe/London',
+          defaultReminderTimings: ['1d', '2h'],
+          defaultReminderMentions: ['@everyone', '<@&123456789>'],
+          createdAt,
+        })
+      );
+      expect(result.settings?.defaultReminderTimings).toEqual(['1d', '2h']);
+    });
+
+    it('should reset to built-in defaults when empty', async () => {
+      const result = await useCase.updateReminderDefaults('guild-123', [''], []);
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaultReminderTimings: undefined,
+          defaultReminderMentions: undefined,
+        })
+      );
+      expect(result.settings?.defaultReminderTimings).toEqual(['3d', '1d', '8h']);
+    });
+
+    it('should reject invalid reminder timings', async () => {
+      const result = await useCase.updateReminderDefaults('guild-123', ['tomorrow'], []);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('リマインダーのタイミング');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject too many reminder timings', async () => {
+      const result = await useCase.updateReminderDefaults(
+        'guild-123',
+        ['6d', '5d', '4d', '3d', '2d', '1d'],
+        []
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid mentions', async () => {
+      const result = await useCase.updateReminderDefaults('guild-123', [], ['everyone']);
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('メンション');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setHideResultsBeforeClose', () => {
+    it('should save the result visibility setting', async () => {
+      const result = await useCase.setHideResultsBeforeClose('guild-123', true);
+
+      expect(result.success).toBe(true);
+      expect(result.settings?.hideResultsBeforeClose).toBe(true);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId: 'guild-123', hideResultsBeforeClose: true })
+      );
+    });
+
+    it('should return error when saving fails', async () => {
+      vi.mocked(mockRepository.save).mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await useCase.setHideResultsBeforeClose('guild-123', true);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['処理中にエラーが発生しました。']);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Guild Settings Use Case
+ *
+ * サーバー単位の既定値（リマインダー・メンション・締切前の結果公開）を管理するユースケース
+ * 未設定の項目はビジネスルール上の既定値を返す
+ * タイムゾーンの設定は TimezoneSettingsUseCase が担当する
+ * 管理者向けに日程調整数の利用状況もあわせて返す
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type {
+  IGuildSettingsRepository,
+  IScheduleRepository,
+} from '../../../domain/repositories/interfaces';
+import type { DomainGuildSettings } from '../../../domain/types/DomainTypes';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../../domain/utils/date';
+import {
+  Constants,
+  ERROR_MESSAGES,
+  NOTIFICATION_CONSTANTS,
+} from '../../constants/ApplicationConstants';
+import type { ILogger } from '../../ports/LoggerPort';
+
+export interface GuildSettings {
+  guildId: string;
+  timezone: string;
+  defaultReminderTimings: string[];
+  defaultReminderMentions: string[];
+  hideResultsBeforeClose: boolean;
+  // 各項目がサーバー独自に設定されているか（表示用）
+  hasCustomTimezone: boolean;
+  hasCustomReminderTimings: boolean;
+  hasCustomReminderMentions: boolean;
+  usage: GuildUsage;
+}
+
+export interface GuildUsage {
+  // 上限の対象になる受付中の日程調整数（締切済みは含まない）
+  openSchedules: number;
+  maxOpenSchedules: number;
+  maxResponsesPerSchedule: number;
+}
+
+export interface GuildSettingsUseCaseResult {
+  success: boolean;
+  settings?: GuildSettings;
+  errors?: string[];
+}
+
+export class GuildSettingsUseCase {
+  constructor(
+    private readonly guildSettingsRepository: IGuildSettingsRepository,
+    private readonly scheduleRepository: IScheduleRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * 現在のサーバー設定を取得する
+   */
+  async getSettings(guildId: string): Promise<GuildSettingsUseCaseResult> {
+    try {
+      const settings = await this.guildSettingsRepository.findByGuildId(guildId);
+      return { success: true, settings: await this.toGuildSettings(guildId, settings) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to get guild settings',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * 新規日程調整のリマインダー・メンションの既定値を設定する（権限チェックは呼び出し側で行う）
+   * 空の配列を渡した項目は既定値に戻す
+   */
+  async updateReminderDefaults(
+    guildId: string,
+    timings: string[],
+    mentions: string[]
+  ): Promise<GuildSettingsUseCaseResult> {
+    const normalizedTimings = timings.map((timing) => timing.trim()).filter(Boolean);
+    const normalizedMentions = mentions.map((mention) => mention.trim()).filter(Boolean);
+
+    if (
+      normalizedTimings.length > BUSINESS_CONSTANTS.MAX_REMINDER_TIMINGS ||
+      !normalizedTimings.every((timing) => Constants.isValidReminderTiming(timing))
+    ) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_REMINDER_TIMINGS] };
+    }
+
+    if (!normalizedMentions.every((mention) => this.isValidMention(mention))) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_REMINDER_MENTIONS] };
+    }
+
+    return this.update(guildId, {
+      defaultReminderTimings: normalizedTimings.length > 0 ? normalizedTimings : undefined,
+      defaultReminderMentions: normalizedMentions.length > 0 ? normalizedMentions : undefined,
+    });
+  }
+
+  /**
+   * 締切前に集計結果を作成者以外へ公開するかを設定する（権限チェックは呼び出し側で行う）
+   * 設定は新しく作成する日程調整から適用される
+   */
+  async setHideResultsBeforeClose(
+    guildId: string,
+    hideResultsBeforeClose: boolean
+  ): Promise<GuildSettingsUseCaseResult> {
+    return this.update(guildId, { hideResultsBeforeClose });
+  }
+
+  private async update(
+    guildId: string,
+    changes: Partial<Omit<DomainGuildSettings, 'guildId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<GuildSettingsUseCaseResult> {
+    try {
+      const existing = await this.guildSettingsRepository.findByGuildId(guildId);
+      const now = new Date();
+      const updated: DomainGuildSettings = {
+        ...existing,
+        ...changes,
+        guildId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await this.guildSettingsRepository.save(updated);
+
+      return { success: true, settings: await this.toGuildSettings(guildId, updated) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to update guild settings',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  private async toGuildSettings(
+    guildId: string,
+    settings: DomainGuildSettings | null
+  ): Promise<GuildSettings> {
+    const openSchedules = await this.scheduleRepository.countByGuild(guildId, 'open');
+    const timezone =
+      settings?.timezone && isValidTimeZone(settings.timezone) ? settings.timezone : undefined;
+
+    return {
+      guildId,
+      timezone: timezone ?? DEFAULT_TIMEZONE,
+      defaultReminderTimings: settings?.defaultReminderTimings ?? [
+        ...NOTIFICATION_CONSTANTS.DEFAULT_REMINDER_TIMINGS,
+      ],
+      defaultReminderMentions: settings?.defaultReminderMentions ?? [
+        ...NOTIFICATION_CONSTANTS.DEFAULT_REMINDER_MENTIONS,
+      ],
+      hideResultsBeforeClose: settings?.hideResultsBeforeClose ?? false,
+      hasCustomTimezone: !!timezone,
+      hasCustomReminderTimings: !!settings?.defaultReminderTimings,
+      hasCustomReminderMentions: !!settings?.defaultReminderMentions,
+      usage: {
+        openSchedules,
+        maxOpenSchedules: BUSINESS_CONSTANTS.MAX_SCHEDULES_PER_GUILD,
+        maxResponsesPerSchedule: BUSINESS_CONSTANTS.MAX_RESPONSES_PER_SCHEDULE,
+      },
+    };
+  }
+
+  private isValidMention(mention: string): boolean {
+    const { EVERYONE, HERE, USER, ROLE, USERNAME } = NOTIFICATION_CONSTANTS.MENTION_PATTERNS;
+    return (
+      mention === EVERYONE ||
+      mention === HERE ||
+      USER.test(mention) ||
+      ROLE.test(mention) ||
+      USERNAME.test(mention)
+    );
+  }
+}
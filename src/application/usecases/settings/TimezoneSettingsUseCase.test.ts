@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { IGuildSettingsRepository } from '../../../domain/repositories/interfaces';
+import type { ILogger } from '../../ports/LoggerPort';
+import { TimezoneSettingsUseCase } from './TimezoneSettingsUseCase';
+
+describe('TimezoneSettingsUseCase', () => {
+  let useCase: TimezoneSettingsUseCase;
+  let mockRepository: IGuildSettingsRepository;
+  let mockLogger: ILogger;
+
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    mockRepository = {
+      findByGuildId: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+      findUserSettings: vi.fn().mockResolvedValue(null),
+      saveUserSettings: vi.fn(),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new TimezoneSettingsUseCase(mockRepository, mockLogger);
+  });
+
+  describe('resolveTimezone', () => {
+    it('should return the default timezone when nothing is configured', async () => {
+      expect(await useCase.resolveTimezone('guild-123', 'user-123')).toBe('Asia/Tokyo');
+    });
+
+    it('should return the guild timezone', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        timezone: 'Europe/London',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      expect(await useCase.resolveTimezone('guild-123', 'user-123')).toBe('Europe/London');
+    });
+
+    it('should prefer the user override over the guild timezone', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        timezone: 'Europe/London',
+        createdAt,
+        updatedAt: createdAt,
+      });
+      vi.mocked(mockRepository.findUserSettings).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        userId: 'user-123',
+        timezone: 'America/New_York',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      expect(await useCase.resolveTimezone('guild-123', 'user-123')).toBe('America/New_York');
+    });
+
+    it('should fall back to the default timezone when the repository fails', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockRejectedValueOnce(new Error('Database error'));
+
+      expect(await useCase.resolveTimezone('guild-123')).toBe('Asia/Tokyo');
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('setGuildTimezone', () => {
+    it('should save a valid timezone', async () => {
+      vi.mocked(mockRepository.findByGuildId).mockResolvedValueOnce(null).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        timezone: 'Europe/Paris',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      const result = await useCase.setGuildTimezone('guild-123', ' Europe/Paris ');
+
+      expect(result.success).toBe(true);
+      expect(result.settings).toEqual({
+        timezone: 'Europe/Paris',
+        source: 'guild',
+        guildTimezone: 'Europe/Paris',
+      });
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ guildId: 'guild-123', timezone: 'Europe/Paris' })
+      );
+    });
+
+    it('should reject an invalid timezone', async () => {
+      const result = await useCase.setGuildTimezone('guild-123', 'Tokyo');
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('タイムゾーンの形式が正しくありません');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setUserTimezone', () => {
+    it('should clear the user override when null is given', async () => {
+      vi.mocked(mockRepository.findUserSettings).mockResolvedValueOnce({
+        guildId: 'guild-123',
+        userId: 'user-123',
+        timezone: 'America/New_York',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      const result = await useCase.setUserTimezone('guild-123', 'user-123', null);
+
+      expect(result.success).toBe(true);
+      expect(result.settings?.source).toBe('default');
+      expect(mockRepository.saveUserSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123', timezone: undefined, createdAt })
+      );
+    });
+
+    it('should return error when saving fails', async () => {
+      vi.mocked(mockRepository.saveUserSettings).mockRejectedValueOnce(new Error('Database error'));
+
+      const result = await useCase.setUserTimezone('guild-123', 'user-123', 'UTC');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['処理中にエラーが発生しました。']);
+    });
+  });
+});
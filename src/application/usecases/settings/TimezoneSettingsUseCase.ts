@@ -0,0 +1,162 @@
+/**
+ * Timezone Settings Use Case
+ *
+ * サーバー単位のタイムゾーン設定と、ユーザー単位の上書き設定を管理するユースケース
+ * 日時の解釈・表示に使うタイムゾーンは ユーザー設定 → サーバー設定 → 既定値（JST）の順に決定する
+ */
+
+import type { IGuildSettingsRepository } from '../../../domain/repositories/interfaces';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../../domain/utils/date';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type { ILogger } from '../../ports/LoggerPort';
+
+export type TimezoneSource = 'user' | 'guild' | 'default';
+
+export interface TimezoneSettings {
+  timezone: string;
+  source: TimezoneSource;
+  guildTimezone?: string;
+  userTimezone?: string;
+}
+
+export interface TimezoneSettingsUseCaseResult {
+  success: boolean;
+  settings?: TimezoneSettings;
+  errors?: string[];
+}
+
+export class TimezoneSettingsUseCase {
+  constructor(
+    private readonly guildSettingsRepository: IGuildSettingsRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * 日時の解釈・表示に使うタイムゾーンを取得する
+   * 設定の取得に失敗した場合は既定値を返す
+   */
+  async resolveTimezone(guildId: string, userId?: string): Promise<string> {
+    try {
+      const settings = await this.loadSettings(guildId, userId);
+      return settings.timezone;
+    } catch (error) {
+      this.logger.warn('Failed to resolve timezone, using default', {
+        guildId,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return DEFAULT_TIMEZONE;
+    }
+  }
+
+  /**
+   * 現在のタイムゾーン設定を取得する
+   */
+  async getSettings(guildId: string, userId?: string): Promise<TimezoneSettingsUseCaseResult> {
+    try {
+      return { success: true, settings: await this.loadSettings(guildId, userId) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to get timezone settings',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId, userId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * サーバーのタイムゾーンを設定する（権限チェックは呼び出し側で行う）
+   */
+  async setGuildTimezone(
+    guildId: string,
+    timezone: string
+  ): Promise<TimezoneSettingsUseCaseResult> {
+    const normalized = timezone.trim();
+    if (!isValidTimeZone(normalized)) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_TIMEZONE] };
+    }
+
+    try {
+      const existing = await this.guildSettingsRepository.findByGuildId(guildId);
+      const now = new Date();
+      await this.guildSettingsRepository.save({
+        ...existing,
+        guildId,
+        timezone: normalized,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+
+      return { success: true, settings: await this.loadSettings(guildId) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to set guild timezone',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId, timezone }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * ユーザー個人のタイムゾーンを設定する
+   * timezone に null を渡すと上書き設定を解除し、サーバー設定に従う
+   */
+  async setUserTimezone(
+    guildId: string,
+    userId: string,
+    timezone: string | null
+  ): Promise<TimezoneSettingsUseCaseResult> {
+    const normalized = timezone?.trim() || undefined;
+    if (normalized && !isValidTimeZone(normalized)) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_TIMEZONE] };
+    }
+
+    try {
+      const existing = await this.guildSettingsRepository.findUserSettings(guildId, userId);
+      const now = new Date();
+      await this.guildSettingsRepository.saveUserSettings({
+        guildId,
+        userId,
+        timezone: normalized,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+
+      return { success: true, settings: await this.loadSettings(guildId, userId) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to set user timezone',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId, userId, timezone }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  private async loadSettings(guildId: string, userId?: string): Promise<TimezoneSettings> {
+    const [guildSettings, userSettings] = await Promise.all([
+      this.guildSettingsRepository.findByGuildId(guildId),
+      userId ? this.guildSettingsRepository.findUserSettings(guildId, userId) : null,
+    ]);
+
+    // 保存後に無効になったタイムゾーン名（ランタイム差異など）は無視する
+    const guildTimezone =
+      guildSettings?.timezone && isValidTimeZone(guildSettings.timezone)
+        ? guildSettings.timezone
+        : undefined;
+    const userTimezone =
+      userSettings?.timezone && isValidTimeZone(userSettings.timezone)
+        ? userSettings.timezone
+        : undefined;
+
+    if (userTimezone) {
+      return { timezone: userTimezone, source: 'user', guildTimezone, userTimezone };
+    }
+    if (guildTimezone) {
+      return { timezone: guildTimezone, source: 'guild', guildTimezone };
+    }
+    return { timezone: DEFAULT_TIMEZONE, source: 'default' };
+  }
+}
@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  IScheduleRepository,
+  IScheduleTemplateRepository,
+} from '../../../domain/repositories/interfaces';
+import type { DomainSchedule, DomainScheduleTemplate } from '../../../domain/types/DomainTypes';
+import type { ILogger } from '../../ports/LoggerPort';
+import { ScheduleTemplateUseCase } from './ScheduleTemplateUseCase';
+
+describe('ScheduleTemplateUseCase', () => {
+  let useCase: ScheduleTemplateUseCase;
+  let mockTemplateRepository: IScheduleTemplateRepository;
+  let mockScheduleRepository: Pick<IScheduleRepository, 'findById'>;
+  let mockLogger: ILogger;
+
+  const schedule: DomainSchedule = {
+    id: 'schedule-123',
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    title: '定例会',
+    description: '毎週の定例会です',
+    dates: [
+      { id: 'date-1', datetime: '12/3(水) 19:00' },
+      { id: 'date-2', datetime: '12/4(木) 19:00' },
+    ],
+    createdBy: { id: 'user-123', username: 'TestUser' },
+    authorId: 'user-123',
+    status: 'open',
+    reminderTimings: ['1d'],
+    reminderMentions: ['<@&role-1>'],
+    invitedUserIds: ['user-456'],
+    invitedRoleIds: ['role-1'],
+    notificationSent: false,
+    totalResponses: 0,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  const existingTemplate: DomainScheduleTemplate = {
+    id: 'template-1',
+    guildId: 'guild-123',
+    name: '定例会',
+    title: '旧定例会',
+    dates: ['12/1(月) 19:00'],
+    createdById: 'user-123',
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    mockTemplateRepository = {
+      findByGuild: vi.fn().mockResolvedValue([]),
+      findById: vi.fn().mockResolvedValue(null),
+      findByName: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    mockScheduleRepository = {
+      findById: vi.fn().mockResolvedValue(schedule),
+    };
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    useCase = new ScheduleTemplateUseCase(
+      mockTemplateRepository,
+      mockScheduleRepository as IScheduleRepository,
+      mockLogger
+    );
+  });
+
+  describe('saveFromSchedule', () => {
+    it('should save the schedule content as a new template', async () => {
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: ' 定例会 ',
+        editorUserId: 'user-789',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.overwritten).toBe(false);
+      expect(mockTemplateRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          guildId: 'guild-123',
+          name: '定例会',
+          title: '定例会',
+          description: '毎週の定例会です',
+          dates: ['12/3(水) 19:00', '12/4(木) 19:00'],
+          reminderTimings: ['1d'],
+          reminderMentions: ['<@&role-1>'],
+          invitedUserIds: ['user-456'],
+          invitedRoleIds: ['role-1'],
+          createdById: 'user-789',
+        })
+      );
+    });
+
+    it('should overwrite a template with the same name saved by the same member', async () => {
+      vi.mocked(mockTemplateRepository.findByName).mockResolvedValueOnce(existingTemplate);
+
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: '定例会',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.overwritten).toBe(true);
+      expect(mockTemplateRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'template-1',
+          title: '定例会',
+          createdAt: existingTemplate.createdAt,
+        })
+      );
+      expect(mockTemplateRepository.findByGuild).not.toHaveBeenCalled();
+    });
+
+    it('should not let other members overwrite a template', async () => {
+      vi.mocked(mockTemplateRepository.findByName).mockResolvedValueOnce(existingTemplate);
+
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: '定例会',
+        editorUserId: 'user-789',
+        editorPermissions: '0',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('保存したメンバーとサーバーのモデレーターのみ');
+      expect(mockTemplateRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid names', async () => {
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: 'a'.repeat(51),
+        editorUserId: 'user-123',
+      });
+
+      expect(result.errors).toEqual(['テンプレート名は1〜50文字で入力してください。']);
+    });
+
+    it('should enforce the per-guild template limit', async () => {
+      vi.mocked(mockTemplateRepository.findByGuild).mockResolvedValueOnce(
+        Array.from({ length: 25 }, (_, i) => ({ ...existingTemplate, id: `t-${i}` }))
+      );
+
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: '新しいテンプレート',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('25件まで');
+    });
+
+    it('should return error when schedule not found', async () => {
+      vi.mocked(mockScheduleRepository.findById).mockResolvedValueOnce(null);
+
+      const result = await useCase.saveFromSchedule({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        name: '定例会',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.errors).toEqual(['日程調整が見つかりません。']);
+    });
+  });
+
+  describe('listTemplates', () => {
+    it('should filter templates by a partial name match', async () => {
+      vi.mocked(mockTemplateRepository.findByGuild).mockResolvedValueOnce([
+        existingTemplate,
+        { ...existingTemplate, id: 'template-2', name: 'Game Night' },
+      ]);
+
+      const result = await useCase.listTemplates('guild-123', 'game');
+
+      expect(result.templates?.map((template) => template.name)).toEqual(['Game Night']);
+    });
+  });
+
+  describe('getDraftByName', () => {
+    it('should build a creation draft from the template', async () => {
+      vi.mocked(mockTemplateRepository.findByName).mockResolvedValueOnce({
+        ...existingTemplate,
+        reminderTimings: ['3d'],
+        invitedRoleIds: ['role-1'],
+      });
+
+      const result = await useCase.getDraftByName('guild-123', '定例会');
+
+      expect(result.success).toBe(true);
+      expect(result.draft).toMatchObject({
+        templateId: 'template-1',
+        title: '旧定例会',
+        dates: [{ datetime: '12/1(月) 19:00' }],
+        reminderTimings: ['3d'],
+        invitedRoleIds: ['role-1'],
+      });
+      expect(result.draft?.sourceScheduleId).toBeUndefined();
+    });
+
+    it('should return error when the template does not exist', async () => {
+      const result = await useCase.getDraftByName('guild-123', '存在しない');
+
+      expect(result.errors).toEqual(['テンプレートが見つかりません。']);
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should let moderators delete templates saved by others', async () => {
+      vi.mocked(mockTemplateRepository.findByName).mockResolvedValueOnce(existingTemplate);
+
+      const result = await useCase.deleteTemplate({
+        guildId: 'guild-123',
+        name: '定例会',
+        editorUserId: 'moderator',
+        editorPermissions: String(1 << 13),
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTemplateRepository.delete).toHaveBeenCalledWith('template-1', 'guild-123');
+    });
+
+    it('should handle repository errors', async () => {
+      vi.mocked(mockTemplateRepository.findByName).mockRejectedValueOnce(new Error('DB error'));
+
+      const result = await useCase.deleteTemplate({
+        guildId: 'guild-123',
+        name: '定例会',
+        editorUserId: 'user-123',
+      });
+
+      expect(result.errors).toEqual(['処理中にエラーが発生しました。']);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+});
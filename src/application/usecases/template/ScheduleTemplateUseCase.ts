@@ -0,0 +1,242 @@
+/**
+ * Schedule Template Use Case
+ *
+ * サーバー単位の日程調整テンプレートを管理するユースケース
+ * 既存の日程調整の内容を名前付きで保存し、作成モーダルの初期値として呼び出す
+ * 上書き・削除は保存したメンバーとモデレーターのみ行える
+ */
+
+import { BUSINESS_CONSTANTS } from '../../../domain/constants/BusinessConstants';
+import type {
+  IScheduleRepository,
+  IScheduleTemplateRepository,
+} from '../../../domain/repositories/interfaces';
+import type { DomainScheduleTemplate } from '../../../domain/types/DomainTypes';
+import { generateId } from '../../../domain/utils/id';
+import { ERROR_MESSAGES } from '../../constants/ApplicationConstants';
+import type { ScheduleDraftDto } from '../../dto/ScheduleDto';
+import type {
+  DeleteScheduleTemplateRequestDto,
+  SaveScheduleTemplateRequestDto,
+  ScheduleTemplateDto,
+} from '../../dto/ScheduleTemplateDto';
+import type { ILogger } from '../../ports/LoggerPort';
+import { SchedulePermissionPolicy } from '../../services/SchedulePermissionPolicy';
+
+export interface ScheduleTemplateUseCaseResult {
+  success: boolean;
+  template?: ScheduleTemplateDto;
+  // 同名のテンプレートを上書きした場合は true
+  overwritten?: boolean;
+  errors?: string[];
+}
+
+export interface ScheduleTemplateListResult {
+  success: boolean;
+  templates?: ScheduleTemplateDto[];
+  errors?: string[];
+}
+
+export interface ScheduleTemplateDraftResult {
+  success: boolean;
+  draft?: ScheduleDraftDto;
+  errors?: string[];
+}
+
+export class ScheduleTemplateUseCase {
+  constructor(
+    private readonly templateRepository: IScheduleTemplateRepository,
+    private readonly scheduleRepository: IScheduleRepository,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * 日程調整の内容をテンプレートとして保存する（同名のテンプレートがあれば上書き）
+   */
+  async saveFromSchedule(
+    request: SaveScheduleTemplateRequestDto
+  ): Promise<ScheduleTemplateUseCaseResult> {
+    const name = request.name.trim();
+    if (!name || name.length > BUSINESS_CONSTANTS.MAX_TEMPLATE_NAME_LENGTH) {
+      return { success: false, errors: [ERROR_MESSAGES.INVALID_TEMPLATE_NAME] };
+    }
+
+    try {
+      const schedule = await this.scheduleRepository.findById(request.scheduleId, request.guildId);
+      if (!schedule) {
+        return { success: false, errors: [ERROR_MESSAGES.SCHEDULE_NOT_FOUND] };
+      }
+
+      const existing = await this.templateRepository.findByName(request.guildId, name);
+      if (existing && !this.canManage(existing, request.editorUserId, request.editorPermissions)) {
+        return { success: false, errors: [ERROR_MESSAGES.TEMPLATE_PERMISSION_DENIED] };
+      }
+
+      if (!existing) {
+        const templates = await this.templateRepository.findByGuild(request.guildId);
+        if (templates.length >= BUSINESS_CONSTANTS.MAX_TEMPLATES_PER_GUILD) {
+          return { success: false, errors: [ERROR_MESSAGES.TEMPLATE_QUOTA_EXCEEDED] };
+        }
+      }
+
+      const now = new Date();
+      const template: DomainScheduleTemplate = {
+        id: existing?.id ?? generateId(),
+        guildId: request.guildId,
+        name,
+        title: schedule.title,
+        description: schedule.description,
+        dates: schedule.dates.map((date) => date.datetime),
+        reminderTimings: schedule.reminderTimings,
+        reminderMentions: schedule.reminderMentions,
+        invitedUserIds: schedule.invitedUserIds,
+        invitedRoleIds: schedule.invitedRoleIds,
+        createdById: existing?.createdById ?? request.editorUserId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await this.templateRepository.save(template);
+
+      return { success: true, template: this.toDto(template), overwritten: !!existing };
+    } catch (error) {
+      this.logger.error(
+        'Failed to save schedule template',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId: request.guildId, scheduleId: request.scheduleId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * サーバーのテンプレートを名前順で取得する（query を指定すると名前の部分一致で絞り込む）
+   */
+  async listTemplates(guildId: string, query?: string): Promise<ScheduleTemplateListResult> {
+    try {
+      const keyword = query?.trim().toLowerCase();
+      const templates = await this.templateRepository.findByGuild(guildId);
+
+      return {
+        success: true,
+        templates: templates
+          .filter((template) => !keyword || template.name.toLowerCase().includes(keyword))
+          .map((template) => this.toDto(template)),
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to list schedule templates',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  /**
+   * テンプレート名から作成モーダルの初期値を組み立てる
+   */
+  async getDraftByName(guildId: string, name: string): Promise<ScheduleTemplateDraftResult> {
+    return this.getDraft(guildId, () => this.templateRepository.findByName(guildId, name.trim()));
+  }
+
+  /**
+   * テンプレートIDから作成モーダルの初期値を組み立てる（作成モーダル送信時の設定の引き継ぎ用）
+   */
+  async getDraftById(templateId: string, guildId: string): Promise<ScheduleTemplateDraftResult> {
+    return this.getDraft(guildId, () => this.templateRepository.findById(templateId, guildId));
+  }
+
+  /**
+   * テンプレートを削除する
+   */
+  async deleteTemplate(
+    request: DeleteScheduleTemplateRequestDto
+  ): Promise<ScheduleTemplateUseCaseResult> {
+    try {
+      const template = await this.templateRepository.findByName(
+        request.guildId,
+        request.name.trim()
+      );
+      if (!template) {
+        return { success: false, errors: [ERROR_MESSAGES.TEMPLATE_NOT_FOUND] };
+      }
+
+      if (!this.canManage(template, request.editorUserId, request.editorPermissions)) {
+        return { success: false, errors: [ERROR_MESSAGES.TEMPLATE_PERMISSION_DENIED] };
+      }
+
+      await this.templateRepository.delete(template.id, request.guildId);
+
+      return { success: true, template: this.toDto(template) };
+    } catch (error) {
+      this.logger.error(
+        'Failed to delete schedule template',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId: request.guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  private async getDraft(
+    guildId: string,
+    find: () => Promise<DomainScheduleTemplate | null>
+  ): Promise<ScheduleTemplateDraftResult> {
+    try {
+      const template = await find();
+      if (!template) {
+        return { success: false, errors: [ERROR_MESSAGES.TEMPLATE_NOT_FOUND] };
+      }
+
+      return {
+        success: true,
+        draft: {
+          templateId: template.id,
+          title: template.title,
+          description: template.description,
+          dates: template.dates.map((datetime, index) => ({
+            id: `${template.id}-${index}`,
+            datetime,
+          })),
+          reminderTimings: template.reminderTimings,
+          reminderMentions: template.reminderMentions,
+          invitedUserIds: template.invitedUserIds,
+          invitedRoleIds: template.invitedRoleIds,
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to load schedule template',
+        error instanceof Error ? error : new Error(String(error)),
+        { guildId }
+      );
+      return { success: false, errors: [ERROR_MESSAGES.INTERNAL_ERROR] };
+    }
+  }
+
+  private canManage(
+    template: DomainScheduleTemplate,
+    userId: string,
+    permissions?: string
+  ): boolean {
+    return template.createdById === userId || SchedulePermissionPolicy.isModerator(permissions);
+  }
+
+  private toDto(template: DomainScheduleTemplate): ScheduleTemplateDto {
+    return {
+      id: template.id,
+      guildId: template.guildId,
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      dates: template.dates,
+      reminderTimings: template.reminderTimings,
+      reminderMentions: template.reminderMentions,
+      invitedUserIds: template.invitedUserIds,
+      invitedRoleIds: template.invitedRoleIds,
+      createdById: template.createdById,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
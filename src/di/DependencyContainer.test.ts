@@ -24,6 +24,26 @@ vi.mock('./factory', () => ({
       deleteBySchedule: vi.fn(),
       getScheduleSummary: vi.fn(),
     })),
+    getGuildSettingsRepository: vi.fn(() => ({
+      findByGuildId: vi.fn(),
+      save: vi.fn(),
+      findUserSettings: vi.fn(),
+      saveUserSettings: vi.fn(),
+    })),
+    getScheduleTemplateRepository: vi.fn(() => ({
+      findByGuild: vi.fn(),
+      findById: vi.fn(),
+      findByName: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    })),
+    getScheduleRecurrenceRepository: vi.fn(() => ({
+      findByGuild: vi.fn(),
+      findById: vi.fn(),
+      findDue: vi.fn(),
+      save: vi.fn(),
+      delete: vi.fn(),
+    })),
   })),
 }));
 
@@ -137,6 +157,9 @@ describe('DependencyContainer', () => {
       const mockRepositoryFactory = {
         getScheduleRepository: vi.fn(),
         getResponseRepository: vi.fn(),
+        getGuildSettingsRepository: vi.fn(),
+        getScheduleTemplateRepository: vi.fn(),
+        getScheduleRecurrenceRepository: vi.fn(),
         beginTransaction: vi.fn(),
         initialize: vi.fn(),
       };
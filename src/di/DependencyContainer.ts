@@ -9,23 +9,33 @@ import type { BackgroundExecutorPort } from '../application/ports/BackgroundExec
 import type { DeadlineReminderQueuePort } from '../application/ports/DeadlineReminderQueuePort';
 import type { MessageUpdateQueuePort } from '../application/ports/MessageUpdateQueuePort';
 import { MessageUpdateService } from '../application/services/MessageUpdateService';
+import { NonRespondentService } from '../application/services/NonRespondentService';
 import { NotificationService } from '../application/services/NotificationService';
 import { ReminderStateService } from '../application/services/ReminderStateService';
 import { ScheduleUpdaterService } from '../application/services/ScheduleUpdaterService';
 import { ProcessMessageUpdateUseCase } from '../application/usecases/message/ProcessMessageUpdateUseCase';
 import { ProcessDeadlineRemindersUseCase } from '../application/usecases/ProcessDeadlineRemindersUseCase';
+import { ProcessScheduleRecurrencesUseCase } from '../application/usecases/recurrence/ProcessScheduleRecurrencesUseCase';
+import { ScheduleRecurrenceUseCase } from '../application/usecases/recurrence/ScheduleRecurrenceUseCase';
 import { GetResponseUseCase } from '../application/usecases/response/GetResponseUseCase';
 import { SubmitResponseUseCase } from '../application/usecases/response/SubmitResponseUseCase';
 import { UpdateResponseUseCase } from '../application/usecases/response/UpdateResponseUseCase';
+import { CloneScheduleUseCase } from '../application/usecases/schedule/CloneScheduleUseCase';
 import { CloseScheduleUseCase } from '../application/usecases/schedule/CloseScheduleUseCase';
 // アプリケーション層ユースケース
 import { CreateScheduleUseCase } from '../application/usecases/schedule/CreateScheduleUseCase';
 import { DeadlineReminderUseCase } from '../application/usecases/schedule/DeadlineReminderUseCase';
+import { DecideScheduleUseCase } from '../application/usecases/schedule/DecideScheduleUseCase';
 import { DeleteScheduleUseCase } from '../application/usecases/schedule/DeleteScheduleUseCase';
 import { FindSchedulesUseCase } from '../application/usecases/schedule/FindSchedulesUseCase';
 import { GetScheduleSummaryUseCase } from '../application/usecases/schedule/GetScheduleSummaryUseCase';
 import { GetScheduleUseCase } from '../application/usecases/schedule/GetScheduleUseCase';
+import { ManageGuildEventUseCase } from '../application/usecases/schedule/ManageGuildEventUseCase';
+import { ReopenScheduleUseCase } from '../application/usecases/schedule/ReopenScheduleUseCase';
 import { UpdateScheduleUseCase } from '../application/usecases/schedule/UpdateScheduleUseCase';
+import { GuildSettingsUseCase } from '../application/usecases/settings/GuildSettingsUseCase';
+import { TimezoneSettingsUseCase } from '../application/usecases/settings/TimezoneSettingsUseCase';
+import { ScheduleTemplateUseCase } from '../application/usecases/template/ScheduleTemplateUseCase';
 import type { IRepositoryFactory } from '../domain/repositories/interfaces';
 import type { MessageUpdateService as IMessageUpdateService } from '../domain/services/MessageUpdateService';
 import { CloudflareQueueAdapter } from '../infrastructure/adapters/CloudflareQueueAdapter';
@@ -44,6 +54,9 @@ export interface ApplicationServices {
   createScheduleUseCase: CreateScheduleUseCase;
   updateScheduleUseCase: UpdateScheduleUseCase;
   closeScheduleUseCase: CloseScheduleUseCase;
+  reopenScheduleUseCase: ReopenScheduleUseCase;
+  cloneScheduleUseCase: CloneScheduleUseCase;
+  decideScheduleUseCase: DecideScheduleUseCase;
   deleteScheduleUseCase: DeleteScheduleUseCase;
   getScheduleUseCase: GetScheduleUseCase;
   findSchedulesUseCase: FindSchedulesUseCase;
@@ -51,17 +64,30 @@ export interface ApplicationServices {
   deadlineReminderUseCase: DeadlineReminderUseCase;
   reminderStateService: ReminderStateService;
   processDeadlineRemindersUseCase: ProcessDeadlineRemindersUseCase | null;
+  manageGuildEventUseCase: ManageGuildEventUseCase | null;
 
   // 回答関連ユースケース
   submitResponseUseCase: SubmitResponseUseCase;
   updateResponseUseCase: UpdateResponseUseCase;
   getResponseUseCase: GetResponseUseCase;
 
+  // 設定関連ユースケース
+  timezoneSettingsUseCase: TimezoneSettingsUseCase;
+  guildSettingsUseCase: GuildSettingsUseCase;
+
+  // テンプレート関連ユースケース
+  scheduleTemplateUseCase: ScheduleTemplateUseCase;
+
+  // 定期作成関連ユースケース
+  scheduleRecurrenceUseCase: ScheduleRecurrenceUseCase;
+  processScheduleRecurrencesUseCase: ProcessScheduleRecurrencesUseCase | null;
+
   // メッセージ更新ユースケース
   processMessageUpdateUseCase: ProcessMessageUpdateUseCase | null;
 
   // サービス
   notificationService: NotificationService | null;
+  nonRespondentService: NonRespondentService;
   scheduleUpdaterService: ScheduleUpdaterService;
 }
 
@@ -151,21 +177,34 @@ export class DependencyContainer {
   ): ApplicationServices {
     const scheduleRepository = infrastructure.repositoryFactory.getScheduleRepository();
     const responseRepository = infrastructure.repositoryFactory.getResponseRepository();
+    const guildSettingsRepository = infrastructure.repositoryFactory.getGuildSettingsRepository();
+    const scheduleTemplateRepository =
+      infrastructure.repositoryFactory.getScheduleTemplateRepository();
+    const scheduleRecurrenceRepository =
+      infrastructure.repositoryFactory.getScheduleRecurrenceRepository();
 
     // アダプター作成
     const loggerAdapter = new LoggerAdapter();
     const discordApiAdapter = new DiscordApiAdapter();
 
     // 基本ユースケース作成
-    const createScheduleUseCase = new CreateScheduleUseCase(scheduleRepository, loggerAdapter);
+    const createScheduleUseCase = new CreateScheduleUseCase(
+      scheduleRepository,
+      loggerAdapter,
+      guildSettingsRepository
+    );
     const updateScheduleUseCase = new UpdateScheduleUseCase(scheduleRepository, loggerAdapter);
     const closeScheduleUseCase = new CloseScheduleUseCase(scheduleRepository);
+    const reopenScheduleUseCase = new ReopenScheduleUseCase(scheduleRepository);
+    const cloneScheduleUseCase = new CloneScheduleUseCase(scheduleRepository);
+    const decideScheduleUseCase = new DecideScheduleUseCase(scheduleRepository);
     const deleteScheduleUseCase = new DeleteScheduleUseCase(scheduleRepository, responseRepository);
     const getScheduleUseCase = new GetScheduleUseCase(scheduleRepository, responseRepository);
     const findSchedulesUseCase = new FindSchedulesUseCase(scheduleRepository);
     const getScheduleSummaryUseCase = new GetScheduleSummaryUseCase(
       scheduleRepository,
-      responseRepository
+      responseRepository,
+      guildSettingsRepository
     );
     const deadlineReminderUseCase = new DeadlineReminderUseCase(
       new LoggerAdapter(),
@@ -175,9 +214,35 @@ export class DependencyContainer {
     const submitResponseUseCase = new SubmitResponseUseCase(scheduleRepository, responseRepository);
     const updateResponseUseCase = new UpdateResponseUseCase(scheduleRepository, responseRepository);
     const getResponseUseCase = new GetResponseUseCase(responseRepository);
+    const timezoneSettingsUseCase = new TimezoneSettingsUseCase(
+      guildSettingsRepository,
+      loggerAdapter
+    );
+    const guildSettingsUseCase = new GuildSettingsUseCase(
+      guildSettingsRepository,
+      scheduleRepository,
+      loggerAdapter
+    );
+    const scheduleTemplateUseCase = new ScheduleTemplateUseCase(
+      scheduleTemplateRepository,
+      scheduleRepository,
+      loggerAdapter
+    );
+    const scheduleRecurrenceUseCase = new ScheduleRecurrenceUseCase(
+      scheduleRecurrenceRepository,
+      scheduleRepository,
+      loggerAdapter
+    );
 
     const environmentAdapter = new EnvironmentAdapter(this._env);
 
+    // 未回答者算出サービス（トークン未設定時はユーザー指定分のみで算出）
+    const nonRespondentService = new NonRespondentService(
+      discordApiAdapter,
+      loggerAdapter,
+      this._env.DISCORD_TOKEN
+    );
+
     // 認証情報が利用可能な場合、通知サービスを作成
     let notificationService: NotificationService | null = null;
     if (this._env.DISCORD_TOKEN && this._env.DISCORD_APPLICATION_ID) {
@@ -190,7 +255,8 @@ export class DependencyContainer {
         this._env.DISCORD_TOKEN,
         this._env.DISCORD_APPLICATION_ID,
         infrastructure.backgroundExecutor,
-        new DiscordMessageService()
+        new DiscordMessageService(),
+        nonRespondentService
       );
     }
 
@@ -220,6 +286,30 @@ export class DependencyContainer {
         )
       : null;
 
+    // 定期作成の実行ユースケース作成（作成した日程調整の投稿にボットトークンを使う）
+    const processScheduleRecurrencesUseCase = this._env.DISCORD_TOKEN
+      ? new ProcessScheduleRecurrencesUseCase(
+          scheduleRecurrenceRepository,
+          createScheduleUseCase,
+          getScheduleSummaryUseCase,
+          updateScheduleUseCase,
+          discordApiAdapter,
+          new DiscordMessageService(),
+          loggerAdapter,
+          this._env.DISCORD_TOKEN
+        )
+      : null;
+
+    // サーバーイベント管理ユースケース作成
+    const manageGuildEventUseCase = this._env.DISCORD_TOKEN
+      ? new ManageGuildEventUseCase(
+          scheduleRepository,
+          discordApiAdapter,
+          loggerAdapter,
+          this._env.DISCORD_TOKEN
+        )
+      : null;
+
     // スケジュール更新サービス作成
     const scheduleUpdaterService = new ScheduleUpdaterService(
       getScheduleUseCase,
@@ -235,6 +325,9 @@ export class DependencyContainer {
       createScheduleUseCase,
       updateScheduleUseCase,
       closeScheduleUseCase,
+      reopenScheduleUseCase,
+      cloneScheduleUseCase,
+      decideScheduleUseCase,
       deleteScheduleUseCase,
       getScheduleUseCase,
       findSchedulesUseCase,
@@ -242,17 +335,30 @@ export class DependencyContainer {
       deadlineReminderUseCase,
       reminderStateService,
       processDeadlineRemindersUseCase,
+      manageGuildEventUseCase,
 
       // 回答関連ユースケース
       submitResponseUseCase,
       updateResponseUseCase,
       getResponseUseCase,
 
+      // 設定関連ユースケース
+      timezoneSettingsUseCase,
+      guildSettingsUseCase,
+
+      // テンプレート関連ユースケース
+      scheduleTemplateUseCase,
+
+      // 定期作成関連ユースケース
+      scheduleRecurrenceUseCase,
+      processScheduleRecurrencesUseCase,
+
       // メッセージ更新ユースケース
       processMessageUpdateUseCase,
 
       // サービス
       notificationService,
+      nonRespondentService,
       scheduleUpdaterService,
     };
   }
@@ -267,6 +373,15 @@ export class DependencyContainer {
   get closeScheduleUseCase() {
     return this._applicationServices.closeScheduleUseCase;
   }
+  get reopenScheduleUseCase() {
+    return this._applicationServices.reopenScheduleUseCase;
+  }
+  get cloneScheduleUseCase() {
+    return this._applicationServices.cloneScheduleUseCase;
+  }
+  get decideScheduleUseCase() {
+    return this._applicationServices.decideScheduleUseCase;
+  }
   get deleteScheduleUseCase() {
     return this._applicationServices.deleteScheduleUseCase;
   }
@@ -288,6 +403,9 @@ export class DependencyContainer {
   get processDeadlineRemindersUseCase() {
     return this._applicationServices.processDeadlineRemindersUseCase;
   }
+  get manageGuildEventUseCase() {
+    return this._applicationServices.manageGuildEventUseCase;
+  }
 
   // 回答関連ユースケース便利アクセサー
   get submitResponseUseCase() {
@@ -300,11 +418,35 @@ export class DependencyContainer {
     return this._applicationServices.getResponseUseCase;
   }
 
+  // 設定関連ユースケース便利アクセサー
+  get timezoneSettingsUseCase() {
+    return this._applicationServices.timezoneSettingsUseCase;
+  }
+  get guildSettingsUseCase() {
+    return this._applicationServices.guildSettingsUseCase;
+  }
+  get scheduleTemplateUseCase() {
+    return this._applicationServices.scheduleTemplateUseCase;
+  }
+
+  // 定期作成関連ユースケース便利アクセサー
+  get scheduleRecurrenceUseCase() {
+    return this._applicationServices.scheduleRecurrenceUseCase;
+  }
+  get processScheduleRecurrencesUseCase() {
+    return this._applicationServices.processScheduleRecurrencesUseCase;
+  }
+
   // メッセージ更新ユースケース便利アクセサー
   get processMessageUpdateUseCase() {
     return this._applicationServices.processMessageUpdateUseCase;
   }
 
+  // サービス便利アクセサー
+  get nonRespondentService() {
+    return this._applicationServices.nonRespondentService;
+  }
+
   // ドメインサービス便利アクセサー
   get messageUpdateService() {
     return this._domainServices.messageUpdateService;
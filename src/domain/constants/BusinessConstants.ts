@@ -12,6 +12,9 @@ export const BUSINESS_CONSTANTS = {
   MAX_SCHEDULE_DESCRIPTION_LENGTH: 2000,
   MAX_DATES_PER_SCHEDULE: 50,
   MAX_SCHEDULES_PER_GUILD: 100,
+  // 参加予定者（Discordのユーザー・ロール選択メニューの選択上限に合わせる）
+  MAX_INVITED_USERS: 25,
+  MAX_INVITED_ROLES: 5,
 
   // 回答制限
   MAX_COMMENT_LENGTH: 1000,
@@ -23,7 +26,20 @@ export const BUSINESS_CONSTANTS = {
 
   // リマインダー設定
   DEFAULT_REMINDER_TIMINGS: ['3d', '1d', '8h'] as const,
+  DEFAULT_REMINDER_MENTIONS: ['@here'] as const,
   MAX_REMINDER_TIMINGS: 5,
+  // 通知先に選べるユーザー・ロールの数（Discordのメンション選択メニューの選択上限に合わせる）
+  MAX_REMINDER_MENTION_TARGETS: 25,
+  // 1つの日程調整に設定できる共同主催者の数
+  MAX_CO_ORGANIZERS: 10,
+  // 複製時に候補日をずらせる最大日数
+  MAX_CLONE_SHIFT_DAYS: 365,
+  // テンプレート（Discordのオートコンプリートの候補数の上限に合わせる）
+  MAX_TEMPLATES_PER_GUILD: 25,
+  MAX_TEMPLATE_NAME_LENGTH: 50,
+  // 定期作成（1回の定期実行で処理する件数は Workers の実行時間に収まるよう抑える）
+  MAX_RECURRENCES_PER_GUILD: 10,
+  MAX_RECURRENCES_PER_RUN: 20,
   MIN_REMINDER_ADVANCE_MINUTES: 10,
   MAX_REMINDER_ADVANCE_DAYS: 30,
 
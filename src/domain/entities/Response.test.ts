@@ -117,6 +117,37 @@ describe('Response', () => {
       expect(updated.dateStatuses.size).toBe(0);
       expect(updated.getStatusForDate('date-1')).toBeUndefined();
     });
+
+    it('should keep comment when statuses are updated', () => {
+      const commented = response.updateComment('遅れて参加します');
+
+      const updated = commented.updateStatuses(new Map());
+
+      expect(updated.comment).toBe('遅れて参加します');
+    });
+  });
+
+  describe('updateComment', () => {
+    const createResponse = () =>
+      Response.create({
+        id: 'response-123',
+        scheduleId: 'schedule-123',
+        user: testUser,
+        dateStatuses: new Map([['date-1', ResponseStatus.create(ResponseStatusValue.OK)]]),
+      });
+
+    it('should set trimmed comment and keep statuses', () => {
+      const updated = createResponse().updateComment('  30分遅れます  ');
+
+      expect(updated.comment).toBe('30分遅れます');
+      expect(updated.getStatusForDate('date-1')?.value).toBe(ResponseStatusValue.OK);
+    });
+
+    it('should clear comment with empty string', () => {
+      const updated = createResponse().updateComment('コメント').updateComment('');
+
+      expect(updated.comment).toBeUndefined();
+    });
   });
 
   describe('getStatusForDate', () => {
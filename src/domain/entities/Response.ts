@@ -21,6 +21,7 @@ export interface ResponseCreateParams {
   readonly scheduleId: string;
   readonly user: User;
   readonly dateStatuses: Map<string, ResponseStatus>;
+  readonly comment?: string;
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
 }
@@ -32,7 +33,8 @@ export class Response {
     private readonly _user: User,
     private readonly _dateStatuses: Map<string, ResponseStatus>,
     private readonly _createdAt: Date,
-    private readonly _updatedAt: Date
+    private readonly _updatedAt: Date,
+    private readonly _comment?: string
   ) {}
 
   static create(params: ResponseCreateParams): Response {
@@ -50,7 +52,8 @@ export class Response {
       params.user,
       params.dateStatuses,
       params.createdAt || now,
-      params.updatedAt || now
+      params.updatedAt || now,
+      params.comment || undefined
     );
   }
 
@@ -63,6 +66,7 @@ export class Response {
       displayName?: string;
     };
     dateStatuses: Record<string, 'ok' | 'maybe' | 'ng'>;
+    comment?: string;
     createdAt: Date;
     updatedAt: Date;
   }): Response {
@@ -78,6 +82,7 @@ export class Response {
       scheduleId: data.scheduleId,
       user,
       dateStatuses,
+      comment: data.comment,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     });
@@ -99,6 +104,10 @@ export class Response {
     return this._dateStatuses;
   }
 
+  get comment(): string | undefined {
+    return this._comment;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -126,7 +135,25 @@ export class Response {
       this._user,
       newStatuses,
       this._createdAt,
-      new Date()
+      new Date(),
+      this._comment
+    );
+  }
+
+  /**
+   * コメントを更新
+   * @param comment 新しいコメント（空文字・undefinedでコメントを削除）
+   * @returns 更新された新しいResponseインスタンス（イミュータブル）
+   */
+  updateComment(comment?: string): Response {
+    return new Response(
+      this._id,
+      this._scheduleId,
+      this._user,
+      this._dateStatuses,
+      this._createdAt,
+      new Date(),
+      comment?.trim() || undefined
     );
   }
 
@@ -146,6 +173,7 @@ export class Response {
       displayName?: string;
     };
     dateStatuses: Record<string, string>;
+    comment?: string;
     createdAt: Date;
     updatedAt: Date;
   } {
@@ -159,6 +187,7 @@ export class Response {
       scheduleId: this.scheduleId,
       user: this.user.toPrimitives(),
       dateStatuses,
+      comment: this.comment,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -454,4 +454,208 @@ describe('スケジュールドメインエンティティ', () => {
       expect(updatedSchedule.remindersSent).toEqual([]);
     });
   });
+
+  describe('decide', () => {
+    let schedule: Schedule;
+
+    beforeEach(() => {
+      schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      });
+    });
+
+    it('should store decided date and close schedule', () => {
+      const decidedSchedule = schedule.decide('date2');
+
+      expect(decidedSchedule.decidedDateId).toBe('date2');
+      expect(decidedSchedule.isDecided()).toBe(true);
+      expect(decidedSchedule.status).toBe(ScheduleStatus.CLOSED);
+      expect(decidedSchedule.toPrimitives().decidedDateId).toBe('date2');
+      expect(schedule.isDecided()).toBe(false);
+    });
+
+    it('should throw error for unknown date', () => {
+      expect(() => schedule.decide('unknown')).toThrow(
+        'Decided date must be one of the schedule dates'
+      );
+    });
+
+    it('should keep decided date on other updates', () => {
+      const updatedSchedule = schedule.decide('date1').updateTitle('New Title');
+
+      expect(updatedSchedule.decidedDateId).toBe('date1');
+    });
+
+    it('should clear decided date when the date is removed', () => {
+      const updatedSchedule = schedule.decide('date1').updateDates([validDates[1]]);
+
+      expect(updatedSchedule.decidedDateId).toBeUndefined();
+    });
+  });
+  describe('updateGuildEventId', () => {
+    it('should store guild event id and keep it on other updates', () => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      })
+        .decide('date1')
+        .updateGuildEventId('event123');
+
+      expect(schedule.guildEventId).toBe('event123');
+      expect(schedule.updateTitle('New Title').guildEventId).toBe('event123');
+      expect(Schedule.fromPrimitives(schedule.toPrimitives()).guildEventId).toBe('event123');
+    });
+  });
+  describe('updateInvitees', () => {
+    it('should store deduplicated invitees and keep them on other updates', () => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      });
+
+      expect(schedule.hasInvitees()).toBe(false);
+
+      const updated = schedule.updateInvitees(['user1', 'user2', 'user1'], ['role1']);
+
+      expect(updated.invitedUserIds).toEqual(['user1', 'user2']);
+      expect(updated.invitedRoleIds).toEqual(['role1']);
+      expect(updated.hasInvitees()).toBe(true);
+      expect(updated.updateTitle('New Title').invitedUserIds).toEqual(['user1', 'user2']);
+      expect(Schedule.fromPrimitives(updated.toPrimitives()).invitedRoleIds).toEqual(['role1']);
+      expect(schedule.invitedUserIds).toEqual([]);
+    });
+  });
+  describe('reminderMode', () => {
+    it('should default to mentions and persist the non-respondents mode', () => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      });
+
+      expect(schedule.reminderMode).toBe('mentions');
+
+      const updated = schedule.updateReminderSettings(['1d'], ['@here'], 'non_respondents');
+
+      expect(updated.reminderMode).toBe('non_respondents');
+      expect(updated.updateReminderSettings(['8h'], ['@here']).reminderMode).toBe(
+        'non_respondents'
+      );
+      expect(Schedule.fromPrimitives(updated.toPrimitives()).reminderMode).toBe('non_respondents');
+    });
+
+    it('should keep DM reminders off by default and persist the opt-in', () => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      });
+
+      expect(schedule.dmReminders).toBe(false);
+
+      const updated = schedule.updateReminderSettings(['1d'], ['@here'], 'mentions', true);
+
+      expect(updated.dmReminders).toBe(true);
+      expect(updated.resetReminders().dmReminders).toBe(true);
+      expect(Schedule.fromPrimitives(updated.toPrimitives()).dmReminders).toBe(true);
+    });
+  });
+  describe('reopen', () => {
+    let closedSchedule: Schedule;
+
+    beforeEach(() => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      }).decide('date1');
+
+      closedSchedule = Schedule.fromPrimitives({
+        ...schedule.toPrimitives(),
+        deadline: new Date(Date.now() - 60 * 60 * 1000),
+        remindersSent: ['1d', '8h'],
+        notificationSent: true,
+      });
+    });
+
+    it('should reopen with a new deadline and reset notification state', () => {
+      const newDeadline = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const reopened = closedSchedule.reopen(newDeadline);
+
+      expect(reopened.status).toBe(ScheduleStatus.OPEN);
+      expect(reopened.deadline).toEqual(newDeadline);
+      expect(reopened.remindersSent).toEqual([]);
+      expect(reopened.notificationSent).toBe(false);
+      expect(reopened.decidedDateId).toBeUndefined();
+      expect(closedSchedule.isClosed()).toBe(true);
+    });
+
+    it('should remove the deadline when null is given', () => {
+      const reopened = closedSchedule.reopen(null);
+
+      expect(reopened.isOpen()).toBe(true);
+      expect(reopened.deadline).toBeUndefined();
+    });
+
+    it('should throw error when the kept deadline has passed', () => {
+      expect(() => closedSchedule.reopen()).toThrow('Deadline must be in the future to reopen');
+    });
+
+    it('should throw error for an open schedule', () => {
+      const reopened = closedSchedule.reopen(null);
+
+      expect(() => reopened.reopen(null)).toThrow('Schedule is not closed');
+    });
+  });
+
+  describe('transferOwnership', () => {
+    it('should replace the author and drop the new owner from co-organizers', () => {
+      const schedule = Schedule.create({
+        id: 'schedule1',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: validDates,
+        createdBy: validUser,
+        authorId: 'user123',
+      }).updateCoOrganizers(['user456', 'user789']);
+
+      const transferred = schedule.transferOwnership(User.create('user456', 'newowner', 'New'));
+
+      expect(transferred.authorId).toBe('user456');
+      expect(transferred.createdBy.displayName).toBe('New');
+      expect(transferred.coOrganizerIds).toEqual(['user789']);
+      expect(transferred.isOrganizer('user123')).toBe(false);
+      expect(Schedule.fromPrimitives(transferred.toPrimitives()).authorId).toBe('user456');
+      expect(schedule.authorId).toBe('user123');
+    });
+  });
 });
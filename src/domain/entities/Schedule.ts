@@ -5,7 +5,8 @@
  * 日程調整の情報を表現
  */
 
-import type { DomainSchedule } from '../types/DomainTypes';
+import { BUSINESS_CONSTANTS } from '../constants/BusinessConstants';
+import type { DomainReminderMode, DomainSchedule } from '../types/DomainTypes';
 import { ScheduleDate } from './ScheduleDate';
 import { User } from './User';
 
@@ -58,6 +59,14 @@ export interface ScheduleCreateParams {
   readonly status?: ScheduleStatus;
   readonly notificationSent?: boolean;
   readonly totalResponses?: number;
+  readonly decidedDateId?: string;
+  readonly guildEventId?: string;
+  readonly hideResultsBeforeClose?: boolean;
+  readonly invitedUserIds?: readonly string[];
+  readonly invitedRoleIds?: readonly string[];
+  readonly reminderMode?: DomainReminderMode;
+  readonly dmReminders?: boolean;
+  readonly coOrganizerIds?: readonly string[];
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
 }
@@ -81,7 +90,15 @@ export class Schedule {
     private readonly _reminderMentions?: string[],
     private readonly _remindersSent?: string[],
     private readonly _notificationSent?: boolean,
-    private readonly _totalResponses?: number
+    private readonly _totalResponses?: number,
+    private readonly _decidedDateId?: string,
+    private readonly _guildEventId?: string,
+    private readonly _hideResultsBeforeClose?: boolean,
+    private readonly _invitedUserIds?: string[],
+    private readonly _invitedRoleIds?: string[],
+    private readonly _reminderMode?: DomainReminderMode,
+    private readonly _dmReminders?: boolean,
+    private readonly _coOrganizerIds?: string[]
   ) {}
 
   static create(params: ScheduleCreateParams): Schedule {
@@ -117,11 +134,23 @@ export class Schedule {
       params.messageId ? { value: params.messageId } : undefined,
       params.description ? { value: params.description } : undefined,
       params.deadline,
-      params.reminderTimings ? [...params.reminderTimings] : ['3d', '1d', '8h'],
-      params.reminderMentions ? [...params.reminderMentions] : ['@here'],
+      params.reminderTimings
+        ? [...params.reminderTimings]
+        : [...BUSINESS_CONSTANTS.DEFAULT_REMINDER_TIMINGS],
+      params.reminderMentions
+        ? [...params.reminderMentions]
+        : [...BUSINESS_CONSTANTS.DEFAULT_REMINDER_MENTIONS],
       params.remindersSent ? [...params.remindersSent] : undefined,
       params.notificationSent || false,
-      params.totalResponses || 0
+      params.totalResponses || 0,
+      params.decidedDateId,
+      params.guildEventId,
+      params.hideResultsBeforeClose || false,
+      params.invitedUserIds ? [...params.invitedUserIds] : [],
+      params.invitedRoleIds ? [...params.invitedRoleIds] : [],
+      params.reminderMode || 'mentions',
+      params.dmReminders || false,
+      params.coOrganizerIds ? [...params.coOrganizerIds] : []
     );
   }
 
@@ -147,6 +176,14 @@ export class Schedule {
       status: data.status === 'closed' ? ScheduleStatus.CLOSED : ScheduleStatus.OPEN,
       notificationSent: data.notificationSent,
       totalResponses: data.totalResponses,
+      decidedDateId: data.decidedDateId,
+      guildEventId: data.guildEventId,
+      hideResultsBeforeClose: data.hideResultsBeforeClose,
+      invitedUserIds: data.invitedUserIds,
+      invitedRoleIds: data.invitedRoleIds,
+      reminderMode: data.reminderMode,
+      dmReminders: data.dmReminders,
+      coOrganizerIds: data.coOrganizerIds,
       createdAt: new Date(data.createdAt),
       updatedAt: new Date(data.updatedAt),
     });
@@ -217,6 +254,38 @@ export class Schedule {
     return this._totalResponses || 0;
   }
 
+  get decidedDateId(): string | undefined {
+    return this._decidedDateId;
+  }
+
+  get guildEventId(): string | undefined {
+    return this._guildEventId;
+  }
+
+  get hideResultsBeforeClose(): boolean {
+    return this._hideResultsBeforeClose || false;
+  }
+
+  get invitedUserIds(): string[] {
+    return this._invitedUserIds ? [...this._invitedUserIds] : [];
+  }
+
+  get invitedRoleIds(): string[] {
+    return this._invitedRoleIds ? [...this._invitedRoleIds] : [];
+  }
+
+  get reminderMode(): DomainReminderMode {
+    return this._reminderMode || 'mentions';
+  }
+
+  get dmReminders(): boolean {
+    return this._dmReminders || false;
+  }
+
+  get coOrganizerIds(): string[] {
+    return this._coOrganizerIds ? [...this._coOrganizerIds] : [];
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -234,10 +303,21 @@ export class Schedule {
     return this._status === ScheduleStatus.CLOSED;
   }
 
+  /**
+   * 回答を期待する参加予定者（ユーザーまたはロール）が設定されているか
+   */
+  hasInvitees(): boolean {
+    return this.invitedUserIds.length > 0 || this.invitedRoleIds.length > 0;
+  }
+
   hasDeadline(): boolean {
     return this._deadline !== undefined;
   }
 
+  isDecided(): boolean {
+    return this._decidedDateId !== undefined;
+  }
+
   isDeadlinePassed(currentTime: Date = new Date()): boolean {
     return this._deadline ? this._deadline < currentTime : false;
   }
@@ -251,6 +331,13 @@ export class Schedule {
     return this._authorId === userId;
   }
 
+  /**
+   * 指定されたユーザーが主催者（作成者または共同主催者）かチェック
+   */
+  isOrganizer(userId: string): boolean {
+    return this._authorId === userId || this.coOrganizerIds.includes(userId);
+  }
+
   // 更新メソッド
   close(): Schedule {
     return new Schedule(
@@ -271,7 +358,98 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
+    );
+  }
+
+  /**
+   * 開催日程を決定する（決定と同時に締め切る）
+   */
+  decide(dateId: string): Schedule {
+    if (!this._dates.some((d) => d.id === dateId)) {
+      throw new Error('Decided date must be one of the schedule dates');
+    }
+
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      this._createdBy,
+      this._authorId,
+      ScheduleStatus.CLOSED,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      this._deadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      this._remindersSent,
+      this._notificationSent,
+      this._totalResponses,
+      dateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
+    );
+  }
+
+  /**
+   * 締め切った日程調整を再開する
+   * deadlineを省略すると現在の締切を維持し、nullなら締切なしにする。
+   * 再開後に改めて通知できるよう、リマインダー送信履歴・締切通知・決定済みの日程をリセットする
+   */
+  reopen(deadline?: Date | null): Schedule {
+    if (this.isOpen()) {
+      throw new Error('Schedule is not closed');
+    }
+
+    const newDeadline = deadline === undefined ? this._deadline : (deadline ?? undefined);
+    if (newDeadline && newDeadline <= new Date()) {
+      throw new Error('Deadline must be in the future to reopen');
+    }
+
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      this._createdBy,
+      this._authorId,
+      ScheduleStatus.OPEN,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      newDeadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      [], // リマインダー送信履歴をリセット
+      false,
+      this._totalResponses,
+      undefined,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -298,7 +476,15 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -321,7 +507,15 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -348,7 +542,15 @@ export class Schedule {
       this._reminderMentions,
       [], // リマインダー送信履歴をリセット
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -376,7 +578,15 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -399,7 +609,15 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      totalResponses
+      totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -422,7 +640,15 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -449,11 +675,59 @@ export class Schedule {
       this._reminderMentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      // 決定済みの日程が削除された場合は決定を取り消す
+      dates.some((d) => d.id === this._decidedDateId) ? this._decidedDateId : undefined,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
-  updateReminderSettings(timings?: string[], mentions?: string[]): Schedule {
+  /**
+   * 作成済みのDiscordサーバーイベントIDを記録する
+   */
+  updateGuildEventId(guildEventId: string | undefined): Schedule {
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      this._createdBy,
+      this._authorId,
+      this._status,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      this._deadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      this._remindersSent,
+      this._notificationSent,
+      this._totalResponses,
+      this._decidedDateId,
+      guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
+    );
+  }
+
+  updateReminderSettings(
+    timings?: string[],
+    mentions?: string[],
+    mode: DomainReminderMode = this.reminderMode,
+    dmReminders: boolean = this.dmReminders
+  ): Schedule {
     return new Schedule(
       this._id,
       this._guildId,
@@ -472,7 +746,118 @@ export class Schedule {
       mentions,
       this._remindersSent,
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      mode,
+      dmReminders,
+      this._coOrganizerIds
+    );
+  }
+
+  /**
+   * 回答を期待する参加予定者を設定する（空配列で解除）
+   */
+  updateInvitees(userIds: string[], roleIds: string[]): Schedule {
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      this._createdBy,
+      this._authorId,
+      this._status,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      this._deadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      this._remindersSent,
+      this._notificationSent,
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      [...new Set(userIds)],
+      [...new Set(roleIds)],
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
+    );
+  }
+
+  /**
+   * 共同主催者を設定する（作成者自身は含めない、空配列で解除）
+   */
+  updateCoOrganizers(userIds: string[]): Schedule {
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      this._createdBy,
+      this._authorId,
+      this._status,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      this._deadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      this._remindersSent,
+      this._notificationSent,
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      [...new Set(userIds)].filter((id) => id !== this._authorId)
+    );
+  }
+
+  /**
+   * 作成者（主催者）を別のユーザーに譲渡する
+   * 新しい作成者が共同主催者に含まれていた場合は共同主催者から外す
+   */
+  transferOwnership(newOwner: User): Schedule {
+    return new Schedule(
+      this._id,
+      this._guildId,
+      this._channelId,
+      this._title,
+      this._dates,
+      newOwner,
+      newOwner.id,
+      this._status,
+      this._createdAt,
+      new Date(),
+      this._messageId,
+      this._description,
+      this._deadline,
+      this._reminderTimings,
+      this._reminderMentions,
+      this._remindersSent,
+      this._notificationSent,
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this.coOrganizerIds.filter((id) => id !== newOwner.id)
     );
   }
 
@@ -495,7 +880,15 @@ export class Schedule {
       this._reminderMentions,
       [], // リマインダー送信履歴をリセット
       this._notificationSent,
-      this._totalResponses
+      this._totalResponses,
+      this._decidedDateId,
+      this._guildEventId,
+      this._hideResultsBeforeClose,
+      this._invitedUserIds,
+      this._invitedRoleIds,
+      this._reminderMode,
+      this._dmReminders,
+      this._coOrganizerIds
     );
   }
 
@@ -517,6 +910,14 @@ export class Schedule {
       status: this.status,
       notificationSent: this.notificationSent,
       totalResponses: this.totalResponses,
+      decidedDateId: this.decidedDateId,
+      guildEventId: this.guildEventId,
+      hideResultsBeforeClose: this.hideResultsBeforeClose,
+      invitedUserIds: this.invitedUserIds,
+      invitedRoleIds: this.invitedRoleIds,
+      reminderMode: this.reminderMode,
+      dmReminders: this.dmReminders,
+      coOrganizerIds: this.coOrganizerIds,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
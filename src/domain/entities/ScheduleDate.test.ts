@@ -98,4 +98,45 @@ describe('ScheduleDate Domain Entity', () => {
       expect(originalDate).not.toBe(newDate);
     });
   });
+
+  describe('ScheduleDate Timestamps', () => {
+    const startAt = new Date('2026-12-26T09:00:00.000Z');
+    const endAt = new Date('2026-12-26T11:00:00.000Z');
+
+    it('should keep start and end timestamps alongside the label', () => {
+      const scheduleDate = ScheduleDate.create('date1', '12/26(土) 18:00〜20:00', startAt, endAt);
+
+      expect(scheduleDate.datetime).toBe('12/26(土) 18:00〜20:00');
+      expect(scheduleDate.startAt).toEqual(startAt);
+      expect(scheduleDate.endAt).toEqual(endAt);
+      expect(ScheduleDate.fromPrimitives(scheduleDate.toPrimitives()).endAt).toEqual(endAt);
+    });
+
+    it('should allow free text without timestamps', () => {
+      const scheduleDate = ScheduleDate.create('date1', '年末のどこか');
+
+      expect(scheduleDate.startAt).toBeUndefined();
+      expect(scheduleDate.endAt).toBeUndefined();
+    });
+
+    it('should reject an end before the start', () => {
+      expect(() => {
+        ScheduleDate.create('date1', '12/26 20:00〜18:00', endAt, startAt);
+      }).toThrow('終了日時は開始日時より後である必要があります');
+    });
+
+    it('should reject an end without a start', () => {
+      expect(() => {
+        ScheduleDate.create('date1', '12/26', undefined, endAt);
+      }).toThrow('終了日時を指定する場合は開始日時も必要です');
+    });
+
+    it('should use timestamps for date comparison', () => {
+      const scheduleDate = ScheduleDate.create('date1', '12/26(土) 18:00〜20:00', startAt, endAt);
+
+      expect(scheduleDate.getDateTimeAsDate()).toEqual(startAt);
+      expect(scheduleDate.isPast(new Date('2026-12-26T10:00:00.000Z'))).toBe(false);
+      expect(scheduleDate.isPast(new Date('2026-12-26T12:00:00.000Z'))).toBe(true);
+    });
+  });
 });
@@ -16,22 +16,40 @@ export interface DateTime {
 export class ScheduleDate {
   private constructor(
     private readonly _id: ScheduleDateId,
-    private readonly _datetime: DateTime
+    private readonly _datetime: DateTime,
+    private readonly _startAt?: Date,
+    private readonly _endAt?: Date
   ) {}
 
-  static create(id: string, datetime: string): ScheduleDate {
+  /**
+   * @param datetime 表示用の候補文字列（自由記述を含む）
+   * @param startAt 候補文字列から解釈できた開始日時
+   * @param endAt 候補文字列から解釈できた終了日時
+   */
+  static create(id: string, datetime: string, startAt?: Date, endAt?: Date): ScheduleDate {
     if (!id || !id.trim()) {
       throw new Error('日程IDは必須です');
     }
     if (!datetime || !datetime.trim()) {
       throw new Error('日程時刻は必須です');
     }
+    if (endAt && !startAt) {
+      throw new Error('終了日時を指定する場合は開始日時も必要です');
+    }
+    if (startAt && endAt && endAt < startAt) {
+      throw new Error('終了日時は開始日時より後である必要があります');
+    }
 
-    return new ScheduleDate({ value: id }, { value: datetime });
+    return new ScheduleDate({ value: id }, { value: datetime }, startAt, endAt);
   }
 
-  static fromPrimitives(data: { id: string; datetime: string }): ScheduleDate {
-    return ScheduleDate.create(data.id, data.datetime);
+  static fromPrimitives(data: {
+    id: string;
+    datetime: string;
+    startAt?: Date;
+    endAt?: Date;
+  }): ScheduleDate {
+    return ScheduleDate.create(data.id, data.datetime, data.startAt, data.endAt);
   }
 
   get id(): string {
@@ -42,13 +60,25 @@ export class ScheduleDate {
     return this._datetime.value;
   }
 
+  get startAt(): Date | undefined {
+    return this._startAt;
+  }
+
+  get endAt(): Date | undefined {
+    return this._endAt;
+  }
+
   toPrimitives(): {
     id: string;
     datetime: string;
+    startAt?: Date;
+    endAt?: Date;
   } {
     return {
       id: this.id,
       datetime: this.datetime,
+      startAt: this.startAt,
+      endAt: this.endAt,
     };
   }
 
@@ -58,15 +88,17 @@ export class ScheduleDate {
 
   /**
    * 日時をDateオブジェクトとして取得
+   * 開始日時が解釈できている場合はそれを優先
    */
   getDateTimeAsDate(): Date {
-    return new Date(this.datetime);
+    return this.startAt ?? new Date(this.datetime);
   }
 
   /**
    * 日時が過去かどうかチェック
+   * 終了日時がある場合は終了日時で判定
    */
   isPast(currentTime: Date = new Date()): boolean {
-    return this.getDateTimeAsDate() < currentTime;
+    return (this.endAt ?? this.getDateTimeAsDate()) < currentTime;
   }
 }
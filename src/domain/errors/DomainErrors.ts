@@ -132,6 +132,22 @@ export class BusinessLogicError extends DomainError {
   readonly statusCode = 422;
 }
 
+// Quota Domain Errors
+export type QuotaResource = 'schedules_per_guild' | 'responses_per_schedule';
+
+export class QuotaExceededError extends DomainError {
+  readonly code = 'QUOTA_EXCEEDED';
+  readonly statusCode = 429;
+
+  constructor(
+    public readonly resource: QuotaResource,
+    public readonly limit: number,
+    public readonly current: number
+  ) {
+    super(`Quota exceeded for ${resource}: ${current}/${limit}`, { resource, limit, current });
+  }
+}
+
 // Error Factory Functions
 export function createScheduleNotFoundError(scheduleId: string): ScheduleNotFoundError {
   return new ScheduleNotFoundError(scheduleId);
@@ -195,11 +211,23 @@ export function createBusinessLogicError(
   return new BusinessLogicError(message, details);
 }
 
+export function createQuotaExceededError(
+  resource: QuotaResource,
+  limit: number,
+  current: number
+): QuotaExceededError {
+  return new QuotaExceededError(resource, limit, current);
+}
+
 // Type Guards
 export function isDomainError(error: unknown): error is DomainError {
   return error instanceof DomainError;
 }
 
+export function isQuotaExceededError(error: unknown): error is QuotaExceededError {
+  return error instanceof QuotaExceededError;
+}
+
 export function isScheduleError(
   error: unknown
 ): error is
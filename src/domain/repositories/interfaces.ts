@@ -3,7 +3,15 @@
  * KVとD1の実装を切り替え可能にするための抽象層
  */
 
-import type { DomainResponse, DomainSchedule, DomainScheduleSummary } from '../types/DomainTypes';
+import type {
+  DomainGuildSettings,
+  DomainResponse,
+  DomainSchedule,
+  DomainScheduleRecurrence,
+  DomainScheduleSummary,
+  DomainScheduleTemplate,
+  DomainUserSettings,
+} from '../types/DomainTypes';
 
 // Named argument interfaces for repositories
 export interface FindByChannelOptions {
@@ -53,9 +61,9 @@ export interface IScheduleRepository {
   findByMessageId(messageId: string, guildId: string): Promise<DomainSchedule | null>;
 
   /**
-   * ギルド内の全スケジュール数を取得
+   * ギルド内のスケジュール数を取得（status指定時はそのステータスのみ）
    */
-  countByGuild(guildId: string): Promise<number>;
+  countByGuild(guildId: string, status?: DomainSchedule['status']): Promise<number>;
 
   /**
    * リマインダー送信状況を更新
@@ -107,6 +115,91 @@ export interface IResponseRepository {
   getScheduleSummary(scheduleId: string, guildId: string): Promise<DomainScheduleSummary | null>;
 }
 
+/**
+ * サーバー・ユーザー設定リポジトリのインターフェース
+ */
+export interface IGuildSettingsRepository {
+  /**
+   * サーバー設定を取得
+   */
+  findByGuildId(guildId: string): Promise<DomainGuildSettings | null>;
+
+  /**
+   * サーバー設定を保存（アップサート）
+   */
+  save(settings: DomainGuildSettings): Promise<void>;
+
+  /**
+   * ユーザー設定を取得
+   */
+  findUserSettings(guildId: string, userId: string): Promise<DomainUserSettings | null>;
+
+  /**
+   * ユーザー設定を保存（アップサート）
+   */
+  saveUserSettings(settings: DomainUserSettings): Promise<void>;
+}
+
+/**
+ * 日程調整テンプレートリポジトリのインターフェース
+ */
+export interface IScheduleTemplateRepository {
+  /**
+   * サーバーのテンプレートを名前順で取得
+   */
+  findByGuild(guildId: string): Promise<DomainScheduleTemplate[]>;
+
+  /**
+   * IDでテンプレートを取得
+   */
+  findById(templateId: string, guildId: string): Promise<DomainScheduleTemplate | null>;
+
+  /**
+   * 名前でテンプレートを取得
+   */
+  findByName(guildId: string, name: string): Promise<DomainScheduleTemplate | null>;
+
+  /**
+   * テンプレートを保存（アップサート）
+   */
+  save(template: DomainScheduleTemplate): Promise<void>;
+
+  /**
+   * テンプレートを削除
+   */
+  delete(templateId: string, guildId: string): Promise<void>;
+}
+
+/**
+ * 定期作成リポジトリのインターフェース
+ */
+export interface IScheduleRecurrenceRepository {
+  /**
+   * サーバーの定期作成を作成日時順で取得
+   */
+  findByGuild(guildId: string): Promise<DomainScheduleRecurrence[]>;
+
+  /**
+   * IDで定期作成を取得
+   */
+  findById(recurrenceId: string, guildId: string): Promise<DomainScheduleRecurrence | null>;
+
+  /**
+   * 作成日時を迎えた（一時停止中でない）定期作成を取得
+   */
+  findDue(now: Date, limit: number): Promise<DomainScheduleRecurrence[]>;
+
+  /**
+   * 定期作成を保存（アップサート）
+   */
+  save(recurrence: DomainScheduleRecurrence): Promise<void>;
+
+  /**
+   * 定期作成を削除
+   */
+  delete(recurrenceId: string, guildId: string): Promise<void>;
+}
+
 /**
  * トランザクション管理インターフェース
  */
@@ -136,6 +229,21 @@ export interface IRepositoryFactory {
    */
   getResponseRepository(): IResponseRepository;
 
+  /**
+   * サーバー設定リポジトリを取得
+   */
+  getGuildSettingsRepository(): IGuildSettingsRepository;
+
+  /**
+   * 日程調整テンプレートリポジトリを取得
+   */
+  getScheduleTemplateRepository(): IScheduleTemplateRepository;
+
+  /**
+   * 定期作成リポジトリを取得
+   */
+  getScheduleRecurrenceRepository(): IScheduleRecurrenceRepository;
+
   /**
    * トランザクションを開始
    */
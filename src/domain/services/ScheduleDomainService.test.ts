@@ -5,10 +5,11 @@
  * ビジネスロジックの検証
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { Schedule } from '../entities/Schedule';
 import { ScheduleDate } from '../entities/ScheduleDate';
 import { User } from '../entities/User';
+import { parseCandidateDateRange } from '../utils/date';
 import { ScheduleDomainService } from './ScheduleDomainService';
 
 // Test helper
@@ -194,6 +195,154 @@ describe('ScheduleDomainService', () => {
     });
   });
 
+  describe('date warnings', () => {
+    const hour = 60 * 60 * 1000;
+    const future = new Date(Date.now() + 48 * hour);
+    const past = new Date(Date.now() - 48 * hour);
+
+    it('should warn about candidates with the same label without rejecting them', () => {
+      const validation = ScheduleDomainService.validateScheduleForCreation({
+        title: 'Title',
+        dates: [
+          ScheduleDate.create('a', '12/1 19:00'),
+          ScheduleDate.create('b', ' 12/1 19:00'),
+          ScheduleDate.create('c', '未定'),
+          ScheduleDate.create('d', '未定'),
+        ],
+      });
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.warnings).toEqual([
+        {
+          code: 'duplicate_label',
+          message: '同じ表記の候補があります',
+          datetimes: ['12/1 19:00', '未定'],
+        },
+      ]);
+    });
+
+    it('should warn about structured candidates at the same time with different labels', () => {
+      const validation = ScheduleDomainService.validateScheduleForCreation({
+        title: 'Title',
+        dates: [
+          ScheduleDate.create('a', '12/1 19:00', future),
+          ScheduleDate.create('b', '12/1(月) 19時', future),
+          ScheduleDate.create(
+            'c',
+            '12/1 19:00〜21:00',
+            future,
+            new Date(future.getTime() + 2 * hour)
+          ),
+        ],
+      });
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.warnings).toEqual([
+        {
+          code: 'duplicate_date',
+          message: '同じ日時を指す候補があります',
+          datetimes: ['12/1 19:00', '12/1(月) 19時'],
+        },
+      ]);
+    });
+
+    it('should warn about past candidates but not free-text ones', () => {
+      const validation = ScheduleDomainService.validateScheduleForCreation({
+        title: 'Title',
+        dates: [
+          ScheduleDate.create('a', '先週の金曜', past),
+          ScheduleDate.create('b', '今日（終日）', past, future),
+          ScheduleDate.create('c', '未定'),
+        ],
+      });
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.warnings).toEqual([
+        {
+          code: 'past_date',
+          message: 'すでに過ぎた日時の候補があります（1件）',
+          datetimes: ['先週の金曜'],
+        },
+      ]);
+    });
+
+    describe('with parsed labels', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-18T03:00:00.000Z')); // 2026/10/18 12:00 JST
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      const parsedDate = (id: string, label: string) => {
+        const range = parseCandidateDateRange(label);
+        return ScheduleDate.create(id, label, range?.startAt, range?.endAt);
+      };
+
+      it('should warn about yearless labels that passed earlier this year', () => {
+        const validation = ScheduleDomainService.validateScheduleForCreation({
+          title: 'Title',
+          dates: [
+            parsedDate('a', '10/1 19:00'),
+            parsedDate('b', '10月17日 18時〜20時'),
+            parsedDate('c', '10/25(日) 19:00'),
+            parsedDate('d', '1/10 19:00'),
+          ],
+        });
+
+        expect(validation.warnings).toEqual([
+          {
+            code: 'past_date',
+            message: 'すでに過ぎた日時の候補があります（2件）',
+            datetimes: ['10/1 19:00', '10月17日 18時〜20時'],
+          },
+        ]);
+      });
+    });
+
+    it('should only check added candidates on update', () => {
+      const schedule = Schedule.create({
+        id: 'schedule123',
+        guildId: 'guild123',
+        channelId: 'channel123',
+        title: 'Test Schedule',
+        dates: [ScheduleDate.create('old', '昨日 19:00', past)],
+        createdBy: User.create('user123', 'TestUser'),
+        authorId: 'user123',
+      });
+
+      const unchanged = ScheduleDomainService.validateScheduleForUpdate({
+        schedule,
+        dates: schedule.dates,
+      });
+      const added = ScheduleDomainService.validateScheduleForUpdate({
+        schedule,
+        dates: [
+          ...schedule.dates,
+          ScheduleDate.create('new', '一昨日 19:00', new Date(past.getTime() - 24 * hour)),
+        ],
+      });
+
+      expect(unchanged.warnings).toEqual([]);
+      expect(added.isValid).toBe(true);
+      expect(added.warnings).toEqual([
+        expect.objectContaining({ code: 'past_date', datetimes: ['一昨日 19:00'] }),
+      ]);
+    });
+
+    it('should reject empty dates on update', () => {
+      const validation = ScheduleDomainService.validateScheduleForUpdate({
+        schedule: createTestSchedule(),
+        dates: [],
+      });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('日程候補を1つ以上入力してください');
+    });
+  });
+
   // Tests for methods that would be needed for reminder validation
   // These methods are not currently implemented in ScheduleDomainService
   // but would be useful additions for complete reminder functionality
@@ -10,6 +10,22 @@ import type { Response } from '../entities/Response';
 import type { Schedule } from '../entities/Schedule';
 import type { ScheduleDate } from '../entities/ScheduleDate';
 
+/**
+ * 日程候補の注意点（エラーと違い保存は妨げない）
+ * duplicate_label: 表記が同じ候補、duplicate_date: 表記は違うが同じ日時の候補、past_date: すでに過ぎた日時の候補
+ */
+export interface ScheduleDateWarning {
+  code: 'duplicate_label' | 'duplicate_date' | 'past_date';
+  message: string;
+  datetimes: string[]; // 該当する候補の表示文字列
+}
+
+export interface ScheduleValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: ScheduleDateWarning[];
+}
+
 export interface ScheduleSummaryData {
   schedule: Schedule;
   responses: Response[];
@@ -143,8 +159,9 @@ export class ScheduleDomainService {
     title: string;
     dates: ScheduleDate[];
     deadline?: Date;
-  }): { isValid: boolean; errors: string[] } {
+  }): ScheduleValidationResult {
     const errors: string[] = [];
+    let warnings: ScheduleDateWarning[] = [];
 
     // タイトルチェック
     if (!data.title || !data.title.trim()) {
@@ -169,6 +186,8 @@ export class ScheduleDomainService {
       if (dateIds.length !== uniqueDateIds.length) {
         errors.push('日程候補に重複があります');
       }
+
+      warnings = ScheduleDomainService.validateDates(data.dates, new Set());
     }
 
     // 締切チェック
@@ -182,6 +201,7 @@ export class ScheduleDomainService {
     return {
       isValid: errors.length === 0,
       errors,
+      warnings,
     };
   }
 
@@ -192,9 +212,14 @@ export class ScheduleDomainService {
     schedule: Schedule;
     title?: string;
     description?: string;
+    dates?: ScheduleDate[];
     deadline?: Date;
-  }): { isValid: boolean; errors: string[] } {
+    invitedUserIds?: string[];
+    invitedRoleIds?: string[];
+    coOrganizerIds?: string[];
+  }): ScheduleValidationResult {
     const errors: string[] = [];
+    let warnings: ScheduleDateWarning[] = [];
 
     // タイトルチェック
     if (data.title !== undefined) {
@@ -217,6 +242,20 @@ export class ScheduleDomainService {
       );
     }
 
+    // 日程チェック（既存の候補は検証済みのため、重複・過去の日時は追加・変更した候補についてのみ調べる）
+    if (data.dates !== undefined) {
+      if (data.dates.length === 0) {
+        errors.push('日程候補を1つ以上入力してください');
+      } else if (data.dates.length > BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE) {
+        errors.push(
+          `日程候補は${BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE}個以内で入力してください`
+        );
+      }
+
+      const existingDateIds = new Set(data.schedule.dates.map((date) => date.id));
+      warnings = ScheduleDomainService.validateDates(data.dates, existingDateIds);
+    }
+
     // 締切チェック
     if (data.deadline !== undefined) {
       const now = new Date();
@@ -225,26 +264,103 @@ export class ScheduleDomainService {
       }
     }
 
+    // 参加予定者チェック
+    if (
+      data.invitedUserIds !== undefined &&
+      data.invitedUserIds.length > BUSINESS_CONSTANTS.MAX_INVITED_USERS
+    ) {
+      errors.push(`参加予定者は${BUSINESS_CONSTANTS.MAX_INVITED_USERS}人以内で選択してください`);
+    }
+    if (
+      data.invitedRoleIds !== undefined &&
+      data.invitedRoleIds.length > BUSINESS_CONSTANTS.MAX_INVITED_ROLES
+    ) {
+      errors.push(
+        `参加予定者のロールは${BUSINESS_CONSTANTS.MAX_INVITED_ROLES}個以内で選択してください`
+      );
+    }
+
+    // 共同主催者チェック
+    if (
+      data.coOrganizerIds !== undefined &&
+      data.coOrganizerIds.length > BUSINESS_CONSTANTS.MAX_CO_ORGANIZERS
+    ) {
+      errors.push(`共同主催者は${BUSINESS_CONSTANTS.MAX_CO_ORGANIZERS}人以内で選択してください`);
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
+      warnings,
     };
   }
 
   /**
-   * スケジュールが編集可能な状態かチェック
+   * 日程候補の重複と過去の日時を注意点として返す（「未定」などの自由記述も重なりうるため保存は妨げない）
+   * 同じ表記の候補はすべて、同一日時・過去の日時は日時を解釈できた候補のみ調べる
+   * existingDateIds に含まれる既存の候補は調べない
    */
-  static canEditSchedule(
-    schedule: Schedule,
-    editorUserId: string
-  ): { canEdit: boolean; reason?: string } {
-    if (!schedule.canBeEditedBy(editorUserId)) {
-      return {
-        canEdit: false,
-        reason: '編集できるのは作成者のみです',
-      };
-    }
-
-    return { canEdit: true };
+  private static validateDates(
+    dates: ScheduleDate[],
+    existingDateIds: Set<string>
+  ): ScheduleDateWarning[] {
+    const warnings: ScheduleDateWarning[] = [];
+    const isNew = (date: ScheduleDate) => !existingDateIds.has(date.id);
+
+    const duplicatedLabels = [
+      ...ScheduleDomainService.groupDates(dates, (date) => date.datetime.trim()),
+    ]
+      .filter(([, group]) => group.length > 1 && group.some(isNew))
+      .map(([label]) => label);
+    if (duplicatedLabels.length > 0) {
+      warnings.push({
+        code: 'duplicate_label',
+        message: '同じ表記の候補があります',
+        datetimes: duplicatedLabels,
+      });
+    }
+
+    const structured = dates.filter((date) => date.startAt);
+    const bySchedule = ScheduleDomainService.groupDates(
+      structured,
+      (date) => `${date.startAt?.getTime()}-${date.endAt?.getTime() ?? ''}`
+    );
+    for (const group of bySchedule.values()) {
+      const datetimes = [...new Set(group.map((date) => date.datetime.trim()))];
+      if (datetimes.length > 1 && group.some(isNew)) {
+        warnings.push({
+          code: 'duplicate_date',
+          message: '同じ日時を指す候補があります',
+          datetimes,
+        });
+      }
+    }
+
+    // 終了日時があれば終了まで、なければ開始日時を過ぎた候補を過去とみなす
+    const now = new Date();
+    const pastDatetimes = structured
+      .filter((date) => isNew(date) && (date.endAt ?? date.startAt ?? now) < now)
+      .map((date) => date.datetime);
+    if (pastDatetimes.length > 0) {
+      warnings.push({
+        code: 'past_date',
+        message: `すでに過ぎた日時の候補があります（${pastDatetimes.length}件）`,
+        datetimes: pastDatetimes,
+      });
+    }
+
+    return warnings;
+  }
+
+  private static groupDates(
+    dates: ScheduleDate[],
+    keyOf: (date: ScheduleDate) => string
+  ): Map<string, ScheduleDate[]> {
+    const groups = new Map<string, ScheduleDate[]>();
+    for (const date of dates) {
+      const key = keyOf(date);
+      groups.set(key, [...(groups.get(key) ?? []), date]);
+    }
+    return groups;
   }
 }
@@ -15,10 +15,15 @@ export interface DomainScheduleDate {
   id: string;
   datetime: string;
   description?: string;
+  startAt?: Date;
+  endAt?: Date;
 }
 
 export type DomainResponseStatus = 'ok' | 'maybe' | 'ng';
 
+// リマインダーのメンション先（mentions: 設定した通知先 / non_respondents: 参加予定者のうち未回答者のみ）
+export type DomainReminderMode = 'mentions' | 'non_respondents';
+
 export interface DomainSchedule {
   id: string;
   guildId: string;
@@ -36,6 +41,14 @@ export interface DomainSchedule {
   status: 'open' | 'closed';
   notificationSent: boolean;
   totalResponses: number;
+  decidedDateId?: string;
+  guildEventId?: string;
+  hideResultsBeforeClose?: boolean;
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
+  reminderMode?: DomainReminderMode;
+  dmReminders?: boolean;
+  coOrganizerIds?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,6 +59,72 @@ export interface DomainResponse {
   username: string;
   displayName?: string;
   dateStatuses: Record<string, DomainResponseStatus>;
+  comment?: string;
+  updatedAt: Date;
+}
+
+export interface DomainGuildSettings {
+  guildId: string;
+  timezone?: string;
+  defaultReminderTimings?: string[];
+  defaultReminderMentions?: string[];
+  hideResultsBeforeClose?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DomainUserSettings {
+  guildId: string;
+  userId: string;
+  timezone?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DomainScheduleTemplate {
+  id: string;
+  guildId: string;
+  name: string;
+  title: string;
+  description?: string;
+  // 日程候補の入力行（作成モーダルの「日程候補」欄にそのまま入る）
+  dates: string[];
+  reminderTimings?: string[];
+  reminderMentions?: string[];
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
+  createdById: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DomainScheduleRecurrence {
+  id: string;
+  guildId: string;
+  channelId: string;
+  // 作成される日程調整の作成者
+  authorId: string;
+  authorUsername: string;
+  title: string;
+  description?: string;
+  reminderTimings?: string[];
+  reminderMentions?: string[];
+  reminderMode?: DomainReminderMode;
+  dmReminders?: boolean;
+  invitedUserIds?: string[];
+  invitedRoleIds?: string[];
+  // 毎週の作成タイミング（timezone の曜日と 'HH:mm'）
+  runWeekday: number;
+  runTime: string;
+  timezone: string;
+  // 候補日のルール（例: "来週 火-木 20:00"）
+  candidateRule: string;
+  // 締切を最初の候補の何日・何時間前にするか（例: "1d"）
+  deadlineOffset?: string;
+  paused: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
   updatedAt: Date;
 }
 
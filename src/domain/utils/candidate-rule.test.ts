@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandCandidateLines,
+  generateDateRangeCandidates,
+  generateWeeklyCandidates,
+  parseDateRangeCandidateRule,
+  parseTimeSlots,
+  parseWeekdaySpec,
+  parseWeeklyCandidateRule,
+} from './candidate-rule';
+import { formatCandidateDateRange } from './date';
+
+describe('Candidate Rule Utilities', () => {
+  describe('parseWeekdaySpec', () => {
+    it('should parse weekday ranges in Monday-first order', () => {
+      expect(parseWeekdaySpec('火-木')).toEqual([2, 3, 4]);
+      expect(parseWeekdaySpec('金〜月')).toEqual([1, 5, 6, 0]);
+    });
+
+    it('should parse weekday lists and keywords', () => {
+      expect(parseWeekdaySpec('月水金')).toEqual([1, 3, 5]);
+      expect(parseWeekdaySpec('火曜,木曜')).toEqual([2, 4]);
+      expect(parseWeekdaySpec('平日')).toEqual([1, 2, 3, 4, 5]);
+      expect(parseWeekdaySpec('土日')).toEqual([6, 0]);
+    });
+
+    it('should return null for unknown weekdays', () => {
+      expect(parseWeekdaySpec('')).toBeNull();
+      expect(parseWeekdaySpec('祝日')).toBeNull();
+      expect(parseWeekdaySpec('constructor')).toBeNull();
+    });
+  });
+
+  describe('parseTimeSlots', () => {
+    it('should parse times and time ranges', () => {
+      expect(parseTimeSlots('13:00,18:00')).toEqual([
+        { startMinutes: 780, endMinutes: undefined },
+        { startMinutes: 1080, endMinutes: undefined },
+      ]);
+      expect(parseTimeSlots('19:00〜21:30')).toEqual([{ startMinutes: 1140, endMinutes: 1290 }]);
+      expect(parseTimeSlots('２０時')).toEqual([{ startMinutes: 1200, endMinutes: undefined }]);
+    });
+
+    it('should return null for invalid times', () => {
+      expect(parseTimeSlots('25:00')).toBeNull();
+      expect(parseTimeSlots('夜')).toBeNull();
+    });
+  });
+
+  describe('parseWeeklyCandidateRule', () => {
+    it('should parse week, weekdays and times', () => {
+      expect(parseWeeklyCandidateRule('来週 火-木 20:00')).toEqual({
+        weekOffset: 1,
+        weekdays: [2, 3, 4],
+        times: [{ startMinutes: 1200, endMinutes: undefined }],
+      });
+      expect(parseWeeklyCandidateRule('再来週 土日')).toEqual({
+        weekOffset: 2,
+        weekdays: [6, 0],
+        times: [],
+      });
+    });
+
+    it('should default to next week', () => {
+      expect(parseWeeklyCandidateRule('平日 19:00')?.weekOffset).toBe(1);
+    });
+
+    it('should parse holiday options', () => {
+      expect(parseWeeklyCandidateRule('来週 土日祝 13:00')).toMatchObject({
+        weekdays: [6, 0],
+        holidays: 'include',
+      });
+      expect(parseWeeklyCandidateRule('来週 祝日')).toMatchObject({
+        weekdays: [],
+        holidays: 'include',
+      });
+      expect(parseWeeklyCandidateRule('来週 平日 祝日除く 19:00')).toMatchObject({
+        weekdays: [1, 2, 3, 4, 5],
+        holidays: 'exclude',
+      });
+    });
+
+    it('should return null for invalid rules', () => {
+      expect(parseWeeklyCandidateRule('来週')).toBeNull();
+      expect(parseWeeklyCandidateRule('来週 火-木 夜')).toBeNull();
+    });
+  });
+
+  describe('generateWeeklyCandidates', () => {
+    // 2030/12/02(月) 09:00 JST
+    const monday = new Date('2030-12-02T00:00:00.000Z');
+
+    it('should generate candidates for the next week', () => {
+      const rule = parseWeeklyCandidateRule('来週 火-木 20:00');
+      if (!rule) throw new Error('rule should be parsed');
+
+      const labels = generateWeeklyCandidates(rule, monday, 'Asia/Tokyo').map((range) =>
+        formatCandidateDateRange(range, 'Asia/Tokyo')
+      );
+
+      expect(labels).toEqual([
+        '2030/12/10(火) 20:00',
+        '2030/12/11(水) 20:00',
+        '2030/12/12(木) 20:00',
+      ]);
+    });
+
+    it('should generate every time slot and all-day candidates', () => {
+      const slotsRule = parseWeeklyCandidateRule('来週 土日 13:00,18:00〜20:00');
+      const allDayRule = parseWeeklyCandidateRule('来週 日');
+      if (!slotsRule || !allDayRule) throw new Error('rules should be parsed');
+
+      expect(
+        generateWeeklyCandidates(slotsRule, monday, 'Asia/Tokyo').map((range) =>
+          formatCandidateDateRange(range, 'Asia/Tokyo')
+        )
+      ).toEqual([
+        '2030/12/14(土) 13:00',
+        '2030/12/14(土) 18:00〜20:00',
+        '2030/12/15(日) 13:00',
+        '2030/12/15(日) 18:00〜20:00',
+      ]);
+      expect(
+        generateWeeklyCandidates(allDayRule, monday, 'Asia/Tokyo').map((range) =>
+          formatCandidateDateRange(range, 'Asia/Tokyo')
+        )
+      ).toEqual(['2030/12/15(日)']);
+    });
+
+    it('should skip candidates that start before the base date in this week', () => {
+      const rule = parseWeeklyCandidateRule('今週 月-水 08:00');
+      if (!rule) throw new Error('rule should be parsed');
+
+      const labels = generateWeeklyCandidates(rule, monday, 'Asia/Tokyo').map((range) =>
+        formatCandidateDateRange(range, 'Asia/Tokyo')
+      );
+
+      expect(labels).toEqual(['2030/12/03(火) 08:00', '2030/12/04(水) 08:00']);
+    });
+  });
+
+  describe('parseDateRangeCandidateRule', () => {
+    // 2030/12/05(木) 12:00 JST
+    const base = new Date('2030-12-05T03:00:00.000Z');
+
+    it('should parse ranges with weekdays and times', () => {
+      expect(parseDateRangeCandidateRule('12/1-12/14 平日 19:00', base, 'Asia/Tokyo')).toEqual({
+        start: { year: 2030, month: 11, day: 1 },
+        days: 14,
+        weekdays: [1, 2, 3, 4, 5],
+        times: [{ startMinutes: 1140, endMinutes: undefined }],
+      });
+    });
+
+    it('should infer the year from the end of the range', () => {
+      expect(parseDateRangeCandidateRule('12/25-1/5 土日', base, 'Asia/Tokyo')).toMatchObject({
+        start: { year: 2030, month: 11, day: 25 },
+        days: 12,
+        times: [],
+      });
+      expect(parseDateRangeCandidateRule('11/1-11/3 20:00', base, 'Asia/Tokyo')).toMatchObject({
+        start: { year: 2031, month: 10, day: 1 },
+        days: 3,
+        weekdays: [1, 2, 3, 4, 5, 6, 0],
+      });
+      expect(parseDateRangeCandidateRule('12/28-3 20:00', base, 'Asia/Tokyo')).toMatchObject({
+        days: 7,
+      });
+    });
+
+    it('should return null for plain candidates and invalid ranges', () => {
+      expect(parseDateRangeCandidateRule('12/25 19:00-21:00', base, 'Asia/Tokyo')).toBeNull();
+      expect(parseDateRangeCandidateRule('12/1-12/14', base, 'Asia/Tokyo')).toBeNull();
+      expect(parseDateRangeCandidateRule('12/1-12/14 休日', base, 'Asia/Tokyo')).toBeNull();
+      expect(parseDateRangeCandidateRule('2/30-3/2 19:00', base, 'Asia/Tokyo')).toBeNull();
+      expect(parseDateRangeCandidateRule('2030/1/1-2031/6/1 19:00', base, 'Asia/Tokyo')).toBeNull();
+    });
+  });
+
+  describe('generateDateRangeCandidates', () => {
+    const base = new Date('2030-12-05T03:00:00.000Z');
+
+    it('should generate matching weekdays after the base date', () => {
+      const rule = parseDateRangeCandidateRule('12/1-12/14 平日 19:00', base, 'Asia/Tokyo');
+      if (!rule) throw new Error('rule should be parsed');
+
+      const labels = generateDateRangeCandidates(rule, base, 'Asia/Tokyo').map((range) =>
+        formatCandidateDateRange(range, 'Asia/Tokyo')
+      );
+
+      expect(labels).toEqual([
+        '2030/12/05(木) 19:00',
+        '2030/12/06(金) 19:00',
+        '2030/12/09(月) 19:00',
+        '2030/12/10(火) 19:00',
+        '2030/12/11(水) 19:00',
+        '2030/12/12(木) 19:00',
+        '2030/12/13(金) 19:00',
+      ]);
+    });
+
+    it('should stop at the limit', () => {
+      const rule = parseDateRangeCandidateRule('12/10-12/31 毎日 13:00,18:00', base, 'Asia/Tokyo');
+      if (!rule) throw new Error('rule should be parsed');
+
+      expect(generateDateRangeCandidates(rule, base, 'Asia/Tokyo', 5)).toHaveLength(5);
+    });
+
+    it('should include or exclude Japanese holidays', () => {
+      // 2031/11/03(月) 文化の日、11/23(日) 勤労感謝の日 → 11/24(月) 振替休日
+      const toLabels = (input: string) => {
+        const rule = parseDateRangeCandidateRule(input, base, 'Asia/Tokyo');
+        if (!rule) throw new Error('rule should be parsed');
+        return generateDateRangeCandidates(rule, base, 'Asia/Tokyo').map((range) =>
+          formatCandidateDateRange(range, 'Asia/Tokyo')
+        );
+      };
+
+      expect(toLabels('2031/11/1-5 平日 19:00 祝日除く')).toEqual([
+        '2031/11/04(火) 19:00',
+        '2031/11/05(水) 19:00',
+      ]);
+      expect(toLabels('2031/11/1-4 土日祝')).toEqual([
+        '2031/11/01(土)',
+        '2031/11/02(日)',
+        '2031/11/03(月・文化の日)',
+      ]);
+      expect(toLabels('2031/11/1-30 祝日 19:00')).toEqual([
+        '2031/11/03(月・文化の日) 19:00',
+        '2031/11/23(日・勤労感謝の日) 19:00',
+        '2031/11/24(月・振替休日) 19:00',
+      ]);
+    });
+  });
+
+  describe('expandCandidateLines', () => {
+    const base = new Date('2030-12-05T03:00:00.000Z');
+
+    it('should expand rule lines and keep other lines as they are', () => {
+      const result = expandCandidateLines(
+        ['12/24 19:00', '来週 土日 13:00,18:00', '未定'],
+        base,
+        'Asia/Tokyo'
+      );
+
+      expect(result).toEqual({
+        lines: [
+          '12/24 19:00',
+          '2030/12/14(土) 13:00',
+          '2030/12/14(土) 18:00',
+          '2030/12/15(日) 13:00',
+          '2030/12/15(日) 18:00',
+          '未定',
+        ],
+        ruleCount: 1,
+        truncated: false,
+      });
+    });
+
+    it('should not treat weekday-only lines as rules', () => {
+      const result = expandCandidateLines(['金 19:00', '土曜 13:00'], base, 'Asia/Tokyo');
+
+      expect(result).toEqual({ lines: ['金 19:00', '土曜 13:00'], ruleCount: 0, truncated: false });
+    });
+
+    it('should truncate candidates beyond the limit', () => {
+      const result = expandCandidateLines(
+        ['12/10-12/31 毎日 19:00', '12/25 20:00'],
+        base,
+        'Asia/Tokyo',
+        10
+      );
+
+      expect(result.lines).toHaveLength(10);
+      expect(result.lines[9]).toBe('2030/12/19(木) 19:00');
+      expect(result.truncated).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,484 @@
+/**
+ * 日程候補のルール表記ユーティリティ
+ *
+ * 「来週 火-木 20:00」「12/1-12/14 平日 19:00」のような期間・曜日・時刻のルールから日程候補を生成する
+ * 定期作成で毎回の候補日を組み立てるほか、作成・日程追加モーダルの候補の一括入力に使う
+ * 「土日祝」「祝日除く」のように日本の祝日を含める・除く指定もできる
+ */
+
+import {
+  type CandidateDateRange,
+  createZonedDate,
+  DEFAULT_TIMEZONE,
+  formatCandidateDateRange,
+  getZonedDateParts,
+} from './date';
+import { getJapaneseHolidayName } from './holiday';
+
+/**
+ * 候補の時間帯（0:00からの経過分）
+ * endMinutes が開始以前なら日付をまたぐ時間帯として扱う
+ */
+export interface CandidateTimeSlot {
+  startMinutes: number;
+  endMinutes?: number;
+}
+
+/**
+ * 祝日の扱い
+ * include: 曜日に関わらず祝日も候補にする（例: "土日祝"）、exclude: 祝日は候補にしない（例: "祝日除く"）
+ * 指定がない場合は曜日だけで判定する
+ */
+export type CandidateHolidayMode = 'include' | 'exclude';
+
+/**
+ * 週単位の候補ルール
+ * times が空の場合は日付のみの候補（終日）を生成する
+ */
+export interface WeeklyCandidateRule {
+  weekOffset: number; // 0: 今週、1: 来週、2: 再来週
+  weekdays: number[]; // 0: 日曜 〜 6: 土曜
+  times: CandidateTimeSlot[];
+  holidays?: CandidateHolidayMode;
+}
+
+/**
+ * 期間指定の候補ルール（月は0始まり、開始日・終了日を含む）
+ */
+export interface DateRangeCandidateRule {
+  start: { year: number; month: number; day: number };
+  days: number; // 期間の日数
+  weekdays: number[];
+  times: CandidateTimeSlot[];
+  holidays?: CandidateHolidayMode;
+}
+
+/**
+ * 候補の入力行をルールで展開した結果
+ */
+export interface CandidateLineExpansion {
+  lines: string[];
+  ruleCount: number; // 展開したルール行の数（0なら展開なし）
+  truncated: boolean; // 上限を超えた候補を省いたか
+}
+
+const WEEKDAY_CHARS = '日月火水木金土';
+
+// 月曜始まりの並び（範囲指定の展開に使う）
+const MONDAY_FIRST_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const WEEK_OFFSET_KEYWORDS = new Map<string, number>([
+  ['今週', 0],
+  ['来週', 1],
+  ['再来週', 2],
+]);
+
+const WEEKDAY_KEYWORDS = new Map<string, number[]>([
+  ['平日', [1, 2, 3, 4, 5]],
+  ['土日', [6, 0]],
+  ['週末', [6, 0]],
+  ['毎日', [1, 2, 3, 4, 5, 6, 0]],
+]);
+
+// 祝日の扱いを指定するトークン 例: "祝日除く" / "祝日含む"
+const HOLIDAY_OPTION_PATTERNS: Array<[RegExp, CandidateHolidayMode]> = [
+  [/^祝日?を?(?:除く|のぞく|除外|抜き|なし)$/, 'exclude'],
+  [/^祝日?を?(?:含む|ふくむ|込み|あり)$/, 'include'],
+];
+
+const ONE_DAY_MINUTES = 24 * 60;
+
+// 期間指定で展開できる最大日数
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * ルール表記の全角数字・記号を半角に揃える
+ */
+export function normalizeRuleInput(input: string): string {
+  return input
+    .replace(/[０-９：／，]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 曜日の指定を曜日番号（0: 日曜 〜 6: 土曜）の配列に変換
+ * 例: "火-木" / "月水金" / "土日" / "平日" / "火曜,木曜"
+ * 解釈できない場合は null
+ */
+export function parseWeekdaySpec(input: string): number[] | null {
+  const normalized = normalizeRuleInput(input).replace(/曜日?/g, '');
+  if (!normalized) return null;
+
+  const keyword = WEEKDAY_KEYWORDS.get(normalized);
+  if (keyword) return [...keyword];
+
+  const weekdays = new Set<number>();
+  for (const part of normalized.split(/[,、・\s]+/).filter(Boolean)) {
+    const partKeyword = WEEKDAY_KEYWORDS.get(part);
+    if (partKeyword) {
+      for (const weekday of partKeyword) weekdays.add(weekday);
+      continue;
+    }
+
+    const rangeMatch = part.match(/^([日月火水木金土])[-〜～~]([日月火水木金土])$/);
+    if (rangeMatch) {
+      const start = MONDAY_FIRST_WEEKDAYS.indexOf(WEEKDAY_CHARS.indexOf(rangeMatch[1]));
+      const end = MONDAY_FIRST_WEEKDAYS.indexOf(WEEKDAY_CHARS.indexOf(rangeMatch[2]));
+      // 月曜始まりで逆順の範囲（例: 金-月）は週をまたいで展開する
+      const length = ((end - start + 7) % 7) + 1;
+      for (let i = 0; i < length; i++) {
+        weekdays.add(MONDAY_FIRST_WEEKDAYS[(start + i) % 7]);
+      }
+      continue;
+    }
+
+    if (!/^[日月火水木金土]+$/.test(part)) return null;
+    for (const char of part) weekdays.add(WEEKDAY_CHARS.indexOf(char));
+  }
+
+  return weekdays.size > 0
+    ? MONDAY_FIRST_WEEKDAYS.filter((weekday) => weekdays.has(weekday))
+    : null;
+}
+
+/**
+ * 時刻の指定を時間帯の配列に変換
+ * 例: "20:00" / "13:00,18:00" / "19:00〜21:00" / "20時"
+ * 解釈できない場合は null
+ */
+export function parseTimeSlots(input: string): CandidateTimeSlot[] | null {
+  const normalized = normalizeRuleInput(input)
+    .replace(/(\d{1,2})時(\d{1,2})分?/g, (_, hour, minute) => `${hour}:${minute.padStart(2, '0')}`)
+    .replace(/(\d{1,2})時/g, '$1:00');
+  if (!normalized) return null;
+
+  const toMinutes = (hour: string, minute: string): number | null => {
+    const h = parseInt(hour, 10);
+    const m = parseInt(minute, 10);
+    return h <= 23 && m <= 59 ? h * 60 + m : null;
+  };
+
+  const slots: CandidateTimeSlot[] = [];
+  for (const part of normalized.split(/[,、\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d{1,2}):(\d{2})(?:[-〜～~](\d{1,2}):(\d{2}))?$/);
+    if (!match) return null;
+
+    const startMinutes = toMinutes(match[1], match[2]);
+    const endMinutes = match[3] ? toMinutes(match[3], match[4]) : undefined;
+    if (startMinutes === null || endMinutes === null) return null;
+
+    slots.push({ startMinutes, endMinutes });
+  }
+
+  return slots.length > 0 ? slots : null;
+}
+
+/**
+ * 空白区切りのトークンを曜日と時刻（と祝日の扱い）に分けてパース
+ * 曜日を省略できる場合は毎日として扱う。曜日に「祝」を付けると祝日も含める（例: "土日祝"、"祝日" のみなら祝日だけ）
+ */
+function parseWeekdaysAndTimes(
+  tokens: string[],
+  weekdayOptional: boolean
+): Pick<WeeklyCandidateRule, 'weekdays' | 'times' | 'holidays'> | null {
+  let holidays: CandidateHolidayMode | undefined;
+  const ruleTokens = tokens.filter((token) => {
+    const option = HOLIDAY_OPTION_PATTERNS.find(([pattern]) => pattern.test(token));
+    if (option) {
+      holidays = option[1];
+    }
+    return !option;
+  });
+
+  // 曜日と時刻は空白区切りの最初の時刻らしいトークンで分ける
+  const timeIndex = ruleTokens.findIndex((token) => /^\d/.test(token));
+  const timeTokens = timeIndex === -1 ? [] : ruleTokens.slice(timeIndex);
+  const weekdayParts: string[] = [];
+  let holidayOnly = false;
+  for (const part of (timeIndex === -1 ? ruleTokens : ruleTokens.slice(0, timeIndex))
+    .join(',')
+    .split(/[,、・]+/)
+    .filter(Boolean)) {
+    const withoutHoliday = part.replace(/祝日?$/, '');
+    if (withoutHoliday === part) {
+      weekdayParts.push(part);
+      continue;
+    }
+    holidays = 'include';
+    if (withoutHoliday) {
+      weekdayParts.push(withoutHoliday);
+    } else {
+      holidayOnly = true;
+    }
+  }
+
+  let weekdays: number[] | null = null;
+  if (weekdayParts.length > 0) {
+    weekdays = parseWeekdaySpec(weekdayParts.join(','));
+  } else if (holidayOnly) {
+    weekdays = [];
+  } else if (weekdayOptional) {
+    weekdays = [...MONDAY_FIRST_WEEKDAYS];
+  }
+  if (!weekdays) return null;
+
+  const times = timeTokens.length > 0 ? parseTimeSlots(timeTokens.join(',')) : [];
+  if (!times) return null;
+
+  return holidays ? { weekdays, times, holidays } : { weekdays, times };
+}
+
+/**
+ * 週単位の候補ルールをパース
+ * 形式: "[今週|来週|再来週] 曜日 [時刻]"（週の指定を省略した場合は来週）
+ * 例: "来週 火-木 20:00" / "来週 土日祝 13:00,18:00" / "再来週 平日 19:00〜21:00 祝日除く"
+ * 解釈できない場合は null
+ */
+export function parseWeeklyCandidateRule(input: string): WeeklyCandidateRule | null {
+  const tokens = normalizeRuleInput(input).split(' ').filter(Boolean);
+
+  const weekOffset = WEEK_OFFSET_KEYWORDS.get(tokens[0] ?? '');
+  if (weekOffset !== undefined) {
+    tokens.shift();
+  }
+
+  const parsed = parseWeekdaysAndTimes(tokens, false);
+  return parsed ? { weekOffset: weekOffset ?? 1, ...parsed } : null;
+}
+
+/**
+ * 期間指定の候補ルールをパース
+ * 形式: "[年/]月/日-[[年/]月/]日 [曜日] [時刻]"（曜日を省略した場合は毎日、曜日か時刻のどちらかは必須）
+ * 例: "12/1-12/14 平日 19:00" / "12/25-1/5 土日祝" / "2025/12/1-14 20:00 祝日除く"
+ * 年を省略した場合は基準日時以降で最も近い日付として解釈する。解釈できない場合は null
+ */
+export function parseDateRangeCandidateRule(
+  input: string,
+  baseDate: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): DateRangeCandidateRule | null {
+  const match = normalizeRuleInput(input).match(
+    /^(?:(\d{4})\/)?(\d{1,2})\/(\d{1,2})\s*[-〜～~]\s*(?:(?:(\d{4})\/)?(\d{1,2})\/)?(\d{1,2})\s+(.+)$/
+  );
+  if (!match) return null;
+
+  const [, startYearText, startMonthText, startDayText, endYearText, endMonthText, endDayText] =
+    match;
+  const parsed = parseWeekdaysAndTimes(match[7].split(' ').filter(Boolean), true);
+  if (!parsed) return null;
+
+  const startMonth = parseInt(startMonthText, 10) - 1;
+  const startDay = parseInt(startDayText, 10);
+  const endDay = parseInt(endDayText, 10);
+  // 終了日の月を省略した場合、開始日より前の日なら翌月（例: 12/28-3）
+  const endMonth = endMonthText
+    ? parseInt(endMonthText, 10) - 1
+    : startMonth + (endDay < startDay ? 1 : 0);
+  if (startMonth > 11 || (endMonthText && endMonth > 11)) return null;
+
+  let startYear = startYearText ? parseInt(startYearText, 10) : undefined;
+  let endYear = endYearText ? parseInt(endYearText, 10) : undefined;
+  if (startYear === undefined) {
+    // 期間がすでに終わっている場合は翌年として扱う
+    const base = getZonedDateParts(baseDate, timeZone);
+    startYear = base.year;
+    const endInBaseYear = Date.UTC(
+      endYear ?? (endMonth < startMonth ? startYear + 1 : startYear),
+      endMonth,
+      endDay
+    );
+    if (endInBaseYear < Date.UTC(base.year, base.month, base.day)) {
+      startYear++;
+    }
+  }
+  // 終了が開始より前の月なら翌年（例: 12/25-1/5）
+  endYear ??= endMonth < startMonth ? startYear + 1 : startYear;
+
+  const startTime = Date.UTC(startYear, startMonth, startDay);
+  const endTime = Date.UTC(endYear, endMonth, endDay);
+  if (
+    new Date(startTime).getUTCDate() !== startDay ||
+    new Date(endTime).getUTCDate() !== endDay ||
+    endTime < startTime
+  ) {
+    return null;
+  }
+
+  const days = Math.round((endTime - startTime) / (ONE_DAY_MINUTES * 60 * 1000)) + 1;
+  if (days > MAX_RANGE_DAYS) return null;
+
+  return { start: { year: startYear, month: startMonth, day: startDay }, days, ...parsed };
+}
+
+/**
+ * 指定日の時間帯から日程候補を作成（時間帯がない場合はその日の終日）
+ */
+export function createCandidateRange(
+  year: number,
+  month: number,
+  day: number,
+  slot: CandidateTimeSlot | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): CandidateDateRange {
+  if (!slot) {
+    const startAt = createZonedDate(year, month, day, 0, 0, 0, timeZone);
+    return { startAt, endAt: new Date(startAt.getTime() + (ONE_DAY_MINUTES * 60 - 1) * 1000) };
+  }
+
+  const startAt = createZonedDate(
+    year,
+    month,
+    day,
+    Math.floor(slot.startMinutes / 60),
+    slot.startMinutes % 60,
+    0,
+    timeZone
+  );
+  if (slot.endMinutes === undefined) {
+    return { startAt };
+  }
+
+  let durationMinutes = slot.endMinutes - slot.startMinutes;
+  if (durationMinutes <= 0) {
+    durationMinutes += ONE_DAY_MINUTES;
+  }
+  return { startAt, endAt: new Date(startAt.getTime() + durationMinutes * 60 * 1000) };
+}
+
+/**
+ * 基準日時から見た週（月曜始まり）に候補ルールを当てはめて日程候補を生成
+ * 基準日時以前に始まる候補は含めない
+ */
+export function generateWeeklyCandidates(
+  rule: WeeklyCandidateRule,
+  baseDate: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): CandidateDateRange[] {
+  const base = getZonedDateParts(baseDate, timeZone);
+  const monday = base.day - ((base.weekday + 6) % 7) + rule.weekOffset * 7;
+
+  const candidates: CandidateDateRange[] = [];
+  MONDAY_FIRST_WEEKDAYS.forEach((weekday, index) => {
+    if (!matchesRuleDay(rule, base.year, base.month, monday + index, weekday)) return;
+
+    const slots = rule.times.length > 0 ? rule.times : [undefined];
+    for (const slot of slots) {
+      const range = createCandidateRange(base.year, base.month, monday + index, slot, timeZone);
+      if (range.startAt > baseDate) {
+        candidates.push(range);
+      }
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * 期間指定の候補ルールから日程候補を生成
+ * 基準日時以前に始まる候補は含めず、limit 件を超える分は生成しない
+ */
+export function generateDateRangeCandidates(
+  rule: DateRangeCandidateRule,
+  baseDate: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  limit = Number.POSITIVE_INFINITY
+): CandidateDateRange[] {
+  const { year, month, day } = rule.start;
+  const candidates: CandidateDateRange[] = [];
+
+  for (let offset = 0; offset < rule.days && candidates.length < limit; offset++) {
+    const weekday = new Date(Date.UTC(year, month, day + offset)).getUTCDay();
+    if (!matchesRuleDay(rule, year, month, day + offset, weekday)) continue;
+
+    const slots = rule.times.length > 0 ? rule.times : [undefined];
+    for (const slot of slots) {
+      const range = createCandidateRange(year, month, day + offset, slot, timeZone);
+      if (range.startAt > baseDate && candidates.length < limit) {
+        candidates.push(range);
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * 指定日がルールの曜日・祝日の指定に当てはまるか（月は0始まり、日は月末を超えてもよい）
+ */
+function matchesRuleDay(
+  rule: Pick<WeeklyCandidateRule, 'weekdays' | 'holidays'>,
+  year: number,
+  month: number,
+  day: number,
+  weekday: number
+): boolean {
+  if (!rule.holidays) {
+    return rule.weekdays.includes(weekday);
+  }
+
+  const isHoliday = getJapaneseHolidayName(year, month, day) !== undefined;
+  if (rule.holidays === 'exclude') {
+    return !isHoliday && rule.weekdays.includes(weekday);
+  }
+  return isHoliday || rule.weekdays.includes(weekday);
+}
+
+/**
+ * 日程候補の入力行のうち、ルール行を日程候補の行に展開する
+ * ルール行は「来週 土日 13:00,18:00」のように週の指定から始まる行と「12/1-12/14 平日 19:00」のような期間指定の行
+ * それ以外の行はそのまま残し、全体で limit 件を超える候補は省く
+ */
+export function expandCandidateLines(
+  lines: string[],
+  baseDate: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+  limit = Number.POSITIVE_INFINITY
+): CandidateLineExpansion {
+  const expanded: string[] = [];
+  let ruleCount = 0;
+  let truncated = false;
+
+  for (const line of lines) {
+    const remaining = limit - expanded.length;
+    const candidates = generateRuleCandidates(line, baseDate, timeZone, remaining + 1);
+    if (!candidates) {
+      if (remaining > 0) {
+        expanded.push(line);
+      } else {
+        truncated = true;
+      }
+      continue;
+    }
+
+    ruleCount++;
+    if (candidates.length > remaining) {
+      truncated = true;
+    }
+    expanded.push(
+      ...candidates.slice(0, remaining).map((range) => formatCandidateDateRange(range, timeZone))
+    );
+  }
+
+  return { lines: expanded, ruleCount, truncated };
+}
+
+/**
+ * ルール行から日程候補を生成（ルール行でなければ null）
+ * 週の指定を省略した曜日だけの行（例: "金 19:00"）は通常の候補として扱うため展開しない
+ */
+function generateRuleCandidates(
+  line: string,
+  baseDate: Date,
+  timeZone: string,
+  limit: number
+): CandidateDateRange[] | null {
+  const firstToken = normalizeRuleInput(line).split(' ')[0] ?? '';
+  if (WEEK_OFFSET_KEYWORDS.has(firstToken)) {
+    const rule = parseWeeklyCandidateRule(line);
+    return rule ? generateWeeklyCandidates(rule, baseDate, timeZone).slice(0, limit) : null;
+  }
+
+  const rangeRule = parseDateRangeCandidateRule(line, baseDate, timeZone);
+  return rangeRule ? generateDateRangeCandidates(rangeRule, baseDate, timeZone, limit) : null;
+}
@@ -1,5 +1,17 @@
-import { describe, expect, it } from 'vitest';
-import { parseUserInputDate } from './date';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  addZonedDays,
+  annotateCandidateHoliday,
+  createZonedDate,
+  findWeekdayMismatch,
+  formatCandidateDateRange,
+  getZonedDateParts,
+  isSortedByStart,
+  isValidTimeZone,
+  parseCandidateDateRange,
+  parseUserInputDate,
+  sortCandidatesByStart,
+} from './date';
 
 describe('Date Utilities', () => {
   describe('parseUserInputDate', () => {
@@ -157,4 +169,335 @@ describe('Date Utilities', () => {
       expect(result?.getUTCMinutes()).toBe(30);
     });
   });
+
+  describe('parseCandidateDateRange', () => {
+    it('should parse a time range with weekday marker', () => {
+      const result = parseCandidateDateRange('12/26(土) 18:00〜20:00');
+      expect(result?.startAt.getUTCMonth()).toBe(11);
+      expect(result?.startAt.getUTCDate()).toBe(26);
+      expect(result?.startAt.getUTCHours()).toBe(9); // 18:00 JST = 09:00 UTC
+      expect(result?.endAt?.getUTCHours()).toBe(11); // 20:00 JST = 11:00 UTC
+    });
+
+    it('should parse a range with explicit year and full-width characters', () => {
+      const result = parseCandidateDateRange('２０２６/１２/２６（土曜日） １８：００～２０：３０');
+      expect(result?.startAt.toISOString()).toBe('2026-12-26T09:00:00.000Z');
+      expect(result?.endAt?.toISOString()).toBe('2026-12-26T11:30:00.000Z');
+    });
+
+    it('should treat a range ending before its start as crossing midnight', () => {
+      const result = parseCandidateDateRange('2026/12/31 22:00-02:00');
+      expect(result?.startAt.toISOString()).toBe('2026-12-31T13:00:00.000Z');
+      expect(result?.endAt?.toISOString()).toBe('2026-12-31T17:00:00.000Z'); // 翌日 02:00 JST
+    });
+
+    it('should parse Japanese hour notation', () => {
+      const result = parseCandidateDateRange('2026年12月26日 18時〜20時30分');
+      expect(result?.startAt.toISOString()).toBe('2026-12-26T09:00:00.000Z');
+      expect(result?.endAt?.toISOString()).toBe('2026-12-26T11:30:00.000Z');
+    });
+
+    it('should parse a single datetime without end', () => {
+      const result = parseCandidateDateRange('2026/12/25 19:00');
+      expect(result?.startAt.toISOString()).toBe('2026-12-25T10:00:00.000Z');
+      expect(result?.endAt).toBeUndefined();
+    });
+
+    it('should treat a date-only candidate as the whole day', () => {
+      const result = parseCandidateDateRange('2026/12/25(金)');
+      expect(result?.startAt.toISOString()).toBe('2026-12-24T15:00:00.000Z'); // 00:00 JST
+      expect(result?.endAt?.toISOString()).toBe('2026-12-25T14:59:59.000Z'); // 23:59:59 JST
+    });
+
+    it('should return null for free text and time-only input', () => {
+      expect(parseCandidateDateRange('年末のどこか')).toBeNull();
+      expect(parseCandidateDateRange('来週月曜 15:00')).toBeNull();
+      expect(parseCandidateDateRange('19:00')).toBeNull();
+      expect(parseCandidateDateRange('')).toBeNull();
+    });
+
+    it('should interpret the candidate in the given timezone', () => {
+      const result = parseCandidateDateRange('2026/12/26 18:00〜20:00', 'America/New_York');
+      expect(result?.startAt.toISOString()).toBe('2026-12-26T23:00:00.000Z'); // 18:00 EST
+      expect(result?.endAt?.toISOString()).toBe('2026-12-27T01:00:00.000Z');
+    });
+
+    describe('labels without a year', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-18T03:00:00.000Z')); // 2026/10/18 12:00 JST
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should keep recently passed dates in the current year', () => {
+        expect(parseCandidateDateRange('10/1 19:00')?.startAt.toISOString()).toBe(
+          '2026-10-01T10:00:00.000Z'
+        );
+        expect(parseCandidateDateRange('10月1日 19時〜21時')).toEqual({
+          startAt: new Date('2026-10-01T10:00:00.000Z'),
+          endAt: new Date('2026-10-01T12:00:00.000Z'),
+        });
+      });
+
+      it('should move dates to next year when that is closer', () => {
+        expect(parseCandidateDateRange('1/10 19:00')?.startAt.toISOString()).toBe(
+          '2027-01-10T10:00:00.000Z'
+        );
+        expect(parseCandidateDateRange('12/26(土)')?.startAt.toISOString()).toBe(
+          '2026-12-25T15:00:00.000Z'
+        );
+      });
+
+      it('should not pick the year from the written weekday', () => {
+        // 2026/11/3 は火曜、2027/11/3 は水曜だが、曜日に合わせて来年にはしない
+        expect(parseCandidateDateRange('11/3(水) 19:00')?.startAt.toISOString()).toBe(
+          '2026-11-03T10:00:00.000Z'
+        );
+        // 2026/12/26 は土曜、2027/12/26 は日曜
+        expect(parseCandidateDateRange('12/26(日)')?.startAt.toISOString()).toBe(
+          '2026-12-25T15:00:00.000Z'
+        );
+        // 2026/3/5 は木曜だが、近い方の 2027/3/5（金曜）とする
+        expect(parseCandidateDateRange('3/5(木) 19:00')?.startAt.toISOString()).toBe(
+          '2027-03-05T10:00:00.000Z'
+        );
+      });
+    });
+  });
+
+  describe('sortCandidatesByStart', () => {
+    it('should sort by start and keep free-text candidates at the end', () => {
+      const candidates = [
+        { id: 'a', startAt: '2030-12-03T10:00:00.000Z' },
+        { id: 'b' },
+        { id: 'c', startAt: new Date('2030-12-01T10:00:00.000Z') },
+        { id: 'd', startAt: '2030-12-03T10:00:00.000Z' },
+        { id: 'e' },
+      ];
+
+      expect(sortCandidatesByStart(candidates).map((candidate) => candidate.id)).toEqual([
+        'c',
+        'a',
+        'd',
+        'b',
+        'e',
+      ]);
+      expect(candidates[0].id).toBe('a');
+    });
+
+    it('should tell whether candidates are already in that order', () => {
+      const early = { id: 'a', startAt: '2026-12-01T10:00:00.000Z' };
+      const late = { id: 'b', startAt: new Date('2026-12-02T10:00:00.000Z') };
+      const freeText: { id: string; startAt?: string } = { id: 'c' };
+
+      expect(isSortedByStart([early, late, freeText])).toBe(true);
+      expect(isSortedByStart([late, early])).toBe(false);
+      expect(isSortedByStart([freeText, early])).toBe(false);
+      expect(isSortedByStart([])).toBe(true);
+    });
+  });
+
+  describe('findWeekdayMismatch', () => {
+    it('should offer a corrected label when the weekday does not match the date', () => {
+      expect(findWeekdayMismatch('2026/12/26(金) 19:00')).toEqual({
+        label: '2026/12/26(金) 19:00',
+        writtenWeekday: '金',
+        actualWeekday: '土',
+        correctedLabel: '2026/12/26(土) 19:00',
+      });
+      expect(findWeekdayMismatch('2025/11/04（月曜日） 18:00〜20:00')?.correctedLabel).toBe(
+        '2025/11/04（火曜日） 18:00〜20:00'
+      );
+      expect(findWeekdayMismatch('2025/11/03(日・文化の日)')?.correctedLabel).toBe(
+        '2025/11/03(月・文化の日)'
+      );
+    });
+
+    it('should ignore matching weekdays, labels without weekdays and free text', () => {
+      expect(findWeekdayMismatch('2026/12/26(土) 19:00')).toBeNull();
+      expect(findWeekdayMismatch('2026/12/26 19:00')).toBeNull();
+      expect(findWeekdayMismatch('年末のどこか(金)')).toBeNull();
+    });
+
+    describe('labels without a year', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-18T03:00:00.000Z')); // 2026/10/18 12:00 JST
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should check dates earlier in the current year against the current year', () => {
+        expect(findWeekdayMismatch('10/1(木) 19:00')).toBeNull();
+        expect(findWeekdayMismatch('6/4(木)')).toBeNull();
+        expect(findWeekdayMismatch('10/1(水) 19:00')?.correctedLabel).toBe('10/1(木) 19:00');
+        expect(findWeekdayMismatch('6/4(水)')?.correctedLabel).toBe('6/4(木)');
+      });
+
+      it('should accept weekdays that match next year', () => {
+        expect(findWeekdayMismatch('1/8(金) 19:00')).toBeNull();
+      });
+
+      it('should flag weekdays that only match the other year', () => {
+        // 2026/11/3 は火曜（2027/11/3 は水曜）
+        expect(findWeekdayMismatch('11/3(水) 19:00')).toEqual({
+          label: '11/3(水) 19:00',
+          writtenWeekday: '水',
+          actualWeekday: '火',
+          correctedLabel: '11/3(火) 19:00',
+        });
+        // 2026/12/26 は土曜（2027/12/26 は日曜）
+        expect(findWeekdayMismatch('12/26(日)')?.correctedLabel).toBe('12/26(土)');
+        // 2027/3/5 は金曜（2026/3/5 は木曜）
+        expect(findWeekdayMismatch('3/5（木曜日） 19:00')?.correctedLabel).toBe(
+          '3/5（金曜日） 19:00'
+        );
+      });
+    });
+  });
+
+  describe('formatCandidateDateRange', () => {
+    it('should format a range that parses back to the same dates', () => {
+      const range = {
+        startAt: new Date('2026-12-26T09:00:00.000Z'),
+        endAt: new Date('2026-12-26T11:00:00.000Z'),
+      };
+      const label = formatCandidateDateRange(range);
+
+      expect(label).toBe('2026/12/26(土) 18:00〜20:00');
+      expect(parseCandidateDateRange(label)).toEqual(range);
+    });
+
+    it('should format single datetimes and whole days', () => {
+      const single = { startAt: new Date('2026-12-25T10:00:00.000Z') };
+      const wholeDay = {
+        startAt: new Date('2026-12-24T15:00:00.000Z'),
+        endAt: new Date('2026-12-25T14:59:59.000Z'),
+      };
+
+      expect(formatCandidateDateRange(single)).toBe('2026/12/25(金) 19:00');
+      expect(formatCandidateDateRange(wholeDay)).toBe('2026/12/25(金)');
+      expect(parseCandidateDateRange('2026/12/25(金)')).toEqual(wholeDay);
+    });
+
+    it('should annotate Japanese holidays and parse the label back', () => {
+      const range = { startAt: new Date('2025-11-03T10:00:00.000Z') };
+      const label = formatCandidateDateRange(range);
+
+      expect(label).toBe('2025/11/03(月・文化の日) 19:00');
+      expect(parseCandidateDateRange(label)).toEqual(range);
+      expect(parseCandidateDateRange('11/3(祝) 19:00')).toEqual(
+        parseCandidateDateRange('11/3 19:00')
+      );
+    });
+
+    it('should format in the given timezone', () => {
+      const range = { startAt: new Date('2026-12-26T23:00:00.000Z') };
+      expect(formatCandidateDateRange(range, 'America/New_York')).toBe('2026/12/26(土) 18:00');
+    });
+  });
+
+  describe('annotateCandidateHoliday', () => {
+    const culturalDay = { startAt: new Date('2025-11-03T10:00:00.000Z') };
+
+    it('should add the weekday and holiday name after the date of a typed label', () => {
+      expect(annotateCandidateHoliday('11/3 19:00', culturalDay)).toBe('11/3(月・文化の日) 19:00');
+      expect(annotateCandidateHoliday('2025年11月3日 19時', culturalDay)).toBe(
+        '2025年11月3日(月・文化の日) 19時'
+      );
+    });
+
+    it('should add the holiday name to a written weekday or holiday mark', () => {
+      expect(annotateCandidateHoliday('2025/11/03（月曜日） 19:00', culturalDay)).toBe(
+        '2025/11/03（月・文化の日） 19:00'
+      );
+      expect(annotateCandidateHoliday('11/3(祝) 19:00', culturalDay)).toBe(
+        '11/3(月・文化の日) 19:00'
+      );
+    });
+
+    it('should leave non-holidays and annotated labels unchanged', () => {
+      const weekday = { startAt: new Date('2025-11-04T10:00:00.000Z') };
+      expect(annotateCandidateHoliday('11/4 19:00', weekday)).toBe('11/4 19:00');
+      expect(annotateCandidateHoliday('11/3(月・文化の日) 19:00', culturalDay)).toBe(
+        '11/3(月・文化の日) 19:00'
+      );
+    });
+
+    it('should check the holiday on the date in the given timezone', () => {
+      const range = { startAt: new Date('2025-11-03T01:00:00.000Z') };
+      expect(annotateCandidateHoliday('11/2 20:00', range, 'America/New_York')).toBe('11/2 20:00');
+      expect(annotateCandidateHoliday('11/3 10:00', range)).toBe('11/3(月・文化の日) 10:00');
+    });
+  });
+
+  describe('addZonedDays', () => {
+    it('should shift by calendar days', () => {
+      expect(addZonedDays(new Date('2026-12-26T09:00:00.000Z'), 7).toISOString()).toBe(
+        '2027-01-02T09:00:00.000Z'
+      );
+    });
+
+    it('should keep the wall clock time across a daylight saving transition', () => {
+      // 2026-03-08 に夏時間が始まるため、UTCでは1時間早くなる
+      const shifted = addZonedDays(new Date('2026-03-05T23:00:00.000Z'), 7, 'America/New_York');
+      expect(shifted.toISOString()).toBe('2026-03-12T22:00:00.000Z');
+    });
+  });
+
+  describe('timezone utilities', () => {
+    it('should validate IANA timezone names', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('Europe/London')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+
+    it('should create a date from wall clock time in the given timezone', () => {
+      expect(createZonedDate(2026, 11, 25, 19, 0, 0, 'Asia/Tokyo').toISOString()).toBe(
+        '2026-12-25T10:00:00.000Z'
+      );
+      expect(createZonedDate(2026, 11, 25, 19, 0, 0, 'Europe/London').toISOString()).toBe(
+        '2026-12-25T19:00:00.000Z'
+      );
+      // 夏時間（BST, UTC+1）
+      expect(createZonedDate(2026, 6, 1, 19, 0, 0, 'Europe/London').toISOString()).toBe(
+        '2026-07-01T18:00:00.000Z'
+      );
+    });
+
+    it('should apply the new offset right after a daylight saving transition', () => {
+      // 2026-03-08 02:00 にEST(-5)からEDT(-4)へ切り替わる
+      expect(createZonedDate(2026, 2, 8, 12, 0, 0, 'America/New_York').toISOString()).toBe(
+        '2026-03-08T16:00:00.000Z'
+      );
+      expect(createZonedDate(2026, 2, 8, 1, 0, 0, 'America/New_York').toISOString()).toBe(
+        '2026-03-08T06:00:00.000Z'
+      );
+    });
+
+    it('should split a date into parts in the given timezone', () => {
+      const parts = getZonedDateParts(new Date('2026-12-31T15:30:00.000Z'), 'Asia/Tokyo');
+      expect(parts).toEqual({
+        year: 2027,
+        month: 0,
+        day: 1,
+        hour: 0,
+        minute: 30,
+        second: 0,
+        weekday: 5,
+      });
+    });
+
+    it('should parse user input in the given timezone', () => {
+      const result = parseUserInputDate('2026/12/25 19:00', 'Europe/Berlin');
+      expect(result?.toISOString()).toBe('2026-12-25T18:00:00.000Z');
+    });
+  });
 });
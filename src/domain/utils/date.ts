@@ -2,9 +2,123 @@
  * Domain層の日付処理ユーティリティ
  *
  * ビジネスロジックで使用する日付処理
- * 日本標準時（JST）での日付処理を含む
+ * タイムゾーン（既定は日本標準時）を考慮した日付処理を含む
  */
 
+import { getJapaneseHolidayName } from './holiday';
+
+/**
+ * タイムゾーン未設定時に使用する既定のタイムゾーン
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+
+/**
+ * 指定タイムゾーンでの日時の各要素（monthは0始まり、weekdayは0=日曜）
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const JA_WEEKDAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * IANAタイムゾーン名として有効かチェック
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone?.trim()) return false;
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 日時を指定タイムゾーンでの各要素に分解
+ */
+export function getZonedDateParts(date: Date, timeZone: string = DEFAULT_TIMEZONE): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month) - 1,
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * 指定タイムゾーンのUTCからのオフセット（ミリ秒）を取得
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 指定タイムゾーンの壁時計時刻として日付を作成
+ * サマータイムの切り替え前後でも正しいオフセットを適用する
+ */
+export function createZonedDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  const utcGuess = Date.UTC(year, month, day, hour, minute, second);
+  const offset = getTimeZoneOffsetMs(new Date(utcGuess), timeZone);
+  const result = utcGuess - offset;
+
+  // 推定結果の時点でオフセットが異なる場合（サマータイム境界）は補正する
+  const actualOffset = getTimeZoneOffsetMs(new Date(result), timeZone);
+  return new Date(actualOffset === offset ? result : utcGuess - actualOffset);
+}
+
 /**
  * JST（日本標準時）として日付を作成
  * Dateコンストラクタは自動的にローカルタイムゾーンを使用するため、
@@ -26,20 +140,33 @@ export function createJSTDate(
 /**
  * ユーザー入力を日付に変換
  * 様々な日本語・英語形式の日付入力をサポート
+ * 入力は指定タイムゾーンの壁時計時刻として解釈する
  */
-export function parseUserInputDate(input: string): Date | null {
+export function parseUserInputDate(
+  input: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date | null {
   // 入力をクリーンアップ
   const cleanedInput = input.trim();
 
   const now = new Date();
-  const currentYear = now.getFullYear();
+  const zonedNow = getZonedDateParts(now, timeZone);
+  const currentYear = zonedNow.year;
+  const createDate = (
+    year: number,
+    month: number,
+    day: number,
+    hour?: number,
+    minute?: number,
+    second?: number
+  ) => createZonedDate(year, month, day, hour, minute, second, timeZone);
 
   // 一般的な日本語形式
   // MM月DD日 HH:mm
   const matchJp1 = cleanedInput.match(/^(\d{1,2})月(\d{1,2})日\s*(\d{1,2})[:\s時](\d{2})分?$/);
   if (matchJp1) {
     const [, month, day, hour, minute] = matchJp1;
-    const date = createJSTDate(
+    const date = createDate(
       currentYear,
       parseInt(month) - 1,
       parseInt(day),
@@ -47,7 +174,7 @@ export function parseUserInputDate(input: string): Date | null {
       parseInt(minute)
     );
     if (date < now) {
-      return createJSTDate(
+      return createDate(
         currentYear + 1,
         parseInt(month) - 1,
         parseInt(day),
@@ -62,9 +189,9 @@ export function parseUserInputDate(input: string): Date | null {
   const matchJp2 = cleanedInput.match(/^(\d{1,2})月(\d{1,2})日$/);
   if (matchJp2) {
     const [, month, day] = matchJp2;
-    const date = createJSTDate(currentYear, parseInt(month) - 1, parseInt(day), 23, 59, 59);
+    const date = createDate(currentYear, parseInt(month) - 1, parseInt(day), 23, 59, 59);
     if (date < now) {
-      return createJSTDate(currentYear + 1, parseInt(month) - 1, parseInt(day), 23, 59, 59);
+      return createDate(currentYear + 1, parseInt(month) - 1, parseInt(day), 23, 59, 59);
     }
     return date;
   }
@@ -81,9 +208,9 @@ export function parseUserInputDate(input: string): Date | null {
       return null;
     }
 
-    const date = createJSTDate(currentYear, monthNum - 1, dayNum, parseInt(hour), parseInt(minute));
+    const date = createDate(currentYear, monthNum - 1, dayNum, parseInt(hour), parseInt(minute));
     if (date < now) {
-      return createJSTDate(currentYear + 1, monthNum - 1, dayNum, parseInt(hour), parseInt(minute));
+      return createDate(currentYear + 1, monthNum - 1, dayNum, parseInt(hour), parseInt(minute));
     }
     return date;
   }
@@ -100,9 +227,9 @@ export function parseUserInputDate(input: string): Date | null {
       return null;
     }
 
-    const date = createJSTDate(currentYear, monthNum - 1, dayNum, 23, 59, 59);
+    const date = createDate(currentYear, monthNum - 1, dayNum, 23, 59, 59);
     if (date < now) {
-      return createJSTDate(currentYear + 1, monthNum - 1, dayNum, 23, 59, 59);
+      return createDate(currentYear + 1, monthNum - 1, dayNum, 23, 59, 59);
     }
     return date;
   }
@@ -111,22 +238,19 @@ export function parseUserInputDate(input: string): Date | null {
   const match3 = cleanedInput.match(/^(\d{1,2})[:\s](\d{2})$/);
   if (match3) {
     const [, hour, minute] = match3;
-    const jstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-    const date = createJSTDate(
-      jstNow.getUTCFullYear(),
-      jstNow.getUTCMonth(),
-      jstNow.getUTCDate(),
+    const date = createDate(
+      zonedNow.year,
+      zonedNow.month,
+      zonedNow.day,
       parseInt(hour),
       parseInt(minute)
     );
     if (date < now) {
-      // 明日の同じ時刻
-      const tomorrow = new Date(jstNow);
-      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-      return createJSTDate(
-        tomorrow.getUTCFullYear(),
-        tomorrow.getUTCMonth(),
-        tomorrow.getUTCDate(),
+      // 明日の同じ時刻（Date.UTCが月末の繰り上がりを処理する）
+      return createDate(
+        zonedNow.year,
+        zonedNow.month,
+        zonedNow.day + 1,
         parseInt(hour),
         parseInt(minute)
       );
@@ -138,13 +262,10 @@ export function parseUserInputDate(input: string): Date | null {
   const match4 = cleanedInput.match(/^明日\s*(\d{1,2})[:\s](\d{2})$/);
   if (match4) {
     const [, hour, minute] = match4;
-    const jstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-    const tomorrow = new Date(jstNow);
-    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-    return createJSTDate(
-      tomorrow.getUTCFullYear(),
-      tomorrow.getUTCMonth(),
-      tomorrow.getUTCDate(),
+    return createDate(
+      zonedNow.year,
+      zonedNow.month,
+      zonedNow.day + 1,
       parseInt(hour),
       parseInt(minute)
     );
@@ -156,7 +277,7 @@ export function parseUserInputDate(input: string): Date | null {
   );
   if (match5) {
     const [, year, month, day, hour, minute] = match5;
-    return createJSTDate(
+    return createDate(
       parseInt(year),
       parseInt(month) - 1,
       parseInt(day),
@@ -169,7 +290,7 @@ export function parseUserInputDate(input: string): Date | null {
   const match6 = cleanedInput.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})\s+(\d{1,2}):(\d{2})$/);
   if (match6) {
     const [, year, month, day, hour, minute] = match6;
-    return createJSTDate(
+    return createDate(
       parseInt(year),
       parseInt(month) - 1,
       parseInt(day),
@@ -182,7 +303,7 @@ export function parseUserInputDate(input: string): Date | null {
   const match6b = cleanedInput.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
   if (match6b) {
     const [, year, month, day] = match6b;
-    return createJSTDate(parseInt(year), parseInt(month) - 1, parseInt(day), 23, 59, 59);
+    return createDate(parseInt(year), parseInt(month) - 1, parseInt(day), 23, 59, 59);
   }
 
   // ISO-8601形式
@@ -195,7 +316,7 @@ export function parseUserInputDate(input: string): Date | null {
   const match8Digit = cleanedInput.match(/^(\d{4})(\d{2})(\d{2})$/);
   if (match8Digit) {
     const [, year, month, day] = match8Digit;
-    return createJSTDate(parseInt(year), parseInt(month) - 1, parseInt(day), 23, 59, 59);
+    return createDate(parseInt(year), parseInt(month) - 1, parseInt(day), 23, 59, 59);
   }
 
   // YYMMDD (締切日の短縮版)
@@ -203,12 +324,269 @@ export function parseUserInputDate(input: string): Date | null {
   if (match6Digit) {
     const [, year, month, day] = match6Digit;
     const fullYear = 2000 + parseInt(year);
-    return createJSTDate(fullYear, parseInt(month) - 1, parseInt(day), 23, 59, 59);
+    return createDate(fullYear, parseInt(month) - 1, parseInt(day), 23, 59, 59);
   }
 
   return null;
 }
 
+/**
+ * 日程候補から抽出した開始・終了日時
+ */
+export interface CandidateDateRange {
+  startAt: Date;
+  endAt?: Date;
+}
+
+// 候補の曜日表記 例: (金) （金曜日） (月・文化の日)
+const CANDIDATE_WEEKDAY_PATTERN = /([（(])([月火水木金土日])((?:曜日?)?(?:[・･][^()（）]*)?[)）])/;
+
+/**
+ * 日程候補の文字列を開始・終了日時に変換（指定タイムゾーンの時刻として解釈）
+ * parseUserInputDate の形式に加えて曜日表記や時間帯（例: "12/26(土) 18:00〜20:00"）をサポート
+ * 年のない候補は resolveCandidateYear で決めた年として扱い、過ぎた日付でも翌年に繰り越すとは限らない
+ * 日付のみの候補はその日の 00:00〜23:59:59 として扱う
+ * 解釈できない場合や時刻のみの場合は null（自由記述の候補として扱う）
+ */
+export function parseCandidateDateRange(
+  input: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): CandidateDateRange | null {
+  const normalized = withCandidateYear(normalizeCandidateInput(input), timeZone);
+  if (!normalized || /^\d{1,2}:\d{2}$/.test(normalized)) {
+    return null;
+  }
+
+  // 日付 HH:mm〜HH:mm
+  const rangeMatch = normalized.match(/^(.+?)\s*(\d{1,2}):(\d{2})\s*[〜～~-]\s*(\d{1,2}):(\d{2})$/);
+  if (rangeMatch) {
+    const [, datePart, startHour, startMinute, endHour, endMinute] = rangeMatch;
+    const startAt = parseUserInputDate(`${datePart.trim()} ${startHour}:${startMinute}`, timeZone);
+    if (!startAt) return null;
+
+    const startMinutes = parseInt(startHour) * 60 + parseInt(startMinute);
+    let durationMinutes = parseInt(endHour) * 60 + parseInt(endMinute) - startMinutes;
+    if (durationMinutes <= 0) {
+      // 終了が開始以前なら日付をまたぐ（例: 22:00〜02:00）
+      durationMinutes += 24 * 60;
+    }
+    return { startAt, endAt: new Date(startAt.getTime() + durationMinutes * 60 * 1000) };
+  }
+
+  const parsed = parseUserInputDate(normalized, timeZone);
+  if (!parsed) return null;
+
+  if (!/\d:\d{2}/.test(normalized)) {
+    // 日付のみの場合は 23:59:59 で返るため、その日の 00:00 を開始とする
+    return { startAt: new Date(parsed.getTime() - (24 * 60 * 60 - 1) * 1000), endAt: parsed };
+  }
+  return { startAt: parsed };
+}
+
+/**
+ * 開始・終了日時を parseCandidateDateRange で再び解釈できる日程候補の文字列に変換
+ * 例: "2025/12/26(金) 18:00〜20:00"、日付のみの候補は "2025/12/26(金)"
+ * 祝日の候補は曜日に祝日名を添える（例: "2025/11/03(月・文化の日) 19:00"）
+ */
+export function formatCandidateDateRange(
+  range: CandidateDateRange,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const pad = (num: number) => num.toString().padStart(2, '0');
+  const start = getZonedDateParts(range.startAt, timeZone);
+  const holidayName = getJapaneseHolidayName(start.year, start.month, start.day);
+  const weekday = holidayName
+    ? `${JA_WEEKDAY_NAMES[start.weekday]}・${holidayName}`
+    : JA_WEEKDAY_NAMES[start.weekday];
+  const date = `${start.year}/${pad(start.month + 1)}/${pad(start.day)}(${weekday})`;
+
+  const isAllDay =
+    range.endAt !== undefined &&
+    start.hour === 0 &&
+    start.minute === 0 &&
+    range.endAt.getTime() - range.startAt.getTime() === (24 * 60 * 60 - 1) * 1000;
+  if (isAllDay) {
+    return date;
+  }
+
+  const startTime = `${pad(start.hour)}:${pad(start.minute)}`;
+  if (!range.endAt) {
+    return `${date} ${startTime}`;
+  }
+
+  const end = getZonedDateParts(range.endAt, timeZone);
+  return `${date} ${startTime}〜${pad(end.hour)}:${pad(end.minute)}`;
+}
+
+/**
+ * 日程候補に書かれた曜日と実際の曜日の食い違い
+ */
+export interface WeekdayMismatch {
+  label: string;
+  writtenWeekday: string; // 候補に書かれた曜日（例: "金"）
+  actualWeekday: string; // 日付から求めた曜日（例: "土"）
+  correctedLabel: string; // 曜日を正しく書き換えた候補
+}
+
+/**
+ * 日程候補の括弧内の曜日が日付と一致するかチェック（例: 2026年の "12/26(金)" は土曜）
+ * 年のない候補は resolveCandidateYear で決めた年の曜日と比べる（書かれた曜日で年を選び直さない）
+ * 曜日が書かれていない候補や日時を解釈できない候補、曜日が一致する候補は null
+ */
+export function findWeekdayMismatch(
+  label: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): WeekdayMismatch | null {
+  const match = label.match(CANDIDATE_WEEKDAY_PATTERN);
+  if (!match) return null;
+
+  const range = parseCandidateDateRange(label, timeZone);
+  if (!range) return null;
+
+  const actualWeekday = JA_WEEKDAY_NAMES[getZonedDateParts(range.startAt, timeZone).weekday];
+  if (match[2] === actualWeekday) return null;
+
+  return {
+    label,
+    writtenWeekday: match[2],
+    actualWeekday,
+    correctedLabel: label.replace(
+      CANDIDATE_WEEKDAY_PATTERN,
+      (_, open, __, close) => `${open}${actualWeekday}${close}`
+    ),
+  };
+}
+
+// 候補の先頭の日付部分 例: 11/3 ２０２５/１１/０３ 11月3日
+const CANDIDATE_DATE_PREFIX_PATTERN =
+  /^(?:[0-9０-９]{4}[/／\-年])?[0-9０-９]{1,2}(?:[/／-][0-9０-９]{1,2}|月[0-9０-９]{1,2}日)/;
+
+/**
+ * 祝日にあたる日程候補の曜日表記に祝日名を添える（例: "11/3 19:00" → "11/3(月・文化の日) 19:00"）
+ * 書かれた曜日はそのまま残し、曜日がなければ日付の直後に補う
+ * 祝日でない候補や祝日名がすでに書かれている候補はそのまま返す
+ */
+export function annotateCandidateHoliday(
+  label: string,
+  range: CandidateDateRange,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const start = getZonedDateParts(range.startAt, timeZone);
+  const holidayName = getJapaneseHolidayName(start.year, start.month, start.day);
+  if (!holidayName || label.includes(holidayName)) {
+    return label;
+  }
+
+  const weekdayMatch = label.match(CANDIDATE_WEEKDAY_PATTERN);
+  if (weekdayMatch) {
+    const [written, open, weekday] = weekdayMatch;
+    return label.replace(written, `${open}${weekday}・${holidayName}${written.slice(-1)}`);
+  }
+
+  const annotation = `(${JA_WEEKDAY_NAMES[start.weekday]}・${holidayName})`;
+  if (/[（(]祝日?[)）]/.test(label)) {
+    return label.replace(/[（(]祝日?[)）]/, annotation);
+  }
+
+  const datePrefix = label.match(CANDIDATE_DATE_PREFIX_PATTERN);
+  if (!datePrefix) {
+    return label;
+  }
+  return `${datePrefix[0]}${annotation}${label.slice(datePrefix[0].length)}`;
+}
+
+/**
+ * 日程候補を開始日時の順に並べる（開始日時が同じ候補は元の順を保つ）
+ * 日時を解釈できない候補（startAt なし）は元の順のまま末尾に置く
+ */
+export function sortCandidatesByStart<T extends { startAt?: Date | string }>(candidates: T[]): T[] {
+  const startOf = (candidate: T) =>
+    candidate.startAt ? new Date(candidate.startAt).getTime() : Number.POSITIVE_INFINITY;
+  return [...candidates].sort((a, b) => {
+    const [startA, startB] = [startOf(a), startOf(b)];
+    return startA === startB ? 0 : startA < startB ? -1 : 1;
+  });
+}
+
+/**
+ * 日程候補が sortCandidatesByStart の順（開始日時の順、日時を解釈できない候補は末尾）に並んでいるかチェック
+ */
+export function isSortedByStart<T extends { startAt?: Date | string }>(candidates: T[]): boolean {
+  return sortCandidatesByStart(candidates).every(
+    (candidate, index) => candidate === candidates[index]
+  );
+}
+
+/**
+ * 指定タイムゾーンの暦で日数をずらす（サマータイムをまたいでも壁時計の時刻を保つ）
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const parts = getZonedDateParts(date, timeZone);
+  return createZonedDate(
+    parts.year,
+    parts.month,
+    parts.day + days,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    timeZone
+  );
+}
+
+/**
+ * 年のない日程候補の年を決める（月は0始まり）
+ * 今年と来年のうち現在に近い方とし、書かれた曜日は見ない（食い違いは findWeekdayMismatch で警告する）
+ * 例: 10/18 に入力した "10/1" は今年（過ぎた候補）、"1/10" は来年
+ */
+function resolveCandidateYear(month: number, day: number, timeZone: string): number {
+  const now = new Date();
+  const currentYear = getZonedDateParts(now, timeZone).year;
+
+  const distance = (year: number) =>
+    Math.abs(createZonedDate(year, month, day, 12, 0, 0, timeZone).getTime() - now.getTime());
+  return distance(currentYear + 1) < distance(currentYear) ? currentYear + 1 : currentYear;
+}
+
+/**
+ * 正規化した日程候補の先頭が年のない日付（例: "10/1" "10月1日"）なら年を補った "YYYY/M/D" 形式にする
+ */
+function withCandidateYear(normalized: string, timeZone: string): string {
+  const match = normalized.match(/^(\d{1,2})(?:[/-](\d{1,2})(?=\s|$)|月(\d{1,2})日)/);
+  if (!match) {
+    return normalized;
+  }
+
+  const month = parseInt(match[1]);
+  const day = parseInt(match[2] ?? match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return normalized;
+  }
+
+  const year = resolveCandidateYear(month - 1, day, timeZone);
+  return `${year}/${month}/${day} ${normalized.slice(match[0].length).trim()}`.trim();
+}
+
+/**
+ * 日程候補の表記ゆれを parseUserInputDate が解釈できる形に揃える
+ */
+function normalizeCandidateInput(input: string): string {
+  return (
+    input
+      // 全角数字・記号を半角に
+      .replace(/[０-９：／]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+      // 曜日・祝日表記を除去 例: (土) （土曜日） (月・文化の日) (祝)
+      .replace(/[（(](?:[月火水木金土日](?:曜日?)?|祝日?)(?:[・･][^()（）]*)?[)）]/g, ' ')
+      // 18時30分 / 18時 → 18:30 / 18:00
+      .replace(
+        /(\d{1,2})時(\d{1,2})分?/g,
+        (_, hour, minute) => `${hour}:${minute.padStart(2, '0')}`
+      )
+      .replace(/(\d{1,2})時/g, '$1:00')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
 /**
  * 相対的な日時を絶対的な日時に変換
  * 例: "1d" -> 1日後の日時
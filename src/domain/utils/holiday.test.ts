@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getJapaneseHolidayName, getJapaneseHolidayNameAt, listJapaneseHolidays } from './holiday';
+
+describe('Japanese Holiday Utilities', () => {
+  const toLabels = (year: number) =>
+    listJapaneseHolidays(year).map(({ month, day, name }) => `${month + 1}/${day} ${name}`);
+
+  describe('listJapaneseHolidays', () => {
+    it('should list fixed, Happy Monday and equinox holidays with substitutes', () => {
+      expect(toLabels(2025)).toEqual([
+        '1/1 元日',
+        '1/13 成人の日',
+        '2/11 建国記念の日',
+        '2/23 天皇誕生日',
+        '2/24 振替休日',
+        '3/20 春分の日',
+        '4/29 昭和の日',
+        '5/3 憲法記念日',
+        '5/4 みどりの日',
+        '5/5 こどもの日',
+        '5/6 振替休日',
+        '7/21 海の日',
+        '8/11 山の日',
+        '9/15 敬老の日',
+        '9/23 秋分の日',
+        '10/13 スポーツの日',
+        '11/3 文化の日',
+        '11/23 勤労感謝の日',
+        '11/24 振替休日',
+      ]);
+    });
+
+    it('should add citizens holidays between two holidays', () => {
+      expect(toLabels(2026)).toContain('9/22 国民の休日');
+      expect(toLabels(2019)).toEqual(
+        expect.arrayContaining(['4/30 国民の休日', '5/1 天皇の即位の日', '5/2 国民の休日'])
+      );
+    });
+
+    it('should follow the moved holidays of the Tokyo Olympics', () => {
+      expect(toLabels(2020)).toEqual(
+        expect.arrayContaining(['7/23 海の日', '7/24 スポーツの日', '8/10 山の日'])
+      );
+      expect(toLabels(2021)).toEqual(expect.arrayContaining(['8/8 山の日', '8/9 振替休日']));
+    });
+
+    it('should return no holidays outside the supported years', () => {
+      expect(listJapaneseHolidays(1999)).toEqual([]);
+      expect(listJapaneseHolidays(2100)).toEqual([]);
+    });
+  });
+
+  describe('getJapaneseHolidayName', () => {
+    it('should return the holiday name or undefined', () => {
+      expect(getJapaneseHolidayName(2025, 10, 3)).toBe('文化の日');
+      expect(getJapaneseHolidayName(2025, 10, 4)).toBeUndefined();
+      // 月末を超える日付は翌月として扱う
+      expect(getJapaneseHolidayName(2025, 9, 34)).toBe('文化の日');
+    });
+
+    it('should judge datetimes by the date in Japan time', () => {
+      // 2025/11/03 00:30 JST
+      expect(getJapaneseHolidayNameAt(new Date('2025-11-02T15:30:00.000Z'))).toBe('文化の日');
+      expect(getJapaneseHolidayNameAt(new Date('2025-11-03T15:30:00.000Z'))).toBeUndefined();
+    });
+  });
+});
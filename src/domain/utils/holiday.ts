@@ -0,0 +1,186 @@
+/**
+ * 日本の祝日ユーティリティ
+ *
+ * 「国民の祝日に関する法律」の規則（固定日・ハッピーマンデー・春分/秋分・振替休日・国民の休日）から
+ * 祝日を計算する。外部APIやデータファイルに頼らずオフラインで判定できる
+ * 春分・秋分の日の近似式が使える 2000〜2099年を対象とし、それ以外の年は祝日なしとして扱う
+ */
+
+/**
+ * 祝日の判定に対応する年の範囲
+ */
+export const HOLIDAY_YEAR_RANGE = { min: 2000, max: 2099 } as const;
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// 東京オリンピック・パラリンピックに伴う祝日の移動（2020・2021年）
+const OLYMPIC_HOLIDAYS = new Map<number, Array<[number, number, string]>>([
+  [
+    2020,
+    [
+      [6, 23, '海の日'],
+      [6, 24, 'スポーツの日'],
+      [7, 10, '山の日'],
+    ],
+  ],
+  [
+    2021,
+    [
+      [6, 22, '海の日'],
+      [6, 23, 'スポーツの日'],
+      [7, 8, '山の日'],
+    ],
+  ],
+]);
+
+// 年ごとの祝日（キーは "月-日"、月は0始まり）
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * 指定日の祝日名を取得（月は0始まり、祝日でなければ undefined）
+ * 振替休日・国民の休日も含む
+ */
+export function getJapaneseHolidayName(
+  year: number,
+  month: number,
+  day: number
+): string | undefined {
+  // 月末を超える日付（例: 1/32）は暦どおりに繰り上げる
+  const date = new Date(Date.UTC(year, month, day));
+  return getHolidaysOfYear(date.getUTCFullYear()).get(toKey(date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * 日時が日本時間で祝日にあたる場合の祝日名を取得（祝日でなければ undefined）
+ */
+export function getJapaneseHolidayNameAt(date: Date): string | undefined {
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  return getJapaneseHolidayName(jst.getUTCFullYear(), jst.getUTCMonth(), jst.getUTCDate());
+}
+
+/**
+ * 指定年の祝日を日付順に列挙（月は0始まり）
+ */
+export function listJapaneseHolidays(
+  year: number
+): Array<{ month: number; day: number; name: string }> {
+  return [...getHolidaysOfYear(year)]
+    .map(([key, name]) => {
+      const [month, day] = key.split('-').map(Number);
+      return { month, day, name };
+    })
+    .sort((a, b) => a.month - b.month || a.day - b.day);
+}
+
+function getHolidaysOfYear(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays =
+    year >= HOLIDAY_YEAR_RANGE.min && year <= HOLIDAY_YEAR_RANGE.max
+      ? calculateHolidays(year)
+      : new Map<string, string>();
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * 国民の祝日を計算し、振替休日と国民の休日を加える
+ */
+function calculateHolidays(year: number): Map<string, string> {
+  const holidays = new Map<string, string>();
+  const add = (month: number, day: number, name: string) => holidays.set(toKey(month, day), name);
+
+  add(0, 1, '元日');
+  add(0, nthMonday(year, 0, 2), '成人の日');
+  add(1, 11, '建国記念の日');
+  if (year >= 2020) add(1, 23, '天皇誕生日');
+  add(2, vernalEquinoxDay(year), '春分の日');
+  add(3, 29, year >= 2007 ? '昭和の日' : 'みどりの日');
+  add(4, 3, '憲法記念日');
+  if (year >= 2007) add(4, 4, 'みどりの日');
+  add(4, 5, 'こどもの日');
+  add(8, year >= 2003 ? nthMonday(year, 8, 3) : 15, '敬老の日');
+  add(8, autumnalEquinoxDay(year), '秋分の日');
+  add(10, 3, '文化の日');
+  add(10, 23, '勤労感謝の日');
+  if (year <= 2018) add(11, 23, '天皇誕生日');
+
+  const olympicHolidays = OLYMPIC_HOLIDAYS.get(year);
+  if (olympicHolidays) {
+    for (const [month, day, name] of olympicHolidays) add(month, day, name);
+  } else {
+    add(6, year >= 2003 ? nthMonday(year, 6, 3) : 20, '海の日');
+    if (year >= 2016) add(7, 11, '山の日');
+    add(9, nthMonday(year, 9, 2), year >= 2020 ? 'スポーツの日' : '体育の日');
+  }
+
+  if (year === 2019) {
+    add(4, 1, '天皇の即位の日');
+    add(9, 22, '即位礼正殿の儀の行われる日');
+  }
+
+  // 国民の休日: 前日と翌日が祝日の平日（2006年以前は日曜を除く）
+  const nationalHolidays: Array<[number, number]> = [];
+  for (const key of holidays.keys()) {
+    const [month, day] = key.split('-').map(Number);
+    const between = new Date(Date.UTC(year, month, day + 1));
+    const next = new Date(Date.UTC(year, month, day + 2));
+    if (
+      between.getUTCFullYear() === year &&
+      !holidays.has(toKey(between.getUTCMonth(), between.getUTCDate())) &&
+      holidays.has(toKey(next.getUTCMonth(), next.getUTCDate())) &&
+      !(year < 2007 && between.getUTCDay() === 0)
+    ) {
+      nationalHolidays.push([between.getUTCMonth(), between.getUTCDate()]);
+    }
+  }
+
+  // 振替休日: 祝日が日曜なら、その後の最も近い祝日でない日（2006年以前は翌月曜のみ）
+  const substituteHolidays: Array<[number, number]> = [];
+  for (const key of holidays.keys()) {
+    const [month, day] = key.split('-').map(Number);
+    if (new Date(Date.UTC(year, month, day)).getUTCDay() !== 0) continue;
+
+    let offset = 1;
+    while (year >= 2007 && holidays.has(toKey(month, day + offset))) {
+      offset++;
+    }
+    const substitute = new Date(Date.UTC(year, month, day + offset));
+    const substituteKey = toKey(substitute.getUTCMonth(), substitute.getUTCDate());
+    if (substitute.getUTCFullYear() === year && !holidays.has(substituteKey)) {
+      substituteHolidays.push([substitute.getUTCMonth(), substitute.getUTCDate()]);
+    }
+  }
+
+  for (const [month, day] of nationalHolidays) add(month, day, '国民の休日');
+  for (const [month, day] of substituteHolidays) add(month, day, '振替休日');
+
+  return holidays;
+}
+
+/**
+ * 指定月の第n月曜日の日付
+ */
+function nthMonday(year: number, month: number, nth: number): number {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((8 - firstWeekday) % 7) + (nth - 1) * 7;
+}
+
+/**
+ * 春分の日（1980〜2099年の近似式）
+ */
+function vernalEquinoxDay(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+/**
+ * 秋分の日（1980〜2099年の近似式）
+ */
+function autumnalEquinoxDay(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function toKey(month: number, day: number): string {
+  return `${month}-${day}`;
+}
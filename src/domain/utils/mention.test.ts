@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatReminderMentions, parseReminderMentions } from './mention';
+
+describe('Mention Utilities', () => {
+  describe('parseReminderMentions', () => {
+    it('should classify users, roles and broadcast mentions', () => {
+      expect(
+        parseReminderMentions(['@here', '<@123>', '<@!456>', '<@&789>', '<@123>', '@Alice'])
+      ).toEqual({
+        userIds: ['123', '456'],
+        roleIds: ['789'],
+        broadcast: '@here',
+        legacy: ['@Alice'],
+      });
+    });
+
+    it('should prefer @everyone when both broadcast mentions are stored', () => {
+      expect(parseReminderMentions(['@everyone', '@here']).broadcast).toBe('@everyone');
+    });
+  });
+
+  describe('formatReminderMentions', () => {
+    it('should format targets into the stored mention format', () => {
+      expect(
+        formatReminderMentions({
+          userIds: ['123'],
+          roleIds: ['789'],
+          broadcast: '@here',
+          legacy: ['@Alice'],
+        })
+      ).toEqual(['@here', '<@123>', '<@&789>', '@Alice']);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Domain層のメンションユーティリティ
+ *
+ * リマインダーの通知先は `<@ユーザーID>`・`<@&ロールID>`・`@here`・`@everyone` の形式で保存する
+ * 名前で指定された通知先（旧バージョンで入力されたもの）はそのまま保持する
+ */
+
+export type BroadcastMention = '@here' | '@everyone';
+
+export interface ReminderMentionTargets {
+  readonly userIds: string[];
+  readonly roleIds: string[];
+  readonly broadcast?: BroadcastMention;
+  /** ID形式でない通知先（旧バージョンで名前指定されたもの） */
+  readonly legacy: string[];
+}
+
+const USER_MENTION_PATTERN = /^<@!?(\d+)>$/;
+const ROLE_MENTION_PATTERN = /^<@&(\d+)>$/;
+
+/**
+ * 保存されている通知先をユーザー・ロール・全体メンションに分類
+ */
+export function parseReminderMentions(mentions: readonly string[]): ReminderMentionTargets {
+  const userIds: string[] = [];
+  const roleIds: string[] = [];
+  const legacy: string[] = [];
+  let broadcast: BroadcastMention | undefined;
+
+  for (const mention of mentions) {
+    const trimmed = mention.trim();
+    const userMatch = trimmed.match(USER_MENTION_PATTERN);
+    const roleMatch = trimmed.match(ROLE_MENTION_PATTERN);
+
+    if (trimmed === '@here' || trimmed === '@everyone') {
+      // @everyone は @here を包含する
+      broadcast = broadcast === '@everyone' ? broadcast : trimmed;
+    } else if (userMatch) {
+      userIds.push(userMatch[1]);
+    } else if (roleMatch) {
+      roleIds.push(roleMatch[1]);
+    } else if (trimmed) {
+      legacy.push(trimmed);
+    }
+  }
+
+  return {
+    userIds: [...new Set(userIds)],
+    roleIds: [...new Set(roleIds)],
+    broadcast,
+    legacy,
+  };
+}
+
+/**
+ * 分類された通知先を保存形式に変換
+ */
+export function formatReminderMentions(targets: ReminderMentionTargets): string[] {
+  return [
+    ...(targets.broadcast ? [targets.broadcast] : []),
+    ...targets.userIds.map((id) => `<@${id}>`),
+    ...targets.roleIds.map((id) => `<@&${id}>`),
+    ...targets.legacy,
+  ];
+}
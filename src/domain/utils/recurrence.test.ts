@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatRecurrenceRunTiming,
+  getNextRecurrenceRun,
+  parseDeadlineOffset,
+  parseRecurrenceRunTiming,
+  planRecurrenceRun,
+} from './recurrence';
+
+describe('Recurrence Utilities', () => {
+  describe('parseRecurrenceRunTiming', () => {
+    it('should parse weekday and time notations', () => {
+      expect(parseRecurrenceRunTiming('月 09:00')).toEqual({ weekday: 1, hour: 9, minute: 0 });
+      expect(parseRecurrenceRunTiming('毎週金曜 18:30')).toEqual({
+        weekday: 5,
+        hour: 18,
+        minute: 30,
+      });
+      expect(parseRecurrenceRunTiming('日曜日 ２１時')).toEqual({
+        weekday: 0,
+        hour: 21,
+        minute: 0,
+      });
+    });
+
+    it('should return null for invalid timings', () => {
+      expect(parseRecurrenceRunTiming('月')).toBeNull();
+      expect(parseRecurrenceRunTiming('月-水 09:00')).toBeNull();
+      expect(parseRecurrenceRunTiming('月 24:00')).toBeNull();
+    });
+  });
+
+  describe('formatRecurrenceRunTiming', () => {
+    it('should format the timing for display', () => {
+      expect(formatRecurrenceRunTiming({ weekday: 1, hour: 9, minute: 5 })).toBe('毎週月曜 09:05');
+    });
+  });
+
+  describe('getNextRecurrenceRun', () => {
+    // 2030/12/02(月) 09:00 JST
+    const monday = new Date('2030-12-02T00:00:00.000Z');
+
+    it('should return the next matching weekday and time', () => {
+      expect(
+        getNextRecurrenceRun({ weekday: 3, hour: 12, minute: 0 }, monday, 'Asia/Tokyo')
+      ).toEqual(new Date('2030-12-04T03:00:00.000Z'));
+      expect(
+        getNextRecurrenceRun({ weekday: 1, hour: 10, minute: 0 }, monday, 'Asia/Tokyo')
+      ).toEqual(new Date('2030-12-02T01:00:00.000Z'));
+    });
+
+    it('should move to the following week when the time has passed', () => {
+      expect(
+        getNextRecurrenceRun({ weekday: 1, hour: 9, minute: 0 }, monday, 'Asia/Tokyo')
+      ).toEqual(new Date('2030-12-09T00:00:00.000Z'));
+    });
+
+    it('should respect the time zone', () => {
+      expect(
+        getNextRecurrenceRun({ weekday: 1, hour: 9, minute: 0 }, monday, 'America/New_York')
+      ).toEqual(new Date('2030-12-02T14:00:00.000Z'));
+    });
+  });
+
+  describe('parseDeadlineOffset', () => {
+    it('should convert offsets to milliseconds', () => {
+      expect(parseDeadlineOffset('1d')).toBe(24 * 60 * 60 * 1000);
+      expect(parseDeadlineOffset(' 12h ')).toBe(12 * 60 * 60 * 1000);
+      expect(parseDeadlineOffset('30m')).toBe(30 * 60 * 1000);
+      expect(parseDeadlineOffset('1w')).toBeNull();
+    });
+  });
+
+  describe('planRecurrenceRun', () => {
+    // 2030/12/02(月) 09:00 JST
+    const runAt = new Date('2030-12-02T00:00:00.000Z');
+
+    it('should set the deadline before the first candidate', () => {
+      const plan = planRecurrenceRun('来週 火-木 20:00', '1d', runAt, 'Asia/Tokyo');
+
+      expect(plan?.candidates).toHaveLength(3);
+      expect(plan?.candidates[0].startAt).toEqual(new Date('2030-12-10T11:00:00.000Z'));
+      expect(plan?.deadline).toEqual(new Date('2030-12-09T11:00:00.000Z'));
+    });
+
+    it('should omit the deadline when no offset is given', () => {
+      expect(
+        planRecurrenceRun('来週 土日', undefined, runAt, 'Asia/Tokyo')?.deadline
+      ).toBeUndefined();
+    });
+
+    it('should return null for an invalid rule or offset', () => {
+      expect(planRecurrenceRun('来週', '1d', runAt, 'Asia/Tokyo')).toBeNull();
+      expect(planRecurrenceRun('来週 火 20:00', '1週間', runAt, 'Asia/Tokyo')).toBeNull();
+    });
+  });
+});
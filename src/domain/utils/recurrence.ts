@@ -0,0 +1,164 @@
+/**
+ * 定期作成のタイミング計算ユーティリティ
+ *
+ * 「月 09:00」のような毎週の作成タイミングの解釈と、次回作成日時の計算を行う
+ * 作成日時ごとの日程候補・締切は候補ルール（candidate-rule）から求める
+ */
+
+import {
+  generateWeeklyCandidates,
+  normalizeRuleInput,
+  parseWeeklyCandidateRule,
+} from './candidate-rule';
+import {
+  type CandidateDateRange,
+  createZonedDate,
+  DEFAULT_TIMEZONE,
+  getZonedDateParts,
+} from './date';
+
+/**
+ * 毎週の作成タイミング（指定タイムゾーンの曜日と時刻）
+ */
+export interface RecurrenceRunTiming {
+  weekday: number; // 0: 日曜 〜 6: 土曜
+  hour: number;
+  minute: number;
+}
+
+/**
+ * 1回の定期作成で作る日程候補と締切
+ */
+export interface RecurrenceRunPlan {
+  candidates: CandidateDateRange[];
+  deadline?: Date;
+}
+
+const WEEKDAY_CHARS = '日月火水木金土';
+
+/**
+ * 作成タイミングの入力をパース
+ * 例: "月 09:00" / "毎週月曜 9:00" / "月曜日 9時"
+ * 解釈できない場合は null
+ */
+export function parseRecurrenceRunTiming(input: string): RecurrenceRunTiming | null {
+  const normalized = normalizeRuleInput(input)
+    .replace(/^毎週\s*/, '')
+    .replace(/(\d{1,2})時(\d{1,2})分?/, (_, hour, minute) => `${hour}:${minute.padStart(2, '0')}`)
+    .replace(/(\d{1,2})時/, '$1:00');
+
+  const match = normalized.match(/^([日月火水木金土])(?:曜日?)?\s*(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hour = parseInt(match[2], 10);
+  const minute = parseInt(match[3], 10);
+  if (hour > 23 || minute > 59) return null;
+
+  return { weekday: WEEKDAY_CHARS.indexOf(match[1]), hour, minute };
+}
+
+/**
+ * 作成タイミングの時刻を保存形式 "HH:mm" に変換
+ */
+export function formatRecurrenceRunTime(timing: RecurrenceRunTiming): string {
+  const pad = (num: number) => num.toString().padStart(2, '0');
+  return `${pad(timing.hour)}:${pad(timing.minute)}`;
+}
+
+/**
+ * 保存形式（曜日番号と "HH:mm"）から作成タイミングを復元
+ */
+export function restoreRecurrenceRunTiming(weekday: number, runTime: string): RecurrenceRunTiming {
+  const [hour, minute] = runTime.split(':').map((part) => parseInt(part, 10));
+  return { weekday, hour, minute };
+}
+
+/**
+ * 作成タイミングを表示用の文字列に変換
+ * 例: "毎週月曜 09:00"
+ */
+export function formatRecurrenceRunTiming(timing: RecurrenceRunTiming): string {
+  return `毎週${WEEKDAY_CHARS[timing.weekday]}曜 ${formatRecurrenceRunTime(timing)}`;
+}
+
+/**
+ * 指定日時より後で最初に訪れる作成日時を計算
+ */
+export function getNextRecurrenceRun(
+  timing: RecurrenceRunTiming,
+  after: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  const base = getZonedDateParts(after, timeZone);
+  const daysUntil = (timing.weekday - base.weekday + 7) % 7;
+
+  const candidate = createZonedDate(
+    base.year,
+    base.month,
+    base.day + daysUntil,
+    timing.hour,
+    timing.minute,
+    0,
+    timeZone
+  );
+  if (candidate > after) {
+    return candidate;
+  }
+
+  return createZonedDate(
+    base.year,
+    base.month,
+    base.day + daysUntil + 7,
+    timing.hour,
+    timing.minute,
+    0,
+    timeZone
+  );
+}
+
+/**
+ * 締切の指定（最初の候補の何日・何時間・何分前か）をミリ秒に変換
+ * 例: "1d" / "12h" / "30m"
+ * 解釈できない場合は null
+ */
+export function parseDeadlineOffset(input: string): number | null {
+  const match = input.trim().match(/^(\d+)([dhm])$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseInt(match[1], 10);
+  switch (match[2]) {
+    case 'd':
+      return value * 24 * 60 * 60 * 1000;
+    case 'h':
+      return value * 60 * 60 * 1000;
+    default:
+      return value * 60 * 1000;
+  }
+}
+
+/**
+ * 作成日時に候補ルールと締切の指定を当てはめ、作成する日程候補と締切を求める
+ * 締切は最初の候補の開始日時から deadlineOffset だけ前にする
+ * 候補ルール・締切の指定が解釈できない場合は null
+ */
+export function planRecurrenceRun(
+  candidateRule: string,
+  deadlineOffset: string | undefined,
+  runAt: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): RecurrenceRunPlan | null {
+  const rule = parseWeeklyCandidateRule(candidateRule);
+  if (!rule) return null;
+
+  const candidates = generateWeeklyCandidates(rule, runAt, timeZone);
+  if (!deadlineOffset || candidates.length === 0) {
+    return { candidates };
+  }
+
+  const offsetMs = parseDeadlineOffset(deadlineOffset);
+  if (offsetMs === null) return null;
+
+  return { candidates, deadline: new Date(candidates[0].startAt.getTime() - offsetMs) };
+}
@@ -135,6 +135,45 @@ describe('Discordボット', () => {
     expect(json.data).toBeDefined();
   });
 
+  it('should answer autocomplete interactions with template choices', async () => {
+    const mockExecutionContext = {
+      waitUntil: vi.fn(),
+      passThroughOnException: vi.fn(),
+    } as unknown as ExecutionContext;
+
+    const env = {
+      DISCORD_PUBLIC_KEY: publicKey,
+      DISCORD_APPLICATION_ID: 'test_app_id',
+      DISCORD_TOKEN: 'test_token',
+      DB: {} as D1Database,
+    };
+
+    const interaction = {
+      type: InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE,
+      id: 'test_id',
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [
+          {
+            name: 'create',
+            type: 1,
+            options: [{ name: 'template', type: 3, value: '定例', focused: true }],
+          },
+        ],
+      },
+      token: 'test_token',
+    };
+
+    const req = createDiscordRequest(interaction, publicKey, privateKey);
+    const res = await app.fetch(req, env, mockExecutionContext);
+
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as { type: number; data: { choices: unknown[] } };
+    expect(json.type).toBe(InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT);
+    expect(json.data.choices).toEqual([]);
+  });
+
   it('should handle button interactions', async () => {
     const mockExecutionContext = {
       waitUntil: vi.fn(),
@@ -171,4 +210,44 @@ describe('Discordボット', () => {
     expect(json.data?.content).toBe('不明なボタンです。');
     expect(json.data?.flags).toBe(64); // Ephemeral
   });
+
+  it.each([
+    [5, 'USER_SELECT'],
+    [6, 'ROLE_SELECT'],
+    [7, 'MENTIONABLE_SELECT'],
+  ])('should route component_type %i (%s) to the select menu controller', async (componentType) => {
+    const mockExecutionContext = {
+      waitUntil: vi.fn(),
+      passThroughOnException: vi.fn(),
+    } as unknown as ExecutionContext;
+
+    const env = {
+      DISCORD_PUBLIC_KEY: publicKey,
+      DISCORD_APPLICATION_ID: 'test_app_id',
+      DISCORD_TOKEN: 'test_token',
+      DB: {} as D1Database,
+    };
+
+    const interaction = {
+      type: InteractionType.MESSAGE_COMPONENT,
+      id: 'test_id',
+      data: {
+        custom_id: 'unknown:select',
+        component_type: componentType,
+        values: ['123'],
+      },
+      token: 'test_token',
+      message: {
+        id: 'msg_id',
+        embeds: [],
+      },
+    };
+
+    const req = createDiscordRequest(interaction, publicKey, privateKey);
+    const res = await app.fetch(req, env, mockExecutionContext);
+
+    expect(res.status).toBe(200);
+    const json = expectInteractionResponse(await res.json());
+    expect(json.data?.content).toBe('❌ 不明なセレクトメニューです。');
+  });
 });
@@ -4,6 +4,7 @@ import { Hono } from 'hono';
 import type { DeadlineReminderTask } from './application/ports/DeadlineReminderQueuePort';
 import type { MessageUpdateTask } from './application/ports/MessageUpdateQueuePort';
 import { sendDeadlineReminders } from './infrastructure/cron/deadline-reminder';
+import { createRecurringSchedules } from './infrastructure/cron/schedule-recurrence';
 import { Logger } from './infrastructure/logging/Logger';
 import type { ButtonInteraction, CommandInteraction, Env } from './infrastructure/types/discord';
 import { handleDeadlineReminderBatch } from './infrastructure/utils/deadline-reminder-queue';
@@ -77,14 +78,21 @@ app.post('/interactions', async (c) => {
     }
   }
 
+  // オートコンプリート（テンプレート名の候補）を処理
+  if (interaction.type === InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE) {
+    const command = interaction as CommandInteraction;
+    const envWithContext = { ...c.env, ctx: c.executionCtx };
+    return createCommandController(envWithContext).handleAutocomplete(command);
+  }
+
   // ボタンとセレクトメニューインタラクションを処理
   if (interaction.type === InteractionType.MESSAGE_COMPONENT) {
     const component = interaction as ButtonInteraction;
     const envWithContext = { ...c.env, ctx: c.executionCtx };
 
     // セレクトメニューの場合
-    if (component.data.component_type === 3) {
-      // SELECT_MENU
+    // STRING_SELECT / USER_SELECT / ROLE_SELECT / MENTIONABLE_SELECT / CHANNEL_SELECT
+    if ([3, 5, 6, 7, 8].includes(component.data.component_type)) {
       const { createSelectMenuController } = await import(
         './presentation/controllers/SelectMenuController'
       );
@@ -130,10 +138,14 @@ export default {
       scheduledTime: event.scheduledTime,
     });
 
+    // 締切チェックと定期作成は互いの失敗に影響されないよう個別に実行する
+    let failure: unknown;
+
     try {
       await sendDeadlineReminders({ ...env, ctx });
       logger.info('Scheduled deadline check completed successfully');
     } catch (error) {
+      failure = error;
       logger.error(
         'Scheduled deadline check failed',
         error instanceof Error ? error : new Error(String(error)),
@@ -142,7 +154,25 @@ export default {
           errorMessage: error instanceof Error ? error.message : String(error),
         }
       );
-      throw error;
+    }
+
+    try {
+      await createRecurringSchedules({ ...env, ctx });
+      logger.info('Scheduled recurrence check completed successfully');
+    } catch (error) {
+      failure ??= error;
+      logger.error(
+        'Scheduled recurrence check failed',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'scheduled-recurrence-check',
+          errorMessage: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+
+    if (failure) {
+      throw failure;
     }
   },
 };
@@ -6,6 +6,7 @@
 
 import type {
   DeadlineReminderQueuePort,
+  DeadlineReminderSendOptions,
   DeadlineReminderTask,
 } from '../../application/ports/DeadlineReminderQueuePort';
 
@@ -16,10 +17,14 @@ export class DeadlineReminderQueueAdapter implements DeadlineReminderQueuePort {
     await this.queue.send(task);
   }
 
-  async sendBatch(tasks: DeadlineReminderTask[]): Promise<void> {
+  async sendBatch(
+    tasks: DeadlineReminderTask[],
+    options?: DeadlineReminderSendOptions
+  ): Promise<void> {
     await this.queue.sendBatch(
       tasks.map((task) => ({
         body: task,
+        delaySeconds: options?.delaySeconds,
       }))
     );
   }
@@ -6,10 +6,15 @@
  */
 
 import type {
+  CreateGuildScheduledEventOptions,
+  GuildMemberSummary,
   IDiscordApiPort,
+  ListGuildMembersOptions,
   SearchGuildMembersOptions,
+  SendDirectMessageOptions,
   SendMessageOptions,
   SendNotificationOptions,
+  UpdateGuildScheduledEventOptions,
   UpdateMessageOptions,
 } from '../../application/ports/DiscordApiPort';
 import { getLogger } from '../logging/Logger';
@@ -37,6 +42,14 @@ export class DiscordApiAdapter implements IDiscordApiPort {
     });
   }
 
+  async sendDirectMessage(options: SendDirectMessageOptions): Promise<{ id: string }> {
+    return await this.discordApiService.sendDirectMessage({
+      userId: options.userId,
+      message: options.message,
+      botToken: options.botToken,
+    });
+  }
+
   async sendNotification(options: SendNotificationOptions): Promise<void> {
     await this.discordApiService.sendNotification({
       channelId: options.channelId,
@@ -45,6 +58,43 @@ export class DiscordApiAdapter implements IDiscordApiPort {
     });
   }
 
+  async createGuildScheduledEvent(
+    options: CreateGuildScheduledEventOptions
+  ): Promise<{ id: string }> {
+    return await this.discordApiService.createGuildScheduledEvent({
+      guildId: options.guildId,
+      event: options.event,
+      botToken: options.botToken,
+    });
+  }
+
+  async updateGuildScheduledEvent(options: UpdateGuildScheduledEventOptions): Promise<void> {
+    await this.discordApiService.updateGuildScheduledEvent({
+      guildId: options.guildId,
+      eventId: options.eventId,
+      event: options.event,
+      botToken: options.botToken,
+    });
+  }
+
+  async listGuildMembers(options: ListGuildMembersOptions): Promise<GuildMemberSummary[]> {
+    const members = await this.discordApiService.listGuildMembers({
+      guildId: options.guildId,
+      botToken: options.botToken,
+    });
+
+    return members
+      .filter((member) => member.user)
+      .map((member) => ({
+        user: {
+          id: member.user.id,
+          username: member.user.username,
+          bot: member.user.bot,
+        },
+        roles: member.roles,
+      }));
+  }
+
   async searchGuildMembers(options: SearchGuildMembersOptions): Promise<
     Array<{
       user: { id: string; username: string; discriminator: string };
@@ -15,6 +15,7 @@ export const DISCORD_API_CONSTANTS = {
   MAX_MESSAGE_CONTENT_LENGTH: 2000,
   MAX_COMPONENTS_PER_ROW: 5,
   MAX_ACTION_ROWS: 5,
+  MAX_AUTOCOMPLETE_CHOICES: 25,
 
   // レート制限
   WEBHOOK_RATE_LIMIT_PER_MINUTE: 30,
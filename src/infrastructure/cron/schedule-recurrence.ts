@@ -0,0 +1,37 @@
+import { DependencyContainer } from '../../di/DependencyContainer';
+import { getLogger } from '../logging/Logger';
+import type { Env } from '../types/discord';
+
+const logger = getLogger();
+
+export async function createRecurringSchedules(env: Env): Promise<void> {
+  try {
+    const container = new DependencyContainer(env);
+
+    if (!container.processScheduleRecurrencesUseCase) {
+      logger.error(
+        'ProcessScheduleRecurrencesUseCase not available',
+        new Error('Missing Discord credentials or configuration'),
+        {
+          hasDiscordToken: !!env.DISCORD_TOKEN,
+          hasDB: !!env.DB,
+        }
+      );
+      throw new Error(
+        'ProcessScheduleRecurrencesUseCase is not available - check environment configuration'
+      );
+    }
+
+    await container.processScheduleRecurrencesUseCase.execute();
+  } catch (error) {
+    logger.error(
+      'Failed to create recurring schedules',
+      error instanceof Error ? error : new Error(String(error)),
+      {
+        operation: 'createRecurringSchedules',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      }
+    );
+    throw error;
+  }
+}
@@ -273,6 +273,20 @@ export class AuditLogger {
     });
   }
 
+  static scheduleOwnershipTransferred(
+    scheduleId: string,
+    guildId: string,
+    transfer: { fromUserId: string; toUserId: string; transferredBy: string }
+  ): void {
+    AuditLogger.logger.info('Schedule ownership transferred', {
+      event: 'schedule_ownership_transferred',
+      scheduleId,
+      guildId,
+      ...transfer,
+      audit: true,
+    });
+  }
+
   static responseSubmitted(scheduleId: string, userId: string, guildId: string): void {
     AuditLogger.logger.info('Response submitted', {
       event: 'response_submitted',
@@ -1,8 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { D1DatabaseConfig } from '../../types/database';
 import { D1RepositoryFactory } from './factory';
+import { D1GuildSettingsRepository } from './guild-settings-repository';
 import { D1ResponseRepository } from './response-repository';
+import { D1ScheduleRecurrenceRepository } from './schedule-recurrence-repository';
 import { D1ScheduleRepository } from './schedule-repository';
+import { D1ScheduleTemplateRepository } from './schedule-template-repository';
 
 // Mock Logger
 vi.mock('../../logging/Logger', () => ({
@@ -47,6 +50,11 @@ describe('D1RepositoryFactory', () => {
       expect(factory).toBeDefined();
       expect(factory.getScheduleRepository()).toBeInstanceOf(D1ScheduleRepository);
       expect(factory.getResponseRepository()).toBeInstanceOf(D1ResponseRepository);
+      expect(factory.getGuildSettingsRepository()).toBeInstanceOf(D1GuildSettingsRepository);
+      expect(factory.getScheduleTemplateRepository()).toBeInstanceOf(D1ScheduleTemplateRepository);
+      expect(factory.getScheduleRecurrenceRepository()).toBeInstanceOf(
+        D1ScheduleRecurrenceRepository
+      );
     });
 
     it('should throw error with invalid config', () => {
@@ -4,16 +4,22 @@
 
 import type { D1Database } from '@cloudflare/workers-types';
 import type {
+  IGuildSettingsRepository,
   IRepositoryFactory,
   IResponseRepository,
+  IScheduleRecurrenceRepository,
   IScheduleRepository,
+  IScheduleTemplateRepository,
   ITransaction,
 } from '../../../domain/repositories/interfaces';
 import { getLogger } from '../../logging/Logger';
 import type { D1DatabaseConfig } from '../../types/database';
 import { TransactionError } from '../errors';
+import { D1GuildSettingsRepository } from './guild-settings-repository';
 import { D1ResponseRepository } from './response-repository';
+import { D1ScheduleRecurrenceRepository } from './schedule-recurrence-repository';
 import { D1ScheduleRepository } from './schedule-repository';
+import { D1ScheduleTemplateRepository } from './schedule-template-repository';
 
 const logger = getLogger();
 
@@ -70,6 +76,9 @@ class D1Transaction implements ITransaction {
 export class D1RepositoryFactory implements IRepositoryFactory {
   private scheduleRepository: IScheduleRepository;
   private responseRepository: IResponseRepository;
+  private guildSettingsRepository: IGuildSettingsRepository;
+  private scheduleTemplateRepository: IScheduleTemplateRepository;
+  private scheduleRecurrenceRepository: IScheduleRecurrenceRepository;
   private db: D1Database;
 
   constructor(config: D1DatabaseConfig) {
@@ -80,6 +89,9 @@ export class D1RepositoryFactory implements IRepositoryFactory {
     this.db = config.d1Database;
     this.scheduleRepository = new D1ScheduleRepository(this.db);
     this.responseRepository = new D1ResponseRepository(this.db, this.scheduleRepository);
+    this.guildSettingsRepository = new D1GuildSettingsRepository(this.db);
+    this.scheduleTemplateRepository = new D1ScheduleTemplateRepository(this.db);
+    this.scheduleRecurrenceRepository = new D1ScheduleRecurrenceRepository(this.db);
   }
 
   getScheduleRepository(): IScheduleRepository {
@@ -90,6 +102,18 @@ export class D1RepositoryFactory implements IRepositoryFactory {
     return this.responseRepository;
   }
 
+  getGuildSettingsRepository(): IGuildSettingsRepository {
+    return this.guildSettingsRepository;
+  }
+
+  getScheduleTemplateRepository(): IScheduleTemplateRepository {
+    return this.scheduleTemplateRepository;
+  }
+
+  getScheduleRecurrenceRepository(): IScheduleRecurrenceRepository {
+    return this.scheduleRecurrenceRepository;
+  }
+
   async beginTransaction(): Promise<ITransaction> {
     return new D1Transaction(this.db);
   }
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RepositoryError } from '../errors';
+import { D1GuildSettingsRepository } from './guild-settings-repository';
+
+// Mock D1Database
+const createMockD1Database = () => {
+  const mockStatement = {
+    bind: vi.fn().mockReturnThis(),
+    all: vi.fn().mockResolvedValue({ results: [], meta: {} }),
+    first: vi.fn().mockResolvedValue(null),
+    run: vi.fn().mockResolvedValue({ success: true }),
+  };
+
+  return {
+    prepare: vi.fn().mockReturnValue(mockStatement),
+    batch: vi.fn().mockResolvedValue([]),
+    _mockStatement: mockStatement,
+  };
+};
+
+describe('D1GuildSettingsRepository', () => {
+  let repository: D1GuildSettingsRepository;
+  let mockDb: ReturnType<typeof createMockD1Database>;
+
+  beforeEach(() => {
+    mockDb = createMockD1Database();
+    repository = new D1GuildSettingsRepository(mockDb as unknown as D1Database);
+  });
+
+  describe('findByGuildId', () => {
+    it('should return guild settings', async () => {
+      mockDb._mockStatement.first.mockResolvedValueOnce({
+        guild_id: 'guild-123',
+        timezone: 'Europe/London',
+        created_at: 1704067200,
+        updated_at: 1704153600,
+      });
+
+      const result = await repository.findByGuildId('guild-123');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('guild-123');
+      expect(result).toEqual({
+        guildId: 'guild-123',
+        timezone: 'Europe/London',
+        hideResultsBeforeClose: false,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+      });
+    });
+
+    it('should parse default reminder settings and result visibility', async () => {
+      mockDb._mockStatement.first.mockResolvedValueOnce({
+        guild_id: 'guild-123',
+        timezone: null,
+        default_reminder_timings: '["1d","1h"]',
+        default_reminder_mentions: '["<@&role-1>"]',
+        hide_results_before_close: 1,
+        created_at: 1704067200,
+        updated_at: 1704153600,
+      });
+
+      const result = await repository.findByGuildId('guild-123');
+
+      expect(result?.timezone).toBeUndefined();
+      expect(result?.defaultReminderTimings).toEqual(['1d', '1h']);
+      expect(result?.defaultReminderMentions).toEqual(['<@&role-1>']);
+      expect(result?.hideResultsBeforeClose).toBe(true);
+    });
+
+    it('should return null when no settings exist', async () => {
+      const result = await repository.findByGuildId('guild-123');
+
+      expect(result).toBeNull();
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.first.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(repository.findByGuildId('guild-123')).rejects.toThrow(RepositoryError);
+    });
+  });
+
+  describe('save', () => {
+    it('should upsert guild settings', async () => {
+      await repository.save({
+        guildId: 'guild-123',
+        timezone: 'America/New_York',
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+      });
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT(guild_id) DO UPDATE')
+      );
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith(
+        'guild-123',
+        'America/New_York',
+        null,
+        null,
+        0,
+        1704067200,
+        1704153600
+      );
+    });
+  });
+
+  describe('findUserSettings', () => {
+    it('should return user settings without timezone as undefined', async () => {
+      mockDb._mockStatement.first.mockResolvedValueOnce({
+        guild_id: 'guild-123',
+        user_id: 'user-123',
+        timezone: null,
+        created_at: 1704067200,
+        updated_at: 1704067200,
+      });
+
+      const result = await repository.findUserSettings('guild-123', 'user-123');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('guild-123', 'user-123');
+      expect(result?.userId).toBe('user-123');
+      expect(result?.timezone).toBeUndefined();
+    });
+  });
+
+  describe('saveUserSettings', () => {
+    it('should store null when timezone is cleared', async () => {
+      await repository.saveUserSettings({
+        guildId: 'guild-123',
+        userId: 'user-123',
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      });
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith(
+        'guild-123',
+        'user-123',
+        null,
+        1704067200,
+        1704067200
+      );
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.run.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(
+        repository.saveUserSettings({
+          guildId: 'guild-123',
+          userId: 'user-123',
+          timezone: 'UTC',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+      ).rejects.toThrow(RepositoryError);
+    });
+  });
+});
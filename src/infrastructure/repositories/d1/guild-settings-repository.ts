@@ -0,0 +1,122 @@
+/**
+ * D1実装のサーバー・ユーザー設定リポジトリ
+ */
+
+import type { IGuildSettingsRepository } from '../../../domain/repositories/interfaces';
+import type { DomainGuildSettings, DomainUserSettings } from '../../../domain/types/DomainTypes';
+import type { D1GuildSettingsRow, D1UserSettingsRow } from '../../types/database';
+import { RepositoryError } from '../errors';
+
+export class D1GuildSettingsRepository implements IGuildSettingsRepository {
+  constructor(private db: D1Database) {}
+
+  async findByGuildId(guildId: string): Promise<DomainGuildSettings | null> {
+    try {
+      const row = await this.db
+        .prepare(`
+        SELECT * FROM guild_settings
+        WHERE guild_id = ?
+      `)
+        .bind(guildId)
+        .first<D1GuildSettingsRow>();
+
+      if (!row) return null;
+
+      return {
+        guildId: row.guild_id,
+        timezone: row.timezone || undefined,
+        defaultReminderTimings: row.default_reminder_timings
+          ? JSON.parse(row.default_reminder_timings)
+          : undefined,
+        defaultReminderMentions: row.default_reminder_mentions
+          ? JSON.parse(row.default_reminder_mentions)
+          : undefined,
+        hideResultsBeforeClose: row.hide_results_before_close === 1,
+        createdAt: new Date(row.created_at * 1000),
+        updatedAt: new Date(row.updated_at * 1000),
+      };
+    } catch (error) {
+      throw new RepositoryError('Failed to find guild settings', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async save(settings: DomainGuildSettings): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        INSERT INTO guild_settings (
+          guild_id, timezone, default_reminder_timings, default_reminder_mentions,
+          hide_results_before_close, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(guild_id) DO UPDATE SET
+          timezone = excluded.timezone,
+          default_reminder_timings = excluded.default_reminder_timings,
+          default_reminder_mentions = excluded.default_reminder_mentions,
+          hide_results_before_close = excluded.hide_results_before_close,
+          updated_at = excluded.updated_at
+      `)
+        .bind(
+          settings.guildId,
+          settings.timezone || null,
+          settings.defaultReminderTimings ? JSON.stringify(settings.defaultReminderTimings) : null,
+          settings.defaultReminderMentions
+            ? JSON.stringify(settings.defaultReminderMentions)
+            : null,
+          settings.hideResultsBeforeClose ? 1 : 0,
+          Math.floor(settings.createdAt.getTime() / 1000),
+          Math.floor(settings.updatedAt.getTime() / 1000)
+        )
+        .run();
+    } catch (error) {
+      throw new RepositoryError('Failed to save guild settings', 'SAVE_ERROR', error as Error);
+    }
+  }
+
+  async findUserSettings(guildId: string, userId: string): Promise<DomainUserSettings | null> {
+    try {
+      const row = await this.db
+        .prepare(`
+        SELECT * FROM user_settings
+        WHERE guild_id = ? AND user_id = ?
+      `)
+        .bind(guildId, userId)
+        .first<D1UserSettingsRow>();
+
+      if (!row) return null;
+
+      return {
+        guildId: row.guild_id,
+        userId: row.user_id,
+        timezone: row.timezone || undefined,
+        createdAt: new Date(row.created_at * 1000),
+        updatedAt: new Date(row.updated_at * 1000),
+      };
+    } catch (error) {
+      throw new RepositoryError('Failed to find user settings', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async saveUserSettings(settings: DomainUserSettings): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        INSERT INTO user_settings (guild_id, user_id, timezone, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(guild_id, user_id) DO UPDATE SET
+          timezone = excluded.timezone,
+          updated_at = excluded.updated_at
+      `)
+        .bind(
+          settings.guildId,
+          settings.userId,
+          settings.timezone || null,
+          Math.floor(settings.createdAt.getTime() / 1000),
+          Math.floor(settings.updatedAt.getTime() / 1000)
+        )
+        .run();
+    } catch (error) {
+      throw new RepositoryError('Failed to save user settings', 'SAVE_ERROR', error as Error);
+    }
+  }
+}
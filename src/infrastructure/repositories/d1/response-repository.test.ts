@@ -90,6 +90,7 @@ describe('D1ResponseRepository', () => {
         'user-456',
         'RespondentUser',
         null, // displayName
+        null, // comment
         expect.any(Number) // updatedAt
       );
 
@@ -36,11 +36,12 @@ export class D1ResponseRepository implements IResponseRepository {
         .prepare(`
         INSERT INTO responses (
           schedule_id, guild_id, user_id, username, display_name, 
-          updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?)
+          comment, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(schedule_id, user_id) DO UPDATE SET
           username = excluded.username,
           display_name = excluded.display_name,
+          comment = excluded.comment,
           updated_at = excluded.updated_at
         RETURNING id
       `)
@@ -50,6 +51,7 @@ export class D1ResponseRepository implements IResponseRepository {
           response.userId,
           response.username,
           response.displayName || null,
+          response.comment || null,
           Math.floor(response.updatedAt.getTime() / 1000)
         )
         .first<{ id: number }>();
@@ -343,6 +345,7 @@ export class D1ResponseRepository implements IResponseRepository {
       username: r.username as string,
       displayName: (r.display_name as string) || undefined,
       dateStatuses,
+      comment: (r.comment as string) || undefined,
       updatedAt: new Date((r.updated_at as number) * 1000),
     };
   }
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RepositoryError } from '../errors';
+import { D1ScheduleRecurrenceRepository } from './schedule-recurrence-repository';
+
+// Mock D1Database
+const createMockD1Database = () => {
+  const mockStatement = {
+    bind: vi.fn().mockReturnThis(),
+    all: vi.fn().mockResolvedValue({ results: [], meta: {} }),
+    first: vi.fn().mockResolvedValue(null),
+    run: vi.fn().mockResolvedValue({ success: true }),
+  };
+
+  return {
+    prepare: vi.fn().mockReturnValue(mockStatement),
+    batch: vi.fn().mockResolvedValue([]),
+    _mockStatement: mockStatement,
+  };
+};
+
+describe('D1ScheduleRecurrenceRepository', () => {
+  let repository: D1ScheduleRecurrenceRepository;
+  let mockDb: ReturnType<typeof createMockD1Database>;
+
+  const recurrenceRow = {
+    id: 'recurrence-1',
+    guild_id: 'guild-123',
+    channel_id: 'channel-123',
+    author_id: 'user-123',
+    author_username: 'TestUser',
+    title: '定例会',
+    description: null,
+    reminder_timings: '["1d"]',
+    reminder_mentions: null,
+    reminder_mode: 'non_respondents',
+    dm_reminders: 1,
+    invited_user_ids: null,
+    invited_role_ids: '["role-1"]',
+    run_weekday: 1,
+    run_time: '09:00',
+    timezone: 'Asia/Tokyo',
+    candidate_rule: '来週 火-木 20:00',
+    deadline_offset: '1d',
+    paused: 0,
+    next_run_at: 1704067200,
+    last_run_at: null,
+    created_at: 1704067200,
+    updated_at: 1704153600,
+  };
+
+  beforeEach(() => {
+    mockDb = createMockD1Database();
+    repository = new D1ScheduleRecurrenceRepository(mockDb as unknown as D1Database);
+  });
+
+  describe('findByGuild', () => {
+    it('should return recurrences mapped to the domain', async () => {
+      mockDb._mockStatement.all.mockResolvedValueOnce({ results: [recurrenceRow], meta: {} });
+
+      const result = await repository.findByGuild('guild-123');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('guild-123');
+      expect(result).toEqual([
+        {
+          id: 'recurrence-1',
+          guildId: 'guild-123',
+          channelId: 'channel-123',
+          authorId: 'user-123',
+          authorUsername: 'TestUser',
+          title: '定例会',
+          description: undefined,
+          reminderTimings: ['1d'],
+          reminderMentions: undefined,
+          reminderMode: 'non_respondents',
+          dmReminders: true,
+          invitedUserIds: undefined,
+          invitedRoleIds: ['role-1'],
+          runWeekday: 1,
+          runTime: '09:00',
+          timezone: 'Asia/Tokyo',
+          candidateRule: '来週 火-木 20:00',
+          deadlineOffset: '1d',
+          paused: false,
+          nextRunAt: new Date('2024-01-01T00:00:00.000Z'),
+          lastRunAt: undefined,
+          createdAt: new Date('2024-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+        },
+      ]);
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.all.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(repository.findByGuild('guild-123')).rejects.toThrow(RepositoryError);
+    });
+  });
+
+  describe('findDue', () => {
+    it('should query active recurrences whose next run has come', async () => {
+      await repository.findDue(new Date('2024-01-01T00:00:00.000Z'), 20);
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE paused = 0 AND next_run_at <= ?')
+      );
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith(1704067200, 20);
+    });
+  });
+
+  describe('save', () => {
+    it('should upsert the recurrence', async () => {
+      await repository.save({
+        id: 'recurrence-1',
+        guildId: 'guild-123',
+        channelId: 'channel-123',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+        title: '定例会',
+        runWeekday: 1,
+        runTime: '09:00',
+        timezone: 'Asia/Tokyo',
+        candidateRule: '来週 火-木 20:00',
+        paused: true,
+        nextRunAt: new Date('2024-01-01T00:00:00.000Z'),
+        lastRunAt: new Date('2023-12-25T00:00:00.000Z'),
+        createdAt: new Date('2023-12-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+      });
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT(id) DO UPDATE')
+      );
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith(
+        'recurrence-1',
+        'guild-123',
+        'channel-123',
+        'user-123',
+        'TestUser',
+        '定例会',
+        null,
+        null,
+        null,
+        null,
+        0,
+        null,
+        null,
+        1,
+        '09:00',
+        'Asia/Tokyo',
+        '来週 火-木 20:00',
+        null,
+        1,
+        1704067200,
+        1703462400,
+        1701388800,
+        1704153600
+      );
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.run.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(
+        repository.save({
+          id: 'recurrence-1',
+          guildId: 'guild-123',
+          channelId: 'channel-123',
+          authorId: 'user-123',
+          authorUsername: 'TestUser',
+          title: '定例会',
+          runWeekday: 1,
+          runTime: '09:00',
+          timezone: 'Asia/Tokyo',
+          candidateRule: '来週 火-木 20:00',
+          paused: false,
+          nextRunAt: new Date(),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+      ).rejects.toThrow(RepositoryError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the recurrence within the guild', async () => {
+      await repository.delete('recurrence-1', 'guild-123');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('recurrence-1', 'guild-123');
+      expect(mockDb._mockStatement.run).toHaveBeenCalled();
+    });
+  });
+});
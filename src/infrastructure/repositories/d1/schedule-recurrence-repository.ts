@@ -0,0 +1,184 @@
+/**
+ * D1実装の定期作成リポジトリ
+ */
+
+import type { IScheduleRecurrenceRepository } from '../../../domain/repositories/interfaces';
+import type {
+  DomainReminderMode,
+  DomainScheduleRecurrence,
+} from '../../../domain/types/DomainTypes';
+import type { D1ScheduleRecurrenceRow } from '../../types/database';
+import { RepositoryError } from '../errors';
+
+export class D1ScheduleRecurrenceRepository implements IScheduleRecurrenceRepository {
+  constructor(private db: D1Database) {}
+
+  async findByGuild(guildId: string): Promise<DomainScheduleRecurrence[]> {
+    try {
+      const result = await this.db
+        .prepare(`
+        SELECT * FROM schedule_recurrences
+        WHERE guild_id = ?
+        ORDER BY created_at ASC
+      `)
+        .bind(guildId)
+        .all<D1ScheduleRecurrenceRow>();
+
+      return (result.results || []).map((row) => this.mapRowToDomain(row));
+    } catch (error) {
+      throw new RepositoryError(
+        'Failed to find schedule recurrences',
+        'FIND_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  async findById(recurrenceId: string, guildId: string): Promise<DomainScheduleRecurrence | null> {
+    try {
+      const row = await this.db
+        .prepare(`
+        SELECT * FROM schedule_recurrences
+        WHERE id = ? AND guild_id = ?
+      `)
+        .bind(recurrenceId, guildId)
+        .first<D1ScheduleRecurrenceRow>();
+
+      return row ? this.mapRowToDomain(row) : null;
+    } catch (error) {
+      throw new RepositoryError('Failed to find schedule recurrence', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async findDue(now: Date, limit: number): Promise<DomainScheduleRecurrence[]> {
+    try {
+      const result = await this.db
+        .prepare(`
+        SELECT * FROM schedule_recurrences
+        WHERE paused = 0 AND next_run_at <= ?
+        ORDER BY next_run_at ASC
+        LIMIT ?
+      `)
+        .bind(Math.floor(now.getTime() / 1000), limit)
+        .all<D1ScheduleRecurrenceRow>();
+
+      return (result.results || []).map((row) => this.mapRowToDomain(row));
+    } catch (error) {
+      throw new RepositoryError(
+        'Failed to find due schedule recurrences',
+        'FIND_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  async save(recurrence: DomainScheduleRecurrence): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        INSERT INTO schedule_recurrences (
+          id, guild_id, channel_id, author_id, author_username, title, description,
+          reminder_timings, reminder_mentions, reminder_mode, dm_reminders,
+          invited_user_ids, invited_role_ids,
+          run_weekday, run_time, timezone, candidate_rule, deadline_offset,
+          paused, next_run_at, last_run_at, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          author_id = excluded.author_id,
+          author_username = excluded.author_username,
+          title = excluded.title,
+          description = excluded.description,
+          reminder_timings = excluded.reminder_timings,
+          reminder_mentions = excluded.reminder_mentions,
+          reminder_mode = excluded.reminder_mode,
+          dm_reminders = excluded.dm_reminders,
+          invited_user_ids = excluded.invited_user_ids,
+          invited_role_ids = excluded.invited_role_ids,
+          run_weekday = excluded.run_weekday,
+          run_time = excluded.run_time,
+          timezone = excluded.timezone,
+          candidate_rule = excluded.candidate_rule,
+          deadline_offset = excluded.deadline_offset,
+          paused = excluded.paused,
+          next_run_at = excluded.next_run_at,
+          last_run_at = excluded.last_run_at,
+          updated_at = excluded.updated_at
+      `)
+        .bind(
+          recurrence.id,
+          recurrence.guildId,
+          recurrence.channelId,
+          recurrence.authorId,
+          recurrence.authorUsername,
+          recurrence.title,
+          recurrence.description || null,
+          recurrence.reminderTimings ? JSON.stringify(recurrence.reminderTimings) : null,
+          recurrence.reminderMentions ? JSON.stringify(recurrence.reminderMentions) : null,
+          recurrence.reminderMode || null,
+          recurrence.dmReminders ? 1 : 0,
+          recurrence.invitedUserIds?.length ? JSON.stringify(recurrence.invitedUserIds) : null,
+          recurrence.invitedRoleIds?.length ? JSON.stringify(recurrence.invitedRoleIds) : null,
+          recurrence.runWeekday,
+          recurrence.runTime,
+          recurrence.timezone,
+          recurrence.candidateRule,
+          recurrence.deadlineOffset || null,
+          recurrence.paused ? 1 : 0,
+          Math.floor(recurrence.nextRunAt.getTime() / 1000),
+          recurrence.lastRunAt ? Math.floor(recurrence.lastRunAt.getTime() / 1000) : null,
+          Math.floor(recurrence.createdAt.getTime() / 1000),
+          Math.floor(recurrence.updatedAt.getTime() / 1000)
+        )
+        .run();
+    } catch (error) {
+      throw new RepositoryError('Failed to save schedule recurrence', 'SAVE_ERROR', error as Error);
+    }
+  }
+
+  async delete(recurrenceId: string, guildId: string): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        DELETE FROM schedule_recurrences
+        WHERE id = ? AND guild_id = ?
+      `)
+        .bind(recurrenceId, guildId)
+        .run();
+    } catch (error) {
+      throw new RepositoryError(
+        'Failed to delete schedule recurrence',
+        'DELETE_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  private mapRowToDomain(row: D1ScheduleRecurrenceRow): DomainScheduleRecurrence {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      channelId: row.channel_id,
+      authorId: row.author_id,
+      authorUsername: row.author_username,
+      title: row.title,
+      description: row.description || undefined,
+      reminderTimings: row.reminder_timings ? JSON.parse(row.reminder_timings) : undefined,
+      reminderMentions: row.reminder_mentions ? JSON.parse(row.reminder_mentions) : undefined,
+      reminderMode: (row.reminder_mode as DomainReminderMode | null) || undefined,
+      dmReminders: row.dm_reminders === 1,
+      invitedUserIds: row.invited_user_ids ? JSON.parse(row.invited_user_ids) : undefined,
+      invitedRoleIds: row.invited_role_ids ? JSON.parse(row.invited_role_ids) : undefined,
+      runWeekday: row.run_weekday,
+      runTime: row.run_time,
+      timezone: row.timezone,
+      candidateRule: row.candidate_rule,
+      deadlineOffset: row.deadline_offset || undefined,
+      paused: row.paused === 1,
+      nextRunAt: new Date(row.next_run_at * 1000),
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at * 1000) : undefined,
+      createdAt: new Date(row.created_at * 1000),
+      updatedAt: new Date(row.updated_at * 1000),
+    };
+  }
+}
@@ -29,6 +29,14 @@ interface ScheduleRow {
   status: string;
   notification_sent: number;
   total_responses: number;
+  decided_date_id?: string | null;
+  guild_event_id?: string | null;
+  hide_results_before_close?: number;
+  invited_user_ids?: string | null;
+  invited_role_ids?: string | null;
+  reminder_mode?: string | null;
+  dm_reminders?: number;
+  co_organizer_ids?: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -36,6 +44,8 @@ interface ScheduleRow {
 interface ScheduleDateRow {
   date_id: string;
   datetime: string;
+  start_at?: number | null;
+  end_at?: number | null;
 }
 
 export class D1ScheduleRepository implements IScheduleRepository {
@@ -59,14 +69,18 @@ export class D1ScheduleRepository implements IScheduleRepository {
             id, guild_id, channel_id, message_id, title, description,
             created_by_id, created_by_username, author_id,
             deadline, reminder_timings, reminder_mentions, reminders_sent,
-            status, notification_sent, total_responses,
-            created_at, updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            status, notification_sent, total_responses, decided_date_id, guild_event_id,
+            hide_results_before_close, invited_user_ids, invited_role_ids, reminder_mode,
+            dm_reminders, co_organizer_ids, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           ON CONFLICT(id) DO UPDATE SET
             channel_id = excluded.channel_id,
             message_id = excluded.message_id,
             title = excluded.title,
             description = excluded.description,
+            created_by_id = excluded.created_by_id,
+            created_by_username = excluded.created_by_username,
+            author_id = excluded.author_id,
             deadline = excluded.deadline,
             reminder_timings = excluded.reminder_timings,
             reminder_mentions = excluded.reminder_mentions,
@@ -74,6 +88,14 @@ export class D1ScheduleRepository implements IScheduleRepository {
             status = excluded.status,
             notification_sent = excluded.notification_sent,
             total_responses = excluded.total_responses,
+            decided_date_id = excluded.decided_date_id,
+            guild_event_id = excluded.guild_event_id,
+            hide_results_before_close = excluded.hide_results_before_close,
+            invited_user_ids = excluded.invited_user_ids,
+            invited_role_ids = excluded.invited_role_ids,
+            reminder_mode = excluded.reminder_mode,
+            dm_reminders = excluded.dm_reminders,
+            co_organizer_ids = excluded.co_organizer_ids,
             updated_at = excluded.updated_at
         `)
           .bind(
@@ -93,6 +115,14 @@ export class D1ScheduleRepository implements IScheduleRepository {
             schedule.status,
             schedule.notificationSent ? 1 : 0,
             schedule.totalResponses,
+            schedule.decidedDateId || null,
+            schedule.guildEventId || null,
+            schedule.hideResultsBeforeClose ? 1 : 0,
+            schedule.invitedUserIds?.length ? JSON.stringify(schedule.invitedUserIds) : null,
+            schedule.invitedRoleIds?.length ? JSON.stringify(schedule.invitedRoleIds) : null,
+            schedule.reminderMode || null,
+            schedule.dmReminders ? 1 : 0,
+            schedule.coOrganizerIds?.length ? JSON.stringify(schedule.coOrganizerIds) : null,
             Math.floor(schedule.createdAt.getTime() / 1000),
             Math.floor(schedule.updatedAt.getTime() / 1000)
           ),
@@ -101,10 +131,20 @@ export class D1ScheduleRepository implements IScheduleRepository {
         ...schedule.dates.map((date, index) =>
           this.db
             .prepare(`
-            INSERT INTO schedule_dates (id, schedule_id, date_id, datetime, display_order)
-            VALUES (?, ?, ?, ?, ?)
+            INSERT INTO schedule_dates (
+              id, schedule_id, date_id, datetime, start_at, end_at, display_order
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?)
           `)
-            .bind(`${schedule.id}_${date.id}`, schedule.id, date.id, date.datetime, index)
+            .bind(
+              `${schedule.id}_${date.id}`,
+              schedule.id,
+              date.id,
+              date.datetime,
+              date.startAt ? Math.floor(date.startAt.getTime() / 1000) : null,
+              date.endAt ? Math.floor(date.endAt.getTime() / 1000) : null,
+              index
+            )
         ),
       ]);
 
@@ -136,10 +176,20 @@ export class D1ScheduleRepository implements IScheduleRepository {
           s.status,
           s.notification_sent,
           s.total_responses,
+          s.decided_date_id,
+          s.guild_event_id,
+          s.hide_results_before_close,
+          s.invited_user_ids,
+          s.invited_role_ids,
+          s.reminder_mode,
+          s.dm_reminders,
+          s.co_organizer_ids,
           s.created_at,
           s.updated_at,
           sd.date_id,
           sd.datetime,
+          sd.start_at,
+          sd.end_at,
           sd.display_order
         FROM schedules s
         LEFT JOIN schedule_dates sd ON s.id = sd.schedule_id
@@ -170,6 +220,14 @@ export class D1ScheduleRepository implements IScheduleRepository {
         status: firstRow.status,
         notification_sent: firstRow.notification_sent,
         total_responses: firstRow.total_responses,
+        decided_date_id: firstRow.decided_date_id,
+        guild_event_id: firstRow.guild_event_id,
+        hide_results_before_close: firstRow.hide_results_before_close,
+        invited_user_ids: firstRow.invited_user_ids,
+        invited_role_ids: firstRow.invited_role_ids,
+        reminder_mode: firstRow.reminder_mode,
+        dm_reminders: firstRow.dm_reminders,
+        co_organizer_ids: firstRow.co_organizer_ids,
         created_at: firstRow.created_at,
         updated_at: firstRow.updated_at,
       };
@@ -185,6 +243,8 @@ export class D1ScheduleRepository implements IScheduleRepository {
           return {
             date_id: r.date_id as string,
             datetime: r.datetime as string,
+            start_at: r.start_at,
+            end_at: r.end_at,
             display_order: r.display_order || 0,
           };
         });
@@ -213,7 +273,7 @@ export class D1ScheduleRepository implements IScheduleRepository {
       const dateQueries = scheduleRows.map((row) =>
         this.db
           .prepare(`
-          SELECT date_id, datetime FROM schedule_dates 
+          SELECT date_id, datetime, start_at, end_at FROM schedule_dates 
           WHERE schedule_id = ? 
           ORDER BY display_order
         `)
@@ -271,7 +331,7 @@ export class D1ScheduleRepository implements IScheduleRepository {
       const dateQueries = scheduleRows.map((row) =>
         this.db
           .prepare(`
-          SELECT date_id, datetime FROM schedule_dates 
+          SELECT date_id, datetime, start_at, end_at FROM schedule_dates 
           WHERE schedule_id = ? 
           ORDER BY display_order
         `)
@@ -329,7 +389,7 @@ export class D1ScheduleRepository implements IScheduleRepository {
 
       const datesResult = await this.db
         .prepare(`
-        SELECT date_id, datetime FROM schedule_dates 
+        SELECT date_id, datetime, start_at, end_at FROM schedule_dates 
         WHERE schedule_id = ? 
         ORDER BY display_order
       `)
@@ -407,6 +467,8 @@ export class D1ScheduleRepository implements IScheduleRepository {
     const dates: DomainScheduleDate[] = dateRows.map((dateRow) => ({
       id: dateRow.date_id,
       datetime: dateRow.datetime,
+      startAt: dateRow.start_at ? new Date(dateRow.start_at * 1000) : undefined,
+      endAt: dateRow.end_at ? new Date(dateRow.end_at * 1000) : undefined,
     }));
 
     return {
@@ -429,6 +491,14 @@ export class D1ScheduleRepository implements IScheduleRepository {
       status: row.status as 'open' | 'closed',
       notificationSent: row.notification_sent === 1,
       totalResponses: row.total_responses,
+      decidedDateId: row.decided_date_id || undefined,
+      guildEventId: row.guild_event_id || undefined,
+      hideResultsBeforeClose: row.hide_results_before_close === 1,
+      invitedUserIds: row.invited_user_ids ? JSON.parse(row.invited_user_ids) : [],
+      invitedRoleIds: row.invited_role_ids ? JSON.parse(row.invited_role_ids) : [],
+      reminderMode: row.reminder_mode === 'non_respondents' ? 'non_respondents' : 'mentions',
+      dmReminders: row.dm_reminders === 1,
+      coOrganizerIds: row.co_organizer_ids ? JSON.parse(row.co_organizer_ids) : [],
       createdAt: new Date(row.created_at * 1000),
       updatedAt: new Date(row.updated_at * 1000),
     };
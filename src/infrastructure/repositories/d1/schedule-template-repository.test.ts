@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RepositoryError } from '../errors';
+import { D1ScheduleTemplateRepository } from './schedule-template-repository';
+
+// Mock D1Database
+const createMockD1Database = () => {
+  const mockStatement = {
+    bind: vi.fn().mockReturnThis(),
+    all: vi.fn().mockResolvedValue({ results: [], meta: {} }),
+    first: vi.fn().mockResolvedValue(null),
+    run: vi.fn().mockResolvedValue({ success: true }),
+  };
+
+  return {
+    prepare: vi.fn().mockReturnValue(mockStatement),
+    batch: vi.fn().mockResolvedValue([]),
+    _mockStatement: mockStatement,
+  };
+};
+
+describe('D1ScheduleTemplateRepository', () => {
+  let repository: D1ScheduleTemplateRepository;
+  let mockDb: ReturnType<typeof createMockD1Database>;
+
+  const templateRow = {
+    id: 'template-1',
+    guild_id: 'guild-123',
+    name: '定例会',
+    title: '定例会',
+    description: null,
+    dates: '["毎週水曜 19:00","毎週木曜 19:00"]',
+    reminder_timings: '["1d"]',
+    reminder_mentions: null,
+    invited_user_ids: null,
+    invited_role_ids: '["role-1"]',
+    created_by_id: 'user-123',
+    created_at: 1704067200,
+    updated_at: 1704153600,
+  };
+
+  beforeEach(() => {
+    mockDb = createMockD1Database();
+    repository = new D1ScheduleTemplateRepository(mockDb as unknown as D1Database);
+  });
+
+  describe('findByGuild', () => {
+    it('should return templates ordered by name', async () => {
+      mockDb._mockStatement.all.mockResolvedValueOnce({ results: [templateRow], meta: {} });
+
+      const result = await repository.findByGuild('guild-123');
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(expect.stringContaining('ORDER BY name ASC'));
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('guild-123');
+      expect(result).toEqual([
+        {
+          id: 'template-1',
+          guildId: 'guild-123',
+          name: '定例会',
+          title: '定例会',
+          description: undefined,
+          dates: ['毎週水曜 19:00', '毎週木曜 19:00'],
+          reminderTimings: ['1d'],
+          reminderMentions: undefined,
+          invitedUserIds: undefined,
+          invitedRoleIds: ['role-1'],
+          createdById: 'user-123',
+          createdAt: new Date('2024-01-01T00:00:00.000Z'),
+          updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+        },
+      ]);
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.all.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(repository.findByGuild('guild-123')).rejects.toThrow(RepositoryError);
+    });
+  });
+
+  describe('findByName', () => {
+    it('should look up a template by guild and name', async () => {
+      mockDb._mockStatement.first.mockResolvedValueOnce(templateRow);
+
+      const result = await repository.findByName('guild-123', '定例会');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('guild-123', '定例会');
+      expect(result?.id).toBe('template-1');
+    });
+
+    it('should return null when no template exists', async () => {
+      const result = await repository.findById('template-1', 'guild-123');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('save', () => {
+    it('should upsert the template with JSON columns', async () => {
+      await repository.save({
+        id: 'template-1',
+        guildId: 'guild-123',
+        name: '定例会',
+        title: '定例会',
+        dates: ['毎週水曜 19:00'],
+        reminderTimings: ['1d'],
+        invitedUserIds: [],
+        createdById: 'user-123',
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+      });
+
+      expect(mockDb.prepare).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT(id) DO UPDATE')
+      );
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith(
+        'template-1',
+        'guild-123',
+        '定例会',
+        '定例会',
+        null,
+        '["毎週水曜 19:00"]',
+        '["1d"]',
+        null,
+        null,
+        null,
+        'user-123',
+        1704067200,
+        1704153600
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the template within the guild', async () => {
+      await repository.delete('template-1', 'guild-123');
+
+      expect(mockDb._mockStatement.bind).toHaveBeenCalledWith('template-1', 'guild-123');
+      expect(mockDb._mockStatement.run).toHaveBeenCalled();
+    });
+
+    it('should wrap database errors', async () => {
+      mockDb._mockStatement.run.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(repository.delete('template-1', 'guild-123')).rejects.toThrow(RepositoryError);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * D1実装の日程調整テンプレートリポジトリ
+ */
+
+import type { IScheduleTemplateRepository } from '../../../domain/repositories/interfaces';
+import type { DomainScheduleTemplate } from '../../../domain/types/DomainTypes';
+import type { D1ScheduleTemplateRow } from '../../types/database';
+import { RepositoryError } from '../errors';
+
+export class D1ScheduleTemplateRepository implements IScheduleTemplateRepository {
+  constructor(private db: D1Database) {}
+
+  async findByGuild(guildId: string): Promise<DomainScheduleTemplate[]> {
+    try {
+      const result = await this.db
+        .prepare(`
+        SELECT * FROM schedule_templates
+        WHERE guild_id = ?
+        ORDER BY name ASC
+      `)
+        .bind(guildId)
+        .all<D1ScheduleTemplateRow>();
+
+      return (result.results || []).map((row) => this.mapRowToDomain(row));
+    } catch (error) {
+      throw new RepositoryError('Failed to find schedule templates', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async findById(templateId: string, guildId: string): Promise<DomainScheduleTemplate | null> {
+    try {
+      const row = await this.db
+        .prepare(`
+        SELECT * FROM schedule_templates
+        WHERE id = ? AND guild_id = ?
+      `)
+        .bind(templateId, guildId)
+        .first<D1ScheduleTemplateRow>();
+
+      return row ? this.mapRowToDomain(row) : null;
+    } catch (error) {
+      throw new RepositoryError('Failed to find schedule template', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async findByName(guildId: string, name: string): Promise<DomainScheduleTemplate | null> {
+    try {
+      const row = await this.db
+        .prepare(`
+        SELECT * FROM schedule_templates
+        WHERE guild_id = ? AND name = ?
+      `)
+        .bind(guildId, name)
+        .first<D1ScheduleTemplateRow>();
+
+      return row ? this.mapRowToDomain(row) : null;
+    } catch (error) {
+      throw new RepositoryError('Failed to find schedule template', 'FIND_ERROR', error as Error);
+    }
+  }
+
+  async save(template: DomainScheduleTemplate): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        INSERT INTO schedule_templates (
+          id, guild_id, name, title, description, dates,
+          reminder_timings, reminder_mentions, invited_user_ids, invited_role_ids,
+          created_by_id, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          title = excluded.title,
+          description = excluded.description,
+          dates = excluded.dates,
+          reminder_timings = excluded.reminder_timings,
+          reminder_mentions = excluded.reminder_mentions,
+          invited_user_ids = excluded.invited_user_ids,
+          invited_role_ids = excluded.invited_role_ids,
+          updated_at = excluded.updated_at
+      `)
+        .bind(
+          template.id,
+          template.guildId,
+          template.name,
+          template.title,
+          template.description || null,
+          JSON.stringify(template.dates),
+          template.reminderTimings ? JSON.stringify(template.reminderTimings) : null,
+          template.reminderMentions ? JSON.stringify(template.reminderMentions) : null,
+          template.invitedUserIds?.length ? JSON.stringify(template.invitedUserIds) : null,
+          template.invitedRoleIds?.length ? JSON.stringify(template.invitedRoleIds) : null,
+          template.createdById,
+          Math.floor(template.createdAt.getTime() / 1000),
+          Math.floor(template.updatedAt.getTime() / 1000)
+        )
+        .run();
+    } catch (error) {
+      throw new RepositoryError('Failed to save schedule template', 'SAVE_ERROR', error as Error);
+    }
+  }
+
+  async delete(templateId: string, guildId: string): Promise<void> {
+    try {
+      await this.db
+        .prepare(`
+        DELETE FROM schedule_templates
+        WHERE id = ? AND guild_id = ?
+      `)
+        .bind(templateId, guildId)
+        .run();
+    } catch (error) {
+      throw new RepositoryError(
+        'Failed to delete schedule template',
+        'DELETE_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  private mapRowToDomain(row: D1ScheduleTemplateRow): DomainScheduleTemplate {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      name: row.name,
+      title: row.title,
+      description: row.description || undefined,
+      dates: JSON.parse(row.dates),
+      reminderTimings: row.reminder_timings ? JSON.parse(row.reminder_timings) : undefined,
+      reminderMentions: row.reminder_mentions ? JSON.parse(row.reminder_mentions) : undefined,
+      invitedUserIds: row.invited_user_ids ? JSON.parse(row.invited_user_ids) : undefined,
+      invitedRoleIds: row.invited_role_ids ? JSON.parse(row.invited_role_ids) : undefined,
+      createdById: row.created_by_id,
+      createdAt: new Date(row.created_at * 1000),
+      updatedAt: new Date(row.updated_at * 1000),
+    };
+  }
+}
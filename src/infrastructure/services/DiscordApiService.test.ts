@@ -160,6 +160,61 @@ describe('DiscordApiService', () => {
     });
   });
 
+  describe('listGuildMembers', () => {
+    const createMembers = (count: number, offset = 0) =>
+      Array.from({ length: count }, (_, index) => ({
+        user: { id: `${offset + index + 1}`, username: `user${offset + index + 1}` },
+        roles: [],
+      }));
+
+    it('should page through members using the last user id', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce({ ok: true, json: async () => createMembers(1000) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => createMembers(2, 1000) } as Response);
+
+      const result = await service.listGuildMembers({
+        guildId: 'guild-123',
+        botToken: 'bot-token',
+      });
+
+      expect(result).toHaveLength(1002);
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        1,
+        'https://discord.com/api/v10/guilds/guild-123/members?limit=1000&after=0',
+        { headers: { Authorization: 'Bot bot-token' } }
+      );
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        2,
+        'https://discord.com/api/v10/guilds/guild-123/members?limit=1000&after=1000',
+        { headers: { Authorization: 'Bot bot-token' } }
+      );
+    });
+
+    it('should stop at the maximum member count', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => createMembers(10),
+      } as Response);
+
+      const result = await service.listGuildMembers({
+        guildId: 'guild-123',
+        botToken: 'bot-token',
+        maxMembers: 10,
+      });
+
+      expect(result).toHaveLength(10);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error when the request fails', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+      await expect(
+        service.listGuildMembers({ guildId: 'guild-123', botToken: 'bot-token' })
+      ).rejects.toThrow('Failed to list guild members: 403');
+    });
+  });
+
   describe('sendMessage', () => {
     it('should send a message to a channel', async () => {
       const mockResponse = {
@@ -207,6 +262,50 @@ describe('DiscordApiService', () => {
     });
   });
 
+  describe('sendDirectMessage', () => {
+    it('should open a DM channel and send the message to it', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'dm-channel' }) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'dm-message' }) } as Response);
+
+      const result = await service.sendDirectMessage({
+        userId: 'user-123',
+        message: { content: 'Reminder' },
+        botToken: 'bot-token',
+      });
+
+      expect(result).toEqual({ id: 'dm-message' });
+      expect(global.fetch).toHaveBeenNthCalledWith(
+        1,
+        'https://discord.com/api/v10/users/@me/channels',
+        {
+          method: 'POST',
+          headers: {
+            Authorization: 'Bot bot-token',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ recipient_id: 'user-123' }),
+        }
+      );
+      expect(vi.mocked(global.fetch).mock.calls[1][0]).toBe(
+        'https://discord.com/api/v10/channels/dm-channel/messages'
+      );
+    });
+
+    it('should throw error when the DM channel cannot be created', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+      await expect(
+        service.sendDirectMessage({
+          userId: 'user-123',
+          message: { content: 'Reminder' },
+          botToken: 'bot-token',
+        })
+      ).rejects.toThrow('Failed to create DM channel: 403');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('sendNotification', () => {
     it('should send a notification to a channel', async () => {
       const mockResponse = {
@@ -235,6 +334,104 @@ describe('DiscordApiService', () => {
     });
   });
 
+  describe('createGuildScheduledEvent', () => {
+    const event = {
+      name: '忘年会',
+      description: '今年もお疲れさまでした',
+      scheduledStartTime: new Date('2026-12-25T10:00:00.000Z'),
+      scheduledEndTime: new Date('2026-12-25T12:00:00.000Z'),
+    };
+
+    it('should create an external event with location', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'event-123' }),
+      } as Response);
+
+      const result = await service.createGuildScheduledEvent({
+        guildId: 'guild-123',
+        event: { ...event, location: 'https://discord.com/channels/guild-123/channel-123' },
+        botToken: 'bot-token',
+      });
+
+      expect(result).toEqual({ id: 'event-123' });
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe('https://discord.com/api/v10/guilds/guild-123/scheduled-events');
+      expect(init?.method).toBe('POST');
+      expect(JSON.parse(init?.body as string)).toEqual({
+        name: '忘年会',
+        description: '今年もお疲れさまでした',
+        scheduled_start_time: '2026-12-25T10:00:00.000Z',
+        scheduled_end_time: '2026-12-25T12:00:00.000Z',
+        entity_type: 3,
+        channel_id: null,
+        entity_metadata: { location: 'https://discord.com/channels/guild-123/channel-123' },
+        privacy_level: 2,
+      });
+    });
+
+    it('should create a voice channel event', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'event-456' }),
+      } as Response);
+
+      await service.createGuildScheduledEvent({
+        guildId: 'guild-123',
+        event: { ...event, voiceChannelId: 'voice-123' },
+        botToken: 'bot-token',
+      });
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+      expect(body.entity_type).toBe(2);
+      expect(body.channel_id).toBe('voice-123');
+      expect(body.entity_metadata).toBeNull();
+    });
+
+    it('should throw error when creating event fails', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+      await expect(
+        service.createGuildScheduledEvent({
+          guildId: 'guild-123',
+          event: { ...event, location: 'Discord' },
+          botToken: 'bot-token',
+        })
+      ).rejects.toThrow('Failed to create guild scheduled event: 403');
+    });
+  });
+
+  describe('updateGuildScheduledEvent', () => {
+    it('should patch only the given fields', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true } as Response);
+
+      await service.updateGuildScheduledEvent({
+        guildId: 'guild-123',
+        eventId: 'event-123',
+        event: { name: '新年会' },
+        botToken: 'bot-token',
+      });
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe('https://discord.com/api/v10/guilds/guild-123/scheduled-events/event-123');
+      expect(init?.method).toBe('PATCH');
+      expect(JSON.parse(init?.body as string)).toEqual({ name: '新年会' });
+    });
+
+    it('should throw error when updating event fails', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 404 } as Response);
+
+      await expect(
+        service.updateGuildScheduledEvent({
+          guildId: 'guild-123',
+          eventId: 'event-123',
+          event: { name: '新年会' },
+          botToken: 'bot-token',
+        })
+      ).rejects.toThrow('Failed to update guild scheduled event: 404');
+    });
+  });
+
   describe('createInteractionResponse', () => {
     it('should create interaction response with correct format', () => {
       const messageData = {
@@ -31,6 +31,17 @@ export interface SendMessageOptions {
   readonly botToken: string;
 }
 
+export interface CreateDMOptions {
+  readonly recipientId: string;
+  readonly botToken: string;
+}
+
+export interface SendDirectMessageOptions {
+  readonly userId: string;
+  readonly message: object;
+  readonly botToken: string;
+}
+
 export interface SendNotificationOptions {
   readonly channelId: string;
   readonly content: string;
@@ -56,6 +67,35 @@ export interface GetGuildMemberOptions {
   readonly botToken: string;
 }
 
+export interface ListGuildMembersOptions {
+  readonly guildId: string;
+  readonly botToken: string;
+  /** 取得する最大人数（1000人ずつページングして取得） */
+  readonly maxMembers?: number;
+}
+
+export interface GuildScheduledEventData {
+  readonly name: string;
+  readonly description?: string;
+  readonly scheduledStartTime: Date;
+  readonly scheduledEndTime: Date;
+  readonly voiceChannelId?: string;
+  readonly location?: string;
+}
+
+export interface CreateGuildScheduledEventOptions {
+  readonly guildId: string;
+  readonly event: GuildScheduledEventData;
+  readonly botToken: string;
+}
+
+export interface UpdateGuildScheduledEventOptions {
+  readonly guildId: string;
+  readonly eventId: string;
+  readonly event: Partial<GuildScheduledEventData>;
+  readonly botToken: string;
+}
+
 export interface IDiscordApiService {
   /**
    * Discord Webhookでメッセージを送信
@@ -72,6 +112,16 @@ export interface IDiscordApiService {
    */
   sendNotification(options: SendNotificationOptions): Promise<void>;
 
+  /**
+   * ユーザーとのDMチャンネルを作成（既に存在する場合は既存のチャンネルを返す）
+   */
+  createDM(options: CreateDMOptions): Promise<{ id: string }>;
+
+  /**
+   * ユーザーにDMを送信
+   */
+  sendDirectMessage(options: SendDirectMessageOptions): Promise<{ id: string }>;
+
   /**
    * Discord メッセージを更新
    */
@@ -87,6 +137,21 @@ export interface IDiscordApiService {
    */
   getGuildMember(options: GetGuildMemberOptions): Promise<APIGuildMember>;
 
+  /**
+   * ギルドメンバー一覧を取得（Server Members Intent が必要）
+   */
+  listGuildMembers(options: ListGuildMembersOptions): Promise<APIGuildMember[]>;
+
+  /**
+   * Discord サーバーイベントを作成
+   */
+  createGuildScheduledEvent(options: CreateGuildScheduledEventOptions): Promise<{ id: string }>;
+
+  /**
+   * Discord サーバーイベントを更新
+   */
+  updateGuildScheduledEvent(options: UpdateGuildScheduledEventOptions): Promise<void>;
+
   /**
    * Discord Interaction Response を作成
    */
@@ -125,6 +190,31 @@ export class DiscordApiService implements IDiscordApiService {
     return { id: data.id };
   }
 
+  async createDM(options: CreateDMOptions): Promise<{ id: string }> {
+    const { recipientId, botToken } = options;
+    const response = await fetch(`${this.baseUrl}/users/@me/channels`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bot ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ recipient_id: recipientId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create DM channel: ${response.status}`);
+    }
+
+    const data = (await response.json()) as { id: string };
+    return { id: data.id };
+  }
+
+  async sendDirectMessage(options: SendDirectMessageOptions): Promise<{ id: string }> {
+    const { userId, message, botToken } = options;
+    const channel = await this.createDM({ recipientId: userId, botToken });
+    return await this.sendMessage({ channelId: channel.id, message, botToken });
+  }
+
   async sendNotification(options: SendNotificationOptions): Promise<void> {
     const { channelId, content, botToken } = options;
     await fetch(`${this.baseUrl}/channels/${channelId}/messages`, {
@@ -174,6 +264,80 @@ export class DiscordApiService implements IDiscordApiService {
     return response.json();
   }
 
+  async listGuildMembers(options: ListGuildMembersOptions): Promise<APIGuildMember[]> {
+    const { guildId, botToken, maxMembers = 5000 } = options;
+    const pageSize = 1000; // Discord APIの1リクエストあたりの上限
+    const members: APIGuildMember[] = [];
+    let after = '0';
+
+    while (members.length < maxMembers) {
+      const limit = Math.min(pageSize, maxMembers - members.length);
+      const response = await fetch(
+        `${this.baseUrl}/guilds/${guildId}/members?limit=${limit}&after=${after}`,
+        {
+          headers: {
+            Authorization: `Bot ${botToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to list guild members: ${response.status}`);
+      }
+
+      const page = (await response.json()) as APIGuildMember[];
+      members.push(...page);
+
+      const lastUserId = page[page.length - 1]?.user?.id;
+      if (page.length < limit || !lastUserId) {
+        break;
+      }
+      after = lastUserId;
+    }
+
+    return members;
+  }
+
+  async createGuildScheduledEvent(
+    options: CreateGuildScheduledEventOptions
+  ): Promise<{ id: string }> {
+    const { guildId, event, botToken } = options;
+    const response = await fetch(`${this.baseUrl}/guilds/${guildId}/scheduled-events`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bot ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...this.createGuildScheduledEventBody(event),
+        privacy_level: 2, // GUILD_ONLY
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create guild scheduled event: ${response.status}`);
+    }
+
+    const data = (await response.json()) as { id: string };
+    return { id: data.id };
+  }
+
+  async updateGuildScheduledEvent(options: UpdateGuildScheduledEventOptions): Promise<void> {
+    const { guildId, eventId, event, botToken } = options;
+    const response = await fetch(`${this.baseUrl}/guilds/${guildId}/scheduled-events/${eventId}`, {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bot ${botToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.createGuildScheduledEventBody(event)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update guild scheduled event: ${response.status}`);
+    }
+  }
+
   createInteractionResponse(message: DiscordMessage): DiscordWebhookResponse {
     return {
       type: 4, // CHANNEL_MESSAGE_WITH_SOURCE
@@ -181,6 +345,35 @@ export class DiscordApiService implements IDiscordApiService {
     };
   }
 
+  /**
+   * サーバーイベントのリクエストボディを作成
+   * 指定されたフィールドのみを含め、開催場所の指定に応じてイベント種別を切り替える
+   */
+  private createGuildScheduledEventBody(event: Partial<GuildScheduledEventData>) {
+    const body: Record<string, unknown> = {};
+
+    if (event.name !== undefined) body.name = event.name;
+    if (event.description !== undefined) body.description = event.description;
+    if (event.scheduledStartTime) {
+      body.scheduled_start_time = event.scheduledStartTime.toISOString();
+    }
+    if (event.scheduledEndTime) {
+      body.scheduled_end_time = event.scheduledEndTime.toISOString();
+    }
+
+    if (event.voiceChannelId) {
+      body.entity_type = 2; // VOICE
+      body.channel_id = event.voiceChannelId;
+      body.entity_metadata = null;
+    } else if (event.location !== undefined) {
+      body.entity_type = 3; // EXTERNAL
+      body.channel_id = null;
+      body.entity_metadata = { location: event.location };
+    }
+
+    return body;
+  }
+
   // updateScheduleMessageメソッドは削除されました
   // Clean Architectureの原則に従い、embedとcomponentsの作成は
   // プレゼンテーション層で行い、updateMessageを直接使用してください
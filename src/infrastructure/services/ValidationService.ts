@@ -5,6 +5,8 @@
  * 入力データの検証とサニタイゼーションを統一化
  */
 
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -156,7 +158,7 @@ export class ValidationService {
     }
 
     return ValidationService.validateAndSanitizeText(comment, {
-      maxLength: 500,
+      maxLength: BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH,
       allowEmpty: true,
     });
   }
@@ -57,9 +57,79 @@ export interface D1ScheduleRow {
   reminders_sent?: string;
   notification_sent: number;
   total_responses: number;
+  decided_date_id?: string | null;
+  guild_event_id?: string | null;
+  hide_results_before_close?: number;
+  invited_user_ids?: string | null;
+  invited_role_ids?: string | null;
+  reminder_mode?: string | null;
+  dm_reminders?: number;
+  co_organizer_ids?: string | null;
   created_at: number;
   updated_at: number;
   date_id?: string;
   datetime?: string;
+  start_at?: number | null;
+  end_at?: number | null;
   display_order?: number;
 }
+
+export interface D1GuildSettingsRow {
+  guild_id: string;
+  timezone?: string | null;
+  default_reminder_timings?: string | null;
+  default_reminder_mentions?: string | null;
+  hide_results_before_close?: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface D1ScheduleTemplateRow {
+  id: string;
+  guild_id: string;
+  name: string;
+  title: string;
+  description?: string | null;
+  dates: string;
+  reminder_timings?: string | null;
+  reminder_mentions?: string | null;
+  invited_user_ids?: string | null;
+  invited_role_ids?: string | null;
+  created_by_id: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface D1ScheduleRecurrenceRow {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  author_username: string;
+  title: string;
+  description?: string | null;
+  reminder_timings?: string | null;
+  reminder_mentions?: string | null;
+  reminder_mode?: string | null;
+  dm_reminders?: number;
+  invited_user_ids?: string | null;
+  invited_role_ids?: string | null;
+  run_weekday: number;
+  run_time: string;
+  timezone: string;
+  candidate_rule: string;
+  deadline_offset?: string | null;
+  paused: number;
+  next_run_at: number;
+  last_run_at?: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface D1UserSettingsRow {
+  guild_id: string;
+  user_id: string;
+  timezone?: string | null;
+  created_at: number;
+  updated_at: number;
+}
@@ -26,6 +26,7 @@ export interface DiscordUser {
   discriminator: string;
   avatar?: string;
   global_name?: string;
+  bot?: boolean;
 }
 
 export interface CommandInteraction {
@@ -42,6 +43,7 @@ export interface CommandInteraction {
     user: DiscordUser;
     roles: string[];
     nick?: string;
+    permissions?: string; // チャンネル内での権限ビットフィールド（10進文字列）
   };
   user?: DiscordUser;
   token: string;
@@ -52,6 +54,7 @@ export interface CommandOption {
   type: number;
   value: string | number | boolean;
   options?: CommandOption[];
+  focused?: boolean; // オートコンプリートで入力中のオプション
 }
 
 export interface ButtonInteraction {
@@ -61,6 +64,11 @@ export interface ButtonInteraction {
     custom_id: string;
     component_type: number;
     values?: string[]; // For select menu interactions
+    // ユーザー・ロール・メンション選択メニューで選択されたエンティティ
+    resolved?: {
+      users?: Record<string, DiscordUser>;
+      roles?: Record<string, { id: string; name: string }>;
+    };
   };
   guild_id?: string;
   channel_id?: string;
@@ -68,6 +76,7 @@ export interface ButtonInteraction {
     user: DiscordUser;
     roles: string[];
     nick?: string;
+    permissions?: string; // チャンネル内での権限ビットフィールド（10進文字列）
   };
   user?: DiscordUser;
   token: string;
@@ -102,6 +111,7 @@ export interface ModalInteraction {
     user: DiscordUser;
     roles: string[];
     nick?: string;
+    permissions?: string; // チャンネル内での権限ビットフィールド（10進文字列）
   };
   user?: DiscordUser;
   token: string;
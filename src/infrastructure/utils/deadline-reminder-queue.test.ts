@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeadlineReminderTask } from '../../application/ports/DeadlineReminderQueuePort';
+import type { Env } from '../types/discord';
+import { handleDeadlineReminderBatch } from './deadline-reminder-queue';
+
+const mocks = vi.hoisted(() => ({
+  getSchedule: vi.fn(),
+  findDirectReminderRecipients: vi.fn(),
+  sendDirectReminder: vi.fn(),
+}));
+
+vi.mock('../../di/DependencyContainer', () => ({
+  DependencyContainer: vi.fn().mockImplementation(() => ({
+    getScheduleUseCase: { execute: mocks.getSchedule },
+    infrastructureServices: {
+      repositoryFactory: {
+        getScheduleRepository: vi.fn(),
+        getResponseRepository: vi.fn(),
+      },
+    },
+  })),
+}));
+
+vi.mock('../../application/services/NotificationService', () => ({
+  NotificationService: vi.fn().mockImplementation(() => ({
+    findDirectReminderRecipients: mocks.findDirectReminderRecipients,
+    sendDirectReminder: mocks.sendDirectReminder,
+  })),
+}));
+
+describe('handleDeadlineReminderBatch', () => {
+  const env = { DISCORD_TOKEN: 'token', DISCORD_APPLICATION_ID: 'app' } as Env;
+  const schedule = { id: 'schedule-1', status: 'open', dmReminders: true };
+
+  const createBatch = (userIds: string[]) =>
+    ({
+      messages: userIds.map((userId) => ({
+        body: {
+          type: 'send_dm_reminder',
+          scheduleId: 'schedule-1',
+          guildId: 'guild-1',
+          customMessage: '締切が1時間以内',
+          userId,
+        },
+      })),
+    }) as unknown as MessageBatch<DeadlineReminderTask>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getSchedule.mockResolvedValue({ success: true, schedule });
+  });
+
+  it('should send DMs only to members who are still recipients when the task runs', async () => {
+    mocks.findDirectReminderRecipients.mockResolvedValue(['user-1']);
+
+    await handleDeadlineReminderBatch(createBatch(['user-1', 'user-2']), env);
+
+    expect(mocks.findDirectReminderRecipients).toHaveBeenCalledTimes(1);
+    expect(mocks.sendDirectReminder).toHaveBeenCalledTimes(1);
+    expect(mocks.sendDirectReminder).toHaveBeenCalledWith(schedule, 'user-1', '締切が1時間以内');
+  });
+
+  it('should skip DMs once the schedule no longer has recipients', async () => {
+    // 締切済み・DMリマインダー無効の日程調整では宛先が空になる
+    mocks.findDirectReminderRecipients.mockResolvedValue([]);
+
+    await handleDeadlineReminderBatch(createBatch(['user-1']), env);
+
+    expect(mocks.sendDirectReminder).not.toHaveBeenCalled();
+  });
+});
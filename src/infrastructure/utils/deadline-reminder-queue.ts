@@ -13,6 +13,10 @@ import { LoggerAdapter } from '../adapters/LoggerAdapter';
 import { getLogger } from '../logging/Logger';
 import type { Env } from '../types/discord';
 
+// 同時に配信するDMリマインダーの数と、その間隔（秒）
+const DM_REMINDER_CHUNK_SIZE = 10;
+const DM_REMINDER_CHUNK_DELAY_SECONDS = 5;
+
 export async function handleDeadlineReminderBatch(
   batch: MessageBatch<DeadlineReminderTask>,
   env: Env
@@ -37,9 +41,13 @@ export async function handleDeadlineReminderBatch(
     discordToken,
     applicationId,
     container.infrastructureServices.backgroundExecutor,
-    new DiscordMessageService()
+    new DiscordMessageService(),
+    container.nonRespondentService
   );
 
+  // DMリマインダーの送信直前に確認する宛先（同じバッチの同じ日程調整では一度だけ取得する）
+  const pendingRecipients = new Map<string, Promise<string[]>>();
+
   // Process all tasks in the batch
   await Promise.allSettled(
     batch.messages.map(async (message) => {
@@ -54,10 +62,44 @@ export async function handleDeadlineReminderBatch(
             );
             if (schedule.success && schedule.schedule) {
               await notificationService.sendDeadlineReminder(schedule.schedule, task.customMessage);
+
+              // DMリマインダーは1人1タスクとしてキューに積み、送信間隔を空ける
+              const recipients = await notificationService.findDirectReminderRecipients(
+                schedule.schedule
+              );
+              if (recipients.length > 0) {
+                await enqueueDirectReminders(container, task, recipients);
+              }
             }
             break;
           }
 
+          case 'send_dm_reminder': {
+            if (!task.userId) break;
+
+            const schedule = await container.getScheduleUseCase.execute(
+              task.scheduleId,
+              task.guildId
+            );
+            if (!schedule.success || !schedule.schedule) break;
+
+            // キューに積んでから送信までの間に回答された・締め切られた・DM設定が切られた場合は送らない
+            const currentSchedule = schedule.schedule;
+            let recipients = pendingRecipients.get(task.scheduleId);
+            if (!recipients) {
+              recipients = notificationService.findDirectReminderRecipients(currentSchedule);
+              pendingRecipients.set(task.scheduleId, recipients);
+            }
+            if (!(await recipients).includes(task.userId)) break;
+
+            await notificationService.sendDirectReminder(
+              currentSchedule,
+              task.userId,
+              task.customMessage
+            );
+            break;
+          }
+
           case 'close_schedule': {
             await container.closeScheduleUseCase.execute({
               scheduleId: task.scheduleId,
@@ -102,3 +144,31 @@ export async function handleDeadlineReminderBatch(
     })
   );
 }
+
+async function enqueueDirectReminders(
+  container: DependencyContainer,
+  task: DeadlineReminderTask,
+  recipients: string[]
+): Promise<void> {
+  const queue = container.infrastructureServices.deadlineReminderQueue;
+  if (!queue) {
+    getLogger().warn('DEADLINE_REMINDER_QUEUE not available, skipping DM reminders', {
+      scheduleId: task.scheduleId,
+    });
+    return;
+  }
+
+  for (let i = 0; i < recipients.length; i += DM_REMINDER_CHUNK_SIZE) {
+    const chunk = recipients.slice(i, i + DM_REMINDER_CHUNK_SIZE);
+    await queue.sendBatch(
+      chunk.map((userId) => ({
+        type: 'send_dm_reminder' as const,
+        scheduleId: task.scheduleId,
+        guildId: task.guildId,
+        customMessage: task.customMessage,
+        userId,
+      })),
+      { delaySeconds: (i / DM_REMINDER_CHUNK_SIZE) * DM_REMINDER_CHUNK_DELAY_SECONDS }
+    );
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Candidate Preview UI Builder
+ *
+ * 日程候補のルール（例: "12/1-12/14 平日 19:00"）を展開した結果の確認画面のUI構築専用クラス
+ * 確認画面のEmbedに入力内容を残し、「フォームを開く」ボタンで入力済みのモーダルを開き直す際に読み戻す
+ * 曜日が日付と一致しない候補、過去の日時・同じ日時を指す候補の警告もここで組み立てる
+ */
+
+import type { ScheduleDateWarning } from '../../domain/services/ScheduleDomainService';
+import type { WeekdayMismatch } from '../../domain/utils/date';
+import type { DiscordEmbed } from '../../infrastructure/types/discord-api';
+import { CANDIDATE_INPUT_MAX_LENGTH, EMBED_COLORS } from '../constants/ui';
+import {
+  createFixWeekdaysButtonId,
+  createGeneratedAddDatesButtonId,
+  createGeneratedCreateButtonId,
+} from '../utils/button-id';
+import { joinCandidateLines } from '../utils/date-formatter';
+
+/**
+ * 作成モーダルの確認画面に残す入力内容
+ */
+export interface CreationCandidatePreview {
+  title: string;
+  description?: string;
+  deadline?: string; // 入力欄の形式（例: 2025-12-20 23:59）
+  dates: string[];
+}
+
+const DEADLINE_FIELD_NAME = '締切';
+
+// 警告で列挙する候補の上限（メッセージの文字数上限対策）
+const MAX_WARNING_LINES = 10;
+
+export class CandidatePreviewUIBuilder {
+  /**
+   * 作成モーダルの確認画面を作成
+   * params は作成モーダルの引き継ぎ指定（複製元・テンプレート）で、作成フォームを開き直す際に引き継ぐ
+   */
+  createCreationPreview(
+    preview: CreationCandidatePreview,
+    options: { truncated: boolean; limit: number; params: string[] }
+  ) {
+    const dates = this.fitDates(preview.dates);
+
+    return {
+      content: [
+        '📝 ルールから日程候補を展開しました。',
+        '内容を確認して「作成フォームを開く」を押すと、入力済みの作成フォームが開きます（候補はフォームで修正できます）。',
+        ...this.createTruncationNotes(
+          options.truncated,
+          dates.length < preview.dates.length,
+          `日程候補は${options.limit}個まで`
+        ),
+      ].join('\n'),
+      embeds: [
+        {
+          title: preview.title,
+          description: preview.description || undefined,
+          color: EMBED_COLORS.INFO,
+          fields: preview.deadline
+            ? [{ name: DEADLINE_FIELD_NAME, value: preview.deadline, inline: false }]
+            : [],
+        },
+        this.createCandidatesEmbed(dates),
+      ],
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 2,
+              style: 1, // Primary
+              label: '作成フォームを開く',
+              custom_id: createGeneratedCreateButtonId(options.params),
+              emoji: { name: '📝' },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 日程追加モーダルの確認画面を作成
+   */
+  createAddDatesPreview(
+    scheduleId: string,
+    dates: string[],
+    options: { truncated: boolean; limit: number }
+  ) {
+    const fitted = this.fitDates(dates);
+
+    return {
+      content: [
+        '📝 ルールから追加する日程候補を展開しました。',
+        '内容を確認して「追加フォームを開く」を押すと、入力済みの追加フォームが開きます（候補はフォームで修正できます）。',
+        ...this.createTruncationNotes(
+          options.truncated,
+          fitted.length < dates.length,
+          `この日程調整に追加できる候補は残り${options.limit}個`
+        ),
+      ].join('\n'),
+      embeds: [this.createCandidatesEmbed(fitted)],
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 2,
+              style: 1, // Primary
+              label: '追加フォームを開く',
+              custom_id: createGeneratedAddDatesButtonId(scheduleId),
+              emoji: { name: '➕' },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 作成モーダルの確認画面から入力内容を読み戻す（確認画面でなければ null）
+   */
+  readCreationPreview(embeds: DiscordEmbed[] = []): CreationCandidatePreview | null {
+    const [info, candidates] = embeds;
+    const dates = this.readDates(candidates);
+    if (!info?.title || !dates) {
+      return null;
+    }
+
+    return {
+      title: info.title,
+      description: info.description || undefined,
+      deadline: info.fields?.find((field) => field.name === DEADLINE_FIELD_NAME)?.value,
+      dates,
+    };
+  }
+
+  /**
+   * 日程追加モーダルの確認画面から候補を読み戻す（確認画面でなければ null）
+   */
+  readAddDatesPreview(embeds: DiscordEmbed[] = []): string[] | null {
+    return this.readDates(embeds[0]);
+  }
+
+  /**
+   * 曜日が日付と一致しない候補の警告を作成（修正後の候補を示し、「曜日を修正」ボタンで書き換えられるようにする）
+   */
+  createWeekdayWarning(scheduleId: string, mismatches: WeekdayMismatch[]) {
+    const lines = mismatches.map(
+      (mismatch) => `\`${mismatch.label}\` → \`${mismatch.correctedLabel}\``
+    );
+
+    return {
+      content: [
+        '⚠️ 曜日が日付と一致しない候補があります。',
+        ...this.createWarningLines(lines),
+        '「曜日を修正」を押すと候補の曜日を書き換えます（回答はそのまま残ります）。',
+      ].join('\n'),
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 2,
+              style: 2, // Secondary
+              label: '曜日を修正',
+              custom_id: createFixWeekdaysButtonId(scheduleId),
+              emoji: { name: '🔧' },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 過去の日時・同じ表記や同じ日時の候補の警告を作成（候補は保存済みのため、修正は編集から行う）
+   */
+  createDateWarnings(warnings: ScheduleDateWarning[]): string {
+    return warnings
+      .map((warning) => {
+        const lines =
+          warning.code === 'duplicate_date'
+            ? [warning.datetimes.map((datetime) => `\`${datetime}\``).join(' / ')]
+            : warning.datetimes.map((datetime) => `\`${datetime}\``);
+        return [`⚠️ ${warning.message}。`, ...this.createWarningLines(lines)].join('\n');
+      })
+      .join('\n');
+  }
+
+  private createWarningLines(lines: string[]): string[] {
+    const listed = lines.slice(0, MAX_WARNING_LINES).map((line) => `・${line}`);
+    if (lines.length > MAX_WARNING_LINES) {
+      listed.push(`・ほか${lines.length - MAX_WARNING_LINES}件`);
+    }
+    return listed;
+  }
+
+  private createCandidatesEmbed(dates: string[]) {
+    return {
+      title: `🗓️ 日程候補（${dates.length}件）`,
+      description: dates.join('\n'),
+      color: EMBED_COLORS.OPEN,
+    };
+  }
+
+  private readDates(embed: DiscordEmbed | undefined): string[] | null {
+    const dates = (embed?.description || '').split('\n').filter((line) => line.trim());
+    return dates.length > 0 ? dates : null;
+  }
+
+  /**
+   * 入力欄に収まる候補だけを残す（確認画面とフォームの候補を一致させる）
+   */
+  private fitDates(dates: string[]): string[] {
+    const text = joinCandidateLines(dates, CANDIDATE_INPUT_MAX_LENGTH);
+    return text ? text.split('\n') : [];
+  }
+
+  private createTruncationNotes(
+    truncated: boolean,
+    overflowed: boolean,
+    limitLabel: string
+  ): string[] {
+    return [
+      truncated ? `⚠️ ${limitLabel}のため、それ以降の候補は省きました。` : '',
+      overflowed ? '⚠️ 入力欄の文字数の上限を超える候補は省きました。' : '',
+    ].filter(Boolean);
+  }
+}
+
+export function createCandidatePreviewUIBuilder(): CandidatePreviewUIBuilder {
+  return new CandidatePreviewUIBuilder();
+}
@@ -4,18 +4,54 @@
  * コマンド関連のUI構築専用クラス
  */
 
-import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
-import { EMBED_COLORS } from '../constants/ui';
-import { formatDate } from '../utils/date-formatter';
+import type { ScheduleDraftDto, ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import type { ScheduleTemplateDto } from '../../application/dto/ScheduleTemplateDto';
+import { DEFAULT_TIMEZONE } from '../../domain/utils/date';
+import { CANDIDATE_INPUT_MAX_LENGTH, EMBED_COLORS, LIST_LIMITS } from '../constants/ui';
+import { createButtonId } from '../utils/button-helpers';
+import {
+  formatDate,
+  formatDateTimeInput,
+  formatDiscordTimestamp,
+  joinCandidateLines,
+} from '../utils/date-formatter';
+
+// 作成モーダルの入力欄の最大文字数
+const CREATION_MODAL_LIMITS = {
+  TITLE: 100,
+  DESCRIPTION: 500,
+  DATES: CANDIDATE_INPUT_MAX_LENGTH,
+} as const;
 
 export class CommandUIBuilder {
   /**
    * スケジュール作成モーダルを作成
+   * 下書きを渡すと各欄を初期値で埋め、送信時に設定を引き継げるよう複製元・テンプレートのIDをcustom_idに含める
    */
-  createScheduleCreationModal() {
+  createScheduleCreationModal(draft?: ScheduleDraftDto, timeZone: string = DEFAULT_TIMEZONE) {
+    const prefill = draft
+      ? {
+          title: draft.title.slice(0, CREATION_MODAL_LIMITS.TITLE),
+          description: (draft.description || '').slice(0, CREATION_MODAL_LIMITS.DESCRIPTION),
+          dates: joinCandidateLines(
+            draft.dates.map((date) => date.datetime),
+            CREATION_MODAL_LIMITS.DATES
+          ),
+          deadline: draft.deadline ? formatDateTimeInput(draft.deadline, timeZone) : '',
+        }
+      : undefined;
+
     return {
-      custom_id: 'modal:create_schedule',
-      title: '日程調整を作成',
+      custom_id: draft?.templateId
+        ? `modal:create_schedule:template:${draft.templateId}`
+        : draft?.sourceScheduleId
+          ? `modal:create_schedule:clone:${draft.sourceScheduleId}`
+          : 'modal:create_schedule',
+      title: draft?.templateId
+        ? 'テンプレートから作成'
+        : draft?.sourceScheduleId
+          ? '日程調整を複製'
+          : '日程調整を作成',
       components: [
         {
           type: 1, // Action Row
@@ -28,7 +64,8 @@ export class CommandUIBuilder {
               placeholder: '例: 忘年会',
               required: true,
               min_length: 1,
-              max_length: 100,
+              max_length: CREATION_MODAL_LIMITS.TITLE,
+              ...(prefill?.title ? { value: prefill.title } : {}),
             },
           ],
         },
@@ -42,7 +79,8 @@ export class CommandUIBuilder {
               style: 2, // Paragraph
               placeholder: '例: 今年の忘年会の日程を決めます',
               required: false,
-              max_length: 500,
+              max_length: CREATION_MODAL_LIMITS.DESCRIPTION,
+              ...(prefill?.description ? { value: prefill.description } : {}),
             },
           ],
         },
@@ -57,7 +95,8 @@ export class CommandUIBuilder {
               placeholder: '12/25 19:00\n12/26(土) 18:00〜20:00',
               required: true,
               min_length: 1,
-              max_length: 1000,
+              max_length: CREATION_MODAL_LIMITS.DATES,
+              ...(prefill?.dates ? { value: prefill.dates } : {}),
             },
           ],
         },
@@ -72,6 +111,7 @@ export class CommandUIBuilder {
               placeholder: '例: 2025/12/20 23:59',
               required: false,
               max_length: 50,
+              ...(prefill?.deadline ? { value: prefill.deadline } : {}),
             },
           ],
         },
@@ -79,21 +119,139 @@ export class CommandUIBuilder {
     };
   }
 
+  /**
+   * テンプレート一覧エンベッドを作成
+   */
+  createTemplateListEmbed(templates: ScheduleTemplateDto[]) {
+    return {
+      title: '📄 テンプレート一覧',
+      description:
+        '`/chouseichan create template:テンプレート名` で入力済みの作成画面を開けます。\n' +
+        '削除は `/chouseichan templates delete:テンプレート名` で行えます（保存したメンバーとモデレーターのみ）。',
+      color: EMBED_COLORS.INFO,
+      fields: templates.map((template) => ({
+        name: template.name,
+        value: [
+          `タイトル: ${template.title}`,
+          `日程候補: ${template.dates.length}件`,
+          template.reminderTimings?.length
+            ? `リマインダー: ${template.reminderTimings.join(', ')}`
+            : '',
+          `保存: <@${template.createdById}>（${formatDate(template.updatedAt)}）`,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        inline: false,
+      })),
+    };
+  }
+
   /**
    * スケジュール一覧エンベッドを作成
+   * 受付中 → 締切済みの順に並べ、ページ単位で表示する
    */
-  createScheduleListEmbed(schedules: ScheduleResponseDto[]) {
+  createScheduleListEmbed(schedules: ScheduleResponseDto[], page = 0) {
+    const { pageSchedules, currentPage, totalPages, offset } = this.paginateSchedules(
+      schedules,
+      page
+    );
+    const openCount = schedules.filter((schedule) => schedule.status === 'open').length;
+    const closedCount = schedules.length - openCount;
+
     return {
       title: '📋 日程調整一覧',
+      description: `🟢 受付中: ${openCount}件　🔴 締切済み: ${closedCount}件`,
       color: EMBED_COLORS.INFO,
-      fields: schedules.slice(0, 10).map((schedule) => ({
-        name: `${schedule.status === 'open' ? '🟢' : '🔴'} ${schedule.title}`,
-        value: `作成者: ${schedule.createdBy?.username || 'Unknown'}\n作成日: ${formatDate(schedule.createdAt)}`,
+      fields: pageSchedules.map((schedule, idx) => ({
+        name: `${offset + idx + 1}. ${schedule.status === 'open' ? '🟢' : '🔴'} ${schedule.title}`,
+        value: [
+          `作成者: ${schedule.createdBy?.username || 'Unknown'}`,
+          `作成日: ${formatDate(schedule.createdAt)}`,
+          schedule.deadline ? `締切: ${formatDiscordTimestamp(schedule.deadline, 'f')}` : '',
+        ]
+          .filter(Boolean)
+          .join('\n'),
         inline: false,
       })),
       footer: {
-        text: schedules.length > 10 ? `他 ${schedules.length - 10} 件` : '',
+        text: `ページ ${currentPage + 1}/${totalPages}`,
       },
     };
   }
+
+  /**
+   * スケジュール一覧のコンポーネントを作成
+   * 各スケジュールメッセージへのリンクボタンとページ送りボタン
+   */
+  createScheduleListComponents(schedules: ScheduleResponseDto[], channelId: string, page = 0) {
+    const { pageSchedules, currentPage, totalPages, offset } = this.paginateSchedules(
+      schedules,
+      page
+    );
+    const components = [];
+
+    const linkButtons = pageSchedules
+      .map((schedule, idx) => ({ schedule, number: offset + idx + 1 }))
+      .filter(({ schedule }) => schedule.messageId)
+      .map(({ schedule, number }) => ({
+        type: 2,
+        style: 5, // Link
+        label: `${number}. ${schedule.title}`.slice(0, 80),
+        url: `https://discord.com/channels/${schedule.guildId}/${schedule.channelId}/${schedule.messageId}`,
+      }));
+
+    if (linkButtons.length > 0) {
+      components.push({
+        type: 1,
+        components: linkButtons,
+      });
+    }
+
+    if (totalPages > 1) {
+      components.push({
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: '前へ',
+            custom_id: createButtonId('list_page', channelId, String(currentPage - 1)),
+            emoji: { name: '◀️' },
+            disabled: currentPage === 0,
+          },
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: '次へ',
+            custom_id: createButtonId('list_page', channelId, String(currentPage + 1)),
+            emoji: { name: '▶️' },
+            disabled: currentPage >= totalPages - 1,
+          },
+        ],
+      });
+    }
+
+    return components;
+  }
+
+  /**
+   * 受付中を先頭にしてページを切り出す
+   */
+  private paginateSchedules(schedules: ScheduleResponseDto[], page: number) {
+    const sorted = [
+      ...schedules.filter((schedule) => schedule.status === 'open'),
+      ...schedules.filter((schedule) => schedule.status !== 'open'),
+    ];
+    const perPage = LIST_LIMITS.SCHEDULES_PER_PAGE;
+    const totalPages = Math.max(1, Math.ceil(sorted.length / perPage));
+    const currentPage = Math.min(Math.max(0, page), totalPages - 1);
+    const offset = currentPage * perPage;
+
+    return {
+      pageSchedules: sorted.slice(offset, offset + perPage),
+      currentPage,
+      totalPages,
+      offset,
+    };
+  }
 }
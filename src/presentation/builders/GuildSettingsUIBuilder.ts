@@ -0,0 +1,171 @@
+/**
+ * Guild Settings UI Builder
+ *
+ * サーバー設定パネル（/chouseichan settings）のUI構築専用クラス
+ */
+
+import type { GuildSettings } from '../../application/usecases/settings/GuildSettingsUseCase';
+import { EMBED_COLORS } from '../constants/ui';
+import { createGuildSettingsButtonId } from '../utils/button-id';
+
+export class GuildSettingsUIBuilder {
+  /**
+   * 設定パネルのEmbedを作成
+   */
+  createSettingsEmbed(settings: GuildSettings) {
+    const customLabel = (isCustom: boolean) => (isCustom ? '' : '（既定値）');
+
+    return {
+      title: '⚙️ サーバー設定',
+      description:
+        'このサーバーで新しく作成する日程調整の既定値です。\n変更は既存の日程調整には影響しません。',
+      color: EMBED_COLORS.INFO,
+      fields: [
+        {
+          name: '⏰ リマインダー',
+          value: `${settings.defaultReminderTimings.join(', ')}${customLabel(settings.hasCustomReminderTimings)}`,
+          inline: true,
+        },
+        {
+          name: '📢 通知先',
+          value: `${settings.defaultReminderMentions.join(', ')}${customLabel(settings.hasCustomReminderMentions)}`,
+          inline: true,
+        },
+        {
+          name: '🕐 タイムゾーン',
+          value: `${settings.timezone}${customLabel(settings.hasCustomTimezone)}`,
+          inline: true,
+        },
+        {
+          name: '📊 締切前の集計結果',
+          value: settings.hideResultsBeforeClose
+            ? '🔒 作成者のみ閲覧可能（締切後に公開）'
+            : '👀 全員に公開',
+          inline: false,
+        },
+        {
+          name: '📈 利用状況',
+          value: [
+            `受付中の日程調整: ${settings.usage.openSchedules} / ${settings.usage.maxOpenSchedules}件`,
+            `1つの日程調整の回答者数上限: ${settings.usage.maxResponsesPerSchedule}人`,
+          ].join('\n'),
+          inline: false,
+        },
+      ],
+      footer: {
+        text: 'この設定は「サーバー管理」権限を持つメンバーのみ変更できます',
+      },
+    };
+  }
+
+  /**
+   * 設定パネルのボタンを作成
+   */
+  createSettingsComponents(settings: GuildSettings) {
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: 'リマインダー',
+            custom_id: createGuildSettingsButtonId('reminders'),
+            emoji: { name: '⏰' },
+          },
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: 'タイムゾーン',
+            custom_id: createGuildSettingsButtonId('timezone'),
+            emoji: { name: '🕐' },
+          },
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: settings.hideResultsBeforeClose ? '締切前も結果を公開' : '締切まで結果を隠す',
+            custom_id: createGuildSettingsButtonId('toggle_results'),
+            emoji: { name: settings.hideResultsBeforeClose ? '👀' : '🔒' },
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * リマインダー既定値の編集モーダルを作成
+   */
+  createRemindersModal(settings: GuildSettings) {
+    return {
+      custom_id: 'modal:guild_settings_reminders',
+      title: 'リマインダーの既定値',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'reminder_timings',
+              label: 'リマインダー（カンマ区切り・空欄で既定値）',
+              style: 1,
+              value: settings.hasCustomReminderTimings
+                ? settings.defaultReminderTimings.join(', ')
+                : '',
+              placeholder: '例: 3d, 1d, 8h',
+              required: false,
+              max_length: 100,
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'reminder_mentions',
+              label: '通知先（カンマ区切り・空欄で既定値）',
+              style: 1,
+              value: settings.hasCustomReminderMentions
+                ? settings.defaultReminderMentions.join(', ')
+                : '',
+              placeholder: '例: @here, <@&ロールID>',
+              required: false,
+              max_length: 200,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * タイムゾーンの編集モーダルを作成
+   */
+  createTimezoneModal(settings: GuildSettings) {
+    return {
+      custom_id: 'modal:guild_settings_timezone',
+      title: 'サーバーのタイムゾーン',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'timezone',
+              label: 'タイムゾーン（IANA形式）',
+              style: 1,
+              value: settings.timezone,
+              placeholder: '例: Asia/Tokyo, America/New_York',
+              required: true,
+              max_length: 64,
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
+
+export function createGuildSettingsUIBuilder(): GuildSettingsUIBuilder {
+  return new GuildSettingsUIBuilder();
+}
@@ -3,12 +3,73 @@
  */
 
 import { DISCORD_API_CONSTANTS } from '../../infrastructure/constants/DiscordConstants';
+import { createHelpButtonId, createHelpPageButtonId } from '../utils/button-id';
+
+/**
+ * ヘルプのページ
+ * - overview: 機能の概要
+ * - dates: 日程候補・締切日時の入力形式
+ * - edit: 編集・リマインダー設定
+ */
+export type HelpPage = 'overview' | 'dates' | 'edit';
+
+const HELP_PAGES: ReadonlyArray<{ page: HelpPage; label: string; emoji: string }> = [
+  { page: 'overview', label: '使い方', emoji: '📚' },
+  { page: 'dates', label: '日付の書き方', emoji: '📅' },
+  { page: 'edit', label: '編集・リマインダー', emoji: '✏️' },
+];
+
+export function isHelpPage(value: string | undefined): value is HelpPage {
+  return HELP_PAGES.some((entry) => entry.page === value);
+}
 
 export class HelpUIBuilder {
   /**
    * ヘルプメッセージのEmbedを作成
    */
-  createHelpEmbed() {
+  createHelpEmbed(page: HelpPage = 'overview') {
+    switch (page) {
+      case 'dates':
+        return this.createDateFormatEmbed();
+      case 'edit':
+        return this.createEditHelpEmbed();
+      default:
+        return this.createOverviewEmbed();
+    }
+  }
+
+  /**
+   * ヘルプのページ切り替えボタンを作成
+   */
+  createHelpComponents(currentPage: HelpPage = 'overview') {
+    return [
+      {
+        type: 1,
+        components: HELP_PAGES.map(({ page, label, emoji }) => ({
+          type: 2,
+          style: page === currentPage ? 1 : 2, // Primary : Secondary
+          label,
+          custom_id: createHelpPageButtonId(page),
+          emoji: { name: emoji },
+          disabled: page === currentPage,
+        })),
+      },
+    ];
+  }
+
+  /**
+   * 作成・編集フローに置く「?」ボタンを作成
+   */
+  createHelpButton(page: HelpPage) {
+    return {
+      type: 2,
+      style: 2, // Secondary
+      label: '?',
+      custom_id: createHelpButtonId(page),
+    };
+  }
+
+  private createOverviewEmbed() {
     return {
       title: '📚 調整ちゃん - 使い方',
       description: 'Discord上で簡単に日程調整ができるボットです',
@@ -16,7 +77,8 @@ export class HelpUIBuilder {
       fields: [
         {
           name: '📝 日程調整を作成',
-          value: '`/chouseichan create`\n対話形式で日程調整を作成します',
+          value:
+            '`/chouseichan create`\n対話形式で日程調整を作成します（`template:` でテンプレートの内容を入力済みにできます）',
           inline: false,
         },
         {
@@ -24,24 +86,55 @@ export class HelpUIBuilder {
           value: '`/chouseichan list`\nチャンネル内の日程調整を一覧表示します',
           inline: false,
         },
+        {
+          name: '📋 日程調整を複製',
+          value:
+            '`/chouseichan clone`\nチャンネル内の日程調整を複製して作成フォームを開きます（`days` / `weeks` で候補日をずらせます）',
+          inline: false,
+        },
+        {
+          name: '📄 テンプレート',
+          value:
+            '`/chouseichan templates`\nサーバーに保存されたテンプレートを一覧表示します（`delete:` で削除）',
+          inline: false,
+        },
+        {
+          name: '🔁 定期作成',
+          value:
+            '`/chouseichan recurring`\nサーバーの定期作成を一覧表示し、一時停止・再開・削除できます',
+          inline: false,
+        },
         {
           name: '🆘 ヘルプを表示',
           value: '`/chouseichan help`\nこのヘルプメッセージを表示します',
           inline: false,
         },
+        {
+          name: '🕐 タイムゾーンを設定',
+          value:
+            '`/chouseichan timezone`\n日時の入力に使うタイムゾーンを自分用・サーバー全体で設定します',
+          inline: false,
+        },
+        {
+          name: '⚙️ サーバー設定',
+          value:
+            '`/chouseichan settings`\nリマインダー・通知先の既定値や、締切前の集計結果の公開範囲を設定します（サーバー管理権限が必要）',
+          inline: false,
+        },
         {
           name: '🔘 回答方法',
           value:
             '1. 日程調整メッセージの「回答する」ボタンをクリック\n' +
-            '2. 各日程の横にある○△×ボタンで回答\n' +
-            '　○: 参加可能\n' +
-            '　△: 未定・条件付き\n' +
-            '　×: 参加不可',
+            '2. 各日程のセレクトメニューから回答を選択\n' +
+            '　✅: 参加可能\n' +
+            '　❔: 未定・条件付き\n' +
+            '　❌: 参加不可\n' +
+            '3. 「コメントを追加」で「30分遅れます」などの補足を残せます',
           inline: false,
         },
         {
           name: '📊 回答状況の確認',
-          value: '「状況を見る」ボタンで現在の回答状況を表形式で確認できます',
+          value: '「詳細」ボタンで誰がどの日程に回答したかを確認できます',
           inline: false,
         },
         {
@@ -50,7 +143,8 @@ export class HelpUIBuilder {
             '作成者は以下の操作が可能です:\n' +
             '・日程の追加/削除\n' +
             '・締切日時の設定\n' +
-            '・スケジュールの締切/削除',
+            '・開催日程の決定\n' +
+            '・スケジュールの締切/再開/削除',
           inline: false,
         },
         {
@@ -59,7 +153,8 @@ export class HelpUIBuilder {
             '• 回答は何度でも変更可能\n' +
             '• 個人向けメッセージは自分だけに表示\n' +
             '• 回答状況は表形式でわかりやすく表示\n' +
-            '• 最有力候補は自動で判定',
+            '• 最有力候補は自動で判定\n' +
+            '• 締切後は .ics ファイルでカレンダーに登録可能',
           inline: false,
         },
       ],
@@ -69,6 +164,189 @@ export class HelpUIBuilder {
       timestamp: new Date().toISOString(),
     };
   }
+
+  private createDateFormatEmbed() {
+    return {
+      title: '📅 日付の書き方',
+      description: '日程候補と締切日時で使える入力形式です',
+      color: DISCORD_API_CONSTANTS.COLORS.INFO,
+      fields: [
+        {
+          name: '🗓️ 日程候補',
+          value:
+            '1行に1つずつ自由に入力できます\n' +
+            '例:\n' +
+            '```\n12/25 19:00\n12/26(土) 18:00〜20:00\n年末のどこか\n```',
+          inline: false,
+        },
+        {
+          name: '🔁 日程候補（まとめて入力）',
+          value:
+            '期間・曜日・時刻のルールを書くと、候補に展開して確認画面を表示します\n' +
+            '`12/1-12/14 平日 19:00` … 期間内の平日 19:00\n' +
+            '`来週 土日 13:00,18:00` … 来週の土日の 13:00 と 18:00\n' +
+            '曜日は `月`・`火-木`・`平日`・`土日` などで指定し、省略すると毎日になります（候補は50個まで）\n' +
+            '`土日祝` で祝日も含め、`祝日除く` を付けると祝日を除きます。祝日の候補には祝日名が付きます',
+          inline: false,
+        },
+        {
+          name: '⏰ 締切日時（日時指定）',
+          value:
+            '`12/20 23:59` / `12-20 23:59`\n' +
+            '`12月20日 23:59` / `12月20日 23時59分`\n' +
+            '`2025/12/20 23:59` / `2025年12月20日 23:59`',
+          inline: false,
+        },
+        {
+          name: '⏰ 締切日時（日付のみ）',
+          value:
+            '`12/20` / `12-20` / `12月20日`\n' +
+            '`2025/12/20` / `2025-12-20`\n' +
+            '`20251220` / `251220`\n' +
+            '時刻を省略するとその日の 23:59 が締切になります',
+          inline: false,
+        },
+        {
+          name: '⏰ 締切日時（時刻のみ）',
+          value: '`21:00` … 今日の21時（過ぎていれば明日）\n`明日 21:00` … 明日の21時',
+          inline: false,
+        },
+        {
+          name: '💡 補足',
+          value:
+            '• 時刻は `/chouseichan timezone` で設定したタイムゾーン（未設定なら日本時間）として扱われます\n' +
+            '• 締切や決定日時は閲覧者それぞれのタイムゾーンで表示されます\n' +
+            '• 年を省略して過去の日付になる場合は翌年として扱われます\n' +
+            '• `12/26(金)` のように書いた曜日が日付と合わない場合は、作成・編集後に「曜日を修正」で直せます\n' +
+            '• 過去の日時や、同じ日時を指す候補は警告されます（同じ表記の候補は追加できません）',
+          inline: false,
+        },
+      ],
+      footer: {
+        text: 'Discord 調整ちゃん',
+      },
+    };
+  }
+
+  private createEditHelpEmbed() {
+    return {
+      title: '✏️ 編集・リマインダー',
+      description:
+        '日程調整メッセージの「編集」ボタンから作成者・共同主催者が操作できます\n' +
+        '「サーバー管理」または「メッセージの管理」権限を持つメンバーはすべての日程調整を管理できます',
+      color: DISCORD_API_CONSTANTS.COLORS.INFO,
+      fields: [
+        {
+          name: '📝 タイトル・説明を編集',
+          value: 'タイトルと説明文を変更します',
+          inline: false,
+        },
+        {
+          name: '📅 日程を編集',
+          value: '候補を1行に1つずつ入力し直します\n同じ文字列の候補は回答がそのまま引き継がれます',
+          inline: false,
+        },
+        {
+          name: '↕️ 候補の並べ替え',
+          value:
+            '候補を選んで先頭・1つ上・1つ下・末尾へ移動します（回答はそのまま残ります）\n' +
+            '「日時順に並べ替え」で日時を読み取れた候補を日時順にし、読み取れない候補は末尾に並べます\n' +
+            '作成・追加した候補は自動で日時順に並びます（手動で並べ替えた後の追加は末尾に入ります）',
+          inline: false,
+        },
+        {
+          name: '⏰ 締切日を編集',
+          value:
+            '締切日時とリマインダーを設定します\n' +
+            '• タイミング: `3d` (3日前), `8h` (8時間前), `30m` (30分前) をカンマ区切り\n' +
+            '締切日を空欄にすると締切なしになります',
+          inline: false,
+        },
+        {
+          name: '🔔 通知先',
+          value:
+            'リマインダーでメンションする相手をメニューから選択します\n' +
+            '• 全体: `@here` / `@everyone` / なし\n' +
+            '• ユーザー・ロール: 最大25件まで選択できます',
+          inline: false,
+        },
+        {
+          name: '👥 参加予定者',
+          value:
+            '回答してほしいユーザーやロールを選択します\n' +
+            'まだ回答していない人がリマインダーと「状況を見る」に表示されます\n' +
+            'リマインダー編集で「未回答者のみにメンション」を `on` にすると、未回答者だけに通知します\n' +
+            '「DMでもリマインド」を `on` にすると、未回答者へDMでも締切をお知らせします',
+          inline: false,
+        },
+        {
+          name: '🎉 日程を決定',
+          value:
+            'セレクトメニューから開催日程を選ぶと締め切られます\n' +
+            '決定した日程に ✅ / ❔ と回答した人へメンション付きで告知されます',
+          inline: false,
+        },
+        {
+          name: '📅 イベント作成',
+          value:
+            '日程を決定すると、決定日時でDiscordのサーバーイベントを作成できます\n' +
+            '作成後のメニューからボイスチャンネルを選ぶと開催場所を変更できます\n' +
+            '※ ボットに「イベントの管理」権限が必要です',
+          inline: false,
+        },
+        {
+          name: '🤝 共同主催者',
+          value:
+            '作成者と同じように編集・締切・日程の決定ができるメンバーを最大10人まで選択します\n' +
+            '削除と共同主催者の変更は作成者（とサーバーのモデレーター）のみ行えます',
+          inline: false,
+        },
+        {
+          name: '👑 主催者を譲渡',
+          value:
+            '日程調整の作成者を別のメンバーに引き継ぎます（新しい主催者にはDMでお知らせします）\n' +
+            '譲渡できるのは作成者とサーバー管理権限を持つメンバーのみです',
+          inline: false,
+        },
+        {
+          name: '🔒 締め切る / 🗑️ 削除する',
+          value: '締め切ると回答を受け付けなくなり、集計結果が投稿されます',
+          inline: false,
+        },
+        {
+          name: '🔓 再開する',
+          value:
+            '締め切った日程調整を回答受付中に戻します\n' +
+            '新しい締切日時を入力できます（空欄で締切なし）。決定済みの日程は取り消され、リマインダーも改めて送信されます',
+          inline: false,
+        },
+        {
+          name: '📋 複製',
+          value:
+            '同じ内容の日程調整を新しく作成します。候補日をずらす日数を選ぶと、作成フォームに候補・締切が入力された状態で開きます\n' +
+            'リマインダー・通知先・参加予定者の設定も引き継がれます（誰でも複製できます）',
+          inline: false,
+        },
+        {
+          name: '💾 テンプレート保存',
+          value:
+            'タイトル・説明・日程候補・リマインダー・通知先・参加予定者を名前を付けて保存し、サーバー内で再利用できます\n' +
+            '`/chouseichan create template:名前` で呼び出せます。同じ名前で保存すると上書きされます（保存したメンバーとモデレーターのみ）',
+          inline: false,
+        },
+        {
+          name: '🔁 定期作成',
+          value:
+            '「毎週月曜 9:00 に、来週の火〜木 20:00 を候補にして作成」のように、同じ内容の日程調整を毎週自動で作成します\n' +
+            '作成タイミング（例: `月 09:00`）・候補日のルール（例: `来週 火-木 20:00`）・締切（例: `1d` = 最初の候補の1日前）を指定します',
+          inline: false,
+        },
+      ],
+      footer: {
+        text: 'Discord 調整ちゃん',
+      },
+    };
+  }
 }
 
 /**
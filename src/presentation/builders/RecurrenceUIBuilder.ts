@@ -0,0 +1,205 @@
+/**
+ * Recurrence UI Builder
+ *
+ * 日程調整の定期作成（登録モーダル・/chouseichan recurring の一覧と操作パネル）のUI構築専用クラス
+ */
+
+import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import type { ScheduleRecurrenceDto } from '../../application/dto/ScheduleRecurrenceDto';
+import { EMBED_COLORS } from '../constants/ui';
+import { createRecurrenceManageButtonId } from '../utils/button-id';
+import { formatDiscordTimestamp } from '../utils/date-formatter';
+
+export class RecurrenceUIBuilder {
+  /**
+   * 定期作成の登録モーダルを作成
+   */
+  createRecurrenceModal(schedule: ScheduleResponseDto) {
+    return {
+      custom_id: `modal:create_recurrence:${schedule.id}`,
+      title: '定期作成の登録',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'run_timing',
+              label: '作成するタイミング（毎週の曜日と時刻）',
+              style: 1,
+              placeholder: '例: 月 09:00',
+              required: true,
+              max_length: 20,
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'candidate_rule',
+              label: '候補日のルール（週・曜日・時刻）',
+              style: 1,
+              placeholder: '例: 来週 火-木 20:00 / 来週 土日 13:00,18:00',
+              required: true,
+              max_length: 100,
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'deadline_offset',
+              label: '締切（最初の候補の何日・何時間前か・空欄で締切なし）',
+              style: 1,
+              placeholder: '例: 1d / 12h',
+              required: false,
+              max_length: 10,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 定期作成の登録完了メッセージを作成
+   */
+  createRegisteredContent(recurrence: ScheduleRecurrenceDto, previewDates: string[]): string {
+    return [
+      `🔁 定期作成「${recurrence.title}」を登録しました（${recurrence.runTiming}・${recurrence.timezone}）。`,
+      `次回は ${formatDiscordTimestamp(recurrence.nextRunAt)} にこのチャンネルへ作成されます。`,
+      '',
+      '**次回の候補日**',
+      ...previewDates.map((date) => `・${date}`),
+      '',
+      '一時停止・削除は `/chouseichan recurring` から行えます。',
+    ].join('\n');
+  }
+
+  /**
+   * 定期作成一覧のEmbedを作成
+   */
+  createListEmbed(recurrences: ScheduleRecurrenceDto[]) {
+    return {
+      title: '🔁 定期作成一覧',
+      description:
+        recurrences.length > 0
+          ? '一時停止・削除する定期作成をメニューから選んでください（登録したメンバーとモデレーターのみ）。'
+          : '定期作成はまだありません。\n日程調整の「編集」→「定期作成」から登録できます。',
+      color: EMBED_COLORS.INFO,
+      fields: recurrences.map((recurrence) => ({
+        name: `${recurrence.paused ? '⏸️' : '▶️'} ${recurrence.title}`,
+        value: this.createSummaryLines(recurrence).join('\n'),
+        inline: false,
+      })),
+    };
+  }
+
+  /**
+   * 定期作成一覧の選択メニューを作成
+   */
+  createListComponents(recurrences: ScheduleRecurrenceDto[]) {
+    if (recurrences.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 3, // STRING_SELECT
+            custom_id: 'recurrence_select',
+            placeholder: '操作する定期作成を選択',
+            options: recurrences.map((recurrence) => ({
+              label: recurrence.title.slice(0, 100),
+              description: `${recurrence.runTiming}・${recurrence.paused ? '一時停止中' : '有効'}`,
+              value: recurrence.id,
+            })),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 定期作成の操作パネルのEmbedを作成
+   */
+  createDetailEmbed(recurrence: ScheduleRecurrenceDto) {
+    return {
+      title: `🔁 ${recurrence.title}`,
+      color: recurrence.paused ? EMBED_COLORS.WARNING : EMBED_COLORS.OPEN,
+      fields: [
+        {
+          name: '状態',
+          value: recurrence.paused ? '⏸️ 一時停止中' : '▶️ 有効',
+          inline: false,
+        },
+        {
+          name: '設定',
+          value: this.createSummaryLines(recurrence).join('\n'),
+          inline: false,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 定期作成の操作パネルのボタンを作成
+   */
+  createDetailComponents(recurrence: ScheduleRecurrenceDto) {
+    return [
+      {
+        type: 1,
+        components: [
+          recurrence.paused
+            ? {
+                type: 2,
+                style: 3, // Success
+                label: '再開',
+                custom_id: createRecurrenceManageButtonId(recurrence.id, 'resume'),
+                emoji: { name: '▶️' },
+              }
+            : {
+                type: 2,
+                style: 2, // Secondary
+                label: '一時停止',
+                custom_id: createRecurrenceManageButtonId(recurrence.id, 'pause'),
+                emoji: { name: '⏸️' },
+              },
+          {
+            type: 2,
+            style: 4, // Danger
+            label: '削除',
+            custom_id: createRecurrenceManageButtonId(recurrence.id, 'delete'),
+            emoji: { name: '🗑️' },
+          },
+          {
+            type: 2,
+            style: 2, // Secondary
+            label: '一覧に戻る',
+            custom_id: createRecurrenceManageButtonId(recurrence.id, 'list'),
+          },
+        ],
+      },
+    ];
+  }
+
+  private createSummaryLines(recurrence: ScheduleRecurrenceDto): string[] {
+    return [
+      `作成: ${recurrence.runTiming}（${recurrence.timezone}）→ <#${recurrence.channelId}>`,
+      `候補日: ${recurrence.candidateRule}`,
+      recurrence.deadlineOffset ? `締切: 最初の候補の ${recurrence.deadlineOffset} 前` : '',
+      recurrence.paused ? '' : `次回: ${formatDiscordTimestamp(recurrence.nextRunAt)}`,
+      `登録: <@${recurrence.authorId}>`,
+    ].filter(Boolean);
+  }
+}
+
+export function createRecurrenceUIBuilder(): RecurrenceUIBuilder {
+  return new RecurrenceUIBuilder();
+}
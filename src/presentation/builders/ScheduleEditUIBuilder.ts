@@ -5,7 +5,35 @@
  */
 
 import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+import { DEFAULT_TIMEZONE, isSortedByStart } from '../../domain/utils/date';
+import { parseReminderMentions } from '../../domain/utils/mention';
+import { CANDIDATE_INPUT_MAX_LENGTH, EMBED_COLORS } from '../constants/ui';
 import { createButtonId } from '../utils/button-helpers';
+import { createMoveDateButtonId, createSortDatesButtonId } from '../utils/button-id';
+import { formatDateTimeInput, joinCandidateLines } from '../utils/date-formatter';
+
+// 複製時に選べる候補日のずらし幅
+const CLONE_SHIFT_OPTIONS = [
+  { label: 'ずらさない', days: 0 },
+  { label: '1日後', days: 1 },
+  { label: '1週間後', days: 7 },
+  { label: '2週間後', days: 14 },
+  { label: '4週間後', days: 28 },
+] as const;
+
+// 並べ替えで選んだ候補の移動先（ボタンの表示順）
+export const DATE_MOVE_POSITIONS = [
+  { position: 'top', label: '先頭へ', emoji: '⏫' },
+  { position: 'up', label: '1つ上へ', emoji: '🔼' },
+  { position: 'down', label: '1つ下へ', emoji: '🔽' },
+  { position: 'bottom', label: '末尾へ', emoji: '⏬' },
+] as const;
+
+export type DateMovePosition = (typeof DATE_MOVE_POSITIONS)[number]['position'];
+
+// セレクトメニューの選択肢の上限（Discordの仕様）
+const MAX_SELECT_OPTIONS = 25;
 
 export class ScheduleEditUIBuilder {
   /**
@@ -81,9 +109,11 @@ export class ScheduleEditUIBuilder {
   }
 
   /**
-   * 日程追加モーダルを作成
+   * 日程追加モーダルを作成（ルールを展開した候補を渡すと入力済みで開く）
    */
-  createAddDatesModal(scheduleId: string) {
+  createAddDatesModal(scheduleId: string, dates: string[] = []) {
+    const prefill = joinCandidateLines(dates, CANDIDATE_INPUT_MAX_LENGTH);
+
     return {
       custom_id: `modal:add_dates:${scheduleId}`,
       title: '日程を追加',
@@ -96,10 +126,11 @@ export class ScheduleEditUIBuilder {
               custom_id: 'dates',
               label: '追加する日程候補（1行に1つずつ）',
               style: 2,
-              placeholder: '例:\n4/4 (木) 19:00\n4/5 (金) 20:00',
+              placeholder: '例:\n4/4 (木) 19:00\n4/5 (金) 20:00\n4/8-4/19 平日 19:00',
               required: true,
               min_length: 1,
-              max_length: 1000,
+              max_length: CANDIDATE_INPUT_MAX_LENGTH,
+              ...(prefill ? { value: prefill } : {}),
             },
           ],
         },
@@ -125,26 +156,354 @@ export class ScheduleEditUIBuilder {
     }));
   }
 
+  /**
+   * 候補の並べ替え画面を作成
+   * 候補を1つ選んで移動先のボタンを押す。「日時順に並べ替え」は日時を読み取れた候補を開始日時の順に並べる
+   */
+  createReorderDatesView(schedule: ScheduleResponseDto, selectedDateId?: string) {
+    const selectedIndex = Math.max(
+      0,
+      schedule.dates.findIndex((date) => date.id === selectedDateId)
+    );
+    const selectedDate = schedule.dates[selectedIndex];
+    const isLast = selectedIndex === schedule.dates.length - 1;
+    const isChronological = isSortedByStart(schedule.dates);
+
+    // 候補が多い場合は選択中の候補の前後を選択肢に並べる
+    const windowStart = Math.min(
+      Math.max(0, selectedIndex - Math.floor(MAX_SELECT_OPTIONS / 2)),
+      Math.max(0, schedule.dates.length - MAX_SELECT_OPTIONS)
+    );
+
+    return {
+      content:
+        '移動する候補を選んで、移動先のボタンを押してください。並び順は日程調整のメッセージにも反映されます。',
+      embeds: [
+        {
+          title: `↕️ 候補の並べ替え（${schedule.title}）`,
+          description: schedule.dates
+            .map((date, index) =>
+              index === selectedIndex
+                ? `**▶ ${index + 1}. ${date.datetime}**`
+                : `${index + 1}. ${date.datetime}`
+            )
+            .join('\n'),
+          color: EMBED_COLORS.INFO,
+        },
+      ],
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 3, // STRING_SELECT
+              custom_id: createButtonId('reorder_dates_select', schedule.id),
+              placeholder: '移動する候補を選択',
+              options: schedule.dates
+                .slice(windowStart, windowStart + MAX_SELECT_OPTIONS)
+                .map((date, index) => {
+                  const label = `${windowStart + index + 1}. ${date.datetime}`;
+                  return {
+                    label: label.length > 100 ? `${label.slice(0, 97)}...` : label,
+                    value: date.id,
+                    default: date.id === selectedDate?.id,
+                  };
+                }),
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: DATE_MOVE_POSITIONS.map(({ position, label, emoji }) => ({
+            type: 2,
+            style: 2,
+            label,
+            custom_id: createMoveDateButtonId(schedule.id, selectedDate?.id ?? 'none', position),
+            emoji: { name: emoji },
+            disabled:
+              !selectedDate ||
+              ((position === 'top' || position === 'up') && selectedIndex === 0) ||
+              ((position === 'down' || position === 'bottom') && isLast),
+          })),
+        },
+        {
+          type: 1,
+          components: [this.createSortDatesButton(schedule.id, isChronological)],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 「日時順に並べ替え」ボタンを作成（すでに日時順なら押せない）
+   */
+  createSortDatesButton(scheduleId: string, disabled = false) {
+    return {
+      type: 2,
+      style: 1, // Primary
+      label: '日時順に並べ替え',
+      custom_id: createSortDatesButtonId(scheduleId),
+      emoji: { name: '🕒' },
+      disabled,
+    };
+  }
+
+  /**
+   * 参加予定者の選択コンポーネントを作成
+   * ユーザー・ロールを選択すると、その中の未回答者がリマインダーと回答状況に表示される
+   */
+  createInviteesComponents(schedule: ScheduleResponseDto) {
+    const invitedUserIds = schedule.invitedUserIds ?? [];
+    const invitedRoleIds = schedule.invitedRoleIds ?? [];
+
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 5, // USER_SELECT
+            custom_id: createButtonId('invitee_users', schedule.id),
+            placeholder: '参加予定のユーザーを選択',
+            min_values: 0,
+            max_values: BUSINESS_CONSTANTS.MAX_INVITED_USERS,
+            default_values: invitedUserIds.map((id) => ({ id, type: 'user' })),
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: [
+          {
+            type: 6, // ROLE_SELECT
+            custom_id: createButtonId('invitee_roles', schedule.id),
+            placeholder: '参加予定のロールを選択',
+            min_values: 0,
+            max_values: BUSINESS_CONSTANTS.MAX_INVITED_ROLES,
+            default_values: invitedRoleIds.map((id) => ({ id, type: 'role' })),
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 4, // Danger
+            label: '参加予定者をクリア',
+            custom_id: createButtonId('clear_invitees', schedule.id),
+            emoji: { name: '🧹' },
+            disabled: invitedUserIds.length === 0 && invitedRoleIds.length === 0,
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 参加予定者設定メッセージの本文を作成
+   */
+  createInviteesContent(schedule: ScheduleResponseDto): string {
+    const users = (schedule.invitedUserIds ?? []).map((id) => `<@${id}>`).join(' ');
+    const roles = (schedule.invitedRoleIds ?? []).map((id) => `<@&${id}>`).join(' ');
+
+    return [
+      `**👥 参加予定者（${schedule.title}）**`,
+      `ユーザー: ${users || '未設定'}`,
+      `ロール: ${roles || '未設定'}`,
+      '',
+      '設定した参加予定者のうち、まだ回答していない人がリマインダーと回答状況に表示されます。',
+    ].join('\n');
+  }
+
+  /**
+   * リマインダーの通知先選択コンポーネントを作成
+   */
+  createReminderMentionsComponents(schedule: ScheduleResponseDto) {
+    const targets = parseReminderMentions(schedule.reminderMentions ?? []);
+    const broadcast = targets.broadcast ?? 'none';
+
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 3, // STRING_SELECT
+            custom_id: createButtonId('reminder_broadcast', schedule.id),
+            placeholder: '全体へのメンション',
+            options: [
+              { label: '@here（オンラインのメンバー）', value: '@here' },
+              { label: '@everyone（全員）', value: '@everyone' },
+              { label: 'なし', value: 'none' },
+            ].map((option) => ({ ...option, default: option.value === broadcast })),
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: [
+          {
+            type: 7, // MENTIONABLE_SELECT
+            custom_id: createButtonId('reminder_mention_targets', schedule.id),
+            placeholder: '通知するユーザー・ロールを選択',
+            min_values: 0,
+            max_values: BUSINESS_CONSTANTS.MAX_REMINDER_MENTION_TARGETS,
+            default_values: [
+              ...targets.userIds.map((id) => ({ id, type: 'user' })),
+              ...targets.roleIds.map((id) => ({ id, type: 'role' })),
+            ],
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * リマインダーの通知先設定メッセージの本文を作成
+   */
+  createReminderMentionsContent(schedule: ScheduleResponseDto): string {
+    const targets = parseReminderMentions(schedule.reminderMentions ?? []);
+    const mentions = [
+      ...targets.userIds.map((id) => `<@${id}>`),
+      ...targets.roleIds.map((id) => `<@&${id}>`),
+    ].join(' ');
+
+    return [
+      `**🔔 リマインダーの通知先（${schedule.title}）**`,
+      `全体: ${targets.broadcast ?? 'なし'}`,
+      `ユーザー・ロール: ${mentions || '未設定'}`,
+      ...(targets.legacy.length > 0
+        ? [
+            `名前で指定された通知先: ${targets.legacy.join(', ')}（ユーザー・ロールを選び直すと置き換わります）`,
+          ]
+        : []),
+      '',
+      schedule.reminderMode === 'non_respondents'
+        ? '※「未回答者のみにメンション」がオンのため、参加予定者が設定されている間は未回答者にのみメンションします。'
+        : '締切前のリマインダーで、選択した通知先にメンションします。',
+    ].join('\n');
+  }
+
+  /**
+   * 共同主催者選択コンポーネントを作成
+   */
+  createCoOrganizersComponents(schedule: ScheduleResponseDto) {
+    const coOrganizerIds = schedule.coOrganizerIds ?? [];
+
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 5, // USER_SELECT
+            custom_id: createButtonId('co_organizer_users', schedule.id),
+            placeholder: '共同主催者を選択',
+            min_values: 0,
+            max_values: BUSINESS_CONSTANTS.MAX_CO_ORGANIZERS,
+            default_values: coOrganizerIds.map((id) => ({ id, type: 'user' })),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 共同主催者設定メッセージの本文を作成
+   */
+  createCoOrganizersContent(schedule: ScheduleResponseDto): string {
+    const coOrganizers = (schedule.coOrganizerIds ?? []).map((id) => `<@${id}>`).join(' ');
+
+    return [
+      `**🤝 共同主催者（${schedule.title}）**`,
+      `作成者: <@${schedule.authorId}>`,
+      `共同主催者: ${coOrganizers || '未設定'}`,
+      '',
+      '共同主催者は作成者と同じように日程調整の編集・締切・日程の決定ができます（削除と共同主催者の変更は作成者のみ）。',
+    ].join('\n');
+  }
+
+  /**
+   * 主催者の譲渡先選択コンポーネントを作成
+   */
+  createTransferOwnerComponents(schedule: ScheduleResponseDto) {
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 5, // USER_SELECT
+            custom_id: createButtonId('transfer_owner_user', schedule.id),
+            placeholder: '新しい主催者を選択',
+            min_values: 1,
+            max_values: 1,
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 主催者の譲渡メッセージの本文を作成
+   */
+  createTransferOwnerContent(schedule: ScheduleResponseDto): string {
+    return [
+      `**👑 主催者の譲渡（${schedule.title}）**`,
+      `現在の主催者: <@${schedule.authorId}>`,
+      '',
+      '選択したメンバーが新しい主催者になり、DMでお知らせします。',
+      '譲渡すると、あなたはこの日程調整を編集できなくなります（共同主催者・サーバーのモデレーターを除く）。',
+    ].join('\n');
+  }
+
+  /**
+   * 複製時に候補日をずらす日数の選択コンポーネントを作成
+   */
+  createCloneShiftComponents(schedule: ScheduleResponseDto) {
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 3, // STRING_SELECT
+            custom_id: createButtonId('clone_shift', schedule.id),
+            placeholder: '候補日をずらす期間を選択',
+            options: CLONE_SHIFT_OPTIONS.map(({ label, days }) => ({
+              label,
+              value: String(days),
+            })),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 複製メッセージの本文を作成
+   */
+  createCloneShiftContent(schedule: ScheduleResponseDto): string {
+    return [
+      `**📋 日程調整を複製（${schedule.title}）**`,
+      '候補日をずらす期間を選ぶと、作成画面が入力済みの状態で開きます。',
+      'リマインダー・通知先・参加予定者の設定も引き継がれます（日時として読み取れない候補はそのまま複製されます）。',
+    ].join('\n');
+  }
+
   /**
    * 締切編集モーダルを作成
    */
-  createEditDeadlineModal(schedule: ScheduleResponseDto, messageId: string) {
-    // Format current deadline for display
+  createEditDeadlineModal(
+    schedule: ScheduleResponseDto,
+    messageId: string,
+    timeZone: string = DEFAULT_TIMEZONE
+  ) {
+    // 現在の締切を編集者のタイムゾーンで表示（入力時も同じタイムゾーンで解釈する）
     const currentDeadline = schedule.deadline
-      ? new Date(schedule.deadline)
-          .toLocaleString('ja-JP', {
-            year: 'numeric',
-            month: '2-digit',
-            day: '2-digit',
-            hour: '2-digit',
-            minute: '2-digit',
-          })
-          .replace(/\//g, '-')
+      ? formatDateTimeInput(schedule.deadline, timeZone)
       : '';
 
     // Current reminder settings
     const currentTimings = schedule.reminderTimings?.join(', ') || '3d, 1d, 8h';
-    const currentMentions = schedule.reminderMentions?.join(', ') || '@here';
+    const currentMode = schedule.reminderMode === 'non_respondents' ? 'on' : 'off';
+    const currentDm = schedule.dmReminders ? 'on' : 'off';
 
     return {
       custom_id: `modal:edit_deadline:${schedule.id}:${messageId}`,
@@ -156,7 +515,11 @@ export class ScheduleEditUIBuilder {
             {
               type: 4,
               custom_id: 'deadline',
-              label: '締切日時（空白で無期限）',
+              // 既定以外のタイムゾーンで解釈する場合はラベルに明示する
+              label:
+                timeZone === DEFAULT_TIMEZONE
+                  ? '締切日時（空白で無期限）'
+                  : `締切日時（${timeZone}・空白で無期限）`,
               style: 1,
               value: currentDeadline,
               placeholder: '例: 2025/12/24 19:00',
@@ -185,13 +548,93 @@ export class ScheduleEditUIBuilder {
           components: [
             {
               type: 4,
-              custom_id: 'reminder_mentions',
-              label: '通知先（カンマ区切りで複数指定可）',
+              custom_id: 'reminder_mode',
+              label: '未回答の参加予定者のみにメンション（on / off）',
               style: 1,
-              value: currentMentions,
-              placeholder: '例: @everyone, @here, @Alice, @Bob',
+              value: currentMode,
+              placeholder: 'on にすると通知先の代わりに未回答者へメンションします',
               required: false,
-              max_length: 200,
+              max_length: 3,
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'reminder_dm',
+              label: '未回答の参加予定者にDMでもリマインド（on / off）',
+              style: 1,
+              value: currentDm,
+              placeholder: 'on にするとリマインダーを未回答者へDMでも送ります',
+              required: false,
+              max_length: 3,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * 日程調整の再開モーダルを作成
+   * 現在の締切がまだ先であれば初期値として表示し、過ぎていれば空欄にする
+   */
+  createReopenModal(schedule: ScheduleResponseDto, timeZone: string = DEFAULT_TIMEZONE) {
+    const currentDeadline =
+      schedule.deadline && new Date(schedule.deadline).getTime() > Date.now()
+        ? formatDateTimeInput(schedule.deadline, timeZone)
+        : '';
+
+    return {
+      custom_id: `modal:reopen:${schedule.id}`,
+      title: '日程調整を再開',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'deadline',
+              label:
+                timeZone === DEFAULT_TIMEZONE
+                  ? '新しい締切日時（空白で無期限）'
+                  : `新しい締切日時（${timeZone}・空白で無期限）`,
+              style: 1,
+              value: currentDeadline,
+              placeholder: '例: 2025/12/24 19:00',
+              required: false,
+              max_length: 50,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * テンプレート保存モーダルを作成
+   * 同名のテンプレートがあれば上書きされる
+   */
+  createSaveTemplateModal(schedule: ScheduleResponseDto) {
+    return {
+      custom_id: `modal:save_template:${schedule.id}`,
+      title: 'テンプレートとして保存',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'name',
+              label: 'テンプレート名（同じ名前があれば上書き）',
+              style: 1,
+              value: schedule.title.slice(0, BUSINESS_CONSTANTS.MAX_TEMPLATE_NAME_LENGTH),
+              placeholder: '例: 定例会',
+              required: true,
+              min_length: 1,
+              max_length: BUSINESS_CONSTANTS.MAX_TEMPLATE_NAME_LENGTH,
             },
           ],
         },
@@ -205,7 +648,8 @@ export class ScheduleEditUIBuilder {
   createEditReminderModal(schedule: ScheduleResponseDto) {
     // Current reminder settings
     const currentTimings = schedule.reminderTimings?.join(', ') || '3d, 1d, 8h';
-    const currentMentions = schedule.reminderMentions?.join(', ') || '@here';
+    const currentMode = schedule.reminderMode === 'non_respondents' ? 'on' : 'off';
+    const currentDm = schedule.dmReminders ? 'on' : 'off';
 
     return {
       custom_id: `modal:edit_reminder:${schedule.id}`,
@@ -231,13 +675,28 @@ export class ScheduleEditUIBuilder {
           components: [
             {
               type: 4,
-              custom_id: 'reminder_mentions',
-              label: '通知先（カンマ区切りで複数指定可）',
+              custom_id: 'reminder_mode',
+              label: '未回答の参加予定者のみにメンション（on / off）',
+              style: 1,
+              value: currentMode,
+              placeholder: 'on にすると通知先の代わりに未回答者へメンションします',
+              required: false,
+              max_length: 3,
+            },
+          ],
+        },
+        {
+          type: 1,
+          components: [
+            {
+              type: 4,
+              custom_id: 'reminder_dm',
+              label: '未回答の参加予定者にDMでもリマインド（on / off）',
               style: 1,
-              value: currentMentions,
-              placeholder: '例: @everyone, @here, @Alice, @Bob',
+              value: currentDm,
+              placeholder: 'on にするとリマインダーを未回答者へDMでも送ります',
               required: false,
-              max_length: 200,
+              max_length: 3,
             },
           ],
         },
@@ -10,7 +10,11 @@ import type {
   ScheduleSummaryResponseDto,
 } from '../../application/dto/ScheduleDto';
 import { createButtonId } from '../utils/button-helpers';
-import { createScheduleEmbed, createScheduleEmbedWithTable } from '../utils/embeds';
+import {
+  createCalendarExportRows,
+  createScheduleEmbed,
+  createScheduleEmbedWithTable,
+} from '../utils/embeds';
 
 export interface ScheduleMainMessageOptions {
   summary?: ScheduleSummaryResponseDto;
@@ -18,12 +22,15 @@ export interface ScheduleMainMessageOptions {
   showDetails?: boolean;
   showVoteButtons?: boolean;
   isNewlyCreated?: boolean;
+  nonRespondentIds?: string[];
 }
 
 export interface CreateMainEmbedOptions {
   readonly summary?: ScheduleSummaryResponseDto;
   readonly schedule?: ScheduleResponseDto;
   readonly showDetails?: boolean;
+  // 詳細表示で未回答者を表示する場合に指定
+  readonly nonRespondentIds?: string[];
 }
 
 export interface CreateMainComponentsOptions {
@@ -37,10 +44,10 @@ export class ScheduleMainMessageBuilder {
    * メインメッセージのEmbed作成
    */
   static createMainEmbed(options: CreateMainEmbedOptions) {
-    const { summary, schedule, showDetails = false } = options;
+    const { summary, schedule, showDetails = false, nonRespondentIds } = options;
     if (showDetails && summary) {
       // 詳細表示（投票状況含む）
-      return createScheduleEmbedWithTable({ summary, showDetails });
+      return createScheduleEmbedWithTable({ summary, showDetails, nonRespondentIds });
     } else {
       // 簡易表示（基本情報のみ・回答者数表示・簡易投票状況）
       const targetSchedule = schedule || summary?.schedule;
@@ -112,6 +119,9 @@ export class ScheduleMainMessageBuilder {
       });
     }
 
+    // カレンダー書き出しボタン（締切済み・日程決定済みの場合のみ）
+    components.push(...createCalendarExportRows(schedule));
+
     return components;
   }
 
@@ -119,14 +129,25 @@ export class ScheduleMainMessageBuilder {
    * メインメッセージのUI作成
    */
   static createMainMessage(options: ScheduleMainMessageOptions) {
-    const { summary, schedule, showDetails = false, showVoteButtons = true } = options;
+    const {
+      summary,
+      schedule,
+      showDetails = false,
+      showVoteButtons = true,
+      nonRespondentIds,
+    } = options;
 
     const targetSchedule = schedule || summary?.schedule;
     if (!targetSchedule) {
       throw new Error('schedule or summary must be provided');
     }
 
-    const embed = ScheduleMainMessageBuilder.createMainEmbed({ summary, schedule, showDetails });
+    const embed = ScheduleMainMessageBuilder.createMainEmbed({
+      summary,
+      schedule,
+      showDetails,
+      nonRespondentIds,
+    });
     const components = ScheduleMainMessageBuilder.createMainComponents({
       schedule: targetSchedule,
       showDetails,
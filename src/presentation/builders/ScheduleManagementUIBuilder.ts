@@ -10,6 +10,18 @@ import type {
 } from '../../application/dto/ScheduleDto';
 import { EMBED_COLORS, STATUS_EMOJI } from '../constants/ui';
 import { createButtonId } from '../utils/button-helpers';
+import {
+  createCloneButtonId,
+  createCoOrganizersButtonId,
+  createHelpButtonId,
+  createInviteesButtonId,
+  createRecurrenceButtonId,
+  createReminderMentionsButtonId,
+  createReorderDatesButtonId,
+  createSaveTemplateButtonId,
+  createTransferOwnerButtonId,
+} from '../utils/button-id';
+import { formatDiscordTimestamp } from '../utils/date-formatter';
 
 export class ScheduleManagementUIBuilder {
   /**
@@ -30,7 +42,7 @@ export class ScheduleManagementUIBuilder {
           .map((response) => {
             const status = response.dateStatuses[date.id];
             if (!status) return null;
-            const comment = '';
+            const comment = response.comment ? ` (💬 ${response.comment})` : '';
             const emoji =
               status === 'ok'
                 ? STATUS_EMOJI.yes
@@ -153,11 +165,49 @@ export class ScheduleManagementUIBuilder {
             custom_id: createButtonId('edit_deadline', scheduleId, originalMessageId),
             emoji: { name: '⏰' },
           },
+          {
+            type: 2,
+            style: 2,
+            label: '参加予定者',
+            custom_id: createInviteesButtonId(scheduleId),
+            emoji: { name: '👥' },
+          },
+          {
+            type: 2,
+            style: 2,
+            label: '?',
+            custom_id: createHelpButtonId('edit'),
+          },
         ],
       },
       {
         type: 1,
         components: [
+          {
+            type: 2,
+            style: 2,
+            label: '通知先',
+            custom_id: createReminderMentionsButtonId(scheduleId),
+            emoji: { name: '🔔' },
+          },
+          {
+            type: 2,
+            style: 3, // SUCCESS
+            label: schedule.decidedDateId ? '決定日程を変更' : '日程を決定',
+            custom_id: createButtonId('decide', scheduleId),
+            emoji: { name: '🎉' },
+          },
+          ...(schedule.decidedDateId
+            ? [
+                {
+                  type: 2,
+                  style: 1, // PRIMARY
+                  label: schedule.guildEventId ? 'イベントを更新' : 'イベント作成',
+                  custom_id: createButtonId('guild_event', scheduleId),
+                  emoji: { name: '📅' },
+                },
+              ]
+            : []),
           ...(schedule.status === 'open'
             ? [
                 {
@@ -168,7 +218,15 @@ export class ScheduleManagementUIBuilder {
                   emoji: { name: '🔒' },
                 },
               ]
-            : []),
+            : [
+                {
+                  type: 2,
+                  style: 1, // PRIMARY
+                  label: '再開する',
+                  custom_id: createButtonId('reopen', scheduleId),
+                  emoji: { name: '🔓' },
+                },
+              ]),
           {
             type: 2,
             style: 4, // DANGER
@@ -178,6 +236,109 @@ export class ScheduleManagementUIBuilder {
           },
         ],
       },
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 2,
+            label: '共同主催者',
+            custom_id: createCoOrganizersButtonId(scheduleId),
+            emoji: { name: '🤝' },
+          },
+          {
+            type: 2,
+            style: 2,
+            label: '主催者を譲渡',
+            custom_id: createTransferOwnerButtonId(scheduleId),
+            emoji: { name: '👑' },
+          },
+          {
+            type: 2,
+            style: 2,
+            label: '複製',
+            custom_id: createCloneButtonId(scheduleId),
+            emoji: { name: '📋' },
+          },
+          {
+            type: 2,
+            style: 2,
+            label: 'テンプレート保存',
+            custom_id: createSaveTemplateButtonId(scheduleId),
+            emoji: { name: '💾' },
+          },
+          {
+            type: 2,
+            style: 2,
+            label: '定期作成',
+            custom_id: createRecurrenceButtonId(scheduleId),
+            emoji: { name: '🔁' },
+          },
+        ],
+      },
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 2,
+            label: '候補の並べ替え',
+            custom_id: createReorderDatesButtonId(scheduleId),
+            emoji: { name: '↕️' },
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * 開催日程を決定するセレクトメニューを作成
+   * 決定済みなら決定日程、未決定なら最有力候補を初期選択にする
+   */
+  createDecideDateSelectComponents(summary: ScheduleSummaryResponseDto) {
+    const { schedule, responseCounts, bestDateId } = summary;
+    const defaultDateId = schedule.decidedDateId || bestDateId;
+
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 3, // STRING_SELECT
+            custom_id: createButtonId('decide_date', schedule.id),
+            placeholder: '開催日程を選択してください',
+            options: schedule.dates.slice(0, 25).map((date) => {
+              const count = responseCounts[date.id] || { yes: 0, maybe: 0, no: 0 };
+              return {
+                label:
+                  date.datetime.length > 100 ? `${date.datetime.slice(0, 97)}...` : date.datetime,
+                value: date.id,
+                description: `${STATUS_EMOJI.yes} ${count.yes}人 ${STATUS_EMOJI.maybe} ${count.maybe}人 ${STATUS_EMOJI.no} ${count.no}人`,
+                default: date.id === defaultDateId,
+              };
+            }),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * サーバーイベントの開催場所をボイスチャンネルに変更するセレクトメニューを作成
+   */
+  createGuildEventChannelSelectComponents(scheduleId: string) {
+    return [
+      {
+        type: 1,
+        components: [
+          {
+            type: 8, // CHANNEL_SELECT
+            custom_id: createButtonId('guild_event_channel', scheduleId),
+            placeholder: 'ボイスチャンネルで開催する場合は選択してください',
+            channel_types: [2], // GUILD_VOICE
+          },
+        ],
+      },
     ];
   }
 
@@ -198,7 +359,7 @@ export class ScheduleManagementUIBuilder {
       .map((schedule, idx) => {
         const status = schedule.status === 'open' ? '🟢 受付中' : '🔴 締切済み';
         const deadline = schedule.deadline
-          ? `締切: ${new Date(schedule.deadline).toLocaleDateString('ja-JP')}`
+          ? `締切: ${formatDiscordTimestamp(schedule.deadline, 'f')}`
           : '締切なし';
 
         return `${idx + 1}. **${schedule.title}** ${status}\n   ${deadline} | 回答: ${schedule.totalResponses}人`;
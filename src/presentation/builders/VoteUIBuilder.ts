@@ -6,6 +6,8 @@
 
 import type { ResponseDto } from '../../application/dto/ResponseDto';
 import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+import { createButtonId } from '../utils/button-helpers';
 
 export class VoteUIBuilder {
   /**
@@ -60,4 +62,49 @@ export class VoteUIBuilder {
       };
     });
   }
+
+  /**
+   * コメントボタンの行を作成
+   */
+  createCommentButtonRow(scheduleId: string, userResponse: ResponseDto | null) {
+    return {
+      type: 1, // Action Row
+      components: [
+        {
+          type: 2, // Button
+          style: 2, // Secondary
+          label: userResponse?.comment ? 'コメントを編集' : 'コメントを追加',
+          custom_id: createButtonId('comment', scheduleId),
+          emoji: { name: '💬' },
+        },
+      ],
+    };
+  }
+
+  /**
+   * コメント入力モーダルを作成
+   */
+  createCommentModal(schedule: ScheduleResponseDto, userResponse: ResponseDto | null) {
+    return {
+      custom_id: `modal:comment:${schedule.id}`,
+      title: 'コメントを入力',
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 4, // Text Input
+              custom_id: 'comment',
+              label: 'コメント（空欄で削除）',
+              style: 2, // Paragraph
+              placeholder: '例: 30分ほど遅れて参加します',
+              value: userResponse?.comment || '',
+              required: false,
+              max_length: BUSINESS_CONSTANTS.MAX_COMMENT_LENGTH,
+            },
+          ],
+        },
+      ],
+    };
+  }
 }
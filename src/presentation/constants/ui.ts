@@ -17,10 +17,16 @@ export const EMBED_COLORS = {
   CLOSED: 0xe74c3c, // Red
   INFO: 0x3498db, // Blue
   WARNING: 0xf39c12, // Orange
+  DECIDED: 0xf1c40f, // Gold
 } as const;
 
 // List display limits
 export const LIST_LIMITS = {
   DEFAULT_SCHEDULE_LIMIT: 10,
+  MAX_SCHEDULE_LIST_FETCH: 100,
+  SCHEDULES_PER_PAGE: 5,
   MAX_DISCORD_EMBED_FIELDS: 25,
 } as const;
+
+// 日程候補の入力欄（作成・日程追加モーダル）の最大文字数
+export const CANDIDATE_INPUT_MAX_LENGTH = 1000;
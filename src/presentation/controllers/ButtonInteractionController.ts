@@ -10,7 +10,11 @@ import { DependencyContainer } from '../../di/DependencyContainer';
 import { getLogger } from '../../infrastructure/logging/Logger';
 import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
 import { parseButtonIdToComponents } from '../utils/button-id';
+import { createCalendarExportController } from './CalendarExportController';
+import { createCommandController } from './CommandController';
 import { createDisplayController } from './DisplayController';
+import { createGuildSettingsController } from './GuildSettingsController';
+import { createRecurrenceController } from './RecurrenceController';
 import { createScheduleEditController } from './ScheduleEditController';
 import { createScheduleManagementController } from './ScheduleManagementController';
 import { createVoteController } from './VoteController';
@@ -36,6 +40,8 @@ export class ButtonInteractionController {
         case 'respond':
         case 'vote': // 後方互換性のため
           return this.handleRespondButton(interaction, params, env);
+        case 'comment':
+          return this.handleCommentButton(interaction, params, env);
 
         // Schedule management actions
         case 'status':
@@ -46,6 +52,12 @@ export class ButtonInteractionController {
           return this.handleDetailsButton(interaction, params);
         case 'close':
           return this.handleCloseButton(interaction, params, env);
+        case 'reopen':
+          return this.handleReopenButton(interaction, params);
+        case 'decide':
+          return this.handleDecideButton(interaction, params, env);
+        case 'guild_event':
+          return this.handleGuildEventButton(interaction, params);
         case 'delete':
           return this.handleDeleteButton(interaction, params, env);
         case 'refresh':
@@ -60,6 +72,18 @@ export class ButtonInteractionController {
           return this.handleUpdateDatesButton(interaction, params);
         case 'add_dates':
           return this.handleAddDatesButton(interaction, params);
+        case 'fix_weekdays':
+          return this.handleFixWeekdaysButton(interaction, params);
+        case 'generated_add_dates':
+          return this.handleGeneratedAddDatesButton(interaction, params);
+        case 'generated_create':
+          return this.handleGeneratedCreateButton(interaction, params);
+        case 'reorder_dates':
+          return this.handleReorderDatesButton(interaction, params);
+        case 'move_date':
+          return this.handleMoveDateButton(interaction, params);
+        case 'sort_dates':
+          return this.handleSortDatesButton(interaction, params);
         case 'remove_dates':
           return this.handleRemoveDatesButton(interaction, params);
         case 'confirm_remove_date':
@@ -68,11 +92,49 @@ export class ButtonInteractionController {
           return this.handleEditDeadlineButton(interaction, params);
         case 'reminder_edit':
           return this.handleReminderEditButton(interaction, params);
+        case 'invitees':
+          return this.handleInviteesButton(interaction, params);
+        case 'clear_invitees':
+          return this.handleClearInviteesButton(interaction, params);
+        case 'reminder_mentions':
+          return this.handleReminderMentionsButton(interaction, params);
+        case 'co_organizers':
+          return this.handleCoOrganizersButton(interaction, params);
+        case 'clone':
+          return this.handleCloneButton(interaction, params);
+        case 'save_template':
+          return this.handleSaveTemplateButton(interaction, params);
+        case 'create_recurrence':
+          return this.handleCreateRecurrenceButton(interaction, params, env);
+        case 'transfer_owner':
+          return this.handleTransferOwnerButton(interaction, params);
 
         // Display actions
         case 'toggle_details':
           return this.handleToggleDetailsButton(interaction, params, env);
 
+        // Export actions
+        case 'ics':
+          return this.handleIcsButton(interaction, params, env);
+
+        // List actions
+        case 'list_page':
+          return this.handleListPageButton(interaction, params, env);
+
+        // Help actions
+        case 'help':
+          return this.handleHelpButton(params, env);
+        case 'help_page':
+          return this.handleHelpPageButton(params, env);
+
+        // Settings actions
+        case 'guild_settings':
+          return this.handleGuildSettingsButton(interaction, params, env);
+
+        // Recurrence actions
+        case 'recurrence':
+          return this.handleRecurrenceButton(interaction, params, env);
+
         default:
           return this.createErrorResponse('不明なボタンです。');
       }
@@ -101,6 +163,15 @@ export class ButtonInteractionController {
     return controller.handleRespondButton(interaction, params, env);
   }
 
+  private async handleCommentButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createVoteController(env);
+    return controller.handleCommentButton(interaction, params);
+  }
+
   // Schedule management handlers
   private async handleStatusButton(
     interaction: ButtonInteraction,
@@ -135,6 +206,31 @@ export class ButtonInteractionController {
     return controller.handleCloseButton(interaction, params, env);
   }
 
+  private async handleReopenButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleReopenButton(interaction, params);
+  }
+
+  private async handleDecideButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createScheduleManagementController(env);
+    return controller.handleDecideButton(interaction, params);
+  }
+
+  private async handleGuildEventButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleManagementController(this.dependencyContainer.env);
+    return controller.handleGuildEventButton(interaction, params);
+  }
+
   private async handleDeleteButton(
     interaction: ButtonInteraction,
     params: string[],
@@ -185,6 +281,54 @@ export class ButtonInteractionController {
     return controller.handleAddDatesButton(interaction, params);
   }
 
+  private async handleFixWeekdaysButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleFixWeekdaysButton(interaction, params);
+  }
+
+  private async handleReorderDatesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleReorderDatesButton(interaction, params);
+  }
+
+  private async handleMoveDateButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleMoveDateButton(interaction, params);
+  }
+
+  private async handleSortDatesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleSortDatesButton(interaction, params);
+  }
+
+  private async handleGeneratedAddDatesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleGeneratedAddDatesButton(interaction, params);
+  }
+
+  private async handleGeneratedCreateButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleGeneratedCreateButton(interaction, params);
+  }
+
   private async handleRemoveDatesButton(
     interaction: ButtonInteraction,
     params: string[]
@@ -217,6 +361,71 @@ export class ButtonInteractionController {
     return controller.handleReminderEditButton(interaction, params);
   }
 
+  private async handleInviteesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleInviteesButton(interaction, params);
+  }
+
+  private async handleClearInviteesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleClearInviteesButton(interaction, params);
+  }
+
+  private async handleReminderMentionsButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleReminderMentionsButton(interaction, params);
+  }
+
+  private async handleCoOrganizersButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleCoOrganizersButton(interaction, params);
+  }
+
+  private async handleCloneButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleCloneButton(interaction, params);
+  }
+
+  private async handleSaveTemplateButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleSaveTemplateButton(interaction, params);
+  }
+
+  private async handleCreateRecurrenceButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createRecurrenceController(env);
+    return controller.handleCreateRecurrenceButton(interaction, params);
+  }
+
+  private async handleTransferOwnerButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const controller = createScheduleEditController(this.dependencyContainer.env);
+    return controller.handleTransferOwnerButton(interaction, params);
+  }
+
   // Display handlers
   private async handleToggleDetailsButton(
     interaction: ButtonInteraction,
@@ -227,6 +436,57 @@ export class ButtonInteractionController {
     return controller.handleToggleDetailsButton(interaction, params, env);
   }
 
+  // Export handlers
+  private async handleIcsButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createCalendarExportController(env);
+    return controller.handleIcsButton(interaction, params, env);
+  }
+
+  // List handlers
+  private async handleListPageButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createCommandController(env);
+    return controller.handleListPageButton(interaction, params);
+  }
+
+  // Help handlers
+  private handleHelpButton(params: string[], env: Env): Response {
+    const controller = createCommandController(env);
+    return controller.handleHelpButton(params);
+  }
+
+  private handleHelpPageButton(params: string[], env: Env): Response {
+    const controller = createCommandController(env);
+    return controller.handleHelpPageButton(params);
+  }
+
+  // Settings handlers
+  private async handleGuildSettingsButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createGuildSettingsController(env);
+    return controller.handleSettingsButton(interaction, params);
+  }
+
+  // Recurrence handlers
+  private async handleRecurrenceButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createRecurrenceController(env);
+    return controller.handleRecurrenceButton(interaction, params);
+  }
+
   private createErrorResponse(message: string): Response {
     return new Response(
       JSON.stringify({
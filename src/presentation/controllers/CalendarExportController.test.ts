@@ -0,0 +1,117 @@
+import { InteractionResponseType, InteractionType } from 'discord-interactions';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { D1Database } from '../../../tests/helpers/d1-database';
+import {
+  applyMigrations,
+  closeTestDatabase,
+  createTestD1Database,
+  createTestEnv,
+} from '../../../tests/helpers/d1-database';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
+import { createCalendarExportController } from './CalendarExportController';
+
+describe('CalendarExportController', () => {
+  let db: D1Database;
+  let env: Env;
+  let scheduleId: string;
+
+  const createInteraction = (customId: string): ButtonInteraction => ({
+    id: 'test_id',
+    type: InteractionType.MESSAGE_COMPONENT,
+    data: { custom_id: customId, component_type: 2 },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: {
+      user: { id: 'user123', username: 'TestUser', discriminator: '0001' },
+      roles: [],
+    },
+    token: 'test_token',
+  });
+
+  beforeEach(async () => {
+    db = createTestD1Database();
+    await applyMigrations(db);
+    env = createTestEnv(db);
+    global.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+
+    const container = new DependencyContainer(env);
+    const created = await container.applicationServices.createScheduleUseCase.execute({
+      title: 'ICS Test Schedule',
+      dates: [
+        {
+          id: 'date1',
+          datetime: '2099/12/25 19:00',
+          startAt: '2099-12-25T10:00:00.000Z',
+          endAt: '2099-12-25T12:00:00.000Z',
+        },
+      ],
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+    });
+    scheduleId = created.schedule?.id || '';
+    await container.closeScheduleUseCase.execute({
+      scheduleId,
+      guildId: 'test-guild',
+      editorUserId: 'user123',
+    });
+  });
+
+  afterEach(() => {
+    closeTestDatabase(db);
+    vi.restoreAllMocks();
+  });
+
+  describe('handleIcsButton', () => {
+    it('should defer and send the file in the background', async () => {
+      const waitUntil = vi.fn();
+      const ctxEnv = { ...env, ctx: { waitUntil } as unknown as ExecutionContext };
+
+      const response = await createCalendarExportController(ctxEnv).handleIcsButton(
+        createInteraction(`ics:${scheduleId}:candidates`),
+        [scheduleId, 'candidates'],
+        ctxEnv
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.type).toBe(InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(data.data.flags).toBe(64);
+      expect(waitUntil).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return an ephemeral error instead of deferring without an execution context', async () => {
+      const response = await createCalendarExportController(env).handleIcsButton(
+        createInteraction(`ics:${scheduleId}:candidates`),
+        [scheduleId, 'candidates'],
+        env
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(data.data.flags).toBe(64);
+      expect(data.data.content).toContain('カレンダーの書き出しを利用できません');
+    });
+
+    it('should return an ephemeral error instead of deferring without an application id', async () => {
+      const waitUntil = vi.fn();
+      const ctxEnv = {
+        ...env,
+        DISCORD_APPLICATION_ID: '',
+        ctx: { waitUntil } as unknown as ExecutionContext,
+      };
+
+      const response = await createCalendarExportController(ctxEnv).handleIcsButton(
+        createInteraction(`ics:${scheduleId}:candidates`),
+        [scheduleId, 'candidates'],
+        ctxEnv
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(data.data.flags).toBe(64);
+      expect(waitUntil).not.toHaveBeenCalled();
+    });
+  });
+});
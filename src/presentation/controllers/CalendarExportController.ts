@@ -0,0 +1,138 @@
+/**
+ * Calendar Export Controller
+ *
+ * カレンダー書き出し（.ics）機能のコントローラー
+ */
+
+import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import { getLogger } from '../../infrastructure/logging/Logger';
+import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
+import { sendFollowupFile } from '../utils/discord-webhook';
+import { createIcsFilename, createScheduleIcs, type IcsExportMode } from '../utils/ics';
+
+export class CalendarExportController {
+  private readonly logger = getLogger();
+
+  constructor(private readonly dependencyContainer: DependencyContainer) {}
+
+  /**
+   * カレンダー書き出しボタン処理
+   * ファイルはフォローアップWebhookで送信するため、まず遅延応答を返す
+   */
+  async handleIcsButton(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    try {
+      // フォローアップを送れない環境で遅延応答を返すと、応答が届かないまま終わってしまう
+      if (!env.ctx || !env.DISCORD_APPLICATION_ID) {
+        this.logger.warn('Missing requirements for ics followup', {
+          operation: 'handle-ics-button',
+          useCase: 'CalendarExportController',
+          hasCtx: !!env.ctx,
+          hasApplicationId: !!env.DISCORD_APPLICATION_ID,
+        });
+        return this.createErrorResponse('現在カレンダーの書き出しを利用できません。');
+      }
+      const { ctx, DISCORD_APPLICATION_ID: applicationId } = env;
+
+      const guildId = interaction.guild_id || 'default';
+      const [scheduleId, modeParam] = params;
+      const mode: IcsExportMode = modeParam === 'candidates' ? 'candidates' : 'decided';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      const schedule = scheduleResult.schedule;
+      if (schedule.status !== 'closed' && !schedule.decidedDateId) {
+        return this.createErrorResponse(
+          'カレンダーへの書き出しは締め切り後または日程決定後に利用できます。'
+        );
+      }
+      if (mode === 'decided' && !schedule.decidedDateId) {
+        return this.createErrorResponse('開催日程がまだ決定されていません。');
+      }
+
+      // 日付のみの候補は作成者のタイムゾーンで解釈されているため、同じタイムゾーンで終日判定する
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        schedule.authorId
+      );
+      const ics = createScheduleIcs({ schedule, mode, timeZone });
+      if (!ics) {
+        return this.createErrorResponse(
+          'カレンダーに書き出せる日時がありません。\n日程候補を「12/25 19:00」のような形式で入力すると書き出せます。'
+        );
+      }
+
+      const content =
+        mode === 'decided'
+          ? `📆 「${schedule.title}」の開催日程です。カレンダーアプリで開いて登録してください。`
+          : `🗓️ 「${schedule.title}」の候補日程です（仮の予定として登録されます）。`;
+
+      ctx.waitUntil(
+        sendFollowupFile(
+          applicationId,
+          interaction.token,
+          content,
+          {
+            filename: createIcsFilename(schedule.id, mode),
+            content: ics,
+            contentType: 'text/calendar; charset=utf-8',
+          },
+          env
+        )
+      );
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleIcsButton',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-ics-button',
+          useCase: 'CalendarExportController',
+          scheduleId: params[0],
+          guildId: interaction.guild_id,
+        }
+      );
+      return this.createErrorResponse('カレンダーの書き出し中にエラーが発生しました。');
+    }
+  }
+
+  private createErrorResponse(message: string): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content: message,
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Factory function for creating controller with dependencies
+ */
+export function createCalendarExportController(env: Env): CalendarExportController {
+  const container = new DependencyContainer(env);
+  return new CalendarExportController(container);
+}
@@ -8,6 +8,7 @@ import {
   createTestEnv,
 } from '../../../tests/helpers/d1-database';
 import { expectInteractionResponse } from '../../../tests/helpers/interaction-schemas';
+import { DependencyContainer } from '../../di/DependencyContainer';
 import type { CommandInteraction, Env } from '../../infrastructure/types/discord';
 import { createCommandController } from './CommandController';
 
@@ -63,8 +64,7 @@ describe('Chouseichan Commands', () => {
     expect(data.data?.custom_id).toBe('modal:create_schedule');
   });
 
-  it.skip('should list schedules in channel', async () => {
-    // listコマンドは現在コメントアウトされている
+  it('should show empty message when channel has no schedules', async () => {
     const interaction: CommandInteraction = {
       id: 'test_id',
       type: InteractionType.APPLICATION_COMMAND,
@@ -98,5 +98,399 @@ describe('Chouseichan Commands', () => {
     expect(response.status).toBe(200);
     expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
     expect(data.data?.flags).toBe(64);
+    expect(data.data?.content).toBe('このチャンネルには日程調整がありません。');
+  });
+
+  describe('list subcommand', () => {
+    const createListInteraction = (): CommandInteraction => ({
+      id: 'test_id',
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [{ name: 'list', type: 1, value: '' }],
+      },
+      channel_id: 'test_channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: 'user123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      },
+      token: 'test_token',
+    });
+
+    const createSchedules = async (count: number) => {
+      const container = new DependencyContainer(env);
+      const ids: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const result = await container.createScheduleUseCase.execute({
+          guildId: 'test-guild',
+          channelId: 'test_channel',
+          authorId: 'user123',
+          authorUsername: 'TestUser',
+          title: `予定${i + 1}`,
+          dates: [{ id: `date-${i}`, datetime: '12/25 19:00' }],
+        });
+        const schedule = result.schedule as NonNullable<typeof result.schedule>;
+        await container.updateScheduleUseCase.execute({
+          scheduleId: schedule.id,
+          guildId: 'test-guild',
+          editorUserId: 'user123',
+          messageId: `msg-${i}`,
+        });
+        ids.push(schedule.id);
+      }
+      return { container, ids };
+    };
+
+    it('should list open schedules before closed ones with link buttons', async () => {
+      const { container, ids } = await createSchedules(2);
+      await container.closeScheduleUseCase.execute({
+        scheduleId: ids[1],
+        guildId: 'test-guild',
+        editorUserId: 'user123',
+      });
+
+      const response = await createCommandController(env).handleChouseichanCommand(
+        createListInteraction(),
+        env
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(data.data.flags).toBe(64);
+      const fields = data.data.embeds[0].fields;
+      expect(fields).toHaveLength(2);
+      expect(fields[0].name).toContain('🟢');
+      expect(fields[1].name).toContain('🔴');
+
+      const linkButtons = data.data.components[0].components;
+      expect(linkButtons).toHaveLength(2);
+      expect(linkButtons[0].style).toBe(5);
+      expect(linkButtons[0].url).toMatch(
+        /^https:\/\/discord\.com\/channels\/test-guild\/test_channel\/msg-\d$/
+      );
+    });
+
+    it('should paginate schedules and navigate with page buttons', async () => {
+      await createSchedules(7);
+
+      const response = await createCommandController(env).handleChouseichanCommand(
+        createListInteraction(),
+        env
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.data.embeds[0].fields).toHaveLength(5);
+      expect(data.data.embeds[0].footer.text).toBe('ページ 1/2');
+      const pageButtons = data.data.components[1].components;
+      expect(pageButtons[0].disabled).toBe(true);
+      expect(pageButtons[1].custom_id).toBe('list_page:test_channel:1');
+
+      const buttonInteraction = {
+        id: 'btn_id',
+        type: InteractionType.MESSAGE_COMPONENT,
+        data: { custom_id: 'list_page:test_channel:1', component_type: 2 },
+        channel_id: 'test_channel',
+        guild_id: 'test-guild',
+        token: 'test_token',
+      };
+      const pageResponse = await createCommandController(env).handleListPageButton(
+        buttonInteraction,
+        ['test_channel', '1']
+      );
+      const pageData = (await pageResponse.json()) as any;
+
+      expect(pageData.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(pageData.data.embeds[0].fields).toHaveLength(2);
+      expect(pageData.data.embeds[0].footer.text).toBe('ページ 2/2');
+    });
+  });
+
+  it('should show help embed for help subcommand', async () => {
+    const interaction: CommandInteraction = {
+      id: 'test_id',
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [{ name: 'help', type: 1, value: '' }],
+      },
+      channel_id: 'test_channel',
+      guild_id: 'test-guild',
+      token: 'test_token',
+    };
+
+    const response = await createCommandController(env).handleChouseichanCommand(interaction, env);
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    expect(data.data?.flags).toBe(64);
+    expect(data.data?.embeds?.[0].title).toBe('📚 調整ちゃん - 使い方');
+    expect(data.data?.components?.[0].components.map((c) => c.custom_id)).toEqual([
+      'help_page:overview',
+      'help_page:dates',
+      'help_page:edit',
+    ]);
+  });
+
+  it('should open the date format page from a help button', async () => {
+    const response = createCommandController(env).handleHelpButton(['dates']);
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    expect(data.data?.flags).toBe(64);
+    expect(data.data?.embeds?.[0].title).toBe('📅 日付の書き方');
+  });
+
+  it('should switch help pages in place', async () => {
+    const response = createCommandController(env).handleHelpPageButton(['edit']);
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+    expect(data.data?.embeds?.[0].title).toBe('✏️ 編集・リマインダー');
+  });
+
+  describe('timezone subcommand', () => {
+    const createTimezoneInteraction = (
+      options: { name: string; value: string }[],
+      permissions?: string
+    ): CommandInteraction => ({
+      id: 'test_id',
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [
+          {
+            name: 'timezone',
+            type: 1,
+            value: '',
+            options: options.map((option) => ({ ...option, type: 3 })),
+          },
+        ],
+      },
+      channel_id: 'test_channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: 'user123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+        permissions,
+      },
+      token: 'test_token',
+    });
+
+    const run = async (interaction: CommandInteraction) => {
+      const response = await createCommandController(env).handleChouseichanCommand(
+        interaction,
+        env
+      );
+      return expectInteractionResponse(await response.json());
+    };
+
+    it('should show the default timezone when nothing is configured', async () => {
+      const data = await run(createTimezoneInteraction([]));
+
+      expect(data.data?.flags).toBe(64);
+      expect(data.data?.content).toContain('現在のタイムゾーン: **Asia/Tokyo**（既定値）');
+    });
+
+    it('should set and reset the user timezone', async () => {
+      const setData = await run(
+        createTimezoneInteraction([{ name: 'timezone', value: 'America/New_York' }])
+      );
+      expect(setData.data?.content).toContain('**America/New_York** に設定しました');
+
+      const container = new DependencyContainer(env);
+      expect(await container.timezoneSettingsUseCase.resolveTimezone('test-guild', 'user123')).toBe(
+        'America/New_York'
+      );
+
+      await run(createTimezoneInteraction([{ name: 'timezone', value: 'reset' }]));
+      expect(await container.timezoneSettingsUseCase.resolveTimezone('test-guild', 'user123')).toBe(
+        'Asia/Tokyo'
+      );
+    });
+
+    it('should reject an invalid timezone', async () => {
+      const data = await run(createTimezoneInteraction([{ name: 'timezone', value: 'Tokyo' }]));
+
+      expect(data.data?.content).toContain('タイムゾーンの形式が正しくありません');
+    });
+
+    it('should require manage guild permission for the guild scope', async () => {
+      const options = [
+        { name: 'timezone', value: 'Europe/London' },
+        { name: 'scope', value: 'guild' },
+      ];
+
+      const deniedData = await run(createTimezoneInteraction(options, '0'));
+      expect(deniedData.data?.content).toContain('「サーバー管理」権限が必要です');
+
+      const allowedData = await run(createTimezoneInteraction(options, '32'));
+      expect(allowedData.data?.content).toContain('サーバーのタイムゾーンを **Europe/London**');
+
+      const container = new DependencyContainer(env);
+      expect(await container.timezoneSettingsUseCase.resolveTimezone('test-guild', 'other')).toBe(
+        'Europe/London'
+      );
+    });
+  });
+
+  describe('clone subcommand', () => {
+    const createCloneInteraction = (
+      options: { name: string; type: number; value: string | number }[]
+    ): CommandInteraction => ({
+      id: 'test_id',
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [{ name: 'clone', type: 1, value: '', options }],
+      },
+      channel_id: 'test_channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: 'user123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      },
+      token: 'test_token',
+    });
+
+    const run = async (interaction: CommandInteraction) => {
+      const response = await createCommandController(env).handleChouseichanCommand(
+        interaction,
+        env
+      );
+      return (await response.json()) as any;
+    };
+
+    it('should open a prefilled creation modal for the matching schedule', async () => {
+      const container = new DependencyContainer(env);
+      for (const title of ['定例会', '忘年会']) {
+        await container.createScheduleUseCase.execute({
+          guildId: 'test-guild',
+          channelId: 'test_channel',
+          authorId: 'user123',
+          authorUsername: 'TestUser',
+          title,
+          dates: [
+            {
+              id: `date-${title}`,
+              datetime: '2099/12/01(火) 19:00',
+              startAt: '2099-12-01T10:00:00.000Z',
+            },
+          ],
+        });
+      }
+
+      const data = await run(
+        createCloneInteraction([
+          { name: 'title', type: 3, value: '定例' },
+          { name: 'weeks', type: 4, value: 1 },
+        ])
+      );
+
+      expect(data.type).toBe(InteractionResponseType.MODAL);
+      expect(data.data.title).toBe('日程調整を複製');
+      expect(data.data.custom_id).toMatch(/^modal:create_schedule:clone:/);
+      expect(data.data.components[0].components[0].value).toBe('定例会');
+      expect(data.data.components[2].components[0].value).toBe('2099/12/08(火) 19:00');
+    });
+
+    it('should report when no schedule matches', async () => {
+      const data = await run(createCloneInteraction([{ name: 'title', type: 3, value: '新年会' }]));
+
+      expect(data.data.flags).toBe(64);
+      expect(data.data.content).toContain(
+        '「新年会」を含む日程調整がこのチャンネルに見つかりません。'
+      );
+    });
+  });
+
+  describe('templates subcommand', () => {
+    const createTemplatesInteraction = (
+      userId: string,
+      deleteName?: string,
+      permissions?: string
+    ): CommandInteraction => ({
+      id: 'test_id',
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: 'cmd_id',
+        name: 'chouseichan',
+        options: [
+          {
+            name: 'templates',
+            type: 1,
+            value: '',
+            options: deleteName ? [{ name: 'delete', type: 3, value: deleteName }] : [],
+          },
+        ],
+      },
+      channel_id: 'test_channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: userId, username: userId, discriminator: '0001' },
+        roles: [],
+        permissions,
+      },
+      token: 'test_token',
+    });
+
+    const run = async (interaction: CommandInteraction) => {
+      const response = await createCommandController(env).handleChouseichanCommand(
+        interaction,
+        env
+      );
+      return (await response.json()) as any;
+    };
+
+    const saveTemplate = async () => {
+      const container = new DependencyContainer(env);
+      const result = await container.createScheduleUseCase.execute({
+        guildId: 'test-guild',
+        channelId: 'test_channel',
+        authorId: 'user123',
+        authorUsername: 'TestUser',
+        title: '定例会',
+        dates: [{ id: 'date-1', datetime: '12/25 19:00' }],
+      });
+      await container.scheduleTemplateUseCase.saveFromSchedule({
+        scheduleId: result.schedule?.id || '',
+        guildId: 'test-guild',
+        name: '定例会',
+        editorUserId: 'user123',
+      });
+    };
+
+    it('should explain how to save templates when none exist', async () => {
+      const data = await run(createTemplatesInteraction('user123'));
+
+      expect(data.data.flags).toBe(64);
+      expect(data.data.content).toContain('テンプレートがありません');
+    });
+
+    it('should list saved templates', async () => {
+      await saveTemplate();
+
+      const data = await run(createTemplatesInteraction('user123'));
+
+      expect(data.data.embeds[0].fields[0].name).toBe('定例会');
+      expect(data.data.embeds[0].fields[0].value).toContain('日程候補: 1件');
+    });
+
+    it('should only let the saver or moderators delete a template', async () => {
+      await saveTemplate();
+
+      const denied = await run(createTemplatesInteraction('other', '定例会', '0'));
+      expect(denied.data.content).toContain('保存したメンバーとサーバーのモデレーターのみ');
+
+      const deleted = await run(createTemplatesInteraction('user123', '定例会'));
+      expect(deleted.data.content).toContain('テンプレート「定例会」を削除しました');
+
+      const list = await run(createTemplatesInteraction('user123'));
+      expect(list.data.content).toContain('テンプレートがありません');
+    });
   });
 });
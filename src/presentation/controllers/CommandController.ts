@@ -6,19 +6,36 @@
  */
 
 import { InteractionResponseType } from 'discord-interactions';
+import { SchedulePermissionPolicy } from '../../application/services/SchedulePermissionPolicy';
+import type { TimezoneSettings } from '../../application/usecases/settings/TimezoneSettingsUseCase';
 import { DependencyContainer } from '../../di/DependencyContainer';
 import { DISCORD_API_CONSTANTS } from '../../infrastructure/constants/DiscordConstants';
 import { getLogger } from '../../infrastructure/logging/Logger';
-import type { CommandInteraction, Env } from '../../infrastructure/types/discord';
+import type {
+  ButtonInteraction,
+  CommandInteraction,
+  Env,
+} from '../../infrastructure/types/discord';
 import { CommandUIBuilder } from '../builders/CommandUIBuilder';
+import {
+  createHelpUIBuilder,
+  type HelpPage,
+  type HelpUIBuilder,
+  isHelpPage,
+} from '../builders/HelpUIBuilder';
 import { LIST_LIMITS } from '../constants/ui';
+import { formatDate } from '../utils/date-formatter';
+import { getUserId } from '../utils/discord-helpers';
+import { GuildSettingsController } from './GuildSettingsController';
+import { RecurrenceController } from './RecurrenceController';
 
 export class CommandController {
   private readonly logger = getLogger();
 
   constructor(
     private readonly dependencyContainer: DependencyContainer,
-    private readonly uiBuilder: CommandUIBuilder
+    private readonly uiBuilder: CommandUIBuilder,
+    private readonly helpUIBuilder: HelpUIBuilder = createHelpUIBuilder()
   ) {}
 
   /**
@@ -26,8 +43,34 @@ export class CommandController {
    */
   async handleChouseichanCommand(interaction: CommandInteraction, _env: Env): Promise<Response> {
     try {
-      // 直接作成コマンドを実行
-      return this.handleCreateCommand(interaction);
+      // サブコマンドで分岐（サブコマンドなしは従来通り作成）
+      const subcommand = interaction.data.options?.[0]?.name;
+
+      switch (subcommand) {
+        case 'list':
+          return this.handleListCommand(interaction);
+        case 'help':
+          return this.handleHelpCommand();
+        case 'timezone':
+          return this.handleTimezoneCommand(interaction);
+        case 'settings':
+          return new GuildSettingsController(this.dependencyContainer).handleSettingsCommand(
+            interaction
+          );
+        case 'clone':
+          return this.handleCloneCommand(interaction);
+        case 'templates':
+          return this.handleTemplatesCommand(interaction);
+        case 'recurring':
+          return new RecurrenceController(this.dependencyContainer).handleRecurringCommand(
+            interaction
+          );
+        case 'create':
+        case undefined:
+          return this.handleCreateCommand(interaction);
+        default:
+          return this.createErrorResponse('不明なサブコマンドです。');
+      }
     } catch (error) {
       this.logger.error(
         'Error in handleChouseichanCommand',
@@ -44,9 +87,34 @@ export class CommandController {
 
   /**
    * スケジュール作成コマンド処理
+   * template を指定するとテンプレートの内容を入力済みのモーダルを表示する
    */
-  private async handleCreateCommand(_interaction: CommandInteraction): Promise<Response> {
+  private async handleCreateCommand(interaction: CommandInteraction): Promise<Response> {
     try {
+      const templateName = interaction.data.options?.[0]?.options?.find(
+        (option) => option.name === 'template'
+      )?.value;
+
+      if (typeof templateName === 'string' && templateName.trim()) {
+        const draftResult = await this.dependencyContainer.scheduleTemplateUseCase.getDraftByName(
+          interaction.guild_id || 'default',
+          templateName
+        );
+        if (!draftResult.success || !draftResult.draft) {
+          return this.createErrorResponse(
+            draftResult.errors?.[0] || 'テンプレートの読み込みに失敗しました。'
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            type: InteractionResponseType.MODAL,
+            data: this.uiBuilder.createScheduleCreationModal(draftResult.draft),
+          }),
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
       // モーダルを表示して対話的に作成
       const modal = this.uiBuilder.createScheduleCreationModal();
 
@@ -64,7 +132,7 @@ export class CommandController {
         {
           operation: 'handle-create-command',
           useCase: 'CommandController',
-          guildId: _interaction.guild_id,
+          guildId: interaction.guild_id,
         }
       );
       return this.createErrorResponse('スケジュール作成画面の表示中にエラーが発生しました。');
@@ -72,9 +140,10 @@ export class CommandController {
   }
 
   /**
-   * スケジュール一覧コマンド処理
+   * スケジュール複製コマンド処理
+   * title を省略するとチャンネルで最後に作成された日程調整を複製する
    */
-  private async handleListCommand(interaction: CommandInteraction): Promise<Response> {
+  private async handleCloneCommand(interaction: CommandInteraction): Promise<Response> {
     try {
       const channelId = interaction.channel_id;
       const guildId = interaction.guild_id || 'default';
@@ -83,41 +152,95 @@ export class CommandController {
         return this.createErrorResponse('このコマンドはチャンネル内でのみ使用できます。');
       }
 
-      // スケジュール一覧取得
-      const schedulesResult = await this.dependencyContainer.findSchedulesUseCase.findByChannel({
+      const options = interaction.data.options?.[0]?.options || [];
+      const title = options.find((option) => option.name === 'title')?.value;
+      const days = Number(options.find((option) => option.name === 'days')?.value ?? 0);
+      const weeks = Number(options.find((option) => option.name === 'weeks')?.value ?? 0);
+
+      // 複製元を検索（新しい順）
+      const findResult = await this.dependencyContainer.findSchedulesUseCase.findByChannel({
         channelId,
         guildId,
-        limit: LIST_LIMITS.DEFAULT_SCHEDULE_LIMIT,
+        limit: LIST_LIMITS.MAX_SCHEDULE_LIST_FETCH,
       });
+      if (!findResult.success) {
+        return this.createErrorResponse('スケジュールの取得に失敗しました。');
+      }
 
-      if (!schedulesResult.success) {
+      const keyword = typeof title === 'string' ? title.trim() : '';
+      const source = (findResult.schedules || []).find(
+        (schedule) => !keyword || schedule.title.includes(keyword)
+      );
+      if (!source) {
         return this.createErrorResponse(
-          schedulesResult.errors?.[0] || 'スケジュール一覧の取得に失敗しました。'
+          keyword
+            ? `「${keyword}」を含む日程調整がこのチャンネルに見つかりません。`
+            : 'このチャンネルに複製できる日程調整がありません。'
         );
       }
-      const schedules = schedulesResult.schedules || [];
 
-      if (schedules.length === 0) {
-        return new Response(
-          JSON.stringify({
-            type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
-            data: {
-              content: 'このチャンネルには進行中の日程調整がありません。',
-              flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
-            },
-          }),
-          { headers: { 'Content-Type': 'application/json' } }
+      // 候補日は実行者のタイムゾーンの暦でずらす
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        getUserId(interaction)
+      );
+
+      const cloneResult = await this.dependencyContainer.cloneScheduleUseCase.execute({
+        scheduleId: source.id,
+        guildId,
+        shiftDays: days + weeks * 7,
+        timeZone,
+      });
+      if (!cloneResult.success || !cloneResult.draft) {
+        return this.createErrorResponse(
+          cloneResult.errors?.[0] || '日程調整の複製に失敗しました。'
         );
       }
 
-      // UI構築
-      const embed = this.uiBuilder.createScheduleListEmbed(schedules);
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: this.uiBuilder.createScheduleCreationModal(cloneResult.draft, timeZone),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleCloneCommand',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-clone-command',
+          useCase: 'CommandController',
+          channelId: interaction.channel_id,
+          guildId: interaction.guild_id,
+        }
+      );
+      return this.createErrorResponse('日程調整の複製中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * スケジュール一覧コマンド処理
+   */
+  private async handleListCommand(interaction: CommandInteraction): Promise<Response> {
+    try {
+      const channelId = interaction.channel_id;
+      const guildId = interaction.guild_id || 'default';
+
+      if (!channelId) {
+        return this.createErrorResponse('このコマンドはチャンネル内でのみ使用できます。');
+      }
+
+      const listData = await this.buildScheduleListData(channelId, guildId, 0);
+      if ('error' in listData) {
+        return this.createErrorResponse(listData.error);
+      }
 
       return new Response(
         JSON.stringify({
           type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
           data: {
-            embeds: [embed],
+            ...listData,
             flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
           },
         }),
@@ -138,6 +261,323 @@ export class CommandController {
     }
   }
 
+  /**
+   * スケジュール一覧のページ送りボタン処理
+   */
+  async handleListPageButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [channelId, pageParam] = params;
+      const guildId = interaction.guild_id || 'default';
+      const page = Number.parseInt(pageParam || '0', 10);
+
+      const listData = await this.buildScheduleListData(
+        channelId,
+        guildId,
+        Number.isNaN(page) ? 0 : page
+      );
+      if ('error' in listData) {
+        return this.createErrorResponse(listData.error);
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.UPDATE_MESSAGE,
+          data: listData,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleListPageButton',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-list-page-button',
+          useCase: 'CommandController',
+          channelId: params[0],
+          guildId: interaction.guild_id,
+        }
+      );
+      return this.createErrorResponse('スケジュール一覧の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * テンプレート一覧・削除コマンド処理
+   * delete を指定するとそのテンプレートを削除する
+   */
+  private async handleTemplatesCommand(interaction: CommandInteraction): Promise<Response> {
+    try {
+      const guildId = interaction.guild_id || 'default';
+      const options = interaction.data.options?.[0]?.options || [];
+      const deleteName = options.find((option) => option.name === 'delete')?.value;
+      const useCase = this.dependencyContainer.scheduleTemplateUseCase;
+
+      if (typeof deleteName === 'string' && deleteName.trim()) {
+        const userId = getUserId(interaction);
+        if (!userId) {
+          return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+        }
+
+        const result = await useCase.deleteTemplate({
+          guildId,
+          name: deleteName,
+          editorUserId: userId,
+          editorPermissions: interaction.member?.permissions,
+        });
+        if (!result.success || !result.template) {
+          return this.createErrorResponse(
+            result.errors?.[0] || 'テンプレートの削除に失敗しました。'
+          );
+        }
+        return this.createEphemeralMessageResponse(
+          `🗑️ テンプレート「${result.template.name}」を削除しました。`
+        );
+      }
+
+      const result = await useCase.listTemplates(guildId);
+      if (!result.success) {
+        return this.createErrorResponse(result.errors?.[0] || 'テンプレートの取得に失敗しました。');
+      }
+
+      const templates = result.templates || [];
+      if (templates.length === 0) {
+        return this.createEphemeralMessageResponse(
+          'このサーバーにはテンプレートがありません。日程調整の「編集」→「テンプレート保存」から保存できます。'
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            embeds: [this.uiBuilder.createTemplateListEmbed(templates)],
+            allowed_mentions: { parse: [] },
+            flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleTemplatesCommand',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-templates-command',
+          useCase: 'CommandController',
+          guildId: interaction.guild_id,
+        }
+      );
+      return this.createErrorResponse('テンプレートの処理中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * オートコンプリート処理
+   * テンプレート名の入力中に、名前が部分一致するテンプレートを候補として返す
+   */
+  async handleAutocomplete(interaction: CommandInteraction): Promise<Response> {
+    const focused = interaction.data.options?.[0]?.options?.find((option) => option.focused);
+    let choices: { name: string; value: string }[] = [];
+
+    if (focused && (focused.name === 'template' || focused.name === 'delete')) {
+      const result = await this.dependencyContainer.scheduleTemplateUseCase.listTemplates(
+        interaction.guild_id || 'default',
+        String(focused.value ?? '')
+      );
+      choices = (result.templates || [])
+        .slice(0, DISCORD_API_CONSTANTS.MAX_AUTOCOMPLETE_CHOICES)
+        .map((template) => ({ name: template.name, value: template.name }));
+    }
+
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT,
+        data: { choices },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * タイムゾーン設定コマンド処理
+   * timezone を省略すると現在の設定を表示する
+   */
+  private async handleTimezoneCommand(interaction: CommandInteraction): Promise<Response> {
+    try {
+      const guildId = interaction.guild_id || 'default';
+      const userId = getUserId(interaction);
+      const options = interaction.data.options?.[0]?.options || [];
+      const timezone = options.find((option) => option.name === 'timezone')?.value;
+      const scope = options.find((option) => option.name === 'scope')?.value ?? 'user';
+      const useCase = this.dependencyContainer.timezoneSettingsUseCase;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      if (typeof timezone !== 'string' || !timezone.trim()) {
+        const result = await useCase.getSettings(guildId, userId);
+        if (!result.success || !result.settings) {
+          return this.createErrorResponse(
+            result.errors?.[0] || 'タイムゾーン設定の取得に失敗しました。'
+          );
+        }
+        return this.createEphemeralMessageResponse(this.formatTimezoneSettings(result.settings));
+      }
+
+      if (scope === 'guild') {
+        if (
+          !interaction.guild_id ||
+          !SchedulePermissionPolicy.isServerManager(interaction.member?.permissions)
+        ) {
+          return this.createErrorResponse(
+            'サーバーのタイムゾーンを変更するには「サーバー管理」権限が必要です。'
+          );
+        }
+
+        const result = await useCase.setGuildTimezone(guildId, timezone);
+        if (!result.success || !result.settings) {
+          return this.createErrorResponse(
+            result.errors?.[0] || 'タイムゾーンの設定に失敗しました。'
+          );
+        }
+        return this.createEphemeralMessageResponse(
+          `✅ サーバーのタイムゾーンを **${result.settings.timezone}** に設定しました。\n${this.formatCurrentTime(result.settings.timezone)}`
+        );
+      }
+
+      const isReset = timezone.trim().toLowerCase() === 'reset';
+      const result = await useCase.setUserTimezone(guildId, userId, isReset ? null : timezone);
+      if (!result.success || !result.settings) {
+        return this.createErrorResponse(result.errors?.[0] || 'タイムゾーンの設定に失敗しました。');
+      }
+
+      const message = isReset
+        ? `✅ 個人のタイムゾーン設定を解除しました（**${result.settings.timezone}** を使用します）。`
+        : `✅ あなたのタイムゾーンを **${result.settings.timezone}** に設定しました。`;
+      return this.createEphemeralMessageResponse(
+        `${message}\n${this.formatCurrentTime(result.settings.timezone)}`
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleTimezoneCommand',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-timezone-command',
+          useCase: 'CommandController',
+          guildId: interaction.guild_id,
+        }
+      );
+      return this.createErrorResponse('タイムゾーンの設定中にエラーが発生しました。');
+    }
+  }
+
+  private formatTimezoneSettings(settings: TimezoneSettings): string {
+    const sourceLabels = {
+      user: '個人設定',
+      guild: 'サーバー設定',
+      default: '既定値',
+    } as const;
+
+    return [
+      `🕐 現在のタイムゾーン: **${settings.timezone}**（${sourceLabels[settings.source]}）`,
+      `サーバー設定: ${settings.guildTimezone ?? '未設定'}`,
+      `個人設定: ${settings.userTimezone ?? '未設定'}`,
+      this.formatCurrentTime(settings.timezone),
+      '',
+      '変更するには `/chouseichan timezone timezone:America/New_York` のように実行してください。',
+    ].join('\n');
+  }
+
+  private formatCurrentTime(timezone: string): string {
+    return `現在時刻: ${formatDate(new Date().toISOString(), timezone)}`;
+  }
+
+  /**
+   * ヘルプコマンド処理
+   */
+  private handleHelpCommand(): Response {
+    return this.createHelpResponse(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE, 'overview');
+  }
+
+  /**
+   * 作成・編集フローの「?」ボタン処理
+   * 該当ページのヘルプを本人にのみ表示
+   */
+  handleHelpButton(params: string[]): Response {
+    const page = isHelpPage(params[0]) ? params[0] : 'overview';
+    return this.createHelpResponse(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE, page);
+  }
+
+  /**
+   * ヘルプのページ切り替えボタン処理
+   */
+  handleHelpPageButton(params: string[]): Response {
+    const page = isHelpPage(params[0]) ? params[0] : 'overview';
+    return this.createHelpResponse(InteractionResponseType.UPDATE_MESSAGE, page);
+  }
+
+  private createHelpResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    page: HelpPage
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          embeds: [this.helpUIBuilder.createHelpEmbed(page)],
+          components: this.helpUIBuilder.createHelpComponents(page),
+          flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * スケジュール一覧の表示データを構築
+   */
+  private async buildScheduleListData(
+    channelId: string,
+    guildId: string,
+    page: number
+  ): Promise<{ content?: string; embeds?: object[]; components?: object[] } | { error: string }> {
+    const schedulesResult = await this.dependencyContainer.findSchedulesUseCase.findByChannel({
+      channelId,
+      guildId,
+      limit: LIST_LIMITS.MAX_SCHEDULE_LIST_FETCH,
+    });
+
+    if (!schedulesResult.success) {
+      return { error: schedulesResult.errors?.[0] || 'スケジュール一覧の取得に失敗しました。' };
+    }
+    const schedules = schedulesResult.schedules || [];
+
+    if (schedules.length === 0) {
+      return { content: 'このチャンネルには日程調整がありません。', embeds: [], components: [] };
+    }
+
+    return {
+      embeds: [this.uiBuilder.createScheduleListEmbed(schedules, page)],
+      components: this.uiBuilder.createScheduleListComponents(schedules, channelId, page),
+    };
+  }
+
+  private createEphemeralMessageResponse(content: string): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content,
+          flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   private createErrorResponse(message: string): Response {
     return new Response(
       JSON.stringify({
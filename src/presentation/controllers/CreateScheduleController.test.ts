@@ -13,8 +13,13 @@ vi.mock('../../domain/utils/id', () => ({
 }));
 
 vi.mock('../../domain/utils/date', () => ({
+  annotateCandidateHoliday: vi.fn((label: string) => label),
+  DEFAULT_TIMEZONE: 'Asia/Tokyo',
+  findWeekdayMismatch: vi.fn().mockReturnValue(null),
   formatDate: vi.fn(),
+  parseCandidateDateRange: vi.fn().mockReturnValue(null),
   parseUserInputDate: vi.fn(),
+  sortCandidatesByStart: vi.fn((candidates: unknown[]) => candidates),
 }));
 
 // Embeds are now handled by ScheduleMainMessageBuilder, so no need to mock embeds directly
@@ -45,6 +50,9 @@ describe('CreateScheduleController', () => {
     mockContainer = {
       createScheduleUseCase: mockCreateScheduleUseCase,
       getScheduleSummaryUseCase: mockGetScheduleSummaryUseCase,
+      timezoneSettingsUseCase: {
+        resolveTimezone: vi.fn().mockResolvedValue('Asia/Tokyo'),
+      },
     } as unknown as DependencyContainer;
 
     controller = new CreateScheduleController(mockContainer);
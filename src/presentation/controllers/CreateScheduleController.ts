@@ -6,32 +6,53 @@
  */
 
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
-import {
-  ERROR_MESSAGES,
-  NOTIFICATION_CONSTANTS,
-} from '../../application/constants/ApplicationConstants';
-import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { ERROR_MESSAGES } from '../../application/constants/ApplicationConstants';
+import type {
+  CreateScheduleRequestDto,
+  ScheduleResponseDto,
+} from '../../application/dto/ScheduleDto';
 import { DateParserService } from '../../application/services/DateParserService';
 import { DependencyContainer } from '../../di/DependencyContainer';
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+import type { ScheduleDateWarning } from '../../domain/services/ScheduleDomainService';
+import { sortCandidatesByStart, type WeekdayMismatch } from '../../domain/utils/date';
 import { getLogger } from '../../infrastructure/logging/Logger';
 import type { Env, ModalInteraction } from '../../infrastructure/types/discord';
+import {
+  type CandidatePreviewUIBuilder,
+  createCandidatePreviewUIBuilder,
+} from '../builders/CandidatePreviewUIBuilder';
+import { createHelpUIBuilder, type HelpPage } from '../builders/HelpUIBuilder';
 import { ScheduleMainMessageBuilder } from '../builders/ScheduleMainMessageBuilder';
-import { createEditReminderButtonId } from '../utils/button-id';
+import {
+  createEditReminderButtonId,
+  createInviteesButtonId,
+  createReminderMentionsButtonId,
+} from '../utils/button-id';
+import { formatDateTimeInput } from '../utils/date-formatter';
 import { getOriginalMessage, sendFollowupMessage } from '../utils/discord';
 import { getDisplayName, getUserId } from '../utils/discord-helpers';
+import { createHandledErrorResponse } from '../utils/responses';
 
 export class CreateScheduleController {
   private readonly logger = getLogger();
 
   constructor(
     private readonly dependencyContainer: DependencyContainer,
-    private readonly dateParserService: DateParserService = new DateParserService()
+    private readonly dateParserService: DateParserService = new DateParserService(),
+    private readonly candidatePreviewUIBuilder: CandidatePreviewUIBuilder = createCandidatePreviewUIBuilder()
   ) {}
 
   /**
    * スケジュール作成モーダル処理
+   * params が ['clone', 複製元ID] / ['template', テンプレートID] の場合は、
+   * 複製元・テンプレートのリマインダー・通知先・参加予定者を引き継ぐ
    */
-  async handleCreateScheduleModal(interaction: ModalInteraction, env: Env): Promise<Response> {
+  async handleCreateScheduleModal(
+    interaction: ModalInteraction,
+    env: Env,
+    params: string[] = []
+  ): Promise<Response> {
     try {
       const guildId = interaction.guild_id || 'default';
       const authorId = getUserId(interaction) || '';
@@ -50,35 +71,67 @@ export class CreateScheduleController {
       // 日程をパース
       const dates = datesText.split('\n').filter((line: string) => line.trim());
       if (dates.length === 0) {
-        return this.createErrorResponse(ERROR_MESSAGES.DATES_REQUIRED);
+        return this.createErrorResponse(ERROR_MESSAGES.DATES_REQUIRED, 'dates');
       }
 
-      const scheduleDates = dates.map((date: string) => ({
-        id: this.dateParserService.generateUniqueId(),
-        datetime: date.trim(),
-      }));
+      // 日時は作成者のタイムゾーン（個人設定 → サーバー設定 → JST）で解釈する
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        authorId
+      );
 
       // 締切をパース
       let deadlineDate: string | undefined;
       if (deadlineStr?.trim()) {
-        const parsedDate = this.dateParserService.parseUserDate(deadlineStr);
+        const parsedDate = this.dateParserService.parseUserDate(deadlineStr, timeZone);
         if (!parsedDate) {
-          return this.createErrorResponse(ERROR_MESSAGES.INVALID_DEADLINE_FORMAT);
+          return this.createErrorResponse(ERROR_MESSAGES.INVALID_DEADLINE_FORMAT, 'dates');
         }
         deadlineDate = parsedDate.toISOString();
       }
 
-      // デフォルトのリマインダー設定（締切がある場合のみ）
-      let reminderTimings: string[] | undefined;
-      let reminderMentions: string[] | undefined;
-
-      if (deadlineDate) {
-        reminderTimings = [...NOTIFICATION_CONSTANTS.DEFAULT_REMINDER_TIMINGS];
-        reminderMentions = [...NOTIFICATION_CONSTANTS.DEFAULT_REMINDER_MENTIONS];
+      // ルール行（例: "12/1-12/14 平日 19:00"）があれば候補に展開し、作成前に確認画面を表示する
+      const expansion = this.dateParserService.expandCandidateLines(dates, timeZone);
+      if (expansion.ruleCount > 0) {
+        if (expansion.lines.length === 0) {
+          return this.createErrorResponse(ERROR_MESSAGES.NO_GENERATED_CANDIDATES, 'dates');
+        }
+        return this.createPreviewResponse(
+          this.candidatePreviewUIBuilder.createCreationPreview(
+            {
+              title,
+              description,
+              deadline: deadlineDate ? formatDateTimeInput(deadlineDate, timeZone) : undefined,
+              dates: expansion.lines,
+            },
+            {
+              truncated: expansion.truncated,
+              limit: BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE,
+              params,
+            }
+          )
+        );
       }
 
+      // 日時を解釈できた候補は日時順に並べる（自由記述の候補は入力順のまま末尾に置く）
+      const scheduleDates = sortCandidatesByStart(
+        dates.map((date: string) =>
+          this.dateParserService.createScheduleDate(date, undefined, timeZone)
+        )
+      );
+      const weekdayMismatches = this.dateParserService.findWeekdayMismatches(dates, timeZone);
+
+      // 複製・テンプレートの場合は設定を引き継ぐ（引き継ぎ元が削除されていれば通常の作成として扱う）
+      const [mode, sourceId] = params;
+      const inherited =
+        (mode === 'clone' || mode === 'template') && sourceId
+          ? await this.loadInheritedSettings(mode, sourceId, guildId)
+          : undefined;
+
+      // リマインダー・メンションは指定がなければサーバー設定の既定値をユースケース側で適用する
       // Create schedule using Clean Architecture
       const createResult = await this.dependencyContainer.createScheduleUseCase.execute({
+        ...inherited,
         guildId,
         channelId: interaction.channel_id || '',
         authorId: authorId,
@@ -88,10 +141,12 @@ export class CreateScheduleController {
         description,
         dates: scheduleDates,
         deadline: deadlineDate,
-        reminderTimings,
-        reminderMentions,
       });
 
+      if (createResult.quotaExceeded) {
+        return createHandledErrorResponse(createResult.quotaExceeded);
+      }
+
       if (!createResult.success || !createResult.schedule) {
         this.logger.error('Failed to create schedule', new Error('Schedule creation failed'), {
           operation: 'create-schedule',
@@ -163,6 +218,18 @@ export class CreateScheduleController {
               ) {
                 await this.sendReminderFollowup(schedule, interaction.token, env);
               }
+
+              // 曜日の誤り・過去の日時・同じ日時を指す候補があれば作成者にだけ知らせる
+              const dateWarnings = createResult.warnings ?? [];
+              if (weekdayMismatches.length > 0 || dateWarnings.length > 0) {
+                await this.sendCandidateWarningFollowup(
+                  schedule.id,
+                  dateWarnings,
+                  weekdayMismatches,
+                  interaction.token,
+                  env
+                );
+              }
             } catch (error) {
               this.logger.error(
                 'Failed to save message ID',
@@ -205,6 +272,50 @@ export class CreateScheduleController {
     }
   }
 
+  /**
+   * 複製元・テンプレートから引き継ぐ設定を取得
+   */
+  private async loadInheritedSettings(
+    mode: 'clone' | 'template',
+    sourceId: string,
+    guildId: string
+  ): Promise<Partial<CreateScheduleRequestDto> | undefined> {
+    const draftResult =
+      mode === 'template'
+        ? await this.dependencyContainer.scheduleTemplateUseCase.getDraftById(sourceId, guildId)
+        : await this.dependencyContainer.cloneScheduleUseCase.execute({
+            scheduleId: sourceId,
+            guildId,
+          });
+    if (!draftResult.success || !draftResult.draft) {
+      this.logger.warn('Draft source not found, creating without inherited settings', {
+        operation: 'create-schedule',
+        useCase: 'CreateScheduleController',
+        mode,
+        sourceId,
+        guildId,
+      });
+      return undefined;
+    }
+
+    const {
+      reminderTimings,
+      reminderMentions,
+      reminderMode,
+      dmReminders,
+      invitedUserIds,
+      invitedRoleIds,
+    } = draftResult.draft;
+    return {
+      reminderTimings,
+      reminderMentions,
+      reminderMode,
+      dmReminders,
+      invitedUserIds,
+      invitedRoleIds,
+    };
+  }
+
   /**
    * 締切通知設定のフォローアップメッセージを送信
    */
@@ -239,6 +350,21 @@ export class CreateScheduleController {
                 custom_id: createEditReminderButtonId(schedule.id),
                 emoji: { name: '⏰' },
               },
+              {
+                type: 2, // BUTTON
+                style: 2, // SECONDARY
+                label: '通知先を選ぶ',
+                custom_id: createReminderMentionsButtonId(schedule.id),
+                emoji: { name: '🔔' },
+              },
+              {
+                type: 2, // BUTTON
+                style: 2, // SECONDARY
+                label: '参加予定者を設定',
+                custom_id: createInviteesButtonId(schedule.id),
+                emoji: { name: '👥' },
+              },
+              createHelpUIBuilder().createHelpButton('edit'),
             ],
           },
         ],
@@ -247,6 +373,41 @@ export class CreateScheduleController {
     });
   }
 
+  /**
+   * 日程候補の警告（過去の日時・同じ日時・曜日の誤り）をフォローアップメッセージで送信
+   */
+  async sendCandidateWarningFollowup(
+    scheduleId: string,
+    warnings: ScheduleDateWarning[],
+    mismatches: WeekdayMismatch[],
+    interactionToken: string,
+    env: Env
+  ): Promise<void> {
+    if (!env.DISCORD_APPLICATION_ID) {
+      return;
+    }
+
+    const weekdayWarning =
+      mismatches.length > 0
+        ? this.candidatePreviewUIBuilder.createWeekdayWarning(scheduleId, mismatches)
+        : undefined;
+
+    await sendFollowupMessage({
+      applicationId: env.DISCORD_APPLICATION_ID,
+      token: interactionToken,
+      data: {
+        content: [
+          this.candidatePreviewUIBuilder.createDateWarnings(warnings),
+          weekdayWarning?.content,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+        components: weekdayWarning?.components,
+        flags: InteractionResponseFlags.EPHEMERAL,
+      },
+    });
+  }
+
   /**
    * リマインダータイミングを日本語表示に変換
    */
@@ -269,12 +430,33 @@ export class CreateScheduleController {
     }
   }
 
-  private createErrorResponse(message: string): Response {
+  private createPreviewResponse(preview: {
+    content: string;
+    embeds: object[];
+    components: object[];
+  }): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          ...preview,
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private createErrorResponse(message: string, helpPage?: HelpPage): Response {
     return new Response(
       JSON.stringify({
         type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
         data: {
           content: `❌ ${message}`,
+          // 入力形式のエラーには該当ヘルプへの「?」ボタンを添える
+          components: helpPage
+            ? [{ type: 1, components: [createHelpUIBuilder().createHelpButton(helpPage)] }]
+            : undefined,
           flags: InteractionResponseFlags.EPHEMERAL,
         },
       }),
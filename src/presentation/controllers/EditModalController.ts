@@ -6,13 +6,25 @@
  */
 
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
+import { ERROR_MESSAGES } from '../../application/constants/ApplicationConstants';
 import type { UpdateScheduleRequestDto } from '../../application/dto/ScheduleDto';
 import { DateParserService } from '../../application/services/DateParserService';
+import { MessageUpdateType } from '../../application/types/MessageUpdateType';
 import { DependencyContainer } from '../../di/DependencyContainer';
+import { BUSINESS_CONSTANTS } from '../../domain/constants/BusinessConstants';
+import type { ScheduleDateWarning } from '../../domain/services/ScheduleDomainService';
+import { isSortedByStart, sortCandidatesByStart } from '../../domain/utils/date';
 import { getLogger } from '../../infrastructure/logging/Logger';
 import type { Env, ModalInteraction } from '../../infrastructure/types/discord';
+import {
+  type CandidatePreviewUIBuilder,
+  createCandidatePreviewUIBuilder,
+} from '../builders/CandidatePreviewUIBuilder';
+import { createHelpUIBuilder, type HelpPage } from '../builders/HelpUIBuilder';
+import { ScheduleEditUIBuilder } from '../builders/ScheduleEditUIBuilder';
 import { ScheduleMainMessageBuilder } from '../builders/ScheduleMainMessageBuilder';
 import { EMBED_COLORS } from '../constants/ui';
+import { formatDiscordTimestamp } from '../utils/date-formatter';
 import { updateOriginalMessage } from '../utils/discord';
 
 export class EditModalController {
@@ -20,7 +32,9 @@ export class EditModalController {
 
   constructor(
     private readonly dependencyContainer: DependencyContainer,
-    private readonly dateParserService: DateParserService = new DateParserService()
+    private readonly dateParserService: DateParserService = new DateParserService(),
+    private readonly candidatePreviewUIBuilder: CandidatePreviewUIBuilder = createCandidatePreviewUIBuilder(),
+    private readonly scheduleEditUIBuilder: ScheduleEditUIBuilder = new ScheduleEditUIBuilder()
   ) {}
 
   /**
@@ -55,6 +69,7 @@ export class EditModalController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         title: interaction.data.components[0].components[0].value,
         description: interaction.data.components[1].components[0].value || undefined,
         messageId: messageId || schedule.messageId,
@@ -64,6 +79,11 @@ export class EditModalController {
         return this.createErrorResponse('スケジュールの更新に失敗しました。');
       }
 
+      // 作成済みのサーバーイベントにタイトル・説明を反映
+      if (updateResult.schedule?.guildEventId) {
+        this.syncGuildEvent(scheduleId, guildId, env);
+      }
+
       // Update main message in background
       if (env.ctx && (messageId || schedule.messageId)) {
         env.ctx.waitUntil(
@@ -133,19 +153,24 @@ export class EditModalController {
       const parsedDates = datesInput.split('\n').filter((line: string) => line.trim());
 
       if (parsedDates.length === 0) {
-        return this.createErrorResponse('有効な日程が入力されていません。');
+        return this.createErrorResponse('有効な日程が入力されていません。', 'dates');
       }
 
       // Create new dates (preserve existing IDs for matching datetimes)
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
       const existingDates = scheduleResult.schedule.dates;
       const newDates = parsedDates.map((datetime: string) => {
         const trimmedDatetime = datetime.trim();
         // 既存の日程候補と文字列が一致する場合、既存のIDを保持
         const existingDate = existingDates.find((d) => d.datetime === trimmedDatetime);
-        return {
-          id: existingDate?.id || this.dateParserService.generateUniqueId(),
-          datetime: trimmedDatetime,
-        };
+        return this.dateParserService.createScheduleDate(
+          trimmedDatetime,
+          existingDate?.id,
+          timeZone
+        );
       });
 
       // Update schedule with new dates - existing responses for matching dates are preserved
@@ -153,12 +178,21 @@ export class EditModalController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         dates: newDates,
         messageId: messageId || scheduleResult.schedule.messageId,
       });
 
       if (!updateResult.success) {
-        return this.createErrorResponse('日程の更新に失敗しました。');
+        return this.createErrorResponse(
+          updateResult.errors?.join('\n') || '日程の更新に失敗しました。',
+          'dates'
+        );
+      }
+
+      // 決定日程の日時が変わった場合に備えてサーバーイベントを同期
+      if (updateResult.schedule?.guildEventId) {
+        this.syncGuildEvent(scheduleId, guildId, env);
       }
 
       // Update main message in background
@@ -174,11 +208,23 @@ export class EditModalController {
         );
       }
 
+      const candidateWarning = this.createCandidateWarning(
+        scheduleId,
+        parsedDates,
+        timeZone,
+        updateResult.warnings
+      );
       return new Response(
         JSON.stringify({
           type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
           data: {
-            content: `✅ 日程を更新しました。（${parsedDates.length}件）\n一致する日程の既存回答は保持されました。`,
+            content: [
+              `✅ 日程を更新しました。（${parsedDates.length}件）\n一致する日程の既存回答は保持されました。`,
+              candidateWarning?.content,
+            ]
+              .filter(Boolean)
+              .join('\n\n'),
+            components: candidateWarning?.components,
             flags: InteractionResponseFlags.EPHEMERAL,
           },
         }),
@@ -225,27 +271,72 @@ export class EditModalController {
       const parsedDates = datesInput.split('\n').filter((line: string) => line.trim());
 
       if (parsedDates.length === 0) {
-        return this.createErrorResponse('有効な日程が入力されていません。');
+        return this.createErrorResponse('有効な日程が入力されていません。', 'dates');
       }
 
       // Add new dates to existing ones
-      const newDates = parsedDates.map((datetime: string) => ({
-        id: this.dateParserService.generateUniqueId(),
-        datetime: datetime.trim(),
-      }));
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+
+      // ルール行があれば追加できる残りの件数まで候補に展開し、追加前に確認画面を表示する
+      const remaining = Math.max(
+        BUSINESS_CONSTANTS.MAX_DATES_PER_SCHEDULE - schedule.dates.length,
+        0
+      );
+      const expansion = this.dateParserService.expandCandidateLines(
+        parsedDates,
+        timeZone,
+        remaining
+      );
+      if (expansion.ruleCount > 0) {
+        if (expansion.lines.length === 0) {
+          return this.createErrorResponse(
+            expansion.truncated
+              ? ERROR_MESSAGES.DATE_LIMIT_REACHED
+              : ERROR_MESSAGES.NO_GENERATED_CANDIDATES,
+            'dates'
+          );
+        }
+        return new Response(
+          JSON.stringify({
+            type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+            data: {
+              ...this.candidatePreviewUIBuilder.createAddDatesPreview(scheduleId, expansion.lines, {
+                truncated: expansion.truncated,
+                limit: remaining,
+              }),
+              flags: InteractionResponseFlags.EPHEMERAL,
+            },
+          }),
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+      }
 
-      const combinedDates = [...schedule.dates, ...newDates];
+      const newDates = parsedDates.map((datetime: string) =>
+        this.dateParserService.createScheduleDate(datetime, undefined, timeZone)
+      );
+
+      // 既存の候補が日時順なら追加した候補も日時順の位置に入れる（手動で並べ替えた順は崩さない）
+      const combinedDates = isSortedByStart(schedule.dates)
+        ? sortCandidatesByStart([...schedule.dates, ...newDates])
+        : [...schedule.dates, ...newDates];
 
       // Update schedule with combined dates
       const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         dates: combinedDates,
       });
 
       if (!updateResult.success) {
-        return this.createErrorResponse('日程の追加に失敗しました。');
+        return this.createErrorResponse(
+          updateResult.errors?.join('\n') || '日程の追加に失敗しました。',
+          'dates'
+        );
       }
 
       // Update main message in background
@@ -255,11 +346,38 @@ export class EditModalController {
         );
       }
 
+      const candidateWarning = this.createCandidateWarning(
+        scheduleId,
+        parsedDates,
+        timeZone,
+        updateResult.warnings
+      );
+      // 手動で並べ替えた候補に追加して日時順が崩れた場合は並べ替えを提案する
+      const isChronological = isSortedByStart(combinedDates);
       return new Response(
         JSON.stringify({
           type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
           data: {
-            content: `✅ ${parsedDates.length}件の日程を追加しました。`,
+            content: [
+              `✅ ${parsedDates.length}件の日程を追加しました。`,
+              candidateWarning?.content,
+              isChronological
+                ? ''
+                : '🕒 候補が日時順に並んでいません。「日時順に並べ替え」で並べ替えられます（回答はそのまま残ります）。',
+            ]
+              .filter(Boolean)
+              .join('\n\n'),
+            components: [
+              ...(candidateWarning?.components ?? []),
+              ...(isChronological
+                ? []
+                : [
+                    {
+                      type: 1,
+                      components: [this.scheduleEditUIBuilder.createSortDatesButton(scheduleId)],
+                    },
+                  ]),
+            ],
             embeds: [
               {
                 title: '追加された日程',
@@ -312,10 +430,17 @@ export class EditModalController {
       const deadlineInput = interaction.data.components[0].components[0].value;
       let newDeadline = null;
       if (deadlineInput.trim()) {
-        newDeadline = this.dateParserService.parseUserDate(deadlineInput.trim());
+        const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+          guildId,
+          userId
+        );
+        newDeadline = this.dateParserService.parseUserDate(deadlineInput.trim(), timeZone);
 
         if (!newDeadline) {
-          return this.createErrorResponse('締切日の形式が正しくありません。例: 2025/12/31 23:59');
+          return this.createErrorResponse(
+            '締切日の形式が正しくありません。例: 2025/12/31 23:59',
+            'dates'
+          );
         }
 
         if (newDeadline.getTime() <= Date.now()) {
@@ -328,6 +453,7 @@ export class EditModalController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         deadline: newDeadline ? newDeadline.toISOString() : null,
         messageId: schedule.messageId, // messageIdを保持
       };
@@ -353,9 +479,8 @@ export class EditModalController {
         return this.createErrorResponse('締切日の更新に失敗しました。');
       }
 
-      // Update reminders
+      // Update reminders（通知先は「通知先」メニューで選択する）
       const timingsInput = interaction.data.components[1]?.components[0]?.value || '';
-      const mentionsInput = interaction.data.components[2]?.components[0]?.value || '';
 
       const timings = timingsInput.trim()
         ? timingsInput
@@ -363,20 +488,18 @@ export class EditModalController {
             .map((t: string) => t.trim())
             .filter(Boolean)
         : [];
-      const mentions = mentionsInput.trim()
-        ? mentionsInput
-            .split(',')
-            .map((m: string) => m.trim())
-            .filter(Boolean)
-        : [];
 
-      if (timings.length > 0 || mentions.length > 0) {
+      const { reminderMode, dmReminders } = this.parseReminderOptions(interaction);
+
+      if (timings.length > 0 || reminderMode !== undefined || dmReminders !== undefined) {
         await this.dependencyContainer.updateScheduleUseCase.execute({
           scheduleId,
           guildId,
           editorUserId: userId,
-          reminderTimings: timings,
-          reminderMentions: mentions,
+          editorPermissions: interaction.member?.permissions,
+          reminderTimings: timings.length > 0 ? timings : undefined,
+          reminderMode,
+          dmReminders,
           messageId: schedule.messageId, // messageIdを保持
         });
       }
@@ -399,7 +522,7 @@ export class EditModalController {
       }
 
       const message = newDeadline
-        ? `✅ 締切日を ${newDeadline.toLocaleString('ja-JP')} に更新しました。`
+        ? `✅ 締切日を ${formatDiscordTimestamp(newDeadline, 'F')} に更新しました。`
         : '✅ 締切日を削除しました（無期限になりました）。';
 
       return new Response(
@@ -421,6 +544,144 @@ export class EditModalController {
     }
   }
 
+  /**
+   * 再開モーダル処理
+   */
+  async handleReopenModal(interaction: ModalInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // 新しい締切（空白なら無期限）
+      const deadlineInput = interaction.data.components[0]?.components[0]?.value || '';
+      let newDeadline: Date | null = null;
+      if (deadlineInput.trim()) {
+        const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+          guildId,
+          userId
+        );
+        newDeadline = this.dateParserService.parseUserDate(deadlineInput.trim(), timeZone);
+
+        if (!newDeadline) {
+          return this.createErrorResponse(
+            '締切日の形式が正しくありません。例: 2025/12/31 23:59',
+            'dates'
+          );
+        }
+
+        if (newDeadline.getTime() <= Date.now()) {
+          return this.createErrorResponse('締切日は現在より未来の日付を指定してください。');
+        }
+      }
+
+      const reopenResult = await this.dependencyContainer.reopenScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        deadline: newDeadline ? newDeadline.toISOString() : null,
+      });
+
+      if (!reopenResult.success || !reopenResult.schedule) {
+        return this.createErrorResponse(
+          reopenResult.errors?.[0] || '日程調整の再開に失敗しました。'
+        );
+      }
+
+      // 投票ボタンを戻すため、メッセージ更新キュー経由でメインメッセージを即座に再描画する
+      const schedule = reopenResult.schedule;
+      if (schedule.messageId && schedule.channelId) {
+        await this.dependencyContainer.messageUpdateService.scheduleUpdate({
+          scheduleId,
+          messageId: schedule.messageId,
+          channelId: schedule.channelId,
+          guildId,
+          updateType: MessageUpdateType.REOPEN_UPDATE,
+        });
+      }
+
+      const message = newDeadline
+        ? `✅ 日程調整を再開しました。締切: ${formatDiscordTimestamp(newDeadline, 'F')}`
+        : '✅ 日程調整を再開しました（締切なし）。';
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: message,
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleReopenModal:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('日程調整の再開中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * テンプレート保存モーダル処理
+   */
+  async handleSaveTemplateModal(
+    interaction: ModalInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const name = interaction.data.components[0]?.components[0]?.value || '';
+      const saveResult = await this.dependencyContainer.scheduleTemplateUseCase.saveFromSchedule({
+        scheduleId,
+        guildId,
+        name,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+      });
+
+      if (!saveResult.success || !saveResult.template) {
+        return this.createErrorResponse(
+          saveResult.errors?.[0] || 'テンプレートの保存に失敗しました。'
+        );
+      }
+
+      const { template } = saveResult;
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: [
+              `✅ テンプレート「${template.name}」を${saveResult.overwritten ? '更新' : '保存'}しました。`,
+              `\`/chouseichan create template:${template.name}\` で入力済みの作成画面を開けます。`,
+            ].join('\n'),
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleSaveTemplateModal:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('テンプレートの保存中にエラーが発生しました。');
+    }
+  }
+
   /**
    * リマインダー編集モーダル処理
    */
@@ -448,8 +709,8 @@ export class EditModalController {
       }
 
       // Update reminder settings
+      // 通知先は「通知先」メニューで選択する
       const timingsInput = interaction.data.components[0].components[0].value;
-      const mentionsInput = interaction.data.components[1].components[0].value;
 
       const timings = timingsInput.trim()
         ? timingsInput
@@ -457,19 +718,16 @@ export class EditModalController {
             .map((t: string) => t.trim())
             .filter(Boolean)
         : [];
-      const mentions = mentionsInput.trim()
-        ? mentionsInput
-            .split(',')
-            .map((m: string) => m.trim())
-            .filter(Boolean)
-        : [];
+      const { reminderMode, dmReminders } = this.parseReminderOptions(interaction);
 
       const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         reminderTimings: timings,
-        reminderMentions: mentions,
+        reminderMode,
+        dmReminders,
         messageId: scheduleResult.schedule.messageId, // messageIdを保持
       });
 
@@ -496,6 +754,39 @@ export class EditModalController {
     }
   }
 
+  /**
+   * リマインダーのメンション先・DM設定（on / off）を取得
+   * 入力欄がないモーダル（旧バージョン）から送信された場合は未定義（現在の設定を維持）
+   */
+  private parseReminderOptions(interaction: ModalInteraction): {
+    reminderMode?: 'mentions' | 'non_respondents';
+    dmReminders?: boolean;
+  } {
+    const inputs = interaction.data.components.flatMap((row) => row.components);
+    const modeInput = inputs.find((input) => input.custom_id === 'reminder_mode')?.value;
+    const dmInput = inputs.find((input) => input.custom_id === 'reminder_dm')?.value;
+
+    return {
+      reminderMode:
+        modeInput === undefined
+          ? undefined
+          : modeInput.trim().toLowerCase() === 'on'
+            ? 'non_respondents'
+            : 'mentions',
+      dmReminders: dmInput === undefined ? undefined : dmInput.trim().toLowerCase() === 'on',
+    };
+  }
+
+  /**
+   * バックグラウンドで作成済みのサーバーイベントを同期
+   */
+  private syncGuildEvent(scheduleId: string, guildId: string, env: Env): void {
+    const manageGuildEventUseCase = this.dependencyContainer.manageGuildEventUseCase;
+    if (!env.ctx || !manageGuildEventUseCase) return;
+
+    env.ctx.waitUntil(manageGuildEventUseCase.syncEvent(scheduleId, guildId));
+  }
+
   /**
    * バックグラウンドでメインメッセージを更新
    */
@@ -578,15 +869,47 @@ export class EditModalController {
     }
   }
 
+  /**
+   * 日程候補の警告（過去の日時・同じ日時・曜日の誤り）があれば作成（なければ undefined）
+   */
+  private createCandidateWarning(
+    scheduleId: string,
+    dates: string[],
+    timeZone: string,
+    warnings: ScheduleDateWarning[] = []
+  ) {
+    const mismatches = this.dateParserService.findWeekdayMismatches(dates, timeZone);
+    const weekdayWarning =
+      mismatches.length > 0
+        ? this.candidatePreviewUIBuilder.createWeekdayWarning(scheduleId, mismatches)
+        : undefined;
+    if (warnings.length === 0 && !weekdayWarning) {
+      return undefined;
+    }
+
+    return {
+      content: [
+        this.candidatePreviewUIBuilder.createDateWarnings(warnings),
+        weekdayWarning?.content,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+      components: weekdayWarning?.components,
+    };
+  }
+
   /**
    * エラーレスポンスを作成
    */
-  private createErrorResponse(message: string): Response {
+  private createErrorResponse(message: string, helpPage?: HelpPage): Response {
     return new Response(
       JSON.stringify({
         type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
         data: {
           content: `❌ ${message}`,
+          components: helpPage
+            ? [{ type: 1, components: [createHelpUIBuilder().createHelpButton(helpPage)] }]
+            : undefined,
           flags: InteractionResponseFlags.EPHEMERAL,
         },
       }),
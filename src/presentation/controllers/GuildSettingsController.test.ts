@@ -0,0 +1,243 @@
+import { InteractionResponseType, InteractionType } from 'discord-interactions';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { D1Database } from '../../../tests/helpers/d1-database';
+import {
+  applyMigrations,
+  closeTestDatabase,
+  createTestD1Database,
+  createTestEnv,
+} from '../../../tests/helpers/d1-database';
+import { expectInteractionResponse } from '../../../tests/helpers/interaction-schemas';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import type {
+  ButtonInteraction,
+  CommandInteraction,
+  Env,
+  ModalInteraction,
+} from '../../infrastructure/types/discord';
+import { createCommandController } from './CommandController';
+import { createGuildSettingsController } from './GuildSettingsController';
+
+describe('GuildSettingsController', () => {
+  let db: D1Database;
+  let env: Env;
+
+  const MANAGE_GUILD = '32';
+
+  const member = (permissions?: string) => ({
+    user: { id: 'admin123', username: 'Admin', discriminator: '0001' },
+    roles: [],
+    permissions,
+  });
+
+  const createCommandInteraction = (permissions?: string): CommandInteraction => ({
+    id: 'test_id',
+    type: InteractionType.APPLICATION_COMMAND,
+    data: {
+      id: 'cmd_id',
+      name: 'chouseichan',
+      options: [{ name: 'settings', type: 1, value: '' }],
+    },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(permissions),
+    token: 'test_token',
+  });
+
+  const createButtonInteraction = (setting: string, permissions?: string): ButtonInteraction => ({
+    id: 'test_id',
+    type: InteractionType.MESSAGE_COMPONENT,
+    data: { custom_id: `guild_settings:${setting}`, component_type: 2 },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(permissions),
+    token: 'test_token',
+  });
+
+  const createModalInteraction = (
+    customId: string,
+    values: string[],
+    permissions?: string
+  ): ModalInteraction => ({
+    id: 'test_id',
+    type: InteractionType.MODAL_SUBMIT,
+    data: {
+      custom_id: customId,
+      components: values.map((value, index) => ({
+        type: 1,
+        components: [{ type: 4, custom_id: `field_${index}`, value }],
+      })),
+    },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(permissions),
+    token: 'test_token',
+  });
+
+  beforeEach(async () => {
+    db = createTestD1Database();
+    await applyMigrations(db);
+    env = createTestEnv(db);
+  });
+
+  afterEach(() => {
+    closeTestDatabase(db);
+  });
+
+  it('should show the settings panel to members with manage guild permission', async () => {
+    const response = await createCommandController(env).handleChouseichanCommand(
+      createCommandInteraction(MANAGE_GUILD),
+      env
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    expect(data.data?.flags).toBe(64);
+    expect(data.data?.embeds?.[0].title).toBe('⚙️ サーバー設定');
+    expect(JSON.stringify(data.data?.components)).toContain('guild_settings:toggle_results');
+  });
+
+  it('should deny the settings panel without manage guild permission', async () => {
+    const response = await createCommandController(env).handleChouseichanCommand(
+      createCommandInteraction('0'),
+      env
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.data?.content).toContain('「サーバー管理」権限が必要です');
+    expect(data.data?.embeds).toBeUndefined();
+  });
+
+  it('should re-check permission on every button press', async () => {
+    const response = await createGuildSettingsController(env).handleSettingsButton(
+      createButtonInteraction('toggle_results'),
+      ['toggle_results']
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.data?.content).toContain('「サーバー管理」権限が必要です');
+  });
+
+  it('should toggle result visibility and apply it to new schedules', async () => {
+    const response = await createGuildSettingsController(env).handleSettingsButton(
+      createButtonInteraction('toggle_results', MANAGE_GUILD),
+      ['toggle_results']
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+    expect(JSON.stringify(data.data?.embeds)).toContain('作成者のみ閲覧可能');
+
+    const container = new DependencyContainer(env);
+    const result = await container.createScheduleUseCase.execute({
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+      title: 'Hidden results',
+      dates: [{ id: 'date1', datetime: '12/25 19:00' }],
+    });
+    expect(result.schedule?.hideResultsBeforeClose).toBe(true);
+
+    const stored = await container.getScheduleUseCase.execute(
+      result.schedule?.id as string,
+      'test-guild'
+    );
+    expect(stored.schedule?.hideResultsBeforeClose).toBe(true);
+  });
+
+  it('should open the reminder modal', async () => {
+    const response = await createGuildSettingsController(env).handleSettingsButton(
+      createButtonInteraction('reminders', MANAGE_GUILD),
+      ['reminders']
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.MODAL);
+    expect(data.data?.custom_id).toBe('modal:guild_settings_reminders');
+  });
+
+  it('should save reminder defaults from the modal', async () => {
+    const response = await createGuildSettingsController(env).handleRemindersModal(
+      createModalInteraction(
+        'modal:guild_settings_reminders',
+        ['2d, 1h', '<@&123456789>'],
+        MANAGE_GUILD
+      )
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+
+    const container = new DependencyContainer(env);
+    const result = await container.createScheduleUseCase.execute({
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+      title: 'Custom reminders',
+      dates: [{ id: 'date1', datetime: '12/25 19:00' }],
+    });
+    expect(result.schedule?.reminderTimings).toEqual(['2d', '1h']);
+    expect(result.schedule?.reminderMentions).toEqual(['<@&123456789>']);
+    expect(result.schedule?.hideResultsBeforeClose).toBe(false);
+  });
+
+  it('should reject invalid reminder defaults', async () => {
+    const response = await createGuildSettingsController(env).handleRemindersModal(
+      createModalInteraction('modal:guild_settings_reminders', ['soon', ''], MANAGE_GUILD)
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    expect(data.data?.content).toContain('リマインダーのタイミングの形式が正しくありません');
+  });
+
+  it('should show open schedule usage against the limit', async () => {
+    const container = new DependencyContainer(env);
+    const created = await container.createScheduleUseCase.execute({
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+      title: 'Open schedule',
+      dates: [{ id: 'date1', datetime: '12/25 19:00' }],
+    });
+    await container.createScheduleUseCase.execute({
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+      title: 'Closed schedule',
+      dates: [{ id: 'date1', datetime: '12/26 19:00' }],
+    });
+    expect(created.success).toBe(true);
+    await db
+      .prepare("UPDATE schedules SET status = 'closed' WHERE title = ?")
+      .bind('Closed schedule')
+      .run();
+
+    const response = await createCommandController(env).handleChouseichanCommand(
+      createCommandInteraction(MANAGE_GUILD),
+      env
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(JSON.stringify(data.data?.embeds)).toContain('受付中の日程調整: 1 / 100件');
+  });
+
+  it('should update the guild timezone from the modal', async () => {
+    const response = await createGuildSettingsController(env).handleTimezoneModal(
+      createModalInteraction('modal:guild_settings_timezone', ['Europe/London'], MANAGE_GUILD)
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+    expect(JSON.stringify(data.data?.embeds)).toContain('Europe/London');
+
+    const container = new DependencyContainer(env);
+    expect(await container.timezoneSettingsUseCase.resolveTimezone('test-guild')).toBe(
+      'Europe/London'
+    );
+  });
+});
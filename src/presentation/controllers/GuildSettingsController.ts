@@ -0,0 +1,241 @@
+/**
+ * Guild Settings Controller
+ *
+ * サーバー設定パネル（/chouseichan settings）のコントローラー
+ * 設定の表示・変更はすべて「サーバー管理」権限を持つメンバーに限定する
+ */
+
+import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
+import { ERROR_MESSAGES } from '../../application/constants/ApplicationConstants';
+import { SchedulePermissionPolicy } from '../../application/services/SchedulePermissionPolicy';
+import type { GuildSettings } from '../../application/usecases/settings/GuildSettingsUseCase';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import { getLogger } from '../../infrastructure/logging/Logger';
+import type {
+  ButtonInteraction,
+  CommandInteraction,
+  Env,
+  ModalInteraction,
+} from '../../infrastructure/types/discord';
+import {
+  createGuildSettingsUIBuilder,
+  type GuildSettingsUIBuilder,
+} from '../builders/GuildSettingsUIBuilder';
+
+type SettingsInteraction = CommandInteraction | ButtonInteraction | ModalInteraction;
+
+export class GuildSettingsController {
+  private readonly logger = getLogger();
+
+  constructor(
+    private readonly dependencyContainer: DependencyContainer,
+    private readonly uiBuilder: GuildSettingsUIBuilder = createGuildSettingsUIBuilder()
+  ) {}
+
+  /**
+   * 設定パネル表示コマンド処理
+   */
+  async handleSettingsCommand(interaction: CommandInteraction): Promise<Response> {
+    try {
+      const permissionError = this.checkPermission(interaction);
+      if (permissionError) {
+        return permissionError;
+      }
+
+      const settings = await this.loadSettings(interaction.guild_id as string);
+      if (!settings) {
+        return this.createErrorResponse('サーバー設定の取得に失敗しました。');
+      }
+
+      return this.createPanelResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        settings
+      );
+    } catch (error) {
+      this.logError('Error in handleSettingsCommand', error, interaction);
+      return this.createErrorResponse('サーバー設定の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 設定パネルのボタン処理
+   */
+  async handleSettingsButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const permissionError = this.checkPermission(interaction);
+      if (permissionError) {
+        return permissionError;
+      }
+
+      const guildId = interaction.guild_id as string;
+      const settings = await this.loadSettings(guildId);
+      if (!settings) {
+        return this.createErrorResponse('サーバー設定の取得に失敗しました。');
+      }
+
+      switch (params[0]) {
+        case 'reminders':
+          return this.createModalResponse(this.uiBuilder.createRemindersModal(settings));
+        case 'timezone':
+          return this.createModalResponse(this.uiBuilder.createTimezoneModal(settings));
+        case 'toggle_results': {
+          const result =
+            await this.dependencyContainer.guildSettingsUseCase.setHideResultsBeforeClose(
+              guildId,
+              !settings.hideResultsBeforeClose
+            );
+          if (!result.success || !result.settings) {
+            return this.createErrorResponse(result.errors?.[0] || '設定の更新に失敗しました。');
+          }
+          return this.createPanelResponse(InteractionResponseType.UPDATE_MESSAGE, result.settings);
+        }
+        default:
+          return this.createErrorResponse(ERROR_MESSAGES.UNKNOWN_BUTTON);
+      }
+    } catch (error) {
+      this.logError('Error in handleSettingsButton', error, interaction);
+      return this.createErrorResponse('サーバー設定の更新中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * リマインダー既定値モーダル処理
+   */
+  async handleRemindersModal(interaction: ModalInteraction): Promise<Response> {
+    try {
+      const permissionError = this.checkPermission(interaction);
+      if (permissionError) {
+        return permissionError;
+      }
+
+      const timingsInput = interaction.data.components[0]?.components[0]?.value || '';
+      const mentionsInput = interaction.data.components[1]?.components[0]?.value || '';
+
+      const result = await this.dependencyContainer.guildSettingsUseCase.updateReminderDefaults(
+        interaction.guild_id as string,
+        timingsInput.split(','),
+        mentionsInput.split(',')
+      );
+      if (!result.success || !result.settings) {
+        return this.createErrorResponse(
+          result.errors?.[0] || 'リマインダーの既定値の更新に失敗しました。'
+        );
+      }
+
+      return this.createPanelResponse(InteractionResponseType.UPDATE_MESSAGE, result.settings);
+    } catch (error) {
+      this.logError('Error in handleRemindersModal', error, interaction);
+      return this.createErrorResponse('リマインダーの既定値の更新中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * タイムゾーンモーダル処理
+   */
+  async handleTimezoneModal(interaction: ModalInteraction): Promise<Response> {
+    try {
+      const permissionError = this.checkPermission(interaction);
+      if (permissionError) {
+        return permissionError;
+      }
+
+      const guildId = interaction.guild_id as string;
+      const timezone = interaction.data.components[0]?.components[0]?.value || '';
+
+      const result = await this.dependencyContainer.timezoneSettingsUseCase.setGuildTimezone(
+        guildId,
+        timezone
+      );
+      if (!result.success) {
+        return this.createErrorResponse(result.errors?.[0] || 'タイムゾーンの設定に失敗しました。');
+      }
+
+      const settings = await this.loadSettings(guildId);
+      if (!settings) {
+        return this.createErrorResponse('サーバー設定の取得に失敗しました。');
+      }
+
+      return this.createPanelResponse(InteractionResponseType.UPDATE_MESSAGE, settings);
+    } catch (error) {
+      this.logError('Error in handleTimezoneModal', error, interaction);
+      return this.createErrorResponse('タイムゾーンの設定中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * サーバー内かつ「サーバー管理」権限を持つかチェック
+   * パネルを開いた後に権限が外された場合に備え、操作のたびに確認する
+   */
+  private checkPermission(interaction: SettingsInteraction): Response | null {
+    if (!interaction.guild_id) {
+      return this.createErrorResponse('このコマンドはサーバー内でのみ使用できます。');
+    }
+    if (!SchedulePermissionPolicy.isServerManager(interaction.member?.permissions)) {
+      return this.createErrorResponse(ERROR_MESSAGES.MANAGE_GUILD_REQUIRED);
+    }
+    return null;
+  }
+
+  private async loadSettings(guildId: string): Promise<GuildSettings | null> {
+    const result = await this.dependencyContainer.guildSettingsUseCase.getSettings(guildId);
+    return result.success && result.settings ? result.settings : null;
+  }
+
+  private createPanelResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    settings: GuildSettings
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          embeds: [this.uiBuilder.createSettingsEmbed(settings)],
+          components: this.uiBuilder.createSettingsComponents(settings),
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private createModalResponse(modal: object): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.MODAL,
+        data: modal,
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private logError(message: string, error: unknown, interaction: SettingsInteraction): void {
+    this.logger.error(message, error instanceof Error ? error : new Error(String(error)), {
+      operation: 'guild-settings',
+      useCase: 'GuildSettingsController',
+      guildId: interaction.guild_id,
+    });
+  }
+
+  private createErrorResponse(message: string): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content: message,
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Factory function for creating controller with dependencies
+ */
+export function createGuildSettingsController(env: Env): GuildSettingsController {
+  const container = new DependencyContainer(env);
+  return new GuildSettingsController(container);
+}
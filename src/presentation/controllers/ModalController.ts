@@ -12,6 +12,9 @@ import type { Env, ModalInteraction } from '../../infrastructure/types/discord';
 import { parseButtonId } from '../utils/button-helpers';
 import { createCreateScheduleController } from './CreateScheduleController';
 import { createEditModalController } from './EditModalController';
+import { createGuildSettingsController } from './GuildSettingsController';
+import { createRecurrenceController } from './RecurrenceController';
+import { createVoteController } from './VoteController';
 
 export class ModalController {
   private readonly logger = getLogger();
@@ -32,7 +35,7 @@ export class ModalController {
 
       switch (modalAction) {
         case 'create_schedule':
-          return this.handleCreateScheduleModal(interaction, env);
+          return this.handleCreateScheduleModal(interaction, modalParams, env);
 
         case 'edit_info':
           return this.handleEditInfoModal(interaction, modalParams, env);
@@ -46,9 +49,27 @@ export class ModalController {
         case 'edit_deadline':
           return this.handleEditDeadlineModal(interaction, modalParams, env);
 
+        case 'reopen':
+          return this.handleReopenModal(interaction, modalParams, env);
+
         case 'edit_reminder':
           return this.handleEditReminderModal(interaction, modalParams, env);
 
+        case 'save_template':
+          return this.handleSaveTemplateModal(interaction, modalParams, env);
+
+        case 'create_recurrence':
+          return this.handleCreateRecurrenceModal(interaction, modalParams, env);
+
+        case 'comment':
+          return this.handleCommentModal(interaction, modalParams, env);
+
+        case 'guild_settings_reminders':
+          return this.handleGuildSettingsRemindersModal(interaction, env);
+
+        case 'guild_settings_timezone':
+          return this.handleGuildSettingsTimezoneModal(interaction, env);
+
         default:
           return this.createErrorResponse('不明なモーダルです。');
       }
@@ -69,10 +90,11 @@ export class ModalController {
 
   private async handleCreateScheduleModal(
     interaction: ModalInteraction,
+    params: string[],
     env: Env
   ): Promise<Response> {
     const controller = createCreateScheduleController(env);
-    return controller.handleCreateScheduleModal(interaction, env);
+    return controller.handleCreateScheduleModal(interaction, env, params);
   }
 
   private async handleEditInfoModal(
@@ -111,6 +133,33 @@ export class ModalController {
     return controller.handleEditDeadlineModal(interaction, params, env);
   }
 
+  private async handleReopenModal(
+    interaction: ModalInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createEditModalController(env);
+    return controller.handleReopenModal(interaction, params);
+  }
+
+  private async handleSaveTemplateModal(
+    interaction: ModalInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createEditModalController(env);
+    return controller.handleSaveTemplateModal(interaction, params);
+  }
+
+  private async handleCreateRecurrenceModal(
+    interaction: ModalInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createRecurrenceController(env);
+    return controller.handleCreateRecurrenceModal(interaction, params);
+  }
+
   private async handleEditReminderModal(
     interaction: ModalInteraction,
     params: string[],
@@ -120,6 +169,31 @@ export class ModalController {
     return controller.handleEditReminderModal(interaction, params, env);
   }
 
+  private async handleCommentModal(
+    interaction: ModalInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    const controller = createVoteController(env);
+    return controller.handleCommentModal(interaction, params);
+  }
+
+  private async handleGuildSettingsRemindersModal(
+    interaction: ModalInteraction,
+    env: Env
+  ): Promise<Response> {
+    const controller = createGuildSettingsController(env);
+    return controller.handleRemindersModal(interaction);
+  }
+
+  private async handleGuildSettingsTimezoneModal(
+    interaction: ModalInteraction,
+    env: Env
+  ): Promise<Response> {
+    const controller = createGuildSettingsController(env);
+    return controller.handleTimezoneModal(interaction);
+  }
+
   private createErrorResponse(message: string): Response {
     return new Response(
       JSON.stringify({
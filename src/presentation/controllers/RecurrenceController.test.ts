@@ -0,0 +1,215 @@
+import { InteractionResponseType, InteractionType } from 'discord-interactions';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { D1Database } from '../../../tests/helpers/d1-database';
+import {
+  applyMigrations,
+  closeTestDatabase,
+  createTestD1Database,
+  createTestEnv,
+} from '../../../tests/helpers/d1-database';
+import { expectInteractionResponse } from '../../../tests/helpers/interaction-schemas';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import type {
+  ButtonInteraction,
+  CommandInteraction,
+  Env,
+  ModalInteraction,
+} from '../../infrastructure/types/discord';
+import { createCommandController } from './CommandController';
+import { createRecurrenceController } from './RecurrenceController';
+
+describe('RecurrenceController', () => {
+  let db: D1Database;
+  let env: Env;
+  let scheduleId: string;
+
+  const member = (userId = 'user123', permissions?: string) => ({
+    user: { id: userId, username: 'TestUser', discriminator: '0001' },
+    roles: [],
+    permissions,
+  });
+
+  const createCommandInteraction = (): CommandInteraction => ({
+    id: 'test_id',
+    type: InteractionType.APPLICATION_COMMAND,
+    data: {
+      id: 'cmd_id',
+      name: 'chouseichan',
+      options: [{ name: 'recurring', type: 1, value: '' }],
+    },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(),
+    token: 'test_token',
+  });
+
+  const createModalInteraction = (values: string[], userId = 'user123'): ModalInteraction => ({
+    id: 'test_id',
+    type: InteractionType.MODAL_SUBMIT,
+    data: {
+      custom_id: `modal:create_recurrence:${scheduleId}`,
+      components: values.map((value, index) => ({
+        type: 1,
+        components: [{ type: 4, custom_id: `field_${index}`, value }],
+      })),
+    },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(userId),
+    token: 'test_token',
+  });
+
+  const createComponentInteraction = (
+    customId: string,
+    options: { values?: string[]; userId?: string } = {}
+  ): ButtonInteraction => ({
+    id: 'test_id',
+    type: InteractionType.MESSAGE_COMPONENT,
+    data: {
+      custom_id: customId,
+      component_type: options.values ? 3 : 2,
+      values: options.values,
+    },
+    channel_id: 'test_channel',
+    guild_id: 'test-guild',
+    member: member(options.userId),
+    token: 'test_token',
+  });
+
+  const registerRecurrence = async () => {
+    const response = await createRecurrenceController(env).handleCreateRecurrenceModal(
+      createModalInteraction(['月 09:00', '来週 火-木 20:00', '1d']),
+      [scheduleId]
+    );
+    return expectInteractionResponse(await response.json());
+  };
+
+  const findRecurrenceId = async (): Promise<string> => {
+    const container = new DependencyContainer(env);
+    const result = await container.scheduleRecurrenceUseCase.listRecurrences('test-guild');
+    return result.recurrences?.[0]?.id as string;
+  };
+
+  beforeEach(async () => {
+    db = createTestD1Database();
+    await applyMigrations(db);
+    env = createTestEnv(db);
+
+    const container = new DependencyContainer(env);
+    const created = await container.createScheduleUseCase.execute({
+      guildId: 'test-guild',
+      channelId: 'test_channel',
+      authorId: 'user123',
+      authorUsername: 'TestUser',
+      title: '定例会',
+      dates: [{ id: 'date1', datetime: '12/25 19:00' }],
+      reminderTimings: ['1d'],
+    });
+    scheduleId = created.schedule?.id as string;
+  });
+
+  afterEach(() => {
+    closeTestDatabase(db);
+  });
+
+  it('should open the registration modal from the edit menu', async () => {
+    const response = await createRecurrenceController(env).handleCreateRecurrenceButton(
+      createComponentInteraction(`create_recurrence:${scheduleId}`),
+      [scheduleId]
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.type).toBe(InteractionResponseType.MODAL);
+    expect(data.data?.custom_id).toBe(`modal:create_recurrence:${scheduleId}`);
+  });
+
+  it('should register a recurrence and preview the next candidates', async () => {
+    const data = await registerRecurrence();
+
+    expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    expect(data.data?.flags).toBe(64);
+    expect(data.data?.content).toContain('定期作成「定例会」を登録しました（毎週月曜 09:00');
+    expect(data.data?.content).toMatch(/\(火\) 20:00/);
+    expect(data.data?.content).toMatch(/\(木\) 20:00/);
+  });
+
+  it('should reject invalid rules without registering', async () => {
+    const response = await createRecurrenceController(env).handleCreateRecurrenceModal(
+      createModalInteraction(['毎朝', '来週 火-木 20:00', '']),
+      [scheduleId]
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.data?.content).toContain('「月 09:00」');
+    expect(await findRecurrenceId()).toBeUndefined();
+  });
+
+  it('should only let schedule editors register a recurrence', async () => {
+    const response = await createRecurrenceController(env).handleCreateRecurrenceModal(
+      createModalInteraction(['月 09:00', '来週 火-木 20:00', ''], 'other-user'),
+      [scheduleId]
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.data?.content).toBe('権限がありません。');
+  });
+
+  it('should list, pause, resume and delete recurrences', async () => {
+    await registerRecurrence();
+    const recurrenceId = await findRecurrenceId();
+    const controller = createRecurrenceController(env);
+
+    const listResponse = await createCommandController(env).handleChouseichanCommand(
+      createCommandInteraction(),
+      env
+    );
+    const list = expectInteractionResponse(await listResponse.json());
+    expect(list.data?.embeds?.[0].title).toBe('🔁 定期作成一覧');
+    expect(JSON.stringify(list.data?.components)).toContain('recurrence_select');
+
+    const selectResponse = await controller.handleRecurrenceSelect(
+      createComponentInteraction('recurrence_select', { values: [recurrenceId] })
+    );
+    const detail = expectInteractionResponse(await selectResponse.json());
+    expect(detail.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+    expect(JSON.stringify(detail.data?.components)).toContain(`recurrence:${recurrenceId}:pause`);
+
+    const pauseResponse = await controller.handleRecurrenceButton(
+      createComponentInteraction(`recurrence:${recurrenceId}:pause`),
+      [recurrenceId, 'pause']
+    );
+    const paused = expectInteractionResponse(await pauseResponse.json());
+    expect(JSON.stringify(paused.data?.embeds)).toContain('一時停止中');
+    expect(JSON.stringify(paused.data?.components)).toContain(`recurrence:${recurrenceId}:resume`);
+
+    const resumeResponse = await controller.handleRecurrenceButton(
+      createComponentInteraction(`recurrence:${recurrenceId}:resume`),
+      [recurrenceId, 'resume']
+    );
+    const resumed = expectInteractionResponse(await resumeResponse.json());
+    expect(JSON.stringify(resumed.data?.embeds)).toContain('▶️ 有効');
+
+    const deleteResponse = await controller.handleRecurrenceButton(
+      createComponentInteraction(`recurrence:${recurrenceId}:delete`),
+      [recurrenceId, 'delete']
+    );
+    const deleted = expectInteractionResponse(await deleteResponse.json());
+    expect(deleted.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+    expect(deleted.data?.embeds?.[0].description).toContain('定期作成はまだありません');
+    expect(await findRecurrenceId()).toBeUndefined();
+  });
+
+  it('should not let other members delete a recurrence', async () => {
+    await registerRecurrence();
+    const recurrenceId = await findRecurrenceId();
+
+    const response = await createRecurrenceController(env).handleRecurrenceButton(
+      createComponentInteraction(`recurrence:${recurrenceId}:delete`, { userId: 'other-user' }),
+      [recurrenceId, 'delete']
+    );
+    const data = expectInteractionResponse(await response.json());
+
+    expect(data.data?.content).toContain('登録したメンバーとサーバーのモデレーターのみ');
+    expect(await findRecurrenceId()).toBe(recurrenceId);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Recurrence Controller
+ *
+ * 日程調整の定期作成（登録モーダル・/chouseichan recurring の一覧と操作パネル）のコントローラー
+ * 登録は日程調整の編集権限、一時停止・再開・削除は登録したメンバーとモデレーターに限定する
+ */
+
+import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
+import { ERROR_MESSAGES } from '../../application/constants/ApplicationConstants';
+import type { ScheduleRecurrenceDto } from '../../application/dto/ScheduleRecurrenceDto';
+import { DependencyContainer } from '../../di/DependencyContainer';
+import { getLogger } from '../../infrastructure/logging/Logger';
+import type {
+  ButtonInteraction,
+  CommandInteraction,
+  Env,
+  ModalInteraction,
+} from '../../infrastructure/types/discord';
+import {
+  createRecurrenceUIBuilder,
+  type RecurrenceUIBuilder,
+} from '../builders/RecurrenceUIBuilder';
+import { getDisplayName, getUserId } from '../utils/discord-helpers';
+
+type RecurrenceInteraction = CommandInteraction | ButtonInteraction | ModalInteraction;
+
+export class RecurrenceController {
+  private readonly logger = getLogger();
+
+  constructor(
+    private readonly dependencyContainer: DependencyContainer,
+    private readonly uiBuilder: RecurrenceUIBuilder = createRecurrenceUIBuilder()
+  ) {}
+
+  /**
+   * 日程調整の編集メニューの「定期作成」ボタン処理（登録モーダルを表示）
+   */
+  async handleCreateRecurrenceButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      if (!interaction.guild_id) {
+        return this.createErrorResponse('定期作成はサーバー内でのみ使用できます。');
+      }
+
+      const [scheduleId] = params;
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        interaction.guild_id
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse(ERROR_MESSAGES.SCHEDULE_NOT_FOUND);
+      }
+
+      return this.createModalResponse(
+        this.uiBuilder.createRecurrenceModal(scheduleResult.schedule)
+      );
+    } catch (error) {
+      this.logError('Error in handleCreateRecurrenceButton', error, interaction);
+      return this.createErrorResponse('定期作成画面の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 定期作成の登録モーダル処理
+   */
+  async handleCreateRecurrenceModal(
+    interaction: ModalInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const userId = getUserId(interaction);
+      if (!interaction.guild_id || !userId) {
+        return this.createErrorResponse('定期作成はサーバー内でのみ使用できます。');
+      }
+
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id;
+      const runTiming = interaction.data.components[0]?.components[0]?.value || '';
+      const candidateRule = interaction.data.components[1]?.components[0]?.value || '';
+      const deadlineOffset = interaction.data.components[2]?.components[0]?.value || '';
+
+      // 作成タイミングと候補日は登録者のタイムゾーンの暦で解釈する
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+
+      const result = await this.dependencyContainer.scheduleRecurrenceUseCase.createFromSchedule({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorUsername: getDisplayName(interaction),
+        editorPermissions: interaction.member?.permissions,
+        runTiming,
+        candidateRule,
+        deadlineOffset,
+        timeZone,
+      });
+      if (!result.success || !result.recurrence) {
+        return this.createErrorResponse(result.errors?.[0] || '定期作成の登録に失敗しました。');
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: this.uiBuilder.createRegisteredContent(
+              result.recurrence,
+              result.previewDates ?? []
+            ),
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logError('Error in handleCreateRecurrenceModal', error, interaction);
+      return this.createErrorResponse('定期作成の登録中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 定期作成一覧コマンド処理
+   */
+  async handleRecurringCommand(interaction: CommandInteraction): Promise<Response> {
+    try {
+      if (!interaction.guild_id) {
+        return this.createErrorResponse('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      return this.createListResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        interaction.guild_id
+      );
+    } catch (error) {
+      this.logError('Error in handleRecurringCommand', error, interaction);
+      return this.createErrorResponse('定期作成一覧の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 定期作成一覧の選択処理（操作パネルを表示）
+   */
+  async handleRecurrenceSelect(interaction: ButtonInteraction): Promise<Response> {
+    try {
+      if (!interaction.guild_id) {
+        return this.createErrorResponse('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const recurrenceId = interaction.data.values?.[0] || '';
+      const result = await this.dependencyContainer.scheduleRecurrenceUseCase.getRecurrence(
+        recurrenceId,
+        interaction.guild_id
+      );
+      if (!result.success || !result.recurrence) {
+        return this.createErrorResponse(result.errors?.[0] || ERROR_MESSAGES.RECURRENCE_NOT_FOUND);
+      }
+
+      return this.createDetailResponse(result.recurrence);
+    } catch (error) {
+      this.logError('Error in handleRecurrenceSelect', error, interaction);
+      return this.createErrorResponse('定期作成の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 操作パネルのボタン処理（一時停止・再開・削除・一覧に戻る）
+   */
+  async handleRecurrenceButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const userId = getUserId(interaction);
+      if (!interaction.guild_id || !userId) {
+        return this.createErrorResponse('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const guildId = interaction.guild_id;
+      const [recurrenceId, operation] = params;
+      const request = {
+        recurrenceId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+      };
+      const useCase = this.dependencyContainer.scheduleRecurrenceUseCase;
+
+      switch (operation) {
+        case 'pause':
+        case 'resume': {
+          const result = await useCase.setPaused(request, operation === 'pause');
+          if (!result.success || !result.recurrence) {
+            return this.createErrorResponse(result.errors?.[0] || '定期作成の更新に失敗しました。');
+          }
+          return this.createDetailResponse(result.recurrence);
+        }
+        case 'delete': {
+          const result = await useCase.deleteRecurrence(request);
+          if (!result.success) {
+            return this.createErrorResponse(result.errors?.[0] || '定期作成の削除に失敗しました。');
+          }
+          return this.createListResponse(InteractionResponseType.UPDATE_MESSAGE, guildId);
+        }
+        case 'list':
+          return this.createListResponse(InteractionResponseType.UPDATE_MESSAGE, guildId);
+        default:
+          return this.createErrorResponse(ERROR_MESSAGES.UNKNOWN_BUTTON);
+      }
+    } catch (error) {
+      this.logError('Error in handleRecurrenceButton', error, interaction);
+      return this.createErrorResponse('定期作成の操作中にエラーが発生しました。');
+    }
+  }
+
+  private async createListResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    guildId: string
+  ): Promise<Response> {
+    const result =
+      await this.dependencyContainer.scheduleRecurrenceUseCase.listRecurrences(guildId);
+    if (!result.success || !result.recurrences) {
+      return this.createErrorResponse('定期作成一覧の取得に失敗しました。');
+    }
+
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          embeds: [this.uiBuilder.createListEmbed(result.recurrences)],
+          components: this.uiBuilder.createListComponents(result.recurrences),
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private createDetailResponse(recurrence: ScheduleRecurrenceDto): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.UPDATE_MESSAGE,
+        data: {
+          embeds: [this.uiBuilder.createDetailEmbed(recurrence)],
+          components: this.uiBuilder.createDetailComponents(recurrence),
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private createModalResponse(modal: object): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.MODAL,
+        data: modal,
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private logError(message: string, error: unknown, interaction: RecurrenceInteraction): void {
+    this.logger.error(message, error instanceof Error ? error : new Error(String(error)), {
+      operation: 'schedule-recurrence',
+      useCase: 'RecurrenceController',
+      guildId: interaction.guild_id,
+    });
+  }
+
+  private createErrorResponse(message: string): Response {
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content: message,
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Factory function for creating controller with dependencies
+ */
+export function createRecurrenceController(env: Env): RecurrenceController {
+  const container = new DependencyContainer(env);
+  return new RecurrenceController(container);
+}
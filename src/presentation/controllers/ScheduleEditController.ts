@@ -6,17 +6,42 @@
  */
 
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
+import { ERROR_MESSAGES } from '../../application/constants/ApplicationConstants';
+import type { ScheduleDraftDto, ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { DateParserService } from '../../application/services/DateParserService';
+import { SchedulePermissionPolicy } from '../../application/services/SchedulePermissionPolicy';
+import { MessageUpdateType } from '../../application/types/MessageUpdateType';
 import { DependencyContainer } from '../../di/DependencyContainer';
-import { getLogger } from '../../infrastructure/logging/Logger';
+import { sortCandidatesByStart } from '../../domain/utils/date';
+import {
+  type BroadcastMention,
+  formatReminderMentions,
+  parseReminderMentions,
+  type ReminderMentionTargets,
+} from '../../domain/utils/mention';
+import { AuditLogger, getLogger } from '../../infrastructure/logging/Logger';
 import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
-import { ScheduleEditUIBuilder } from '../builders/ScheduleEditUIBuilder';
+import {
+  type CandidatePreviewUIBuilder,
+  createCandidatePreviewUIBuilder,
+} from '../builders/CandidatePreviewUIBuilder';
+import { CommandUIBuilder } from '../builders/CommandUIBuilder';
+import {
+  DATE_MOVE_POSITIONS,
+  type DateMovePosition,
+  ScheduleEditUIBuilder,
+} from '../builders/ScheduleEditUIBuilder';
+import { getScheduleActor } from '../utils/discord-helpers';
 
 export class ScheduleEditController {
   private readonly logger = getLogger();
 
   constructor(
     private readonly dependencyContainer: DependencyContainer,
-    private readonly uiBuilder: ScheduleEditUIBuilder
+    private readonly uiBuilder: ScheduleEditUIBuilder,
+    private readonly commandUIBuilder: CommandUIBuilder = new CommandUIBuilder(),
+    private readonly candidatePreviewUIBuilder: CandidatePreviewUIBuilder = createCandidatePreviewUIBuilder(),
+    private readonly dateParserService: DateParserService = new DateParserService()
   ) {}
 
   /**
@@ -216,8 +241,16 @@ export class ScheduleEditController {
       }
 
       // 権限確認
-      if (scheduleResult.schedule.authorId !== userId) {
-        return this.createErrorResponse('日程調整を編集できるのは作成者のみです。');
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'edit'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を編集できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
       }
 
       // 削除する日程を特定
@@ -235,6 +268,7 @@ export class ScheduleEditController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
         dates: remainingDates,
       });
 
@@ -283,10 +317,17 @@ export class ScheduleEditController {
         return this.createErrorResponse('日程調整が見つかりません。');
       }
 
+      // 締切は編集者のタイムゾーンで表示・解釈する
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        interaction.member?.user.id || interaction.user?.id
+      );
+
       // モーダル構築
       const modal = this.uiBuilder.createEditDeadlineModal(
         scheduleResult.schedule,
-        originalMessageId || interaction.message?.id || ''
+        originalMessageId || interaction.message?.id || '',
+        timeZone
       );
 
       return new Response(
@@ -305,6 +346,70 @@ export class ScheduleEditController {
     }
   }
 
+  /**
+   * 再開ボタン処理（新しい締切を入力するモーダルを表示）
+   */
+  async handleReopenButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      // 権限確認
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'reopen'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を再開できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
+      }
+
+      if (scheduleResult.schedule.status !== 'closed') {
+        return this.createErrorResponse('この日程調整は締め切られていません。');
+      }
+
+      // 締切は操作者のタイムゾーンで表示・解釈する
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+
+      const modal = this.uiBuilder.createReopenModal(scheduleResult.schedule, timeZone);
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: modal,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleReopenButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('再開画面の表示中にエラーが発生しました。');
+    }
+  }
+
   /**
    * リマインダー編集ボタン処理
    */
@@ -345,6 +450,1114 @@ export class ScheduleEditController {
     }
   }
 
+  /**
+   * 参加予定者設定ボタン処理
+   */
+  async handleInviteesButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      // 権限確認
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'edit'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を編集できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
+      }
+
+      return this.createInviteesResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        scheduleResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleInviteesButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('参加予定者設定の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 参加予定者（ユーザー・ロール）選択処理
+   */
+  async handleInviteeSelect(
+    interaction: ButtonInteraction,
+    params: string[],
+    target: 'users' | 'roles'
+  ): Promise<Response> {
+    const selectedIds = interaction.data.values || [];
+    return this.updateInvitees(
+      interaction,
+      params,
+      target === 'users' ? { invitedUserIds: selectedIds } : { invitedRoleIds: selectedIds }
+    );
+  }
+
+  /**
+   * 参加予定者クリアボタン処理
+   */
+  async handleClearInviteesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    return this.updateInvitees(interaction, params, { invitedUserIds: [], invitedRoleIds: [] });
+  }
+
+  private async updateInvitees(
+    interaction: ButtonInteraction,
+    params: string[],
+    invitees: { invitedUserIds?: string[]; invitedRoleIds?: string[] }
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        ...invitees,
+      });
+
+      if (!updateResult.success || !updateResult.schedule) {
+        return this.createErrorResponse(
+          updateResult.errors?.[0] || '参加予定者の更新に失敗しました。'
+        );
+      }
+
+      return this.createInviteesResponse(
+        InteractionResponseType.UPDATE_MESSAGE,
+        updateResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in updateInvitees:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('参加予定者の更新中にエラーが発生しました。');
+    }
+  }
+
+  private createInviteesResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    schedule: ScheduleResponseDto
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          content: this.uiBuilder.createInviteesContent(schedule),
+          components: this.uiBuilder.createInviteesComponents(schedule),
+          // 一覧表示のメンションで通知が飛ばないようにする
+          allowed_mentions: { parse: [] },
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * リマインダー通知先設定ボタン処理
+   */
+  async handleReminderMentionsButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      // 権限確認
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'edit'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を編集できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
+      }
+
+      return this.createReminderMentionsResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        scheduleResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleReminderMentionsButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('通知先設定の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 通知するユーザー・ロール選択処理（メンション選択メニュー）
+   */
+  async handleReminderMentionTargetsSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const selectedIds = interaction.data.values || [];
+    const resolvedRoles = interaction.data.resolved?.roles ?? {};
+
+    return this.updateReminderMentions(interaction, params, (targets) => ({
+      ...targets,
+      userIds: selectedIds.filter((id) => !resolvedRoles[id]),
+      roleIds: selectedIds.filter((id) => !!resolvedRoles[id]),
+      // 選び直した時点で名前指定の通知先は置き換える
+      legacy: [],
+    }));
+  }
+
+  /**
+   * 全体へのメンション（@here / @everyone）選択処理
+   */
+  async handleReminderBroadcastSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const selected = interaction.data.values?.[0];
+    const broadcast: BroadcastMention | undefined =
+      selected === '@here' || selected === '@everyone' ? selected : undefined;
+
+    return this.updateReminderMentions(interaction, params, (targets) => ({
+      ...targets,
+      broadcast,
+    }));
+  }
+
+  private async updateReminderMentions(
+    interaction: ButtonInteraction,
+    params: string[],
+    update: (targets: ReminderMentionTargets) => ReminderMentionTargets
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      const targets = update(parseReminderMentions(scheduleResult.schedule.reminderMentions ?? []));
+      const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        reminderMentions: formatReminderMentions(targets),
+      });
+
+      if (!updateResult.success || !updateResult.schedule) {
+        return this.createErrorResponse(updateResult.errors?.[0] || '通知先の更新に失敗しました。');
+      }
+
+      return this.createReminderMentionsResponse(
+        InteractionResponseType.UPDATE_MESSAGE,
+        updateResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in updateReminderMentions:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('通知先の更新中にエラーが発生しました。');
+    }
+  }
+
+  private createReminderMentionsResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    schedule: ScheduleResponseDto
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          content: this.uiBuilder.createReminderMentionsContent(schedule),
+          components: this.uiBuilder.createReminderMentionsComponents(schedule),
+          // 設定内容の表示で通知が飛ばないようにする
+          allowed_mentions: { parse: [] },
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * 共同主催者設定ボタン処理
+   */
+  async handleCoOrganizersButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      // 権限確認（共同主催者の変更は作成者とモデレーターのみ）
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'manage_organizers'
+        )
+      ) {
+        return this.createErrorResponse(
+          '共同主催者を変更できるのは作成者とサーバーのモデレーターのみです。'
+        );
+      }
+
+      return this.createCoOrganizersResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        scheduleResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleCoOrganizersButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('共同主催者設定の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 共同主催者（ユーザー）選択処理
+   */
+  async handleCoOrganizerSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // ボットは共同主催者にしない
+      const resolvedUsers = interaction.data.resolved?.users ?? {};
+      const selectedIds = (interaction.data.values || []).filter((id) => !resolvedUsers[id]?.bot);
+
+      const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        coOrganizerIds: selectedIds,
+      });
+
+      if (!updateResult.success || !updateResult.schedule) {
+        return this.createErrorResponse(
+          updateResult.errors?.[0] || '共同主催者の更新に失敗しました。'
+        );
+      }
+
+      return this.createCoOrganizersResponse(
+        InteractionResponseType.UPDATE_MESSAGE,
+        updateResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleCoOrganizerSelect:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('共同主催者の更新中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 主催者の譲渡ボタン処理
+   */
+  async handleTransferOwnerButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      // 権限確認（譲渡できるのは作成者とサーバー管理者のみ）
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'transfer_ownership'
+        )
+      ) {
+        return this.createErrorResponse(
+          '主催者を譲渡できるのは作成者とサーバー管理権限を持つメンバーのみです。'
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: this.uiBuilder.createTransferOwnerContent(scheduleResult.schedule),
+            components: this.uiBuilder.createTransferOwnerComponents(scheduleResult.schedule),
+            allowed_mentions: { parse: [] },
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleTransferOwnerButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('主催者の譲渡メニューの表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 複製ボタン処理（候補日をずらす期間の選択メニューを表示）
+   */
+  async handleCloneButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: this.uiBuilder.createCloneShiftContent(scheduleResult.schedule),
+            components: this.uiBuilder.createCloneShiftComponents(scheduleResult.schedule),
+            allowed_mentions: { parse: [] },
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleCloneButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('複製メニューの表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 複製時のずらし幅の選択処理（入力済みの作成モーダルを表示）
+   */
+  async handleCloneShiftSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+      const shiftDays = Number.parseInt(interaction.data.values?.[0] || '0', 10);
+
+      // 候補日は操作者のタイムゾーンの暦でずらす
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+
+      const cloneResult = await this.dependencyContainer.cloneScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        shiftDays: Number.isNaN(shiftDays) ? 0 : shiftDays,
+        timeZone,
+      });
+
+      if (!cloneResult.success || !cloneResult.draft) {
+        return this.createErrorResponse(
+          cloneResult.errors?.[0] || '日程調整の複製に失敗しました。'
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: this.commandUIBuilder.createScheduleCreationModal(cloneResult.draft, timeZone),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleCloneShiftSelect:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('日程調整の複製中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 日程候補の確認画面の「作成フォームを開く」ボタン処理（展開した候補を入力済みの作成モーダルを表示）
+   * params は [作成モード（new / clone / template）, 複製元・テンプレートのID]
+   */
+  async handleGeneratedCreateButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [mode, sourceId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      const preview = this.candidatePreviewUIBuilder.readCreationPreview(
+        interaction.message?.embeds
+      );
+      if (!preview) {
+        return this.createErrorResponse(ERROR_MESSAGES.CANDIDATE_PREVIEW_UNAVAILABLE);
+      }
+
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+      const draft: ScheduleDraftDto = {
+        sourceScheduleId: mode === 'clone' ? sourceId : undefined,
+        templateId: mode === 'template' ? sourceId : undefined,
+        title: preview.title,
+        description: preview.description,
+        dates: preview.dates.map((datetime) =>
+          this.dateParserService.createScheduleDate(datetime, undefined, timeZone)
+        ),
+        deadline: preview.deadline
+          ? this.dateParserService.parseUserDate(preview.deadline, timeZone)?.toISOString()
+          : undefined,
+      };
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: this.commandUIBuilder.createScheduleCreationModal(draft, timeZone),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleGeneratedCreateButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('作成フォームの表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 日程候補の確認画面の「追加フォームを開く」ボタン処理（展開した候補を入力済みの日程追加モーダルを表示）
+   */
+  async handleGeneratedAddDatesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      const dates = this.candidatePreviewUIBuilder.readAddDatesPreview(interaction.message?.embeds);
+      if (!dates) {
+        return this.createErrorResponse(ERROR_MESSAGES.CANDIDATE_PREVIEW_UNAVAILABLE);
+      }
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: this.uiBuilder.createAddDatesModal(scheduleId, dates),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleGeneratedAddDatesButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('日程追加の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 「曜日を修正」ボタン処理（曜日が日付と一致しない候補の曜日を書き換える）
+   * 候補のIDと日時は変えないため、回答はそのまま残る
+   */
+  async handleFixWeekdaysButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+      const schedule = scheduleResult.schedule;
+
+      const timeZone = await this.dependencyContainer.timezoneSettingsUseCase.resolveTimezone(
+        guildId,
+        userId
+      );
+      const corrections = new Map(
+        this.dateParserService
+          .findWeekdayMismatches(
+            schedule.dates.map((date) => date.datetime),
+            timeZone
+          )
+          .map((mismatch) => [mismatch.label, mismatch.correctedLabel])
+      );
+
+      if (corrections.size > 0) {
+        const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+          scheduleId,
+          guildId,
+          editorUserId: userId,
+          editorPermissions: interaction.member?.permissions,
+          dates: schedule.dates.map((date) => ({
+            ...date,
+            datetime: corrections.get(date.datetime) ?? date.datetime,
+          })),
+        });
+        if (!updateResult.success) {
+          return this.createErrorResponse(updateResult.errors?.[0] || '曜日の修正に失敗しました。');
+        }
+
+        if (schedule.messageId && schedule.channelId) {
+          await this.dependencyContainer.messageUpdateService.scheduleUpdate({
+            scheduleId,
+            messageId: schedule.messageId,
+            channelId: schedule.channelId,
+            guildId,
+            updateType: MessageUpdateType.SUMMARY_UPDATE,
+          });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.UPDATE_MESSAGE,
+          data: {
+            content:
+              corrections.size > 0
+                ? `✅ ${corrections.size}件の候補の曜日を修正しました。`
+                : '✅ 曜日が日付と一致しない候補はありません。',
+            embeds: [],
+            components: [],
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleFixWeekdaysButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('曜日の修正中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 候補の並べ替えボタン処理
+   */
+  async handleReorderDatesButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'edit'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を編集できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
+      }
+
+      return this.createReorderDatesResponse(
+        InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        scheduleResult.schedule
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleReorderDatesButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('候補の並べ替えの表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 並べ替える候補の選択処理（選択を反映するだけで保存はしない）
+   */
+  async handleReorderDateSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      return this.createReorderDatesResponse(
+        InteractionResponseType.UPDATE_MESSAGE,
+        scheduleResult.schedule,
+        interaction.data.values?.[0]
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleReorderDateSelect:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('候補の選択中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 候補の移動ボタン処理
+   */
+  async handleMoveDateButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId, dateId, position] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+      const schedule = scheduleResult.schedule;
+
+      const index = schedule.dates.findIndex((date) => date.id === dateId);
+      const destinations: Record<DateMovePosition, number> = {
+        top: 0,
+        up: index - 1,
+        down: index + 1,
+        bottom: schedule.dates.length - 1,
+      };
+      const move = DATE_MOVE_POSITIONS.find((candidate) => candidate.position === position);
+      const destination = move ? destinations[move.position] : undefined;
+      if (index < 0 || destination === undefined) {
+        return this.createErrorResponse('移動する候補が見つかりません。');
+      }
+
+      const dates = [...schedule.dates];
+      const [moved] = dates.splice(index, 1);
+      dates.splice(Math.min(Math.max(destination, 0), dates.length), 0, moved);
+
+      return this.saveDateOrder(interaction, schedule, dates, dateId);
+    } catch (error) {
+      this.logger.error(
+        'Error in handleMoveDateButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('候補の並べ替え中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 日時順に並べ替えボタン処理（日時を読み取れない候補は末尾に残す）
+   */
+  async handleSortDatesButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      return this.saveDateOrder(
+        interaction,
+        scheduleResult.schedule,
+        sortCandidatesByStart(scheduleResult.schedule.dates)
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleSortDatesButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('候補の並べ替え中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 候補の並び順を保存し、並べ替え画面を更新する（並び順はリポジトリで表示順として保存される）
+   */
+  private async saveDateOrder(
+    interaction: ButtonInteraction,
+    schedule: ScheduleResponseDto,
+    dates: ScheduleResponseDto['dates'],
+    selectedDateId?: string
+  ): Promise<Response> {
+    const guildId = interaction.guild_id || 'default';
+    const userId = interaction.member?.user.id || interaction.user?.id;
+
+    if (!userId) {
+      return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+    }
+
+    const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+      scheduleId: schedule.id,
+      guildId,
+      editorUserId: userId,
+      editorPermissions: interaction.member?.permissions,
+      dates,
+    });
+    if (!updateResult.success || !updateResult.schedule) {
+      return this.createErrorResponse(updateResult.errors?.[0] || '候補の並べ替えに失敗しました。');
+    }
+
+    if (schedule.messageId && schedule.channelId) {
+      await this.dependencyContainer.messageUpdateService.scheduleUpdate({
+        scheduleId: schedule.id,
+        messageId: schedule.messageId,
+        channelId: schedule.channelId,
+        guildId,
+        updateType: MessageUpdateType.SUMMARY_UPDATE,
+      });
+    }
+
+    return this.createReorderDatesResponse(
+      InteractionResponseType.UPDATE_MESSAGE,
+      updateResult.schedule,
+      selectedDateId
+    );
+  }
+
+  private createReorderDatesResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    schedule: ScheduleResponseDto,
+    selectedDateId?: string
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          ...this.uiBuilder.createReorderDatesView(schedule, selectedDateId),
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * テンプレート保存ボタン処理（テンプレート名の入力モーダルを表示）
+   */
+  async handleSaveTemplateButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+
+      // スケジュール取得
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: this.uiBuilder.createSaveTemplateModal(scheduleResult.schedule),
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleSaveTemplateButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('テンプレート保存画面の表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 新しい主催者の選択処理
+   */
+  async handleTransferOwnerSelect(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+      const newOwnerId = interaction.data.values?.[0];
+      const newOwner = newOwnerId ? interaction.data.resolved?.users?.[newOwnerId] : undefined;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+      if (!newOwner) {
+        return this.createErrorResponse('新しい主催者が選択されていません。');
+      }
+      if (newOwner.bot) {
+        return this.createErrorResponse('ボットを主催者にすることはできません。');
+      }
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      const previousOwnerId = scheduleResult.schedule.authorId;
+      if (previousOwnerId === newOwner.id) {
+        return this.createErrorResponse('選択したメンバーはすでに主催者です。');
+      }
+
+      const updateResult = await this.dependencyContainer.updateScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        newOwner: {
+          id: newOwner.id,
+          username: newOwner.username,
+          displayName: newOwner.global_name,
+        },
+      });
+
+      if (!updateResult.success || !updateResult.schedule) {
+        return this.createErrorResponse(updateResult.errors?.[0] || '主催者の譲渡に失敗しました。');
+      }
+
+      AuditLogger.scheduleOwnershipTransferred(scheduleId, guildId, {
+        fromUserId: previousOwnerId,
+        toUserId: newOwner.id,
+        transferredBy: userId,
+      });
+
+      this.handlePostTransferActions(updateResult.schedule, userId, env);
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.UPDATE_MESSAGE,
+          data: {
+            content: `✅ 「${updateResult.schedule.title}」の主催者を <@${newOwner.id}> さんに譲渡しました。`,
+            components: [],
+            allowed_mentions: { parse: [] },
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleTransferOwnerSelect:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('主催者の譲渡中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 譲渡後にバックグラウンドで新しい主催者への通知とメインメッセージの更新を行う
+   */
+  private handlePostTransferActions(
+    schedule: ScheduleResponseDto,
+    transferredByUserId: string,
+    env: Env
+  ): void {
+    const notificationService = this.dependencyContainer.applicationServices.notificationService;
+    if (!notificationService) return;
+
+    const postPromise = Promise.all([
+      notificationService.sendOwnershipTransferNotice(schedule, transferredByUserId),
+      notificationService.updateMainMessage(schedule.id, schedule.guildId),
+    ]).catch((error) =>
+      this.logger.error(
+        'Failed to handle post transfer actions:',
+        error instanceof Error ? error : new Error(String(error))
+      )
+    );
+
+    if (env.ctx && typeof env.ctx.waitUntil === 'function') {
+      env.ctx.waitUntil(postPromise);
+    }
+  }
+
+  private createCoOrganizersResponse(
+    type:
+      | InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE
+      | InteractionResponseType.UPDATE_MESSAGE,
+    schedule: ScheduleResponseDto
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        type,
+        data: {
+          content: this.uiBuilder.createCoOrganizersContent(schedule),
+          components: this.uiBuilder.createCoOrganizersComponents(schedule),
+          // 一覧表示のメンションで通知が飛ばないようにする
+          allowed_mentions: { parse: [] },
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   private createErrorResponse(message: string): Response {
     return new Response(
       JSON.stringify({
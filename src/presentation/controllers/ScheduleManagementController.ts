@@ -6,13 +6,19 @@
  */
 
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
-import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import type {
+  ScheduleResponseDto,
+  ScheduleSummaryResponseDto,
+} from '../../application/dto/ScheduleDto';
+import { SchedulePermissionPolicy } from '../../application/services/SchedulePermissionPolicy';
 import { DependencyContainer } from '../../di/DependencyContainer';
 import { getLogger } from '../../infrastructure/logging/Logger';
 import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
 import { ScheduleMainMessageBuilder } from '../builders/ScheduleMainMessageBuilder';
 import { ScheduleManagementUIBuilder } from '../builders/ScheduleManagementUIBuilder';
 import { deleteMessage } from '../utils/discord';
+import { getScheduleActor, getUserId } from '../utils/discord-helpers';
+import { createScheduleEmbedWithTable, isResultsHidden } from '../utils/embeds';
 
 export class ScheduleManagementController {
   private readonly logger = getLogger();
@@ -43,11 +49,22 @@ export class ScheduleManagementController {
         return this.createErrorResponse('日程調整が見つかりません。');
       }
 
+      const nonRespondentIds = await this.findNonRespondentIds(summaryResult.summary);
+
+      if (isResultsHidden(summaryResult.summary.schedule)) {
+        return this.createHiddenResultsResponse(
+          summaryResult.summary,
+          interaction,
+          nonRespondentIds
+        );
+      }
+
       // 統一UIBuilderを使用（詳細表示・投票ボタン表示）
       const { embed, components } = ScheduleMainMessageBuilder.createMainMessage({
         summary: summaryResult.summary,
         showDetails: true,
         showVoteButtons: true,
+        nonRespondentIds,
       });
 
       return new Response(
@@ -96,8 +113,16 @@ export class ScheduleManagementController {
       await this.saveMessageIdIfNeeded(scheduleId, guildId, interaction.message?.id);
 
       // 編集権限確認
-      if (scheduleResult.schedule.authorId !== userId) {
-        return this.createErrorResponse('日程調整を編集できるのは作成者のみです。');
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'edit'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を編集できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
       }
 
       // 編集メニューUI構築
@@ -146,11 +171,22 @@ export class ScheduleManagementController {
         return this.createErrorResponse('日程調整が見つかりません。');
       }
 
+      const nonRespondentIds = await this.findNonRespondentIds(summaryResult.summary);
+
+      if (isResultsHidden(summaryResult.summary.schedule)) {
+        return this.createHiddenResultsResponse(
+          summaryResult.summary,
+          interaction,
+          nonRespondentIds
+        );
+      }
+
       // 統一されたScheduleMainMessageBuilderを使用（詳細表示）
       const { embed, components } = ScheduleMainMessageBuilder.createMainMessage({
         summary: summaryResult.summary,
         showDetails: true,
         showVoteButtons: true,
+        nonRespondentIds,
       });
 
       return new Response(
@@ -194,6 +230,7 @@ export class ScheduleManagementController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
       });
 
       if (!closeResult.success) {
@@ -224,6 +261,145 @@ export class ScheduleManagementController {
     }
   }
 
+  /**
+   * 日程決定ボタンの処理（決定する日程のセレクトメニューを表示）
+   */
+  async handleDecideButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+
+      const summaryResult = await this.dependencyContainer.getScheduleSummaryUseCase.execute(
+        scheduleId,
+        guildId
+      );
+
+      if (!summaryResult.success || !summaryResult.summary) {
+        return this.createErrorResponse('日程調整が見つかりません。');
+      }
+
+      if (
+        !SchedulePermissionPolicy.can(
+          summaryResult.summary.schedule,
+          getScheduleActor(interaction, userId),
+          'decide'
+        )
+      ) {
+        return this.createErrorResponse(
+          '開催日程を決定できるのは主催者（作成者・共同主催者）とサーバーのモデレーターのみです。'
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: '開催日程を選択してください。決定すると日程調整は締め切られます。',
+            components: this.uiBuilder.createDecideDateSelectComponents(summaryResult.summary),
+            flags: InteractionResponseFlags.EPHEMERAL,
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleDecideButton:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('日程決定メニューの表示中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * 日程決定セレクトメニューの処理
+   */
+  async handleDecideDateSelect(
+    interaction: ButtonInteraction,
+    params: string[],
+    env: Env
+  ): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id;
+      const dateId = interaction.data.values?.[0];
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+      if (!dateId) {
+        return this.createErrorResponse('日程が選択されていません。');
+      }
+
+      const decideResult = await this.dependencyContainer.decideScheduleUseCase.execute({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        dateId,
+      });
+
+      if (!decideResult.success || !decideResult.schedule) {
+        return this.createErrorResponse(
+          decideResult.errors?.[0] || '開催日程の決定に失敗しました。'
+        );
+      }
+
+      // メインメッセージの更新と決定の告知
+      this.handlePostDecideActions(scheduleId, guildId, env);
+
+      const decidedDate = decideResult.schedule.dates.find((date) => date.id === dateId);
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.UPDATE_MESSAGE,
+          data: {
+            content: `🎉 開催日程を「${decidedDate?.datetime}」に決定しました。`,
+            components: [],
+          },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in handleDecideDateSelect:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('開催日程の決定中にエラーが発生しました。');
+    }
+  }
+
+  /**
+   * イベント作成ボタンの処理（決定日程から外部イベントを作成）
+   */
+  async handleGuildEventButton(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const [scheduleId] = params;
+    return this.createGuildEvent(interaction, scheduleId);
+  }
+
+  /**
+   * イベント開催チャンネル選択の処理（ボイスチャンネルイベントに変更）
+   */
+  async handleGuildEventChannelSelect(
+    interaction: ButtonInteraction,
+    params: string[]
+  ): Promise<Response> {
+    const [scheduleId] = params;
+    const voiceChannelId = interaction.data.values?.[0];
+    if (!voiceChannelId) {
+      return this.createErrorResponse('チャンネルが選択されていません。');
+    }
+    return this.createGuildEvent(interaction, scheduleId, voiceChannelId);
+  }
+
   /**
    * スケジュール削除ボタンの処理
    */
@@ -251,8 +427,16 @@ export class ScheduleManagementController {
         return this.createErrorResponse('日程調整が見つかりません。');
       }
 
-      if (scheduleResult.schedule.authorId !== userId) {
-        return this.createErrorResponse('日程調整を削除できるのは作成者のみです。');
+      if (
+        !SchedulePermissionPolicy.can(
+          scheduleResult.schedule,
+          getScheduleActor(interaction, userId),
+          'delete'
+        )
+      ) {
+        return this.createErrorResponse(
+          '日程調整を削除できるのは作成者とサーバーのモデレーターのみです。'
+        );
       }
 
       // Discord メッセージ削除処理
@@ -263,6 +447,7 @@ export class ScheduleManagementController {
         scheduleId,
         guildId,
         deletedByUserId: userId,
+        deletedByPermissions: interaction.member?.permissions,
       });
 
       if (!deleteResult.success) {
@@ -464,6 +649,96 @@ export class ScheduleManagementController {
     }
   }
 
+  private async createGuildEvent(
+    interaction: ButtonInteraction,
+    scheduleId: string,
+    voiceChannelId?: string
+  ): Promise<Response> {
+    try {
+      const guildId = interaction.guild_id;
+      const userId = interaction.member?.user.id || interaction.user?.id;
+
+      if (!userId) {
+        return this.createErrorResponse('ユーザー情報を取得できませんでした。');
+      }
+      if (!guildId) {
+        return this.createErrorResponse('イベントはサーバー内でのみ作成できます。');
+      }
+
+      const manageGuildEventUseCase = this.dependencyContainer.manageGuildEventUseCase;
+      if (!manageGuildEventUseCase) {
+        return this.createErrorResponse('Discordイベントの作成は現在利用できません。');
+      }
+
+      const result = await manageGuildEventUseCase.createEvent({
+        scheduleId,
+        guildId,
+        editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
+        voiceChannelId,
+      });
+
+      if (!result.success || !result.eventId) {
+        return this.createErrorResponse(
+          result.errors?.[0] || 'Discordイベントの作成に失敗しました。'
+        );
+      }
+
+      const eventUrl = `https://discord.com/events/${guildId}/${result.eventId}`;
+      const location = voiceChannelId
+        ? `<#${voiceChannelId}>`
+        : '外部（日程調整メッセージへのリンク）';
+      const content = `📅 Discordイベントを${result.created ? '作成' : '更新'}しました。\n場所: ${location}\n${eventUrl}`;
+
+      const components = this.uiBuilder.createGuildEventChannelSelectComponents(scheduleId);
+
+      // チャンネル選択からの更新時は同じメッセージを書き換える
+      return new Response(
+        JSON.stringify(
+          voiceChannelId
+            ? {
+                type: InteractionResponseType.UPDATE_MESSAGE,
+                data: { content, components },
+              }
+            : {
+                type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+                data: { content, components, flags: InteractionResponseFlags.EPHEMERAL },
+              }
+        ),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error in createGuildEvent:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return this.createErrorResponse('Discordイベントの作成中にエラーが発生しました。');
+    }
+  }
+
+  private handlePostDecideActions(scheduleId: string, guildId: string, env: Env): void {
+    const notificationService = this.dependencyContainer.applicationServices.notificationService;
+    if (!notificationService) return;
+
+    const manageGuildEventUseCase = this.dependencyContainer.manageGuildEventUseCase;
+
+    const postPromise = Promise.all([
+      notificationService.updateMainMessage(scheduleId, guildId),
+      notificationService.sendDecisionMessage(scheduleId, guildId),
+      // 決定日程を変更した場合は作成済みのサーバーイベントも更新
+      manageGuildEventUseCase?.syncEvent(scheduleId, guildId),
+    ]).catch((error) =>
+      this.logger.error(
+        'Failed to handle post decide actions:',
+        error instanceof Error ? error : new Error(String(error))
+      )
+    );
+
+    if (env.ctx && typeof env.ctx.waitUntil === 'function') {
+      env.ctx.waitUntil(postPromise);
+    }
+  }
+
   private async handleDiscordMessageDeletion(
     schedule: ScheduleResponseDto,
     interaction: ButtonInteraction,
@@ -500,6 +775,60 @@ export class ScheduleManagementController {
     }
   }
 
+  /**
+   * 締切まで集計結果が非公開の日程調整の詳細表示
+   * 公開メッセージは更新せず、主催者とモデレーターにのみ本人のみ表示で集計結果を返す
+   */
+  private createHiddenResultsResponse(
+    summary: ScheduleSummaryResponseDto,
+    interaction: ButtonInteraction,
+    nonRespondentIds?: string[]
+  ): Response {
+    const userId = getUserId(interaction);
+    if (
+      !userId ||
+      !SchedulePermissionPolicy.can(
+        summary.schedule,
+        getScheduleActor(interaction, userId),
+        'view_results'
+      )
+    ) {
+      return this.createErrorResponse('🔒 この日程調整の集計結果は締切後に公開されます。');
+    }
+
+    return new Response(
+      JSON.stringify({
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content: '🔒 集計結果は締切まで主催者のみ閲覧できます。',
+          embeds: [
+            createScheduleEmbedWithTable({
+              summary,
+              showDetails: true,
+              revealResults: true,
+              nonRespondentIds,
+            }),
+          ],
+          flags: InteractionResponseFlags.EPHEMERAL,
+        },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * 参加予定者のうち未回答のユーザーIDを取得（参加予定者が未設定の場合はundefined）
+   */
+  private async findNonRespondentIds(
+    summary: ScheduleSummaryResponseDto
+  ): Promise<string[] | undefined> {
+    const result = await this.dependencyContainer.nonRespondentService.findNonRespondents(
+      summary.schedule,
+      summary.responses.map((response) => response.userId)
+    );
+    return result.tracked ? result.nonRespondentIds : undefined;
+  }
+
   private createErrorResponse(message: string): Response {
     return new Response(
       JSON.stringify({
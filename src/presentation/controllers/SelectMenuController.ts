@@ -10,7 +10,10 @@ import { DependencyContainer } from '../../di/DependencyContainer';
 import { getLogger } from '../../infrastructure/logging/Logger';
 import type { ButtonInteraction, Env } from '../../infrastructure/types/discord';
 import { getDisplayName } from '../utils/discord-helpers';
-import { createErrorResponse } from '../utils/responses';
+import { createErrorResponse, createHandledErrorResponse } from '../utils/responses';
+import { createRecurrenceController } from './RecurrenceController';
+import { createScheduleEditController } from './ScheduleEditController';
+import { createScheduleManagementController } from './ScheduleManagementController';
 
 export class SelectMenuController {
   private readonly logger = getLogger();
@@ -20,11 +23,69 @@ export class SelectMenuController {
   /**
    * セレクトメニューインタラクション処理
    */
-  async handleSelectMenuInteraction(interaction: ButtonInteraction, _env: Env): Promise<Response> {
+  async handleSelectMenuInteraction(interaction: ButtonInteraction, env: Env): Promise<Response> {
     try {
       const customId = interaction.data.custom_id;
       const [action, scheduleId, dateId] = customId.split(':');
 
+      if (action === 'decide_date') {
+        return createScheduleManagementController(env).handleDecideDateSelect(
+          interaction,
+          [scheduleId],
+          env
+        );
+      }
+
+      if (action === 'guild_event_channel') {
+        return createScheduleManagementController(env).handleGuildEventChannelSelect(interaction, [
+          scheduleId,
+        ]);
+      }
+
+      if (action === 'invitee_users' || action === 'invitee_roles') {
+        return createScheduleEditController(env).handleInviteeSelect(
+          interaction,
+          [scheduleId],
+          action === 'invitee_users' ? 'users' : 'roles'
+        );
+      }
+
+      if (action === 'reminder_mention_targets') {
+        return createScheduleEditController(env).handleReminderMentionTargetsSelect(interaction, [
+          scheduleId,
+        ]);
+      }
+
+      if (action === 'reminder_broadcast') {
+        return createScheduleEditController(env).handleReminderBroadcastSelect(interaction, [
+          scheduleId,
+        ]);
+      }
+
+      if (action === 'co_organizer_users') {
+        return createScheduleEditController(env).handleCoOrganizerSelect(interaction, [scheduleId]);
+      }
+
+      if (action === 'clone_shift') {
+        return createScheduleEditController(env).handleCloneShiftSelect(interaction, [scheduleId]);
+      }
+
+      if (action === 'reorder_dates_select') {
+        return createScheduleEditController(env).handleReorderDateSelect(interaction, [scheduleId]);
+      }
+
+      if (action === 'transfer_owner_user') {
+        return createScheduleEditController(env).handleTransferOwnerSelect(
+          interaction,
+          [scheduleId],
+          env
+        );
+      }
+
+      if (action === 'recurrence_select') {
+        return createRecurrenceController(env).handleRecurrenceSelect(interaction);
+      }
+
       if (action !== 'dateselect') {
         return createErrorResponse('不明なセレクトメニューです。');
       }
@@ -82,6 +143,9 @@ export class SelectMenuController {
         guildId,
       });
 
+      if (submitResult.quotaExceeded) {
+        return createHandledErrorResponse(submitResult.quotaExceeded);
+      }
       if (!submitResult.success) {
         return createErrorResponse('回答の保存に失敗しました。');
       }
@@ -98,6 +98,9 @@ describe('VoteController', () => {
       submitResponseUseCase: {
         execute: vi.fn().mockResolvedValue({ success: false }),
       },
+      updateResponseUseCase: {
+        execute: vi.fn().mockResolvedValue({ success: false }),
+      },
       closeScheduleUseCase: {
         execute: vi.fn().mockResolvedValue({ success: false }),
       },
@@ -123,6 +126,7 @@ describe('VoteController', () => {
     // Mock UIBuilder
     mockUIBuilder = {
       createVoteSelectMenus: vi.fn(),
+      createCommentButtonRow: vi.fn().mockReturnValue({ type: 1, components: [] }),
     } as any;
 
     controller = new VoteController(mockContainer, mockUIBuilder);
@@ -508,6 +512,116 @@ describe('VoteController', () => {
     });
   });
 
+  describe('handleCommentModal', () => {
+    const createCommentInteraction = (value: string): ModalInteraction => ({
+      id: 'interaction-789',
+      type: 5 as any,
+      data: {
+        custom_id: 'modal:comment:schedule-123',
+        components: [
+          {
+            type: 1,
+            components: [{ type: 4, custom_id: 'comment', value }],
+          },
+        ],
+      },
+      guild_id: 'guild-123',
+      member: {
+        user: { id: 'user-456', username: 'Responder', discriminator: '0000' },
+        roles: [],
+      },
+      token: 'interaction_token',
+    });
+
+    it('should save comment for existing response', async () => {
+      vi.mocked(mockContainer.getScheduleUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        schedule: mockSchedule,
+      });
+      vi.mocked(mockContainer.getResponseUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        response: mockResponse,
+      });
+      vi.mocked(mockContainer.updateResponseUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        response: { ...mockResponse, comment: '30分遅れます' },
+        isNewResponse: false,
+      });
+
+      const response = await controller.handleCommentModal(
+        createCommentInteraction('  30分遅れます  '),
+        ['schedule-123']
+      );
+
+      const data = (await response.json()) as any;
+      expect(data.data.content).toContain('コメントを保存しました');
+      expect(mockContainer.updateResponseUseCase.execute).toHaveBeenCalledWith({
+        scheduleId: 'schedule-123',
+        guildId: 'guild-123',
+        userId: 'user-456',
+        comment: '30分遅れます',
+      });
+      expect(mockMessageUpdateService.scheduleUpdate).toHaveBeenCalled();
+    });
+
+    it('should clear comment when input is empty', async () => {
+      vi.mocked(mockContainer.getScheduleUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        schedule: mockSchedule,
+      });
+      vi.mocked(mockContainer.getResponseUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        response: { ...mockResponse, comment: '30分遅れます' },
+      });
+      vi.mocked(mockContainer.updateResponseUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        response: mockResponse,
+        isNewResponse: false,
+      });
+
+      const response = await controller.handleCommentModal(createCommentInteraction(''), [
+        'schedule-123',
+      ]);
+
+      const data = (await response.json()) as any;
+      expect(data.data.content).toContain('コメントを削除しました');
+      expect(mockContainer.updateResponseUseCase.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ comment: '' })
+      );
+    });
+
+    it('should require a response before commenting', async () => {
+      vi.mocked(mockContainer.getScheduleUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        schedule: mockSchedule,
+      });
+
+      const response = await controller.handleCommentModal(createCommentInteraction('よろしく'), [
+        'schedule-123',
+      ]);
+
+      const data = (await response.json()) as any;
+      expect(data.data.content).toContain('先に日程に回答してから');
+      expect(mockContainer.updateResponseUseCase.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject comments over the length limit', async () => {
+      vi.mocked(mockContainer.getScheduleUseCase.execute).mockResolvedValueOnce({
+        success: true,
+        schedule: mockSchedule,
+      });
+
+      const response = await controller.handleCommentModal(
+        createCommentInteraction('あ'.repeat(1001)),
+        ['schedule-123']
+      );
+
+      const data = (await response.json()) as any;
+      expect(data.data.content).toContain('1000文字以内');
+      expect(mockContainer.updateResponseUseCase.execute).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleCloseButton', () => {
     const mockInteraction: ButtonInteraction = {
       id: 'interaction-789',
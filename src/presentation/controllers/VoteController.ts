@@ -7,9 +7,11 @@
 
 import { InteractionResponseType } from 'discord-interactions';
 import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { SchedulePermissionPolicy } from '../../application/services/SchedulePermissionPolicy';
 import { MessageUpdateType } from '../../application/types/MessageUpdateType';
 import { DependencyContainer } from '../../di/DependencyContainer';
 import { getLogger } from '../../infrastructure/logging/Logger';
+import { ValidationService } from '../../infrastructure/services/ValidationService';
 import type { ButtonInteraction, Env, ModalInteraction } from '../../infrastructure/types/discord';
 import type { DiscordComponent } from '../../infrastructure/types/discord-api';
 import { VoteUIBuilder } from '../builders/VoteUIBuilder';
@@ -31,7 +33,11 @@ export interface UpdateMainMessageOptions {
   readonly guildId: string;
 }
 
-import { createEphemeralResponse, createErrorResponse } from '../utils/responses';
+import {
+  createEphemeralResponse,
+  createErrorResponse,
+  createHandledErrorResponse,
+} from '../utils/responses';
 
 export class VoteController {
   private readonly logger = getLogger();
@@ -106,6 +112,18 @@ export class VoteController {
         componentGroups.push(selectMenus.slice(i, i + 5));
       }
 
+      // コメントボタンは最後のメッセージに追加（空きがなければ別メッセージ）
+      const commentRow = this.uiBuilder.createCommentButtonRow(
+        scheduleId,
+        responseResult.response || null
+      );
+      const lastGroup = componentGroups[componentGroups.length - 1];
+      if (lastGroup && lastGroup.length < 5) {
+        lastGroup.push(commentRow);
+      } else {
+        componentGroups.push([commentRow]);
+      }
+
       // 最初のグループをコンポーネントに追加
       const components = [...componentGroups[0]];
 
@@ -171,6 +189,142 @@ export class VoteController {
     }
   }
 
+  /**
+   * コメントボタン処理
+   */
+  async handleCommentButton(interaction: ButtonInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id || '';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return createErrorResponse('日程調整が見つかりません。');
+      }
+      const schedule = scheduleResult.schedule;
+
+      if (schedule.status === 'closed') {
+        return createErrorResponse('この日程調整は締め切られています。');
+      }
+
+      const responseResult = await this.dependencyContainer.getResponseUseCase.execute({
+        scheduleId,
+        userId,
+        guildId,
+      });
+
+      const modal = this.uiBuilder.createCommentModal(schedule, responseResult.response || null);
+
+      return new Response(
+        JSON.stringify({
+          type: InteractionResponseType.MODAL,
+          data: modal,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error handling comment button',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-comment-button',
+          useCase: 'VoteController',
+          scheduleId: params[0],
+          guildId: interaction.guild_id,
+        }
+      );
+      return createErrorResponse('エラーが発生しました。');
+    }
+  }
+
+  /**
+   * コメントモーダル処理
+   */
+  async handleCommentModal(interaction: ModalInteraction, params: string[]): Promise<Response> {
+    try {
+      const [scheduleId] = params;
+      const guildId = interaction.guild_id || 'default';
+      const userId = interaction.member?.user.id || interaction.user?.id || '';
+
+      const scheduleResult = await this.dependencyContainer.getScheduleUseCase.execute(
+        scheduleId,
+        guildId
+      );
+      if (!scheduleResult.success || !scheduleResult.schedule) {
+        return createErrorResponse('日程調整が見つかりません。');
+      }
+      const schedule = scheduleResult.schedule;
+
+      if (schedule.status === 'closed') {
+        return createErrorResponse('この日程調整は締め切られています。');
+      }
+
+      const commentInput = interaction.data.components[0]?.components[0]?.value || '';
+      const validation = ValidationService.validateComment(commentInput);
+      if (!validation.isValid) {
+        return createErrorResponse(`コメント: ${validation.error}`);
+      }
+      const comment = (validation.sanitizedValue as string | undefined) || '';
+
+      // コメントは回答に紐づくため、未回答の場合は先に回答してもらう
+      const responseResult = await this.dependencyContainer.getResponseUseCase.execute({
+        scheduleId,
+        userId,
+        guildId,
+      });
+      if (!responseResult.success || !responseResult.response) {
+        return createErrorResponse('先に日程に回答してからコメントを追加してください。');
+      }
+
+      const updateResult = await this.dependencyContainer.updateResponseUseCase.execute({
+        scheduleId,
+        guildId,
+        userId,
+        comment,
+      });
+
+      if (!updateResult.success) {
+        return createErrorResponse(updateResult.errors?.[0] || 'コメントの保存に失敗しました。');
+      }
+
+      // 詳細表示にコメントを反映
+      if (schedule.messageId && schedule.channelId) {
+        const messageUpdateService = this.dependencyContainer.messageUpdateService;
+        if (messageUpdateService) {
+          await messageUpdateService.scheduleUpdate({
+            scheduleId,
+            messageId: schedule.messageId,
+            channelId: schedule.channelId,
+            guildId,
+            updateType: MessageUpdateType.VOTE_UPDATE,
+          });
+        }
+      }
+
+      return createEphemeralResponse(
+        comment
+          ? `💬 コメントを保存しました。\n> ${comment.replace(/\n/g, '\n> ')}`
+          : '💬 コメントを削除しました。'
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error handling comment modal',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          operation: 'handle-comment-modal',
+          useCase: 'VoteController',
+          scheduleId: params[0],
+          guildId: interaction.guild_id,
+        }
+      );
+      return createErrorResponse('コメントの処理中にエラーが発生しました。');
+    }
+  }
+
   /**
    * 詳細表示トグルボタン処理
    */
@@ -291,6 +445,9 @@ export class VoteController {
         guildId,
       });
 
+      if (submitResult.quotaExceeded) {
+        return createHandledErrorResponse(submitResult.quotaExceeded);
+      }
       if (!submitResult.success) {
         return createErrorResponse('回答の保存に失敗しました。');
       }
@@ -353,7 +510,13 @@ export class VoteController {
       const schedule = scheduleResult.schedule;
 
       // Check permissions
-      if (schedule.createdBy.id !== userId) {
+      if (
+        !SchedulePermissionPolicy.can(
+          schedule,
+          { userId, permissions: interaction.member?.permissions },
+          'close'
+        )
+      ) {
         return createErrorResponse('この日程調整を締め切る権限がありません。');
       }
 
@@ -366,6 +529,7 @@ export class VoteController {
         scheduleId,
         guildId,
         editorUserId: userId,
+        editorPermissions: interaction.member?.permissions,
       });
 
       if (!closeResult.success) {
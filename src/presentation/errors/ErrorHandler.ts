@@ -14,7 +14,9 @@ import {
 import {
   type DomainError,
   isDomainError,
+  isQuotaExceededError,
   isValidationError,
+  type QuotaExceededError,
 } from '../../domain/errors/DomainErrors';
 import {
   type InfrastructureError,
@@ -72,6 +74,10 @@ export class ErrorHandler {
       };
     }
 
+    if (isQuotaExceededError(error)) {
+      return ErrorHandler.handleQuotaExceededError(error);
+    }
+
     switch (error.code) {
       case 'SCHEDULE_NOT_FOUND':
         return {
@@ -130,6 +136,25 @@ export class ErrorHandler {
     }
   }
 
+  /**
+   * 上限超過エラーの処理
+   * 上限に達した理由と、利用者が取れる対処を伝える
+   */
+  private static handleQuotaExceededError(error: QuotaExceededError): ErrorResponse {
+    const content =
+      error.resource === 'schedules_per_guild'
+        ? `❌ このサーバーで受付中の日程調整が上限（${error.limit}件）に達しています。不要になった日程調整を締め切るか削除してから、もう一度作成してください`
+        : `❌ この日程調整の回答者数が上限（${error.limit}人）に達しているため、新しく回答できません。主催者に連絡し、日程調整を締め切るか古い日程調整を削除してもらってください`;
+
+    return {
+      type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+      data: {
+        content,
+        flags: InteractionResponseFlags.EPHEMERAL,
+      },
+    };
+  }
+
   /**
    * アプリケーションエラーの処理
    */
@@ -376,6 +401,7 @@ export class ErrorHandler {
   static getErrorSeverity(error: unknown): 'low' | 'medium' | 'high' | 'critical' {
     if (isDomainError(error)) {
       if (isValidationError(error)) return 'low';
+      if (isQuotaExceededError(error)) return 'low';
       if (error.code === 'SCHEDULE_PERMISSION_ERROR') return 'medium';
       return 'medium';
     }
@@ -24,4 +24,26 @@ export class DiscordMessageService {
 
     return { embed, components };
   }
+
+  /**
+   * 定期作成で投稿する新規日程調整のメッセージ（本文・EmbedとComponents）を作成
+   */
+  formatRecurringScheduleMessage(summary: ScheduleSummaryResponseDto): {
+    content: string;
+    embed: object;
+    components: object[];
+  } {
+    const { embed, components } = ScheduleMainMessageBuilder.createMainMessage({
+      summary,
+      showDetails: false,
+      showVoteButtons: true,
+      isNewlyCreated: true,
+    });
+
+    return {
+      content: `🔁 定期作成により、日程調整「${summary.schedule.title}」が作成されました！📅`,
+      embed,
+      components,
+    };
+  }
 }
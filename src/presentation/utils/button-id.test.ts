@@ -10,6 +10,7 @@ import {
   createDetailsButtonId,
   createEditButtonId,
   createEditReminderButtonId,
+  createGuildSettingsButtonId,
   createRespondButtonId,
   createVoteButtonId,
   extractScheduleIdFromButton,
@@ -208,6 +209,10 @@ describe('button-id', () => {
     it('createEditReminderButtonId', () => {
       expect(createEditReminderButtonId(scheduleId)).toBe('reminder_edit:schedule123');
     });
+
+    it('createGuildSettingsButtonId', () => {
+      expect(createGuildSettingsButtonId('reminders')).toBe('guild_settings:reminders');
+    });
   });
 
   describe('ButtonIdParseError', () => {
@@ -179,3 +179,134 @@ export function createEditReminderButtonId(scheduleId: string): string {
     scheduleId,
   });
 }
+
+export function createInviteesButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'invitees',
+    scheduleId,
+  });
+}
+
+export function createReminderMentionsButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'reminder_mentions',
+    scheduleId,
+  });
+}
+
+export function createCoOrganizersButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'co_organizers',
+    scheduleId,
+  });
+}
+
+export function createTransferOwnerButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'transfer_owner',
+    scheduleId,
+  });
+}
+
+export function createCloneButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'clone',
+    scheduleId,
+  });
+}
+
+export function createSaveTemplateButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'save_template',
+    scheduleId,
+  });
+}
+
+export function createRecurrenceButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'create_recurrence',
+    scheduleId,
+  });
+}
+
+export function createRecurrenceManageButtonId(recurrenceId: string, operation: string): string {
+  return createButtonIdFromParams({
+    action: 'recurrence',
+    scheduleId: recurrenceId,
+    additionalParams: [operation],
+  });
+}
+
+/**
+ * 日程候補の確認画面から作成フォームを開くボタンID
+ * params は作成モーダルの引き継ぎ指定（[] / ['clone', 複製元ID] / ['template', テンプレートID]）
+ */
+export function createGeneratedCreateButtonId(params: string[] = []): string {
+  const [mode = 'new', ...sourceParams] = params;
+  return createButtonIdFromParams({
+    action: 'generated_create',
+    scheduleId: mode,
+    additionalParams: sourceParams,
+  });
+}
+
+export function createGeneratedAddDatesButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'generated_add_dates',
+    scheduleId,
+  });
+}
+
+export function createFixWeekdaysButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'fix_weekdays',
+    scheduleId,
+  });
+}
+
+export function createReorderDatesButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'reorder_dates',
+    scheduleId,
+  });
+}
+
+export function createMoveDateButtonId(
+  scheduleId: string,
+  dateId: string,
+  position: string
+): string {
+  return createButtonIdFromParams({
+    action: 'move_date',
+    scheduleId,
+    additionalParams: [dateId, position],
+  });
+}
+
+export function createSortDatesButtonId(scheduleId: string): string {
+  return createButtonIdFromParams({
+    action: 'sort_dates',
+    scheduleId,
+  });
+}
+
+export function createHelpButtonId(page: string): string {
+  return createButtonIdFromParams({
+    action: 'help',
+    scheduleId: page,
+  });
+}
+
+export function createHelpPageButtonId(page: string): string {
+  return createButtonIdFromParams({
+    action: 'help_page',
+    scheduleId: page,
+  });
+}
+
+export function createGuildSettingsButtonId(setting: string): string {
+  return createButtonIdFromParams({
+    action: 'guild_settings',
+    scheduleId: setting,
+  });
+}
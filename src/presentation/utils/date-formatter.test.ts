@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { formatDate, formatDateShort } from './date-formatter';
+import {
+  formatDate,
+  formatDateShort,
+  formatDateTimeInput,
+  formatDiscordTimestamp,
+} from './date-formatter';
 
 describe('date-formatter', () => {
   describe('formatDateShort', () => {
@@ -73,5 +78,38 @@ describe('date-formatter', () => {
       // +09:00 (JST) - すでにJSTの場合
       expect(formatDate('2024-06-15T12:30:00+09:00')).toBe('6月15日(土) 12:30');
     });
+
+    it('指定したタイムゾーンで表示できる', () => {
+      expect(formatDate('2024-12-25T10:30:00.000Z', 'Europe/London')).toBe('12月25日(水) 10:30');
+      expect(formatDate('2024-12-25T10:30:00.000Z', 'America/Los_Angeles')).toBe(
+        '12月25日(水) 02:30'
+      );
+    });
+  });
+
+  describe('formatDateTimeInput', () => {
+    it('指定したタイムゾーンで入力用の形式に変換できる', () => {
+      expect(formatDateTimeInput('2024-12-25T10:30:00.000Z')).toBe('2024-12-25 19:30');
+      expect(formatDateTimeInput(new Date('2024-12-25T10:30:00.000Z'), 'America/New_York')).toBe(
+        '2024-12-25 05:30'
+      );
+    });
+
+    it('無効な日付は空文字列を返す', () => {
+      expect(formatDateTimeInput('invalid-date')).toBe('');
+    });
+  });
+
+  describe('formatDiscordTimestamp', () => {
+    it('Discordのタイムスタンプ記法に変換できる', () => {
+      expect(formatDiscordTimestamp('2024-12-25T10:30:00.000Z')).toBe('<t:1735122600:F>');
+      expect(formatDiscordTimestamp(new Date('2024-12-25T10:30:00.000Z'), 'R')).toBe(
+        '<t:1735122600:R>'
+      );
+    });
+
+    it('無効な日付はそのまま返される', () => {
+      expect(formatDiscordTimestamp('invalid-date')).toBe('invalid-date');
+    });
   });
 });
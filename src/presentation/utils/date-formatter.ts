@@ -4,6 +4,14 @@
  * UI表示用の日付フォーマット処理
  */
 
+import { DEFAULT_TIMEZONE, getZonedDateParts } from '../../domain/utils/date';
+
+/**
+ * Discordタイムスタンプの表示形式
+ * F: 2024年12月25日水曜日 19:00 / f: 2024年12月25日 19:00 / R: 3日後
+ */
+export type DiscordTimestampStyle = 't' | 'T' | 'd' | 'D' | 'f' | 'F' | 'R';
+
 /**
  * スケジュールの日付を短い形式で表示
  * @param dateString ISO形式の日付文字列
@@ -19,11 +27,12 @@ export function formatDateShort(dateString: string): string {
 }
 
 /**
- * ISO形式の日付をJST形式で表示 (ブラウザ依存なし)
+ * ISO形式の日付を指定タイムゾーン（既定はJST）で表示 (ブラウザ依存なし)
  * @param dateString ISO形式の日付文字列
+ * @param timeZone 表示に使用するIANAタイムゾーン名
  * @returns 12月25日(月) 19:00 形式の文字列
  */
-export function formatDate(dateString: string): string {
+export function formatDate(dateString: string, timeZone: string = DEFAULT_TIMEZONE): string {
   // 空文字列やnull/undefinedの場合はそのまま返す
   if (!dateString || typeof dateString !== 'string') {
     return String(dateString || '');
@@ -36,21 +45,76 @@ export function formatDate(dateString: string): string {
     return dateString;
   }
 
-  // 明示的にJST（UTC+9）として変換
-  const jstOffset = 9 * 60 * 60 * 1000; // 9時間をミリ秒で
-  const jstDate = new Date(date.getTime() + jstOffset);
+  const parts = getZonedDateParts(date, timeZone);
 
   const weekdays = ['日', '月', '火', '水', '木', '金', '土'];
-  const month = jstDate.getUTCMonth() + 1;
-  const day = jstDate.getUTCDate();
-  const weekday = weekdays[jstDate.getUTCDay()];
-  const hours = jstDate.getUTCHours().toString().padStart(2, '0');
-  const minutes = jstDate.getUTCMinutes().toString().padStart(2, '0');
+  const month = parts.month + 1;
+  const day = parts.day;
+  const weekday = weekdays[parts.weekday];
+  const hours = parts.hour.toString().padStart(2, '0');
+  const minutes = parts.minute.toString().padStart(2, '0');
 
   // 各値が有効かチェック
-  if (Number.isNaN(month) || Number.isNaN(day) || Number.isNaN(hours) || Number.isNaN(minutes)) {
+  if (Number.isNaN(month) || Number.isNaN(day) || Number.isNaN(parts.hour)) {
     return dateString;
   }
 
   return `${month}月${day}日(${weekday}) ${hours}:${minutes}`;
 }
+
+/**
+ * 日時をモーダルの初期値用に指定タイムゾーンで表示
+ * parseUserInputDate で再度解釈できる形式で返す
+ * @param date Dateまたは ISO形式の日付文字列
+ * @param timeZone 表示に使用するIANAタイムゾーン名
+ * @returns 2024-12-25 19:00 形式の文字列
+ */
+export function formatDateTimeInput(
+  date: Date | string,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  if (Number.isNaN(value.getTime())) {
+    return '';
+  }
+
+  const parts = getZonedDateParts(value, timeZone);
+  const pad = (num: number) => num.toString().padStart(2, '0');
+  return `${parts.year}-${pad(parts.month + 1)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Discordのタイムスタンプ記法に変換
+ * 閲覧者それぞれのローカルタイムゾーンで表示される
+ * @param date Dateまたは ISO形式の日付文字列
+ * @param style 表示形式
+ * @returns <t:1735120800:F> 形式の文字列
+ */
+export function formatDiscordTimestamp(
+  date: Date | string,
+  style: DiscordTimestampStyle = 'F'
+): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  if (Number.isNaN(value.getTime())) {
+    return String(date);
+  }
+  return `<t:${Math.floor(value.getTime() / 1000)}:${style}>`;
+}
+
+/**
+ * 日程候補を1行ずつ連結する（入力欄の文字数上限を超える候補は行単位で省く）
+ * @param lines 日程候補の行
+ * @param maxLength 入力欄の最大文字数
+ * @returns 改行区切りの文字列
+ */
+export function joinCandidateLines(lines: string[], maxLength: number): string {
+  let text = '';
+  for (const line of lines) {
+    const next = text ? `${text}\n${line}` : line;
+    if (next.length > maxLength) {
+      break;
+    }
+    text = next;
+  }
+  return text;
+}
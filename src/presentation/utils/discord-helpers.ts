@@ -2,6 +2,7 @@
  * Discord関連のユーティリティ関数
  */
 
+import type { ScheduleActor } from '../../application/services/SchedulePermissionPolicy';
 import type {
   ButtonInteraction,
   CommandInteraction,
@@ -38,3 +39,13 @@ export function getUserId(
 ): string | undefined {
   return interaction.member?.user?.id || interaction.user?.id;
 }
+
+/**
+ * 日程調整の権限判定に使う操作者（ユーザーIDとメンバーの権限ビットフィールド）を取得
+ */
+export function getScheduleActor(
+  interaction: CommandInteraction | ButtonInteraction | ModalInteraction,
+  userId: string
+): ScheduleActor {
+  return { userId, permissions: interaction.member?.permissions };
+}
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { DISCORD_API_CONSTANTS } from '../../infrastructure/constants/DiscordConstants';
 import type { Env } from '../../infrastructure/types/discord';
 import type { DiscordComponent } from '../../infrastructure/types/discord-api';
-import { sendFollowupMessage } from './discord-webhook';
+import { sendFollowupFile, sendFollowupMessage } from './discord-webhook';
 
 // Loggerをモック
 vi.mock('../../infrastructure/logging/Logger', () => ({
@@ -140,4 +140,58 @@ describe('discord-webhook', () => {
       expect(body.flags).toBe(DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL);
     });
   });
+  describe('sendFollowupFile', () => {
+    const file = {
+      filename: 'schedule.ics',
+      content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+      contentType: 'text/calendar',
+    };
+
+    it('multipart形式でファイルとペイロードを送信する', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        text: async () => 'Success',
+      } as Response);
+
+      await sendFollowupFile(applicationId, interactionToken, content, file, mockEnv);
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe(`https://discord.com/api/v10/webhooks/${applicationId}/${interactionToken}`);
+      expect(init?.method).toBe('POST');
+      expect(init?.headers).toEqual({ Authorization: `Bot ${mockEnv.DISCORD_TOKEN}` });
+
+      const formData = init?.body as FormData;
+      const payload = JSON.parse(formData.get('payload_json') as string);
+      expect(payload).toEqual({
+        content,
+        attachments: [{ id: 0, filename: 'schedule.ics' }],
+        flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL,
+      });
+
+      const attached = formData.get('files[0]') as unknown as File;
+      expect(attached.name).toBe('schedule.ics');
+      expect(attached.type).toContain('text/calendar');
+      expect(await attached.text()).toBe(file.content);
+    });
+
+    it('APIエラーの場合でも例外をスローしない', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: async () => 'Bad Request',
+      } as Response);
+
+      await expect(
+        sendFollowupFile(applicationId, interactionToken, content, file, mockEnv)
+      ).resolves.toBeUndefined();
+    });
+
+    it('ネットワークエラーの場合でも例外をスローしない', async () => {
+      vi.mocked(global.fetch).mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(
+        sendFollowupFile(applicationId, interactionToken, content, file, mockEnv)
+      ).resolves.toBeUndefined();
+    });
+  });
 });
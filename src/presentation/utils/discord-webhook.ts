@@ -53,3 +53,65 @@ export async function sendFollowupMessage(
     );
   }
 }
+
+export interface FollowupFile {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+/**
+ * Send a followup message with a file attachment using webhook
+ */
+export async function sendFollowupFile(
+  applicationId: string,
+  interactionToken: string,
+  content: string,
+  file: FollowupFile,
+  env: Env
+): Promise<void> {
+  const url = `https://discord.com/api/v10/webhooks/${applicationId}/${interactionToken}`;
+
+  const formData = new FormData();
+  formData.append(
+    'payload_json',
+    JSON.stringify({
+      content,
+      attachments: [{ id: 0, filename: file.filename }],
+      flags: DISCORD_API_CONSTANTS.FLAGS.EPHEMERAL, // Ephemeral
+    })
+  );
+  formData.append('files[0]', new Blob([file.content], { type: file.contentType }), file.filename);
+
+  try {
+    // Content-Type は multipart boundary を含めるため fetch に任せる
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bot ${env.DISCORD_TOKEN}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      logger.error(
+        'Failed to send followup file',
+        new Error(`HTTP ${response.status}: ${await response.text()}`),
+        {
+          status: response.status,
+          applicationId,
+          filename: file.filename,
+        }
+      );
+    }
+  } catch (error) {
+    logger.error(
+      'Error sending followup file',
+      error instanceof Error ? error : new Error(String(error)),
+      {
+        applicationId,
+        filename: file.filename,
+      }
+    );
+  }
+}
@@ -8,6 +8,8 @@ import {
   createScheduleEmbed,
   createScheduleEmbedWithTable,
   createSimpleScheduleComponents,
+  formatUserMentionList,
+  isResultsHidden,
 } from './embeds';
 
 // モックの設定
@@ -17,6 +19,8 @@ vi.mock('./button-helpers', () => ({
 
 vi.mock('./date-formatter', () => ({
   formatDate: (dateString: string) => `formatted:${dateString}`,
+  formatDiscordTimestamp: (date: Date | string, style: string) =>
+    `ts:${date instanceof Date ? date.toISOString() : date}:${style}`,
 }));
 
 describe('embeds', () => {
@@ -96,13 +100,77 @@ describe('embeds', () => {
 
       expect(embed.title).toBe('📅 テストスケジュール');
       expect(embed.description).toContain('テスト説明');
-      expect(embed.description).toContain('⏰ **締切：** formatted:2024-12-24T10:00:00.000Z');
+      expect(embed.description).toContain(
+        '⏰ **締切：** ts:2024-12-24T10:00:00.000Z:f（ts:2024-12-24T10:00:00.000Z:R）'
+      );
       expect(embed.color).toBe(EMBED_COLORS.OPEN);
       expect(embed.footer?.text).toBe('作成：テストユーザー');
       expect(embed.timestamp).toBe('2024-12-20T00:00:00.000Z');
       expect(embed.fields).toHaveLength(2);
     });
 
+    it('決定日程の日時を閲覧者のタイムゾーンで表示する', () => {
+      const decidedSchedule: ScheduleResponseDto = {
+        ...mockSchedule,
+        dates: [
+          { id: 'date1', datetime: '12/25 19:00', startAt: '2024-12-25T10:00:00.000Z' },
+          { id: 'date2', datetime: '未定' },
+        ],
+        decidedDateId: 'date1',
+      };
+
+      const embed = createScheduleEmbed({ schedule: decidedSchedule });
+      expect(embed.description).toContain(
+        '🎉 **決定：** 12/25 19:00（ts:2024-12-25T10:00:00.000Z:F）'
+      );
+
+      const freeTextEmbed = createScheduleEmbed({
+        schedule: { ...decidedSchedule, decidedDateId: 'date2' },
+      });
+      expect(freeTextEmbed.description).toContain('🎉 **決定：** 未定');
+      expect(freeTextEmbed.description).not.toContain('ts:2024-12-25T10:00:00.000Z:F');
+    });
+
+    it('祝日の候補に印と祝日名を付ける', () => {
+      const embed = createScheduleEmbed({
+        schedule: {
+          ...mockSchedule,
+          dates: [
+            { id: 'date1', datetime: '11/3 19:00', startAt: '2025-11-03T10:00:00.000Z' },
+            {
+              id: 'date2',
+              datetime: '2025/11/24(月・振替休日) 19:00',
+              startAt: '2025-11-24T10:00:00.000Z',
+            },
+            { id: 'date3', datetime: '11/4 19:00', startAt: '2025-11-04T10:00:00.000Z' },
+          ],
+        },
+      });
+
+      expect(embed.fields[0].name).toBe('1. **11/3 19:00** 🎌文化の日');
+      expect(embed.fields[1].name).toBe('2. **2025/11/24(月・振替休日) 19:00** 🎌');
+      expect(embed.fields[2].name).toBe('3. **11/4 19:00**');
+    });
+
+    it('祝日はサーバーのタイムゾーンでの日付で判定する', () => {
+      // 日本時間では 11/3 10:00 だが、ニューヨーク時間では 11/2 20:00
+      const summary = {
+        ...mockSummary,
+        schedule: {
+          ...mockSchedule,
+          dates: [{ id: 'date1', datetime: '11/2 20:00', startAt: '2025-11-03T01:00:00.000Z' }],
+        },
+      };
+
+      expect(createScheduleEmbed({ schedule: summary.schedule, summary }).fields[0].name).toContain(
+        '**11/2 20:00** 🎌文化の日'
+      );
+      expect(
+        createScheduleEmbedWithTable({ summary: { ...summary, timeZone: 'America/New_York' } })
+          .fields[0].name
+      ).not.toContain('🎌');
+    });
+
     it('締切がない場合は締切情報を表示しない', () => {
       const scheduleWithoutDeadline = { ...mockSchedule, deadline: undefined };
       const embed = createScheduleEmbed({ schedule: scheduleWithoutDeadline });
@@ -173,7 +241,9 @@ describe('embeds', () => {
 
       expect(embed.title).toBe('📅 テストスケジュール');
       expect(embed.description).toContain('テスト説明');
-      expect(embed.description).toContain('⏰ **締切：** formatted:2024-12-24T10:00:00.000Z');
+      expect(embed.description).toContain(
+        '⏰ **締切：** ts:2024-12-24T10:00:00.000Z:f（ts:2024-12-24T10:00:00.000Z:R）'
+      );
       expect(embed.description).toContain('**回答者：** 2人');
       expect(embed.color).toBe(EMBED_COLORS.OPEN);
       expect(embed.footer?.text).toBe('作成：テストユーザー');
@@ -225,7 +295,7 @@ describe('embeds', () => {
       };
       const embed = createScheduleEmbedWithTable({ summary: summaryWithDateDeadline });
 
-      expect(embed.description).toContain('⏰ **締切：** formatted:');
+      expect(embed.description).toContain('⏰ **締切：** ts:2024-12-24T10:00:00.000Z:f');
     });
 
     it('統計情報から最適な日程を判定できる', () => {
@@ -251,6 +321,114 @@ describe('embeds', () => {
     });
   });
 
+  describe('未回答者の表示', () => {
+    it('未回答者をメンション形式で表示する', () => {
+      const embed = createScheduleEmbedWithTable({
+        summary: mockSummary,
+        showDetails: true,
+        nonRespondentIds: ['user3', 'user4'],
+      });
+
+      expect(embed.fields).toContainEqual({
+        name: '⏳ 未回答者 (2人)',
+        value: '<@user3> <@user4>',
+        inline: false,
+      });
+    });
+
+    it('全員回答済みの場合はその旨を表示する', () => {
+      const embed = createScheduleEmbedWithTable({ summary: mockSummary, nonRespondentIds: [] });
+
+      expect(embed.fields[embed.fields.length - 1].value).toBe('なし（全員回答済み）');
+    });
+
+    it('参加予定者が未設定の場合はフィールドを追加しない', () => {
+      const embed = createScheduleEmbedWithTable({ summary: mockSummary });
+
+      expect(embed.fields).toHaveLength(2);
+    });
+
+    it('フィールド数の上限を超えないよう日程を切り詰める', () => {
+      const dates = Array.from({ length: 25 }, (_, i) => ({
+        id: `date${i}`,
+        datetime: `12/${i + 1} 19:00`,
+      }));
+      const embed = createScheduleEmbedWithTable({
+        summary: {
+          ...mockSummary,
+          schedule: { ...mockSchedule, dates },
+          responses: [],
+          responseCounts: Object.fromEntries(
+            dates.map((date) => [date.id, { yes: 0, maybe: 0, no: 0 }])
+          ),
+        },
+        nonRespondentIds: ['user3'],
+      });
+
+      expect(embed.fields).toHaveLength(25);
+      expect(embed.fields[24].name).toBe('⏳ 未回答者 (1人)');
+    });
+
+    it('文字数上限を超える分は人数にまとめる', () => {
+      const userIds = Array.from({ length: 100 }, (_, i) => `${100000000000000000 + i}`);
+      const text = formatUserMentionList(userIds);
+
+      expect(text.length).toBeLessThanOrEqual(1024);
+      expect(text).toMatch(/ 他\d+人$/);
+      expect(formatUserMentionList(['a', 'b'])).toBe('<@a> <@b>');
+    });
+  });
+
+  describe('締切前の集計結果非公開', () => {
+    const hiddenSummary: ScheduleSummaryResponseDto = {
+      ...mockSummary,
+      schedule: { ...mockSchedule, hideResultsBeforeClose: true },
+    };
+
+    it('受付中は集計・回答者名・コメントを表示しない', () => {
+      const embed = createScheduleEmbedWithTable({ summary: hiddenSummary, showDetails: true });
+
+      expect(embed.fields).toHaveLength(2);
+      expect(embed.fields[0].value).toBe('🔒 締切後に公開されます');
+      expect(embed.fields[0].name).toBe('1. **2024-12-25 19:00**');
+      expect(embed.description).toContain('**回答者：** 2人');
+      expect(JSON.stringify(embed)).not.toContain('ユーザー1');
+    });
+
+    it('簡易表示でも集計を表示しない', () => {
+      const embed = createScheduleEmbed({
+        schedule: hiddenSummary.schedule,
+        summary: hiddenSummary,
+        totalResponses: 2,
+      });
+
+      expect(embed.fields[0].value).toBe('🔒 締切後に公開されます');
+    });
+
+    it('revealResults を指定すると集計を表示する', () => {
+      const embed = createScheduleEmbedWithTable({
+        summary: hiddenSummary,
+        showDetails: true,
+        revealResults: true,
+      });
+
+      expect(embed.fields[0].value).toContain('**集計：**');
+      expect(embed.fields[0].value).toContain('ユーザー1');
+    });
+
+    it('締切後は集計を表示する', () => {
+      const embed = createScheduleEmbedWithTable({
+        summary: {
+          ...hiddenSummary,
+          schedule: { ...hiddenSummary.schedule, status: 'closed' },
+        },
+      });
+
+      expect(isResultsHidden({ ...mockSchedule, hideResultsBeforeClose: true })).toBe(true);
+      expect(embed.fields[0].value).toContain('**集計：**');
+    });
+  });
+
   describe('createSimpleScheduleComponents', () => {
     it('開いているスケジュールのコンポーネントを作成できる', () => {
       const components = createSimpleScheduleComponents({ schedule: mockSchedule });
@@ -1,10 +1,13 @@
 import type {
+  ScheduleDateDto,
   ScheduleResponseDto,
   ScheduleSummaryResponseDto,
 } from '../../application/dto/ScheduleDto';
+import { DEFAULT_TIMEZONE, getZonedDateParts } from '../../domain/utils/date';
+import { getJapaneseHolidayName } from '../../domain/utils/holiday';
 import { EMBED_COLORS, STATUS_EMOJI } from '../constants/ui';
 import { createButtonId } from './button-helpers';
-import { formatDate } from './date-formatter';
+import { formatDiscordTimestamp } from './date-formatter';
 
 export interface CreateScheduleEmbedOptions {
   readonly schedule: ScheduleResponseDto;
@@ -15,6 +18,19 @@ export interface CreateScheduleEmbedOptions {
 export interface CreateScheduleEmbedWithTableOptions {
   readonly summary: ScheduleSummaryResponseDto;
   readonly showDetails?: boolean;
+  // 締切前非公開の集計結果を表示する（作成者向けの本人のみ表示で使用）
+  readonly revealResults?: boolean;
+  // 参加予定者のうち未回答のユーザーID（参加予定者が未設定の場合は省略）
+  readonly nonRespondentIds?: string[];
+}
+
+const HIDDEN_RESULTS_TEXT = '🔒 締切後に公開されます';
+
+/**
+ * 締切まで集計結果を非公開にしている受付中の日程調整かチェック
+ */
+export function isResultsHidden(schedule: ScheduleResponseDto): boolean {
+  return !!schedule.hideResultsBeforeClose && schedule.status === 'open';
 }
 
 export interface CreateSimpleScheduleComponentsOptions {
@@ -36,15 +52,19 @@ export function createScheduleEmbed(options: CreateScheduleEmbedOptions) {
   }
 
   const hasResponses = summary?.responses && summary.responses.length > 0;
+  const hidden = isResultsHidden(schedule);
+  const timeZone = summary?.timeZone ?? DEFAULT_TIMEZONE;
 
   // 日程フィールドを作成
   const dateFields = schedule.dates.map((date, idx) => {
-    const isBest = bestDateIds.has(date.id) && hasResponses;
-    const prefix = isBest ? '⭐ ' : '';
+    const isBest = bestDateIds.has(date.id) && hasResponses && !hidden;
+    const prefix = getDatePrefix(schedule, date.id, !!isBest);
     const dateStr = date.datetime;
 
     let fieldValue = '';
-    if (summary?.responseCounts) {
+    if (hidden) {
+      fieldValue = HIDDEN_RESULTS_TEXT;
+    } else if (summary?.responseCounts) {
       const count = summary.responseCounts[date.id] || { yes: 0, maybe: 0, no: 0 };
       fieldValue = `**集計：** ${STATUS_EMOJI.yes} ${count.yes}人 ${STATUS_EMOJI.maybe} ${count.maybe}人 ${STATUS_EMOJI.no} ${count.no}人`;
     } else {
@@ -52,17 +72,16 @@ export function createScheduleEmbed(options: CreateScheduleEmbedOptions) {
     }
 
     return {
-      name: `${prefix}${idx + 1}. **${dateStr}**`,
+      name: `${prefix}${idx + 1}. **${dateStr}**${getHolidayMark(date, timeZone)}`,
       value: fieldValue,
       inline: false,
     };
   });
 
-  const descriptionParts = [schedule.description || '', ''];
+  const descriptionParts = [schedule.description || '', '', createDecidedLine(schedule)];
 
   if (schedule.deadline) {
-    const deadlineStr = schedule.deadline || '';
-    descriptionParts.push(`⏰ **締切：** ${formatDate(deadlineStr)}`);
+    descriptionParts.push(`⏰ **締切：** ${formatDeadline(schedule.deadline)}`);
   }
 
   if (totalResponses !== undefined) {
@@ -72,7 +91,7 @@ export function createScheduleEmbed(options: CreateScheduleEmbedOptions) {
   return {
     title: `📅 ${schedule.title}`,
     description: descriptionParts.filter(Boolean).join('\n'),
-    color: schedule.status === 'open' ? EMBED_COLORS.OPEN : EMBED_COLORS.CLOSED,
+    color: getEmbedColor(schedule),
     fields: dateFields.slice(0, 25), // Discord's limit
     footer: {
       text: `作成：${schedule.createdBy.displayName || schedule.createdBy.username}`,
@@ -82,9 +101,12 @@ export function createScheduleEmbed(options: CreateScheduleEmbedOptions) {
 }
 
 export function createScheduleEmbedWithTable(options: CreateScheduleEmbedWithTableOptions) {
-  const { summary, showDetails = false } = options;
+  const { summary, revealResults = false } = options;
   const schedule = summary.schedule;
   const responseCounts = summary.responseCounts;
+  const hidden = isResultsHidden(schedule) && !revealResults;
+  // 非公開中は個別の回答・コメントも表示しない
+  const showDetails = !!options.showDetails && !hidden;
 
   // 最有力候補を判定（複数可）
   const optimalDates = summary.statistics?.optimalDates;
@@ -98,14 +120,23 @@ export function createScheduleEmbedWithTable(options: CreateScheduleEmbedWithTab
   }
 
   const userResponses = summary.responses || [];
+  const timeZone = summary.timeZone ?? DEFAULT_TIMEZONE;
 
   // 日程リストを作成（番号付き）
   const dateFields = schedule.dates.map((date, idx) => {
     const count = responseCounts[date.id];
-    const isBest = bestDateIds.has(date.id) && userResponses.length > 0;
+    const isBest = bestDateIds.has(date.id) && userResponses.length > 0 && !hidden;
     // 日程候補は自由文字列なのでそのまま表示
     const dateStr = date.datetime;
 
+    if (hidden) {
+      return {
+        name: `${getDatePrefix(schedule, date.id, false)}${idx + 1}. **${dateStr}**${getHolidayMark(date, timeZone)}`,
+        value: HIDDEN_RESULTS_TEXT,
+        inline: false,
+      };
+    }
+
     // 集計のみ（詳細なし）
     let fieldValue = `**集計：** ${STATUS_EMOJI.yes} ${count.yes}人 ${STATUS_EMOJI.maybe} ${count.maybe}人 ${STATUS_EMOJI.no} ${count.no}人`;
 
@@ -155,27 +186,33 @@ export function createScheduleEmbedWithTable(options: CreateScheduleEmbedWithTab
     }
 
     return {
-      name: `${isBest ? '⭐ ' : ''}${idx + 1}. **${dateStr}**`,
+      name: `${getDatePrefix(schedule, date.id, isBest)}${idx + 1}. **${dateStr}**${getHolidayMark(date, timeZone)}`,
       value: fieldValue,
       inline: false,
     };
   });
 
   // 締切情報を description に追加
-  const descriptionParts = [schedule.description || '', ''];
+  const descriptionParts = [schedule.description || '', '', createDecidedLine(schedule)];
 
   if (schedule.deadline) {
-    // deadline is always a string in DTOs
-    descriptionParts.push(`⏰ **締切：** ${formatDate(schedule.deadline)}`);
+    descriptionParts.push(`⏰ **締切：** ${formatDeadline(schedule.deadline)}`);
   }
 
   descriptionParts.push(`**回答者：** ${userResponses.length}人`);
 
+  // 詳細表示ではコメントも表示
+  const commentField = showDetails ? createCommentField(userResponses) : null;
+  const nonRespondentField = options.nonRespondentIds
+    ? createNonRespondentField(options.nonRespondentIds)
+    : null;
+  const extraFields = [nonRespondentField, commentField].filter((field) => field !== null);
+
   return {
     title: `📅 ${schedule.title}`,
     description: descriptionParts.filter(Boolean).join('\n'),
-    color: schedule.status === 'open' ? EMBED_COLORS.OPEN : EMBED_COLORS.CLOSED,
-    fields: dateFields.slice(0, 25), // Discord's limit
+    color: getEmbedColor(schedule),
+    fields: [...dateFields.slice(0, 25 - extraFields.length), ...extraFields], // Discord's limit
     footer: {
       text: `作成：${schedule.createdBy.displayName || schedule.createdBy.username}`,
     },
@@ -183,6 +220,105 @@ export function createScheduleEmbedWithTable(options: CreateScheduleEmbedWithTab
   };
 }
 
+/**
+ * 日程フィールドの先頭記号（決定済みなら決定日程に 🎉、未決定なら最有力候補に ⭐）
+ */
+function getDatePrefix(schedule: ScheduleResponseDto, dateId: string, isBest: boolean): string {
+  if (schedule.decidedDateId) {
+    return dateId === schedule.decidedDateId ? '🎉 ' : '';
+  }
+  return isBest ? '⭐ ' : '';
+}
+
+/**
+ * 祝日の候補に付ける印（候補の表記に祝日名がなければ祝日名も添える）
+ * 祝日はサーバーのタイムゾーンでの日付で判定し、日時を解釈できない候補や祝日でない候補は空文字
+ */
+function getHolidayMark(date: ScheduleDateDto, timeZone: string): string {
+  if (!date.startAt) return '';
+
+  const start = getZonedDateParts(new Date(date.startAt), timeZone);
+  const holidayName = getJapaneseHolidayName(start.year, start.month, start.day);
+  if (!holidayName) return '';
+  return date.datetime.includes(holidayName) ? ' 🎌' : ` 🎌${holidayName}`;
+}
+
+/**
+ * 決定した日程の説明行（未決定なら空文字）
+ */
+function createDecidedLine(schedule: ScheduleResponseDto): string {
+  const decidedDate = schedule.dates.find((date) => date.id === schedule.decidedDateId);
+  if (!decidedDate) return '';
+
+  // 日時を解釈できた場合は閲覧者のタイムゾーンでも表示する
+  return decidedDate.startAt
+    ? `🎉 **決定：** ${decidedDate.datetime}（${formatDiscordTimestamp(decidedDate.startAt, 'F')}）`
+    : `🎉 **決定：** ${decidedDate.datetime}`;
+}
+
+/**
+ * 締切をDiscordのタイムスタンプ記法で表示（閲覧者のタイムゾーンで表示される）
+ */
+function formatDeadline(deadline: string): string {
+  return `${formatDiscordTimestamp(deadline, 'f')}（${formatDiscordTimestamp(deadline, 'R')}）`;
+}
+
+function getEmbedColor(schedule: ScheduleResponseDto): number {
+  if (schedule.decidedDateId) return EMBED_COLORS.DECIDED;
+  return schedule.status === 'open' ? EMBED_COLORS.OPEN : EMBED_COLORS.CLOSED;
+}
+
+/**
+ * 回答者コメントのフィールドを作成
+ */
+function createCommentField(responses: ScheduleSummaryResponseDto['responses']) {
+  const lines = responses
+    .filter((response) => response.comment)
+    .map((response) => `**${response.displayName || response.username}**: ${response.comment}`);
+
+  if (lines.length === 0) return null;
+
+  const value = lines.join('\n');
+  return {
+    name: '💬 コメント',
+    value: value.length > 1024 ? `${value.slice(0, 1021)}...` : value,
+    inline: false,
+  };
+}
+
+/**
+ * 未回答者のフィールドを作成
+ */
+function createNonRespondentField(userIds: string[]) {
+  return {
+    name: `⏳ 未回答者 (${userIds.length}人)`,
+    value: userIds.length > 0 ? formatUserMentionList(userIds) : 'なし（全員回答済み）',
+    inline: false,
+  };
+}
+
+/**
+ * ユーザーIDをメンション記法で列挙（フィールドの文字数上限を超える分は「他N人」にまとめる）
+ */
+export function formatUserMentionList(userIds: string[], maxLength: number = 1024): string {
+  const mentions: string[] = [];
+  let length = 0;
+
+  for (const [index, userId] of userIds.entries()) {
+    const mention = `<@${userId}>`;
+    const remaining = userIds.length - index - 1;
+    // 残りがある場合は「 他N人」の分も確保しておく
+    const reserved = remaining > 0 ? ` 他${remaining}人`.length : 0;
+    if (length + mention.length + 1 + reserved > maxLength) {
+      return `${mentions.join(' ')} 他${userIds.length - index}人`;
+    }
+    mentions.push(mention);
+    length += mention.length + 1;
+  }
+
+  return mentions.join(' ');
+}
+
 export function createSimpleScheduleComponents(options: CreateSimpleScheduleComponentsOptions) {
   const { schedule, showDetails = false } = options;
   const components = [];
@@ -244,5 +380,40 @@ export function createSimpleScheduleComponents(options: CreateSimpleScheduleComp
       type: 1,
       components,
     },
+    ...createCalendarExportRows(schedule),
+  ];
+}
+
+/**
+ * カレンダー書き出しボタン行（締切済み・日程決定済みの場合のみ）
+ */
+export function createCalendarExportRows(schedule: ScheduleResponseDto) {
+  if (schedule.status !== 'closed' && !schedule.decidedDateId) {
+    return [];
+  }
+
+  const buttons = [];
+  if (schedule.decidedDateId) {
+    buttons.push({
+      type: 2,
+      style: 2, // Secondary
+      label: 'カレンダーに追加',
+      custom_id: createButtonId('ics', schedule.id, 'decided'),
+      emoji: { name: '📆' },
+    });
+  }
+  buttons.push({
+    type: 2,
+    style: 2, // Secondary
+    label: '候補日をカレンダーに書き出し',
+    custom_id: createButtonId('ics', schedule.id, 'candidates'),
+    emoji: { name: '🗓️' },
+  });
+
+  return [
+    {
+      type: 1,
+      components: buttons,
+    },
   ];
 }
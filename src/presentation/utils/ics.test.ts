@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { createIcsFilename, createScheduleIcs } from './ics';
+
+describe('ics', () => {
+  const now = new Date('2026-10-18T03:00:00.000Z');
+
+  const schedule: ScheduleResponseDto = {
+    id: 'schedule-1',
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    title: '忘年会',
+    description: '場所: 渋谷, 予算; 5000円',
+    dates: [
+      {
+        id: 'date-1',
+        datetime: '12/25 19:00〜21:00',
+        startAt: '2026-12-25T10:00:00.000Z',
+        endAt: '2026-12-25T12:00:00.000Z',
+      },
+      {
+        id: 'date-2',
+        datetime: '12/26',
+        startAt: '2026-12-25T15:00:00.000Z',
+        endAt: '2026-12-26T14:59:59.000Z',
+      },
+      { id: 'date-3', datetime: '年末のどこか' },
+    ],
+    createdBy: { id: 'user-1', username: 'organizer' },
+    authorId: 'user-1',
+    status: 'closed',
+    decidedDateId: 'date-1',
+    notificationSent: false,
+    totalResponses: 0,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  describe('createScheduleIcs', () => {
+    it('決定日程を確定イベントとして出力する', () => {
+      const ics = createScheduleIcs({ schedule, mode: 'decided', now });
+
+      expect(ics).not.toBeNull();
+      const lines = ics?.split('\r\n') ?? [];
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('UID:schedule-1-date-1@choseichan');
+      expect(lines).toContain('DTSTAMP:20261018T030000Z');
+      expect(lines).toContain('DTSTART:20261225T100000Z');
+      expect(lines).toContain('DTEND:20261225T120000Z');
+      expect(lines).toContain('SUMMARY:忘年会');
+      expect(lines).toContain('STATUS:CONFIRMED');
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+      expect(ics?.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('候補日程を仮イベントとして出力し、日時不明の候補は除外する', () => {
+      const ics = createScheduleIcs({ schedule, mode: 'candidates', now });
+      const lines = ics?.split('\r\n') ?? [];
+
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+      expect(lines.filter((line) => line === 'STATUS:TENTATIVE')).toHaveLength(2);
+      expect(lines).toContain('SUMMARY:[候補] 忘年会');
+      expect(ics).not.toContain('date-3');
+    });
+
+    it('日付のみの候補は終日イベントになる', () => {
+      const ics = createScheduleIcs({ schedule, mode: 'candidates', now });
+      const lines = ics?.split('\r\n') ?? [];
+
+      expect(lines).toContain('DTSTART;VALUE=DATE:20261226');
+      expect(lines).toContain('DTEND;VALUE=DATE:20261227');
+    });
+
+    it('指定したタイムゾーンで終日イベントを判定する', () => {
+      const ics = createScheduleIcs({
+        schedule: {
+          ...schedule,
+          dates: [
+            {
+              id: 'date-1',
+              datetime: '12/26',
+              startAt: '2026-12-26T05:00:00.000Z',
+              endAt: '2026-12-27T04:59:59.000Z',
+            },
+          ],
+        },
+        mode: 'candidates',
+        now,
+        timeZone: 'America/New_York',
+      });
+      const lines = ics?.split('\r\n') ?? [];
+
+      expect(lines).toContain('DTSTART;VALUE=DATE:20261226');
+      expect(lines).toContain('DTEND;VALUE=DATE:20261227');
+    });
+
+    it('説明文の特殊文字をエスケープする', () => {
+      const ics = createScheduleIcs({ schedule, mode: 'decided', now });
+      const unfolded = ics?.replace(/\r\n /g, '');
+
+      expect(unfolded).toContain(
+        'DESCRIPTION:場所: 渋谷\\, 予算\\; 5000円\\n候補: 12/25 19:00〜21:00'
+      );
+    });
+
+    it('75オクテットを超える行を折り返す', () => {
+      const ics = createScheduleIcs({
+        schedule: { ...schedule, title: 'あ'.repeat(40) },
+        mode: 'decided',
+        now,
+      });
+      const encoder = new TextEncoder();
+
+      for (const line of ics?.split('\r\n') ?? []) {
+        expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      }
+      expect(ics?.replace(/\r\n /g, '')).toContain(`SUMMARY:${'あ'.repeat(40)}`);
+    });
+
+    it('終了日時がない場合は1時間のイベントにする', () => {
+      const ics = createScheduleIcs({
+        schedule: {
+          ...schedule,
+          dates: [{ id: 'date-1', datetime: '12/25 19:00', startAt: '2026-12-25T10:00:00.000Z' }],
+        },
+        mode: 'decided',
+        now,
+      });
+
+      expect(ics).toContain('DTEND:20261225T110000Z');
+    });
+
+    it('出力できる日程がない場合はnullを返す', () => {
+      expect(
+        createScheduleIcs({ schedule: { ...schedule, decidedDateId: 'date-3' }, mode: 'decided' })
+      ).toBeNull();
+      expect(
+        createScheduleIcs({ schedule: { ...schedule, decidedDateId: undefined }, mode: 'decided' })
+      ).toBeNull();
+    });
+  });
+
+  describe('createIcsFilename', () => {
+    it('モードに応じたファイル名を返す', () => {
+      expect(createIcsFilename('schedule-1', 'decided')).toBe('schedule-schedule-1.ics');
+      expect(createIcsFilename('schedule-1', 'candidates')).toBe(
+        'schedule-schedule-1-candidates.ics'
+      );
+    });
+  });
+});
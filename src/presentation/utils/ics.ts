@@ -0,0 +1,156 @@
+/**
+ * iCalendar (.ics) 生成ユーティリティ
+ *
+ * 決定日程または候補日程を RFC 5545 形式のカレンダーデータに変換する
+ */
+
+import type { ScheduleDateDto, ScheduleResponseDto } from '../../application/dto/ScheduleDto';
+import { DEFAULT_TIMEZONE, getZonedDateParts } from '../../domain/utils/date';
+
+export type IcsExportMode = 'decided' | 'candidates';
+
+export interface CreateScheduleIcsOptions {
+  readonly schedule: ScheduleResponseDto;
+  readonly mode: IcsExportMode;
+  readonly now?: Date;
+  /** 日付のみの候補を終日イベントとして判定する際のタイムゾーン（既定はJST） */
+  readonly timeZone?: string;
+}
+
+const ALL_DAY_DURATION_MS = 24 * 60 * 60 * 1000 - 1000;
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * スケジュールから .ics ファイルの内容を生成する
+ * 日時を解釈できる日程が1つもない場合は null を返す
+ */
+export function createScheduleIcs(options: CreateScheduleIcsOptions): string | null {
+  const { schedule, mode, now = new Date(), timeZone = DEFAULT_TIMEZONE } = options;
+
+  const targetDates =
+    mode === 'decided'
+      ? schedule.dates.filter((date) => date.id === schedule.decidedDateId)
+      : schedule.dates;
+  const exportableDates = targetDates.filter((date) => date.startAt);
+
+  if (exportableDates.length === 0) {
+    return null;
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//choseichan//Discord Schedule Bot//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...exportableDates.flatMap((date) => createEventLines(schedule, date, mode, now, timeZone)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * .ics ファイル名を生成する
+ */
+export function createIcsFilename(scheduleId: string, mode: IcsExportMode): string {
+  return mode === 'decided'
+    ? `schedule-${scheduleId}.ics`
+    : `schedule-${scheduleId}-candidates.ics`;
+}
+
+function createEventLines(
+  schedule: ScheduleResponseDto,
+  date: ScheduleDateDto,
+  mode: IcsExportMode,
+  now: Date,
+  timeZone: string
+): string[] {
+  const startAt = new Date(date.startAt as string);
+  const endAt = date.endAt
+    ? new Date(date.endAt)
+    : new Date(startAt.getTime() + DEFAULT_EVENT_DURATION_MS);
+  const isAllDay = isAllDayRange(startAt, endAt, timeZone);
+
+  const summary = mode === 'candidates' ? `[候補] ${schedule.title}` : schedule.title;
+  const description = [schedule.description, `候補: ${date.datetime}`]
+    .filter((value): value is string => !!value)
+    .join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${schedule.id}-${date.id}@choseichan`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...(isAllDay
+      ? [
+          `DTSTART;VALUE=DATE:${formatZonedDate(startAt, timeZone)}`,
+          `DTEND;VALUE=DATE:${formatZonedDate(new Date(endAt.getTime() + 1000), timeZone)}`,
+        ]
+      : [`DTSTART:${formatUtcDateTime(startAt)}`, `DTEND:${formatUtcDateTime(endAt)}`]),
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${mode === 'decided' ? 'CONFIRMED' : 'TENTATIVE'}`,
+    `TRANSP:${mode === 'decided' ? 'OPAQUE' : 'TRANSPARENT'}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * 日付のみの候補（00:00〜23:59:59）は終日イベントとして扱う
+ */
+function isAllDayRange(startAt: Date, endAt: Date, timeZone: string): boolean {
+  const start = getZonedDateParts(startAt, timeZone);
+  return (
+    start.hour === 0 &&
+    start.minute === 0 &&
+    endAt.getTime() - startAt.getTime() === ALL_DAY_DURATION_MS
+  );
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}Z$/, 'Z')
+    .replace(/[-:]/g, '');
+}
+
+function formatZonedDate(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  const pad = (num: number) => num.toString().padStart(2, '0');
+  return `${parts.year}${pad(parts.month + 1)}${pad(parts.day)}`;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 75オクテットを超える行を折り返す（マルチバイト文字の途中では分割しない）
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const segments: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 継続行は先頭の空白1文字分を差し引く
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join('\r\n ');
+}
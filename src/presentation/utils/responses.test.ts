@@ -1,10 +1,12 @@
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
 import { describe, expect, it } from 'vitest';
+import { QuotaExceededError } from '../../domain/errors/DomainErrors';
 import type { DiscordComponent, DiscordEmbed } from '../../infrastructure/types/discord-api';
 import {
   createDeferredUpdateResponse,
   createEphemeralResponse,
   createErrorResponse,
+  createHandledErrorResponse,
   createSuccessResponse,
 } from './responses';
 
@@ -75,6 +77,30 @@ describe('responses', () => {
     });
   });
 
+  describe('createHandledErrorResponse', () => {
+    it('ErrorHandlerで変換したエラーレスポンスを作成できる', async () => {
+      const response = createHandledErrorResponse(
+        new QuotaExceededError('schedules_per_guild', 100, 100)
+      );
+      const body = JSON.parse(await response.text());
+
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(body.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(body.data.flags).toBe(InteractionResponseFlags.EPHEMERAL);
+      expect(body.data.content).toContain('上限（100件）');
+      expect(body.data.content).toContain('締め切るか削除');
+    });
+
+    it('回答者数の上限超過を案内する', async () => {
+      const response = createHandledErrorResponse(
+        new QuotaExceededError('responses_per_schedule', 200, 200)
+      );
+      const body = JSON.parse(await response.text());
+
+      expect(body.data.content).toContain('回答者数が上限（200人）');
+    });
+  });
+
   describe('createErrorResponse', () => {
     it('エラーレスポンスを作成できる', async () => {
       const response = createErrorResponse('エラーが発生しました');
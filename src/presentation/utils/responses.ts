@@ -1,5 +1,6 @@
 import { InteractionResponseFlags, InteractionResponseType } from 'discord-interactions';
 import type { DiscordComponent, DiscordEmbed } from '../../infrastructure/types/discord-api';
+import { ErrorHandler } from '../errors/ErrorHandler';
 
 /**
  * Create an ephemeral response
@@ -30,6 +31,15 @@ export function createErrorResponse(error: string): Response {
   return createEphemeralResponse(`❌ ${error}`);
 }
 
+/**
+ * Create an error response from a typed error via ErrorHandler
+ */
+export function createHandledErrorResponse(error: unknown): Response {
+  return new Response(JSON.stringify(ErrorHandler.handleError(error)), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
 /**
  * Create a success response
  */
@@ -259,6 +259,17 @@ export async function applyMigrations(db: D1Database): Promise<void> {
     '0001_20240115_initial_schema.sql',
     '0003_20240117_foreign_key_optimization.sql',
     '0004_remove-expires-at-fields.sql',
+    '0005_20261018_schedule_date_timestamps.sql',
+    '0006_20261018_schedule_decided_date.sql',
+    '0007_20261018_schedule_guild_event.sql',
+    '0008_20261018_guild_user_settings.sql',
+    '0009_20261018_guild_settings_defaults.sql',
+    '0010_20261018_schedule_invitees.sql',
+    '0011_20261018_schedule_reminder_mode.sql',
+    '0012_20261018_schedule_dm_reminders.sql',
+    '0013_20261018_schedule_co_organizers.sql',
+    '0014_20261018_schedule_templates.sql',
+    '0015_20261018_schedule_recurrences.sql',
   ];
 
   for (const file of migrationFiles) {
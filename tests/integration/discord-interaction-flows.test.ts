@@ -8,8 +8,10 @@
  */
 
 import { InteractionResponseType, InteractionType } from 'discord-interactions';
+import nacl from 'tweetnacl';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { DependencyContainer } from '../../src/di/DependencyContainer';
+import app from '../../src/index';
 import type {
   ButtonInteraction,
   CommandInteraction,
@@ -19,6 +21,7 @@ import type {
 import { ButtonInteractionController } from '../../src/presentation/controllers/ButtonInteractionController';
 import { createCommandController } from '../../src/presentation/controllers/CommandController';
 import { createModalController } from '../../src/presentation/controllers/ModalController';
+import { createSelectMenuController } from '../../src/presentation/controllers/SelectMenuController';
 import {
   applyMigrations,
   closeTestDatabase,
@@ -32,6 +35,31 @@ describe('Discordインタラクションフロー統合', () => {
   let env: Env;
   let container: DependencyContainer;
 
+  // 署名付きリクエストとして index.ts のルーターに送る（component_type による振り分けも含めて確認する）
+  const dispatchThroughRouter = async (interaction: object): Promise<Response> => {
+    const keyPair = nacl.sign.keyPair();
+    const body = JSON.stringify(interaction);
+    const timestamp = Date.now().toString();
+    const signature = nacl.sign.detached(
+      Buffer.concat([Buffer.from(timestamp), Buffer.from(body)]),
+      keyPair.secretKey
+    );
+
+    return app.fetch(
+      new Request('http://localhost/interactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Signature-Ed25519': Buffer.from(signature).toString('hex'),
+          'X-Signature-Timestamp': timestamp,
+        },
+        body,
+      }),
+      { ...env, DISCORD_PUBLIC_KEY: Buffer.from(keyPair.publicKey).toString('hex') },
+      { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as unknown as ExecutionContext
+    );
+  };
+
   beforeEach(async () => {
     vi.clearAllMocks();
 
@@ -438,6 +466,1160 @@ describe('Discordインタラクションフロー統合', () => {
     });
   });
 
+  describe('Invitee Select → Non-respondent Flow', () => {
+    let scheduleId: string;
+
+    const createComponentInteraction = (
+      customId: string,
+      userId: string,
+      values?: string[]
+    ): ButtonInteraction => ({
+      id: 'interaction-invitees',
+      type: InteractionType.MESSAGE_COMPONENT,
+      data: { custom_id: customId, component_type: values ? 5 : 2, values },
+      channel_id: 'test-channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: userId, username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      },
+      message: { id: 'message-123', content: '', embeds: [], components: [] },
+      token: 'test-token',
+    });
+
+    beforeEach(async () => {
+      const result = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Invitee Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      scheduleId = result.schedule?.id || '';
+    });
+
+    it('should show invited users who have not responded in the status view', async () => {
+      const buttonController = new ButtonInteractionController(container);
+
+      const menuResponse = await buttonController.handleButtonInteraction(
+        createComponentInteraction(`invitees:${scheduleId}`, 'user-123'),
+        env
+      );
+      const menu = (await menuResponse.json()) as any;
+      expect(menu.data.flags).toBe(64);
+      expect(JSON.stringify(menu.data.components)).toContain(`invitee_users:${scheduleId}`);
+
+      const selectResponse = await dispatchThroughRouter(
+        createComponentInteraction(`invitee_users:${scheduleId}`, 'user-123', [
+          'user-456',
+          'user-789',
+        ])
+      );
+      const selected = (await selectResponse.json()) as any;
+      expect(selected.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(selected.data.content).toContain('<@user-456> <@user-789>');
+
+      await container.applicationServices.submitResponseUseCase.execute({
+        scheduleId,
+        guildId: 'test-guild',
+        userId: 'user-456',
+        username: 'Responder',
+        responses: [{ dateId: 'date1', status: 'ok' }],
+      });
+
+      const statusResponse = await buttonController.handleButtonInteraction(
+        createComponentInteraction(`status:${scheduleId}`, 'user-999'),
+        env
+      );
+      const status = (await statusResponse.json()) as any;
+      expect(status.data.embeds[0].fields).toContainEqual({
+        name: '⏳ 未回答者 (1人)',
+        value: '<@user-789>',
+        inline: false,
+      });
+    });
+
+    it('should only allow the author to change invitees', async () => {
+      const buttonController = new ButtonInteractionController(container);
+
+      const response = await buttonController.handleButtonInteraction(
+        createComponentInteraction(`clear_invitees:${scheduleId}`, 'user-999'),
+        env
+      );
+      const data = (await response.json()) as any;
+
+      expect(data.data.flags).toBe(64);
+      expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+    });
+  });
+
+  describe('Reminder Modal → Reminder Settings Flow', () => {
+    const createModalInteraction = (
+      customId: string,
+      inputs: Record<string, string>
+    ): ModalInteraction => ({
+      id: 'interaction-reminder',
+      type: InteractionType.MODAL_SUBMIT,
+      data: {
+        custom_id: customId,
+        components: Object.entries(inputs).map(([inputId, value]) => ({
+          type: 1,
+          components: [{ type: 4, custom_id: inputId, value }],
+        })),
+      },
+      channel_id: 'test-channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      },
+      token: 'test-token',
+    });
+
+    it('should save the reminder mode and DM opt-in from the deadline modal', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Reminder Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+        reminderTimings: ['1d'],
+        reminderMentions: ['@here'],
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const response = await createModalController(env).handleModalSubmit(
+        createModalInteraction(`modal:edit_deadline:${scheduleId}:message-123`, {
+          deadline: '',
+          reminder_timings: '',
+          reminder_mode: 'on',
+          reminder_dm: 'on',
+        }),
+        env
+      );
+      expect(response.status).toBe(200);
+
+      const result = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(result.schedule?.reminderMode).toBe('non_respondents');
+      expect(result.schedule?.dmReminders).toBe(true);
+      expect(result.schedule?.reminderTimings).toEqual(['1d']);
+    });
+  });
+
+  describe('Reminder Mentions Select Flow', () => {
+    it('should store selected users and roles as typed mentions', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Mention Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+        reminderMentions: ['@here', '@Alice'],
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const createInteraction = (
+        customId: string,
+        componentType: number,
+        values?: string[],
+        resolved?: ButtonInteraction['data']['resolved']
+      ): ButtonInteraction => ({
+        id: 'interaction-mentions',
+        type: InteractionType.MESSAGE_COMPONENT,
+        data: { custom_id: customId, component_type: componentType, values, resolved },
+        channel_id: 'test-channel',
+        guild_id: 'test-guild',
+        member: {
+          user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+          roles: [],
+        },
+        message: { id: 'message-123', content: '', embeds: [], components: [] },
+        token: 'test-token',
+      });
+
+      const menuResponse = await new ButtonInteractionController(container).handleButtonInteraction(
+        createInteraction(`reminder_mentions:${scheduleId}`, 2),
+        env
+      );
+      const menu = (await menuResponse.json()) as any;
+      expect(menu.data.flags).toBe(64);
+      expect(menu.data.components[1].components[0].type).toBe(7);
+
+      // MENTIONABLE_SELECT（component_type 7）はルーター経由でセレクトメニューに届くこと
+      const targetsResponse = await dispatchThroughRouter(
+        createInteraction(`reminder_mention_targets:${scheduleId}`, 7, ['111', '222'], {
+          users: { '111': { id: '111', username: 'Bob', discriminator: '0' } },
+          roles: { '222': { id: '222', name: 'Members' } },
+        })
+      );
+      const targets = (await targetsResponse.json()) as any;
+      expect(targets.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(targets.data.content).toContain('<@111> <@&222>');
+
+      await dispatchThroughRouter(
+        createInteraction(`reminder_broadcast:${scheduleId}`, 3, ['none'])
+      );
+
+      const result = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(result.schedule?.reminderMentions).toEqual(['<@111>', '<@&222>']);
+    });
+  });
+
+  describe('Co-organizer Select → Permission Flow', () => {
+    it('should let co-organizers edit but not delete or change organizers', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Co-organizer Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const createInteraction = (
+        userId: string,
+        customId: string,
+        componentType: number,
+        values?: string[],
+        permissions?: string
+      ): ButtonInteraction => ({
+        id: 'interaction-co-organizers',
+        type: InteractionType.MESSAGE_COMPONENT,
+        data: {
+          custom_id: customId,
+          component_type: componentType,
+          values,
+          resolved: values
+            ? {
+                users: {
+                  'co-1': { id: 'co-1', username: 'CoOrganizer', discriminator: '0' },
+                  'bot-1': { id: 'bot-1', username: 'Bot', discriminator: '0', bot: true },
+                },
+              }
+            : undefined,
+        },
+        channel_id: 'test-channel',
+        guild_id: 'test-guild',
+        member: {
+          user: { id: userId, username: userId, discriminator: '0001' },
+          roles: [],
+          permissions,
+        },
+        message: { id: 'message-123', content: '', embeds: [], components: [] },
+        token: 'test-token',
+      });
+      const buttonController = new ButtonInteractionController(container);
+
+      const panelResponse = await buttonController.handleButtonInteraction(
+        createInteraction('user-123', `co_organizers:${scheduleId}`, 2),
+        env
+      );
+      const panel = (await panelResponse.json()) as any;
+      expect(panel.data.flags).toBe(64);
+      expect(panel.data.components[0].components[0].type).toBe(5);
+
+      // USER_SELECT（component_type 5）はルーター経由でセレクトメニューに届くこと
+      const selectResponse = await dispatchThroughRouter(
+        createInteraction('user-123', `co_organizer_users:${scheduleId}`, 5, ['co-1', 'bot-1'])
+      );
+      const selected = (await selectResponse.json()) as any;
+      expect(selected.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(selected.data.content).toContain('<@co-1>');
+
+      const stored = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(stored.schedule?.coOrganizerIds).toEqual(['co-1']);
+
+      const editResponse = await buttonController.handleButtonInteraction(
+        createInteraction('co-1', `edit:${scheduleId}`, 2),
+        env
+      );
+      const edit = (await editResponse.json()) as any;
+      expect(edit.data.content).toBe('編集する項目を選択してください：');
+
+      const deleteResponse = await buttonController.handleButtonInteraction(
+        createInteraction('co-1', `delete:${scheduleId}`, 2),
+        env
+      );
+      const deleted = (await deleteResponse.json()) as any;
+      expect(deleted.data.content).toContain('削除できるのは作成者とサーバーのモデレーターのみ');
+
+      const organizersResponse = await buttonController.handleButtonInteraction(
+        createInteraction('co-1', `co_organizers:${scheduleId}`, 2),
+        env
+      );
+      const organizers = (await organizersResponse.json()) as any;
+      expect(organizers.data.content).toContain('共同主催者を変更できるのは');
+
+      const moderatorResponse = await buttonController.handleButtonInteraction(
+        createInteraction('moderator-1', `edit:${scheduleId}`, 2, undefined, String(1n << 13n)),
+        env
+      );
+      const moderator = (await moderatorResponse.json()) as any;
+      expect(moderator.data.content).toBe('編集する項目を選択してください：');
+    });
+  });
+
+  describe('Transfer Owner Select Flow', () => {
+    it('should hand the schedule over to the selected member', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Transfer Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const createInteraction = (
+        userId: string,
+        customId: string,
+        componentType: number,
+        values?: string[]
+      ): ButtonInteraction => ({
+        id: 'interaction-transfer',
+        type: InteractionType.MESSAGE_COMPONENT,
+        data: {
+          custom_id: customId,
+          component_type: componentType,
+          values,
+          resolved: values
+            ? {
+                users: {
+                  'new-owner': {
+                    id: 'new-owner',
+                    username: 'newowner',
+                    discriminator: '0',
+                    global_name: 'New Owner',
+                  },
+                },
+              }
+            : undefined,
+        },
+        channel_id: 'test-channel',
+        guild_id: 'test-guild',
+        member: {
+          user: { id: userId, username: userId, discriminator: '0001' },
+          roles: [],
+        },
+        message: { id: 'message-123', content: '', embeds: [], components: [] },
+        token: 'test-token',
+      });
+
+      const menuResponse = await new ButtonInteractionController(container).handleButtonInteraction(
+        createInteraction('user-123', `transfer_owner:${scheduleId}`, 2),
+        env
+      );
+      const menu = (await menuResponse.json()) as any;
+      expect(menu.data.flags).toBe(64);
+      expect(menu.data.components[0].components[0].type).toBe(5);
+
+      // USER_SELECT（component_type 5）はルーター経由でセレクトメニューに届くこと
+      const selectResponse = await dispatchThroughRouter(
+        createInteraction('user-123', `transfer_owner_user:${scheduleId}`, 5, ['new-owner'])
+      );
+      const selected = (await selectResponse.json()) as any;
+      expect(selected.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(selected.data.content).toContain('<@new-owner>');
+
+      const result = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(result.schedule?.authorId).toBe('new-owner');
+      expect(result.schedule?.createdBy.username).toBe('newowner');
+
+      const formerOwnerResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(createInteraction('user-123', `edit:${scheduleId}`, 2), env);
+      const formerOwner = (await formerOwnerResponse.json()) as any;
+      expect(formerOwner.data.content).toContain('編集できるのは');
+    });
+  });
+
+  describe('Reopen Button → Modal Flow', () => {
+    it('should reopen a closed schedule and enqueue a message update', async () => {
+      const mockQueueSend = vi.fn().mockResolvedValue(undefined);
+      env.MESSAGE_UPDATE_QUEUE = { send: mockQueueSend } as any;
+
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Reopen Test Schedule',
+        dates: [{ id: 'date1', datetime: new Date(Date.now() + 172800000).toISOString() }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+      await container.applicationServices.updateScheduleUseCase.execute({
+        scheduleId,
+        guildId: 'test-guild',
+        editorUserId: 'user-123',
+        messageId: 'message-123',
+      });
+      await container.applicationServices.closeScheduleUseCase.execute({
+        scheduleId,
+        guildId: 'test-guild',
+        editorUserId: 'user-123',
+      });
+
+      const member = {
+        user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      };
+
+      const buttonResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(
+        {
+          id: 'interaction-reopen',
+          type: InteractionType.MESSAGE_COMPONENT,
+          data: { custom_id: `reopen:${scheduleId}`, component_type: 2 },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          message: { id: 'message-123', content: '', embeds: [], components: [] },
+          token: 'test-token',
+        },
+        env
+      );
+      const modal = (await buttonResponse.json()) as any;
+      expect(modal.type).toBe(InteractionResponseType.MODAL);
+      expect(modal.data.custom_id).toBe(`modal:reopen:${scheduleId}`);
+
+      const modalInteraction: ModalInteraction = {
+        id: 'interaction-reopen-modal',
+        type: InteractionType.MODAL_SUBMIT,
+        data: {
+          custom_id: `modal:reopen:${scheduleId}`,
+          components: [
+            {
+              type: 1,
+              components: [{ type: 4, custom_id: 'deadline', value: '2099/12/31 23:59' }],
+            },
+          ],
+        },
+        channel_id: 'test-channel',
+        guild_id: 'test-guild',
+        member,
+        token: 'test-token',
+      };
+
+      const modalResponse = await createModalController(env).handleModalSubmit(
+        modalInteraction,
+        env
+      );
+      const reopened = (await modalResponse.json()) as any;
+      expect(reopened.data.content).toContain('日程調整を再開しました');
+
+      const result = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(result.schedule?.status).toBe('open');
+      expect(result.schedule?.deadline).toMatch(/^2099-12-31/);
+      expect(mockQueueSend).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduleId, updateType: 'reopen_update' }),
+        { delaySeconds: 0 }
+      );
+    });
+  });
+
+  describe('Clone Button → Shift Select → Creation Modal Flow', () => {
+    it('should create a new schedule from a shifted copy with inherited settings', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Weekly Sync',
+        description: 'Copied description',
+        dates: [
+          {
+            id: 'date1',
+            datetime: '2099/12/01(火) 19:00〜21:00',
+            startAt: '2099-12-01T10:00:00.000Z',
+            endAt: '2099-12-01T12:00:00.000Z',
+          },
+        ],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+        deadline: '2099-11-30T14:59:00.000Z',
+        reminderTimings: ['1d'],
+        reminderMentions: ['<@&role-1>'],
+        invitedUserIds: ['user-456'],
+      });
+      const sourceId = created.schedule?.id || '';
+
+      const member = {
+        user: { id: 'user-789', username: 'Cloner', discriminator: '0001' },
+        roles: [],
+      };
+      const createInteraction = (
+        customId: string,
+        componentType: number,
+        values?: string[]
+      ): ButtonInteraction => ({
+        id: 'interaction-clone',
+        type: InteractionType.MESSAGE_COMPONENT,
+        data: { custom_id: customId, component_type: componentType, values },
+        channel_id: 'test-channel',
+        guild_id: 'test-guild',
+        member,
+        message: { id: 'message-123', content: '', embeds: [], components: [] },
+        token: 'test-token',
+      });
+
+      const panelResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(createInteraction(`clone:${sourceId}`, 2), env);
+      const panel = (await panelResponse.json()) as any;
+      expect(panel.data.flags).toBe(64);
+      expect(panel.data.components[0].components[0].custom_id).toBe(`clone_shift:${sourceId}`);
+
+      const selectResponse = await createSelectMenuController(env).handleSelectMenuInteraction(
+        createInteraction(`clone_shift:${sourceId}`, 3, ['7']),
+        env
+      );
+      const modal = (await selectResponse.json()) as any;
+      expect(modal.type).toBe(InteractionResponseType.MODAL);
+      expect(modal.data.custom_id).toBe(`modal:create_schedule:clone:${sourceId}`);
+      const values = modal.data.components.map((row: any) => row.components[0].value);
+      expect(values).toEqual([
+        'Weekly Sync',
+        'Copied description',
+        '2099/12/08(火) 19:00〜21:00',
+        '2099-12-07 23:59',
+      ]);
+
+      const modalResponse = await createModalController(env).handleModalSubmit(
+        {
+          id: 'interaction-clone-modal',
+          type: InteractionType.MODAL_SUBMIT,
+          data: {
+            custom_id: modal.data.custom_id,
+            components: modal.data.components.map((row: any) => ({
+              type: 1,
+              components: [
+                { type: 4, custom_id: row.components[0].custom_id, value: row.components[0].value },
+              ],
+            })),
+          },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          token: 'test-token',
+        },
+        env
+      );
+      expect(modalResponse.status).toBe(200);
+
+      const schedules = await container.applicationServices.findSchedulesUseCase.findByChannel({
+        channelId: 'test-channel',
+        guildId: 'test-guild',
+      });
+      const clone = schedules.schedules?.find((schedule) => schedule.id !== sourceId);
+      expect(clone).toBeDefined();
+      expect(clone?.authorId).toBe('user-789');
+      expect(clone?.dates[0].startAt).toBe('2099-12-08T10:00:00.000Z');
+      expect(clone?.deadline).toBe('2099-12-07T14:59:00.000Z');
+      expect(clone?.reminderTimings).toEqual(['1d']);
+      expect(clone?.reminderMentions).toEqual(['<@&role-1>']);
+      expect(clone?.invitedUserIds).toEqual(['user-456']);
+    });
+  });
+
+  describe('Save Template → Create From Template Flow', () => {
+    it('should save a schedule as a template and prefill the creation modal from it', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: 'Weekly Sync',
+        description: 'Template description',
+        dates: [{ id: 'date1', datetime: '毎週水曜 19:00' }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+        reminderTimings: ['1d'],
+        reminderMentions: ['<@&role-1>'],
+        invitedRoleIds: ['role-1'],
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const member = {
+        user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      };
+
+      const buttonResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(
+        {
+          id: 'interaction-save-template',
+          type: InteractionType.MESSAGE_COMPONENT,
+          data: { custom_id: `save_template:${scheduleId}`, component_type: 2 },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          message: { id: 'message-123', content: '', embeds: [], components: [] },
+          token: 'test-token',
+        },
+        env
+      );
+      const saveModal = (await buttonResponse.json()) as any;
+      expect(saveModal.type).toBe(InteractionResponseType.MODAL);
+      expect(saveModal.data.custom_id).toBe(`modal:save_template:${scheduleId}`);
+      expect(saveModal.data.components[0].components[0].value).toBe('Weekly Sync');
+
+      const saveResponse = await createModalController(env).handleModalSubmit(
+        {
+          id: 'interaction-save-template-modal',
+          type: InteractionType.MODAL_SUBMIT,
+          data: {
+            custom_id: `modal:save_template:${scheduleId}`,
+            components: [
+              { type: 1, components: [{ type: 4, custom_id: 'name', value: '定例会' }] },
+            ],
+          },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          token: 'test-token',
+        },
+        env
+      );
+      const saved = (await saveResponse.json()) as any;
+      expect(saved.data.content).toContain('テンプレート「定例会」を保存しました');
+
+      const commandController = createCommandController(env);
+      const autocompleteResponse = await commandController.handleAutocomplete({
+        id: 'interaction-autocomplete',
+        type: InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE,
+        data: {
+          id: 'cmd-id',
+          name: 'chouseichan',
+          options: [
+            {
+              name: 'create',
+              type: 1,
+              value: '',
+              options: [{ name: 'template', type: 3, value: '定例', focused: true }],
+            },
+          ],
+        },
+        guild_id: 'test-guild',
+        member,
+        token: 'test-token',
+      });
+      const autocomplete = (await autocompleteResponse.json()) as any;
+      expect(autocomplete.type).toBe(
+        InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+      );
+      expect(autocomplete.data.choices).toEqual([{ name: '定例会', value: '定例会' }]);
+
+      const commandResponse = await commandController.handleChouseichanCommand(
+        {
+          id: 'interaction-create-template',
+          type: InteractionType.APPLICATION_COMMAND,
+          data: {
+            id: 'cmd-id',
+            name: 'chouseichan',
+            options: [
+              {
+                name: 'create',
+                type: 1,
+                value: '',
+                options: [{ name: 'template', type: 3, value: '定例会' }],
+              },
+            ],
+          },
+          channel_id: 'other-channel',
+          guild_id: 'test-guild',
+          member,
+          token: 'test-token',
+        },
+        env
+      );
+      const modal = (await commandResponse.json()) as any;
+      expect(modal.type).toBe(InteractionResponseType.MODAL);
+      expect(modal.data.custom_id).toMatch(/^modal:create_schedule:template:/);
+      expect(modal.data.components.map((row: any) => row.components[0].value ?? '')).toEqual([
+        'Weekly Sync',
+        'Template description',
+        '毎週水曜 19:00',
+        '',
+      ]);
+
+      await createModalController(env).handleModalSubmit(
+        {
+          id: 'interaction-create-template-modal',
+          type: InteractionType.MODAL_SUBMIT,
+          data: {
+            custom_id: modal.data.custom_id,
+            components: [
+              { type: 1, components: [{ type: 4, custom_id: 'title', value: 'Weekly Sync #2' }] },
+              { type: 1, components: [{ type: 4, custom_id: 'description', value: '' }] },
+              {
+                type: 1,
+                components: [{ type: 4, custom_id: 'dates', value: '2099/12/02 19:00' }],
+              },
+              { type: 1, components: [{ type: 4, custom_id: 'deadline', value: '' }] },
+            ],
+          },
+          channel_id: 'other-channel',
+          guild_id: 'test-guild',
+          member,
+          token: 'test-token',
+        },
+        env
+      );
+
+      const schedules = await container.applicationServices.findSchedulesUseCase.findByChannel({
+        channelId: 'other-channel',
+        guildId: 'test-guild',
+      });
+      expect(schedules.schedules).toHaveLength(1);
+      const fromTemplate = schedules.schedules?.[0];
+      expect(fromTemplate?.title).toBe('Weekly Sync #2');
+      expect(fromTemplate?.reminderTimings).toEqual(['1d']);
+      expect(fromTemplate?.reminderMentions).toEqual(['<@&role-1>']);
+      expect(fromTemplate?.invitedRoleIds).toEqual(['role-1']);
+    });
+  });
+
+  describe('Candidate Rule → Preview → Creation Modal Flow', () => {
+    const member = {
+      user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+      roles: [],
+    };
+    const createModalInteraction = (customId: string, values: Record<string, string>) => ({
+      id: 'interaction-generated-modal',
+      type: InteractionType.MODAL_SUBMIT,
+      data: {
+        custom_id: customId,
+        components: Object.entries(values).map(([key, value]) => ({
+          type: 1,
+          components: [{ type: 4, custom_id: key, value }],
+        })),
+      },
+      channel_id: 'test-channel',
+      guild_id: 'test-guild',
+      member,
+      token: 'test-token',
+    });
+    const createPreviewButtonInteraction = (customId: string, preview: any): ButtonInteraction => ({
+      id: 'interaction-generated-button',
+      type: InteractionType.MESSAGE_COMPONENT,
+      data: { custom_id: customId, component_type: 2 },
+      channel_id: 'test-channel',
+      guild_id: 'test-guild',
+      member,
+      message: {
+        id: 'message-preview',
+        content: preview.content,
+        embeds: preview.embeds,
+        components: preview.components,
+      },
+      token: 'test-token',
+    });
+
+    it('should expand a date range rule and prefill the creation modal from the preview', async () => {
+      const previewResponse = await createModalController(env).handleModalSubmit(
+        createModalInteraction('modal:create_schedule', {
+          title: '勉強会',
+          description: '平日の夜',
+          dates: '2099/12/1-2099/12/7 平日 19:00',
+          deadline: '2099/11/30 23:59',
+        }),
+        env
+      );
+      const preview = (await previewResponse.json()) as any;
+      expect(preview.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(preview.data.flags).toBe(64);
+      expect(preview.data.embeds[1].title).toBe('🗓️ 日程候補（5件）');
+
+      const schedulesBefore =
+        await container.applicationServices.findSchedulesUseCase.findByChannel({
+          channelId: 'test-channel',
+          guildId: 'test-guild',
+        });
+      expect(schedulesBefore.schedules).toHaveLength(0);
+
+      const buttonId = preview.data.components[0].components[0].custom_id;
+      expect(buttonId).toBe('generated_create:new');
+      const modalResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(createPreviewButtonInteraction(buttonId, preview.data), env);
+      const modal = (await modalResponse.json()) as any;
+      expect(modal.type).toBe(InteractionResponseType.MODAL);
+      expect(modal.data.custom_id).toBe('modal:create_schedule');
+      const values = modal.data.components.map((row: any) => row.components[0].value);
+      expect(values[0]).toBe('勉強会');
+      expect(values[1]).toBe('平日の夜');
+      expect(values[2].split('\n')).toHaveLength(5);
+      expect(values[3]).toBe('2099-11-30 23:59');
+
+      await createModalController(env).handleModalSubmit(
+        createModalInteraction(modal.data.custom_id, {
+          title: values[0],
+          description: values[1],
+          dates: values[2],
+          deadline: values[3],
+        }),
+        env
+      );
+
+      const schedules = await container.applicationServices.findSchedulesUseCase.findByChannel({
+        channelId: 'test-channel',
+        guildId: 'test-guild',
+      });
+      expect(schedules.schedules).toHaveLength(1);
+      const schedule = schedules.schedules?.[0];
+      expect(schedule?.dates.map((date) => date.startAt)).toEqual([
+        '2099-12-01T10:00:00.000Z',
+        '2099-12-02T10:00:00.000Z',
+        '2099-12-03T10:00:00.000Z',
+        '2099-12-04T10:00:00.000Z',
+        '2099-12-07T10:00:00.000Z',
+      ]);
+      expect(schedule?.deadline).toBe('2099-11-30T14:59:00.000Z');
+    });
+
+    it('should preview generated dates within the remaining limit before adding them', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: '勉強会',
+        dates: Array.from({ length: 48 }, (_, index) => ({
+          id: `date${index}`,
+          datetime: `候補${index + 1}`,
+        })),
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const previewResponse = await createModalController(env).handleModalSubmit(
+        createModalInteraction(`modal:add_dates:${scheduleId}`, {
+          dates: '2099/12/1-2099/12/7 平日 19:00',
+        }),
+        env
+      );
+      const preview = (await previewResponse.json()) as any;
+      expect(preview.data.embeds[0].title).toBe('🗓️ 日程候補（2件）');
+      expect(preview.data.content).toContain('残り2個');
+
+      const modalResponse = await new ButtonInteractionController(
+        container
+      ).handleButtonInteraction(
+        createPreviewButtonInteraction(`generated_add_dates:${scheduleId}`, preview.data),
+        env
+      );
+      const modal = (await modalResponse.json()) as any;
+      expect(modal.type).toBe(InteractionResponseType.MODAL);
+      expect(modal.data.custom_id).toBe(`modal:add_dates:${scheduleId}`);
+      expect(modal.data.components[0].components[0].value).toBe(preview.data.embeds[0].description);
+
+      const schedule = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(schedule.schedule?.dates).toHaveLength(48);
+    });
+  });
+
+  describe('Weekday Mismatch → Fix Button Flow', () => {
+    it('should warn about mismatched weekdays and correct them without losing responses', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: '忘年会',
+        dates: [{ id: 'date1', datetime: '2099/12/01 19:00' }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+      await container.applicationServices.submitResponseUseCase.execute({
+        scheduleId,
+        guildId: 'test-guild',
+        userId: 'user-456',
+        username: 'Voter',
+        responses: [{ dateId: 'date1', status: 'ok' }],
+      });
+
+      const member = {
+        user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      };
+      const modalResponse = await createModalController(env).handleModalSubmit(
+        {
+          id: 'interaction-update-dates',
+          type: InteractionType.MODAL_SUBMIT,
+          data: {
+            custom_id: `modal:update_dates:${scheduleId}`,
+            components: [
+              {
+                type: 1,
+                components: [
+                  {
+                    type: 4,
+                    custom_id: 'dates',
+                    value: '2099/12/01 19:00\n2099/12/02(火) 19:00\n2099/12/04(金) 19:00',
+                  },
+                ],
+              },
+            ],
+          },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          token: 'test-token',
+        },
+        env
+      );
+      const reply = (await modalResponse.json()) as any;
+      expect(reply.data.flags).toBe(64);
+      expect(reply.data.content).toContain('✅ 日程を更新しました。（3件）');
+      expect(reply.data.content).toContain('`2099/12/02(火) 19:00` → `2099/12/02(水) 19:00`');
+      expect(reply.data.content).not.toContain('2099/12/04(金) 19:00` →');
+      const fixButtonId = reply.data.components[0].components[0].custom_id;
+      expect(fixButtonId).toBe(`fix_weekdays:${scheduleId}`);
+
+      const fixResponse = await new ButtonInteractionController(container).handleButtonInteraction(
+        {
+          id: 'interaction-fix-weekdays',
+          type: InteractionType.MESSAGE_COMPONENT,
+          data: { custom_id: fixButtonId, component_type: 2 },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member,
+          message: {
+            id: 'message-warning',
+            content: reply.data.content,
+            embeds: [],
+            components: [],
+          },
+          token: 'test-token',
+        },
+        env
+      );
+      const fixed = (await fixResponse.json()) as any;
+      expect(fixed.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(fixed.data.content).toBe('✅ 1件の候補の曜日を修正しました。');
+
+      const schedule = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      expect(schedule.schedule?.dates.map((date) => date.datetime)).toEqual([
+        '2099/12/01 19:00',
+        '2099/12/02(水) 19:00',
+        '2099/12/04(金) 19:00',
+      ]);
+      expect(schedule.schedule?.dates[0].id).toBe('date1');
+      const response = await container.applicationServices.getResponseUseCase.execute({
+        scheduleId,
+        userId: 'user-456',
+        guildId: 'test-guild',
+      });
+      expect(response.response?.dateStatuses).toEqual({ date1: 'ok' });
+    });
+  });
+
+  describe('Past / Duplicate Candidate Flow', () => {
+    it('should warn about past, same-time and identical candidates without rejecting them', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: '新年会',
+        dates: [{ id: 'date1', datetime: '2099/12/01 19:00', startAt: '2099-12-01T10:00:00.000Z' }],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+
+      const submitAddDates = async (value: string) => {
+        const response = await createModalController(env).handleModalSubmit(
+          {
+            id: 'interaction-add-dates',
+            type: InteractionType.MODAL_SUBMIT,
+            data: {
+              custom_id: `modal:add_dates:${scheduleId}`,
+              components: [{ type: 1, components: [{ type: 4, custom_id: 'dates', value }] }],
+            },
+            channel_id: 'test-channel',
+            guild_id: 'test-guild',
+            member: {
+              user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+              roles: [],
+            },
+            token: 'test-token',
+          },
+          env
+        );
+        return (await response.json()) as any;
+      };
+
+      const added = await submitAddDates(
+        '2020/01/10 19:00\n2099/12/02 19:00\n2099/12/2 19:00\n未定'
+      );
+      expect(added.data.content).toContain('✅ 4件の日程を追加しました。');
+      expect(added.data.content).toContain('⚠️ 同じ日時を指す候補があります。');
+      expect(added.data.content).toContain('・`2099/12/02 19:00` / `2099/12/2 19:00`');
+      expect(added.data.content).toContain('⚠️ すでに過ぎた日時の候補があります（1件）。');
+      expect(added.data.content).toContain('・`2020/01/10 19:00`');
+
+      const duplicated = await submitAddDates('未定');
+      expect(duplicated.data.content).toContain('✅ 1件の日程を追加しました。');
+      expect(duplicated.data.content).toContain('⚠️ 同じ表記の候補があります。');
+      expect(duplicated.data.content).toContain('・`未定`');
+
+      const schedule = await container.applicationServices.getScheduleUseCase.execute(
+        scheduleId,
+        'test-guild'
+      );
+      // 日時順に並んでいた候補に追加したため、追加した候補も日時順の位置に入る
+      expect(schedule.schedule?.dates.map((date) => date.datetime)).toEqual([
+        '2020/01/10 19:00',
+        '2099/12/01 19:00',
+        '2099/12/02 19:00',
+        '2099/12/2 19:00',
+        '未定',
+        '未定',
+      ]);
+    });
+  });
+
+  describe('Candidate Reorder Flow', () => {
+    const createComponentInteraction = (
+      customId: string,
+      values?: string[]
+    ): ButtonInteraction => ({
+      id: 'interaction-reorder',
+      type: InteractionType.MESSAGE_COMPONENT,
+      data: { custom_id: customId, component_type: values ? 3 : 2, values },
+      channel_id: 'test-channel',
+      guild_id: 'test-guild',
+      member: {
+        user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+        roles: [],
+      },
+      message: { id: 'message-reorder', content: '', embeds: [], components: [] },
+      token: 'test-token',
+    });
+
+    it('should sort candidates by date and move a selected candidate', async () => {
+      const created = await container.applicationServices.createScheduleUseCase.execute({
+        title: '勉強会',
+        dates: [
+          { id: 'date1', datetime: '2099/12/03 19:00', startAt: '2099-12-03T10:00:00.000Z' },
+          { id: 'date2', datetime: '未定' },
+          { id: 'date3', datetime: '2099/12/01 19:00', startAt: '2099-12-01T10:00:00.000Z' },
+        ],
+        guildId: 'test-guild',
+        channelId: 'test-channel',
+        authorId: 'user-123',
+        authorUsername: 'TestUser',
+      });
+      const scheduleId = created.schedule?.id || '';
+      const getLabels = async () => {
+        const result = await container.applicationServices.getScheduleUseCase.execute(
+          scheduleId,
+          'test-guild'
+        );
+        return result.schedule?.dates.map((date) => date.datetime);
+      };
+
+      const addResponse = await createModalController(env).handleModalSubmit(
+        {
+          id: 'interaction-add-dates',
+          type: InteractionType.MODAL_SUBMIT,
+          data: {
+            custom_id: `modal:add_dates:${scheduleId}`,
+            components: [
+              {
+                type: 1,
+                components: [{ type: 4, custom_id: 'dates', value: '2099/12/02 19:00' }],
+              },
+            ],
+          },
+          channel_id: 'test-channel',
+          guild_id: 'test-guild',
+          member: {
+            user: { id: 'user-123', username: 'TestUser', discriminator: '0001' },
+            roles: [],
+          },
+          token: 'test-token',
+        },
+        env
+      );
+      // 日時順でない並びは手動の並びとみなし、追加した候補は末尾に置いて並べ替えを提案する
+      const added = (await addResponse.json()) as any;
+      expect(added.data.content).toContain('🕒 候補が日時順に並んでいません。');
+      const sortButton = added.data.components[0].components[0];
+      expect(sortButton.custom_id).toBe(`sort_dates:${scheduleId}`);
+
+      const buttonController = new ButtonInteractionController(container);
+      const sorted = (await (
+        await buttonController.handleButtonInteraction(
+          createComponentInteraction(sortButton.custom_id),
+          env
+        )
+      ).json()) as any;
+      expect(sorted.type).toBe(InteractionResponseType.UPDATE_MESSAGE);
+      expect(sorted.data.components[2].components[0].disabled).toBe(true);
+      expect(await getLabels()).toEqual([
+        '2099/12/01 19:00',
+        '2099/12/02 19:00',
+        '2099/12/03 19:00',
+        '未定',
+      ]);
+
+      const view = (await (
+        await buttonController.handleButtonInteraction(
+          createComponentInteraction(`reorder_dates:${scheduleId}`),
+          env
+        )
+      ).json()) as any;
+      expect(view.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+      expect(view.data.embeds[0].description).toContain('**▶ 1. 2099/12/01 19:00**');
+
+      const selected = (await (
+        await createSelectMenuController(env).handleSelectMenuInteraction(
+          createComponentInteraction(`reorder_dates_select:${scheduleId}`, ['date2']),
+          env
+        )
+      ).json()) as any;
+      const moveButtons = selected.data.components[1].components;
+      expect(moveButtons.map((button: any) => button.disabled)).toEqual([false, false, true, true]);
+
+      const moved = (await (
+        await buttonController.handleButtonInteraction(
+          createComponentInteraction(moveButtons[0].custom_id),
+          env
+        )
+      ).json()) as any;
+      expect(moveButtons[0].custom_id).toBe(`move_date:${scheduleId}:date2:top`);
+      expect(moved.data.embeds[0].description).toContain('**▶ 1. 未定**');
+      expect(await getLabels()).toEqual([
+        '未定',
+        '2099/12/01 19:00',
+        '2099/12/02 19:00',
+        '2099/12/03 19:00',
+      ]);
+    });
+  });
+
   describe('Vote Select Menu → Database Flow', () => {
     let scheduleId: string;
 
@@ -514,7 +1696,7 @@ describe('Discordインタラクションフロー統合', () => {
           { dateId: 'date3', status: 'ng' as const },
         ],
         guildId: 'test-guild',
-        // Note: comment field is not currently implemented in the system
+        comment: 'Looking forward to the event!',
       });
 
       expect(result.success).toBe(true);
@@ -535,8 +1717,7 @@ describe('Discordインタラクションフロー統合', () => {
         date2: 'maybe',
         date3: 'ng',
       });
-      // Note: comment field is not currently implemented
-      // expect(responseResult.response?.comment).toBe('Looking forward to the event!');
+      expect(responseResult.response?.comment).toBe('Looking forward to the event!');
 
       // Verify schedule summary includes the response
       const getSummaryUseCase = container.applicationServices.getScheduleSummaryUseCase;
@@ -84,6 +84,42 @@ describe('スケジュール操作', () => {
       expect(getResult.schedule?.id).toBe(result.schedule?.id);
     });
 
+    it('should persist structured start/end timestamps with free text candidates', async () => {
+      const createScheduleUseCase = container.applicationServices.createScheduleUseCase;
+      const result = await createScheduleUseCase.execute({
+        guildId: 'guild-123',
+        channelId: 'channel-123',
+        authorId: 'user-123',
+        authorUsername: 'testuser',
+        title: 'Timestamp Schedule',
+        dates: [
+          {
+            id: 'date1',
+            datetime: '2099/12/26(土) 18:00〜20:00',
+            startAt: '2099-12-26T09:00:00.000Z',
+            endAt: '2099-12-26T11:00:00.000Z',
+          },
+          { id: 'date2', datetime: '年末のどこか' },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+
+      const getResult = await container.applicationServices.getScheduleUseCase.execute(
+        result.schedule?.id || '',
+        'guild-123'
+      );
+
+      expect(getResult.schedule?.dates[0]).toEqual({
+        id: 'date1',
+        datetime: '2099/12/26(土) 18:00〜20:00',
+        startAt: '2099-12-26T09:00:00.000Z',
+        endAt: '2099-12-26T11:00:00.000Z',
+      });
+      expect(getResult.schedule?.dates[1].datetime).toBe('年末のどこか');
+      expect(getResult.schedule?.dates[1].startAt).toBeUndefined();
+    });
+
     it('should validate input correctly', async () => {
       // Arrange
       const createScheduleUseCase = container.applicationServices.createScheduleUseCase;
@@ -8,14 +8,21 @@
 import type {
   FindByChannelOptions,
   FindByDeadlineRangeOptions,
+  IGuildSettingsRepository,
   IRepositoryFactory,
   IResponseRepository,
+  IScheduleRecurrenceRepository,
   IScheduleRepository,
+  IScheduleTemplateRepository,
 } from '../../src/domain/repositories/interfaces';
 import type {
+  DomainGuildSettings,
   DomainResponse,
   DomainSchedule,
+  DomainScheduleRecurrence,
   DomainScheduleSummary,
+  DomainScheduleTemplate,
+  DomainUserSettings,
 } from '../../src/domain/types/DomainTypes';
 
 export class MockScheduleRepository implements IScheduleRepository {
@@ -55,8 +62,10 @@ export class MockScheduleRepository implements IScheduleRepository {
     );
   }
 
-  async countByGuild(guildId: string): Promise<number> {
-    return Array.from(this.schedules.values()).filter((s) => s.guildId === guildId).length;
+  async countByGuild(guildId: string, status?: DomainSchedule['status']): Promise<number> {
+    return Array.from(this.schedules.values()).filter(
+      (s) => s.guildId === guildId && (!status || s.status === status)
+    ).length;
   }
 
   async updateReminders(params: {
@@ -197,13 +206,121 @@ export class MockResponseRepository implements IResponseRepository {
   }
 }
 
+export class MockGuildSettingsRepository implements IGuildSettingsRepository {
+  private guildSettings: Map<string, DomainGuildSettings> = new Map();
+  private userSettings: Map<string, DomainUserSettings> = new Map();
+
+  async findByGuildId(guildId: string): Promise<DomainGuildSettings | null> {
+    return this.guildSettings.get(guildId) || null;
+  }
+
+  async save(settings: DomainGuildSettings): Promise<void> {
+    this.guildSettings.set(settings.guildId, settings);
+  }
+
+  async findUserSettings(guildId: string, userId: string): Promise<DomainUserSettings | null> {
+    return this.userSettings.get(`${guildId}:${userId}`) || null;
+  }
+
+  async saveUserSettings(settings: DomainUserSettings): Promise<void> {
+    this.userSettings.set(`${settings.guildId}:${settings.userId}`, settings);
+  }
+
+  // テスト用ヘルパーメソッド
+  clear() {
+    this.guildSettings.clear();
+    this.userSettings.clear();
+  }
+}
+
+export class MockScheduleTemplateRepository implements IScheduleTemplateRepository {
+  private templates: Map<string, DomainScheduleTemplate> = new Map();
+
+  async findByGuild(guildId: string): Promise<DomainScheduleTemplate[]> {
+    return Array.from(this.templates.values())
+      .filter((template) => template.guildId === guildId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findById(templateId: string, guildId: string): Promise<DomainScheduleTemplate | null> {
+    const template = this.templates.get(templateId);
+    return template && template.guildId === guildId ? template : null;
+  }
+
+  async findByName(guildId: string, name: string): Promise<DomainScheduleTemplate | null> {
+    return (
+      Array.from(this.templates.values()).find(
+        (template) => template.guildId === guildId && template.name === name
+      ) || null
+    );
+  }
+
+  async save(template: DomainScheduleTemplate): Promise<void> {
+    this.templates.set(template.id, template);
+  }
+
+  async delete(templateId: string, guildId: string): Promise<void> {
+    if (this.templates.get(templateId)?.guildId === guildId) {
+      this.templates.delete(templateId);
+    }
+  }
+
+  // テスト用ヘルパーメソッド
+  clear() {
+    this.templates.clear();
+  }
+}
+
+export class MockScheduleRecurrenceRepository implements IScheduleRecurrenceRepository {
+  private recurrences: Map<string, DomainScheduleRecurrence> = new Map();
+
+  async findByGuild(guildId: string): Promise<DomainScheduleRecurrence[]> {
+    return Array.from(this.recurrences.values())
+      .filter((recurrence) => recurrence.guildId === guildId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findById(recurrenceId: string, guildId: string): Promise<DomainScheduleRecurrence | null> {
+    const recurrence = this.recurrences.get(recurrenceId);
+    return recurrence && recurrence.guildId === guildId ? recurrence : null;
+  }
+
+  async findDue(now: Date, limit: number): Promise<DomainScheduleRecurrence[]> {
+    return Array.from(this.recurrences.values())
+      .filter((recurrence) => !recurrence.paused && recurrence.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())
+      .slice(0, limit);
+  }
+
+  async save(recurrence: DomainScheduleRecurrence): Promise<void> {
+    this.recurrences.set(recurrence.id, recurrence);
+  }
+
+  async delete(recurrenceId: string, guildId: string): Promise<void> {
+    if (this.recurrences.get(recurrenceId)?.guildId === guildId) {
+      this.recurrences.delete(recurrenceId);
+    }
+  }
+
+  // テスト用ヘルパーメソッド
+  clear() {
+    this.recurrences.clear();
+  }
+}
+
 export class MockRepositoryFactory implements IRepositoryFactory {
   private scheduleRepository: MockScheduleRepository;
   private responseRepository: MockResponseRepository;
+  private guildSettingsRepository: MockGuildSettingsRepository;
+  private scheduleTemplateRepository: MockScheduleTemplateRepository;
+  private scheduleRecurrenceRepository: MockScheduleRecurrenceRepository;
 
   constructor() {
     this.scheduleRepository = new MockScheduleRepository();
     this.responseRepository = new MockResponseRepository();
+    this.guildSettingsRepository = new MockGuildSettingsRepository();
+    this.scheduleTemplateRepository = new MockScheduleTemplateRepository();
+    this.scheduleRecurrenceRepository = new MockScheduleRecurrenceRepository();
   }
 
   getScheduleRepository(): IScheduleRepository {
@@ -214,6 +331,18 @@ export class MockRepositoryFactory implements IRepositoryFactory {
     return this.responseRepository;
   }
 
+  getGuildSettingsRepository(): IGuildSettingsRepository {
+    return this.guildSettingsRepository;
+  }
+
+  getScheduleTemplateRepository(): IScheduleTemplateRepository {
+    return this.scheduleTemplateRepository;
+  }
+
+  getScheduleRecurrenceRepository(): IScheduleRecurrenceRepository {
+    return this.scheduleRecurrenceRepository;
+  }
+
   async beginTransaction() {
     // モック実装 - テストでは実際のトランザクションは不要
     return {
@@ -226,6 +355,9 @@ export class MockRepositoryFactory implements IRepositoryFactory {
   clearAll() {
     this.scheduleRepository.clear();
     this.responseRepository.clear();
+    this.guildSettingsRepository.clear();
+    this.scheduleTemplateRepository.clear();
+    this.scheduleRecurrenceRepository.clear();
   }
 
   getScheduleRepositoryMock(): MockScheduleRepository {